@@ -0,0 +1,29 @@
+-- Migration 0002: verification links and codes
+-- Single-use signed verification links, and one pending 6-digit code per Telegram user
+
+
+-- Verification Tokens table (single-use signed verification links)
+CREATE TABLE IF NOT EXISTS verification_tokens (
+    jti TEXT PRIMARY KEY,
+    membership_number TEXT NOT NULL,
+    telegram_id TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Verification Sessions table (one pending 6-digit code per Telegram user)
+CREATE TABLE IF NOT EXISTS verification_sessions (
+    telegram_id TEXT PRIMARY KEY,
+    membership_number TEXT NOT NULL,
+    telegram_username TEXT,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    expires_at TEXT NOT NULL,
+    last_sent_at TEXT NOT NULL DEFAULT (datetime('now')),
+    locked_until TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_tokens_telegram_id ON verification_tokens(telegram_id);
+CREATE INDEX IF NOT EXISTS idx_verification_sessions_membership_number ON verification_sessions(membership_number);
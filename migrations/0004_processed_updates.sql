@@ -0,0 +1,11 @@
+-- Migration 0004: webhook update de-duplication
+
+
+-- Processed Updates table (Telegram update_ids already handled by the webhook)
+CREATE TABLE IF NOT EXISTS processed_updates (
+    update_id INTEGER PRIMARY KEY,
+    update_type TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_processed_updates_created_at ON processed_updates(created_at);
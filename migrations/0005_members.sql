@@ -0,0 +1,21 @@
+-- Migration 0005: D1 mirror of the member sheet
+
+
+-- Members table (mirror of the member Google Sheet, synced by the scheduler and POST /api/members/sync)
+CREATE TABLE IF NOT EXISTS members (
+    membership_number TEXT PRIMARY KEY,
+    ar_name TEXT,
+    latin_name TEXT,
+    whatsapp TEXT,
+    email TEXT,
+    sex TEXT,
+    phone TEXT,
+    telegram_id TEXT,
+    telegram_username TEXT,
+    sheet_row INTEGER NOT NULL, -- 1-based row in the member sheet at the last sync
+    synced_at TEXT, -- Timestamp of the last full sync that saw this member
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_members_email ON members(email);
+CREATE INDEX IF NOT EXISTS idx_members_telegram_id ON members(telegram_id);
@@ -0,0 +1,31 @@
+-- Migration 0006: admin approval queue for join requests
+-- Requests to join groups with needs_admin_approval, decided by the group admins from their DMs
+
+
+-- Join Requests table (one row per request, the admins' DMs are kept so they can be updated with the result)
+CREATE TABLE IF NOT EXISTS join_requests (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    chat_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    username TEXT,
+    first_name TEXT,
+    last_name TEXT,
+    membership_number TEXT, -- Verified membership number at the time of the request, if any
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, approved, declined, expired
+    decided_by TEXT, -- Telegram ID of the admin who approved or declined
+    decided_at TEXT,
+    expires_at TEXT NOT NULL,
+    admin_messages TEXT NOT NULL DEFAULT '[]', -- JSON array of { chat_id, message_id } sent to the admins
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_join_requests_chat_user ON join_requests(chat_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_join_requests_status_expires_at ON join_requests(status, expires_at);
+
+CREATE TRIGGER IF NOT EXISTS update_join_requests_updated_at 
+    AFTER UPDATE ON join_requests 
+    FOR EACH ROW 
+    BEGIN
+        UPDATE join_requests SET updated_at = datetime('now') WHERE id = NEW.id;
+    END;
@@ -0,0 +1,5 @@
+-- Migration 0007: sheet row of each task
+-- row_number counts the non-empty task rows, sheet_row is the actual row in the project tab,
+-- used to write status changes made from Telegram back to the task sheet
+
+ALTER TABLE tasks ADD COLUMN sheet_row INTEGER; -- 1-based row in the project tab, set by the next sheet check
@@ -0,0 +1,30 @@
+-- Migration 0008: due-date extension requests
+-- Owners ask for a later delivery date from the task notifications, the project manager approves or rejects it
+
+
+-- Task Extension Requests table (kept after the decision as the extension history of each task)
+CREATE TABLE IF NOT EXISTS task_extension_requests (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    task_id TEXT NOT NULL,
+    owner_telegram_id TEXT NOT NULL,
+    manager_telegram_id TEXT NOT NULL,
+    previous_due_date TEXT, -- Due date of the task when the request was made
+    requested_due_date TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, approved, rejected
+    decided_by TEXT, -- Telegram ID of the manager who decided
+    decided_at TEXT,
+    manager_message_id INTEGER, -- The manager's DM with the Approve/Reject buttons
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_extension_requests_task_id ON task_extension_requests(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_extension_requests_status ON task_extension_requests(status);
+
+CREATE TRIGGER IF NOT EXISTS update_task_extension_requests_updated_at 
+    AFTER UPDATE ON task_extension_requests 
+    FOR EACH ROW 
+    BEGIN
+        UPDATE task_extension_requests SET updated_at = datetime('now') WHERE id = NEW.id;
+    END;
@@ -0,0 +1,41 @@
+-- Migration 0009: archive of tasks deleted from the task sheets
+-- Tasks are matched by the ID written in the "Task ID" column of each project tab,
+-- a stored task whose row is gone from the sheet is moved here instead of being reused by another row
+
+
+-- Archived Tasks table (same columns as tasks, plus when and why the task left the sheet)
+CREATE TABLE IF NOT EXISTS archived_tasks (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_sent TEXT,
+    last_reported TEXT,
+    sheetID TEXT NOT NULL,
+    projectName TEXT NOT NULL,
+    pageID TEXT NOT NULL,
+    row_number INTEGER NOT NULL,
+    sheet_row INTEGER,
+    ownerID TEXT NOT NULL,
+    ownerName TEXT NOT NULL,
+    ownerEmail TEXT NOT NULL,
+    ownerPhone TEXT NOT NULL,
+    owner_telegram_id TEXT,
+    owner_telegram_username TEXT,
+    managerID TEXT,
+    managerName TEXT NOT NULL,
+    manager_telegram_id TEXT,
+    manager_telegram_username TEXT,
+    points TEXT NOT NULL,
+    status TEXT NOT NULL,
+    taskText TEXT NOT NULL,
+    priority TEXT NOT NULL,
+    dueDate TEXT,
+    completed_at TEXT,
+    blocked_at TEXT,
+    notes TEXT,
+    milestone TEXT NOT NULL DEFAULT '',
+    archived_at TEXT NOT NULL DEFAULT (datetime('now')),
+    archive_reason TEXT NOT NULL -- deleted_from_sheet
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_tasks_sheet ON archived_tasks(sheetID, projectName);
@@ -0,0 +1,5 @@
+-- Migration 0010: column mapping of task sheets
+-- Lets a registered sheet name the header of each task column instead of relying on the header guesses
+
+
+ALTER TABLE sheets ADD COLUMN column_mapping TEXT; -- JSON object { owner, task, status, ... : header name }, NULL to guess
@@ -0,0 +1,19 @@
+-- Migration 0011: task change history
+-- Field changes, notifications and archiving of tasks, written by the sheet check and the Telegram task actions
+
+
+-- Task Events table (append only; kept after a task is archived)
+CREATE TABLE IF NOT EXISTS task_events (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    task_id TEXT NOT NULL,
+    event_type TEXT NOT NULL, -- created, changed, notified, archived
+    field TEXT, -- Changed field, or the notification kind (new, reminder, late, date_changed, missing_data, shame)
+    old_value TEXT,
+    new_value TEXT, -- New value, or the recipient of a notification
+    source TEXT NOT NULL, -- sheet_sync, telegram, api
+    actor TEXT, -- Telegram ID of the user behind a Telegram change
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_events_task_id ON task_events(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_events_field ON task_events(field, created_at);
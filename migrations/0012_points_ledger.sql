@@ -0,0 +1,27 @@
+-- Migration 0012: points ledger
+-- Task points credited to their owners on completion, with penalties for late delivery, and the project of each group for the monthly leaderboard
+
+
+-- Points Ledger table (one completion and at most one penalty per task)
+CREATE TABLE IF NOT EXISTS points_ledger (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    task_id TEXT NOT NULL,
+    entry_type TEXT NOT NULL, -- completion, late_penalty
+    points INTEGER NOT NULL, -- Negative for penalties
+    membership_number TEXT NOT NULL, -- Task owner
+    member_name TEXT NOT NULL,
+    telegram_id TEXT,
+    sheet_id TEXT NOT NULL,
+    project_name TEXT NOT NULL,
+    period TEXT NOT NULL, -- YYYY-MM of the completion
+    reason TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (task_id, entry_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_ledger_period ON points_ledger(period);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_member ON points_ledger(membership_number, period);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_project ON points_ledger(project_name, period);
+
+-- Project whose monthly leaderboard is posted in the group
+ALTER TABLE groups ADD COLUMN project_name TEXT;
@@ -0,0 +1,20 @@
+-- Migration 0013: notification policies
+-- Reminder cadence, shaming, quiet days and escalation of the task notifications, per sheet or per project
+
+
+-- Notification Policies table (empty settings are inherited from the sheet policy, then from the defaults)
+CREATE TABLE IF NOT EXISTS notification_policies (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    sheet_id TEXT NOT NULL, -- Google Sheets ID of the task sheet
+    project_name TEXT NOT NULL DEFAULT '', -- Empty for the policy of the whole sheet
+    reminder_days TEXT, -- JSON array of days before the due date to remind on, [] to remind every day
+    late_reminder_hours INTEGER, -- Hours between the reminders of a late task
+    shame_enabled INTEGER, -- 0 or 1
+    shame_after_days INTEGER, -- Days late before the project members are told
+    quiet_weekdays TEXT, -- JSON array of weekdays without reminders (0 = Sunday)
+    holidays TEXT, -- JSON array of YYYY-MM-DD dates without reminders
+    escalate_after INTEGER, -- Late reminders before the manager is told, 0 to never escalate
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (sheet_id, project_name)
+);
@@ -0,0 +1,34 @@
+-- Migration 0014: outgoing message queue
+-- Telegram messages sent through the rate limited dispatcher, retried with backoff, with the final delivery status of each
+
+
+-- Outbox Messages table (one row per message and chat)
+CREATE TABLE IF NOT EXISTS outbox_messages (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    chat_id TEXT NOT NULL,
+    text TEXT NOT NULL,
+    parse_mode TEXT NOT NULL DEFAULT 'MarkdownV2',
+    reply_markup TEXT, -- JSON inline keyboard
+    category TEXT NOT NULL, -- broadcast, task, shame, member
+    reference_id TEXT, -- Broadcast or task the message belongs to
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL, -- Also pushed forward while a dispatcher is sending the message
+    last_error TEXT,
+    error_code TEXT,
+    telegram_message_id INTEGER,
+    sent_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_status_next_attempt ON outbox_messages(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_reference ON outbox_messages(reference_id);
+CREATE INDEX IF NOT EXISTS idx_outbox_messages_created_at ON outbox_messages(created_at);
+
+CREATE TRIGGER IF NOT EXISTS update_outbox_messages_updated_at 
+    AFTER UPDATE ON outbox_messages 
+    FOR EACH ROW 
+    BEGIN
+        UPDATE outbox_messages SET updated_at = datetime('now') WHERE id = NEW.id;
+    END;
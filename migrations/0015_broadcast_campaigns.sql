@@ -0,0 +1,47 @@
+-- Migration 0015: broadcast campaigns
+-- Messages to a segment of the members, sent now or at a scheduled time, with the delivery result of every recipient
+
+
+-- Broadcast Campaigns table
+CREATE TABLE IF NOT EXISTS broadcast_campaigns (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL, -- MarkdownV2 text, the caption when a photo is set
+    photo TEXT, -- Photo URL or Telegram file_id
+    boxes TEXT NOT NULL DEFAULT '[]', -- JSON array of { text, link } buttons
+    segment_type TEXT NOT NULL, -- verified, group, project, field
+    segment_field TEXT, -- Member sheet field of a field segment
+    segment_value TEXT, -- Group chat ID, project name or field value
+    author_member_id TEXT NOT NULL, -- Membership number of the author, who receives the test sends
+    status TEXT NOT NULL DEFAULT 'draft', -- draft, scheduled, sending, sent, cancelled
+    scheduled_at TEXT,
+    started_at TEXT,
+    completed_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_campaigns_status_scheduled_at ON broadcast_campaigns(status, scheduled_at);
+
+CREATE TRIGGER IF NOT EXISTS update_broadcast_campaigns_updated_at 
+    AFTER UPDATE ON broadcast_campaigns 
+    FOR EACH ROW 
+    BEGIN
+        UPDATE broadcast_campaigns SET updated_at = datetime('now') WHERE id = NEW.id;
+    END;
+
+-- Broadcast Recipients table (the members of the segment when the campaign started)
+CREATE TABLE IF NOT EXISTS broadcast_recipients (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    campaign_id TEXT NOT NULL,
+    member_id TEXT NOT NULL, -- Membership number
+    telegram_id TEXT,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, queued (left to the outbox), failed
+    error_code TEXT, -- Error code of sendMessageToMember (BOT_BLOCKED, NOT_STARTED, ...)
+    error TEXT,
+    sent_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE(campaign_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_broadcast_recipients_campaign_status ON broadcast_recipients(campaign_id, status);
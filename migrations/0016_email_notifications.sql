@@ -0,0 +1,16 @@
+-- Migration 0016: email fallback for task notifications
+-- Task notices emailed to owners who can't be reached on Telegram, kept to limit the emails per member per day
+
+
+-- Email Notifications table (one row per email sent)
+CREATE TABLE IF NOT EXISTS email_notifications (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    member_id TEXT NOT NULL, -- Membership number of the owner
+    email TEXT NOT NULL,
+    task_id TEXT,
+    kind TEXT NOT NULL, -- new, reminder, late
+    error_code TEXT, -- Why Telegram could not be used (NO_TELEGRAM_ID, BOT_BLOCKED, NOT_STARTED)
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_notifications_member_created_at ON email_notifications(member_id, created_at);
@@ -0,0 +1,26 @@
+-- Migration 0017: member preferences
+-- Notifications a member turned off, preferred language and quiet hours, set with /settings
+
+
+-- Member Preferences table (members without a row get the defaults)
+CREATE TABLE IF NOT EXISTS member_preferences (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    telegram_id TEXT NOT NULL UNIQUE,
+    task_reminders INTEGER NOT NULL DEFAULT 1, -- Reminders and late notices of own tasks
+    shame INTEGER NOT NULL DEFAULT 1, -- Late tasks of colleagues and "shame on you" messages from them
+    broadcasts INTEGER NOT NULL DEFAULT 1, -- Messages to all members and broadcast campaigns
+    group_summaries INTEGER NOT NULL DEFAULT 1, -- Activity reports of the managed projects
+    daily_digest INTEGER NOT NULL DEFAULT 1, -- Daily report of the managed projects
+    language TEXT NOT NULL DEFAULT 'ar', -- ar, en, tr
+    quiet_start INTEGER, -- Hour the quiet hours start at (Istanbul time), NULL for none
+    quiet_end INTEGER, -- Hour the quiet hours end at
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TRIGGER IF NOT EXISTS update_member_preferences_updated_at 
+    AFTER UPDATE ON member_preferences 
+    FOR EACH ROW 
+    BEGIN
+        UPDATE member_preferences SET updated_at = datetime('now') WHERE id = NEW.id;
+    END;
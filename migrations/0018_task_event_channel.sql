@@ -0,0 +1,5 @@
+-- Migration 0018: channel of task notifications
+-- The recipient of a notification is always a membership number (a chat ID for shame notifications),
+-- notices emailed instead of sent on Telegram are told apart by their channel
+
+ALTER TABLE task_events ADD COLUMN channel TEXT; -- NULL for Telegram, 'email' for emailed notices
@@ -0,0 +1,4 @@
+-- Migration 0019: claims on campaign recipients
+-- A batch claims its recipients before messaging them so overlapping batches never message the same member twice
+
+ALTER TABLE broadcast_recipients ADD COLUMN claimed_at TEXT; -- Set while a batch is sending to the recipient
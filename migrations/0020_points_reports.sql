@@ -0,0 +1,13 @@
+-- Migration 0020: monthly leaderboard posts
+-- The groups each monthly leaderboard was posted to, so a month is posted once per group and a missed run is caught up
+
+
+-- Points Reports table (one row per month, project and group)
+CREATE TABLE IF NOT EXISTS points_reports (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))),2) || '-' || substr('89ab',abs(random()) % 4 + 1, 1) || substr(lower(hex(randomblob(2))),2) || '-' || lower(hex(randomblob(6)))),
+    period TEXT NOT NULL, -- YYYY-MM of the leaderboard
+    project_name TEXT NOT NULL,
+    chat_id TEXT NOT NULL, -- Group the leaderboard was posted to
+    posted_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (period, project_name, chat_id)
+);
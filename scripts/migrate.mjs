@@ -0,0 +1,243 @@
+#!/usr/bin/env node
+// D1 migration runner
+//
+// Usage:
+//   node scripts/migrate.mjs apply  --local|--remote   Apply pending migrations in order
+//   node scripts/migrate.mjs status --local|--remote   Show applied and pending migrations
+//
+// Migrations are the numbered files in migrations/ (0001_initial_schema.sql, 0002_...).
+// Every applied migration is recorded in the schema_migrations table with a checksum of its file.
+// The runner refuses to apply anything when a pending migration is numbered below one that is already
+// applied, when an applied migration's file was changed or removed, or when two files share a number.
+//
+// Migrations 0001-0005 only use CREATE ... IF NOT EXISTS, so databases created from the old
+// d1_schema.sql are adopted by running `apply` once.
+
+import { spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const MIGRATIONS_DIR = join(ROOT, 'migrations');
+const DATABASE_BINDING = 'DB';
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Prefer the project's wrangler, fall back to a global install (as in the GitHub workflows)
+const LOCAL_WRANGLER = join(ROOT, 'node_modules', '.bin', process.platform === 'win32' ? 'wrangler.cmd' : 'wrangler');
+const WRANGLER = existsSync(LOCAL_WRANGLER) ? LOCAL_WRANGLER : 'wrangler';
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+);`;
+
+class MigrationError extends Error {}
+
+function fail(message) {
+  throw new MigrationError(message);
+}
+
+function sqlString(value) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Read the migration files in version order
+ */
+function readMigrations() {
+  const migrations = [];
+
+  for (const name of readdirSync(MIGRATIONS_DIR).sort()) {
+    if (!name.endsWith('.sql')) continue;
+
+    const match = name.match(MIGRATION_FILE_PATTERN);
+    if (!match) {
+      fail(`${name} is not a valid migration file name, expected something like 0006_add_column.sql`);
+    }
+
+    const sql = readFileSync(join(MIGRATIONS_DIR, name), 'utf8').replace(/\r\n/g, '\n');
+    migrations.push({
+      version: match[1],
+      name,
+      sql,
+      checksum: createHash('sha256').update(sql).digest('hex')
+    });
+  }
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      fail(`${migrations[i - 1].name} and ${migrations[i].name} have the same version number`);
+    }
+  }
+
+  return migrations;
+}
+
+/**
+ * Run wrangler d1 execute against the local or remote database
+ * @returns Parsed JSON output when json is true
+ */
+function wrangler(target, args, { json = false } = {}) {
+  const result = spawnSync(
+    WRANGLER,
+    ['d1', 'execute', DATABASE_BINDING, `--${target}`, '--yes', ...args, ...(json ? ['--json'] : [])],
+    {
+      cwd: ROOT,
+      encoding: 'utf8',
+      stdio: ['inherit', 'pipe', 'inherit'],
+      shell: process.platform === 'win32'
+    }
+  );
+
+  if (result.error) {
+    fail(`Could not run wrangler: ${result.error.message}`);
+  }
+
+  if (json) {
+    let output;
+    try {
+      output = JSON.parse(result.stdout);
+    } catch {
+      fail(`Unexpected wrangler output:\n${result.stdout}`);
+    }
+    if (result.status !== 0 || output.error) {
+      fail(`wrangler d1 execute failed: ${output.error?.text || result.stdout}`);
+    }
+    return output;
+  }
+
+  // Per-statement results are only worth showing when something went wrong
+  if (result.status !== 0) {
+    fail(`wrangler d1 execute exited with code ${result.status}\n${result.stdout}`);
+  }
+}
+
+function query(target, sql) {
+  const [result] = wrangler(target, ['--command', sql], { json: true });
+  return result?.results || [];
+}
+
+/**
+ * Get the applied migrations; an empty list when schema_migrations doesn't exist yet
+ */
+function getAppliedMigrations(target) {
+  const tables = query(target, `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`);
+  if (tables.length === 0) return [];
+
+  return query(target, 'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+}
+
+/**
+ * Compare the migration files with the applied migrations
+ * @returns The pending migrations and the problems that block applying them
+ */
+function plan(migrations, applied) {
+  const problems = [];
+  const filesByVersion = new Map(migrations.map(migration => [migration.version, migration]));
+  const appliedVersions = new Set(applied.map(row => row.version));
+  const latestApplied = applied.length > 0 ? applied[applied.length - 1].version : null;
+
+  for (const row of applied) {
+    const file = filesByVersion.get(row.version);
+    if (!file) {
+      problems.push(`${row.name} was applied but no longer exists in migrations/`);
+    } else if (file.checksum !== row.checksum) {
+      problems.push(`${file.name} was changed after it was applied, add a new migration instead`);
+    }
+  }
+
+  const pending = migrations.filter(migration => !appliedVersions.has(migration.version));
+
+  for (const migration of pending) {
+    if (latestApplied && migration.version < latestApplied) {
+      problems.push(`${migration.name} is numbered before the already applied ${latestApplied}, renumber it after the latest migration`);
+    }
+  }
+
+  return { pending, problems };
+}
+
+function printStatus(target, migrations, applied, problems) {
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+
+  console.log(`Migrations (${target} database):`);
+  for (const migration of migrations) {
+    const row = appliedByVersion.get(migration.version);
+    console.log(`  ${row ? `applied ${row.applied_at}` : 'pending            '}  ${migration.name}`);
+  }
+  for (const row of applied) {
+    if (!migrations.some(migration => migration.version === row.version)) {
+      console.log(`  applied ${row.applied_at}  ${row.name} (file missing)`);
+    }
+  }
+
+  for (const problem of problems) {
+    console.log(`  ! ${problem}`);
+  }
+}
+
+function apply(target, pending) {
+  if (pending.length === 0) {
+    console.log('No pending migrations.');
+    return;
+  }
+
+  const workDir = mkdtempSync(join(tmpdir(), 'd1-migrate-'));
+  try {
+    wrangler(target, ['--command', CREATE_MIGRATIONS_TABLE]);
+
+    for (const migration of pending) {
+      console.log(`Applying ${migration.name}...`);
+
+      // The version row is written in the same file, so a migration that fails part-way is not recorded
+      const file = join(workDir, migration.name);
+      writeFileSync(file, `${migration.sql.trimEnd()}\n\nINSERT INTO schema_migrations (version, name, checksum) VALUES (${sqlString(migration.version)}, ${sqlString(migration.name)}, ${sqlString(migration.checksum)});\n`);
+      wrangler(target, ['--file', file]);
+    }
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+
+  console.log(`Applied ${pending.length} migration${pending.length === 1 ? '' : 's'}.`);
+}
+
+function main() {
+  const [command, ...flags] = process.argv.slice(2);
+  const targets = ['local', 'remote'].filter(target => flags.includes(`--${target}`));
+
+  if (!['apply', 'status'].includes(command) || targets.length !== 1) {
+    console.error('Usage: node scripts/migrate.mjs <apply|status> <--local|--remote>');
+    process.exit(1);
+  }
+
+  const [target] = targets;
+  const migrations = readMigrations();
+  const applied = getAppliedMigrations(target);
+  const { pending, problems } = plan(migrations, applied);
+
+  if (command === 'status') {
+    printStatus(target, migrations, applied, problems);
+    process.exit(problems.length > 0 ? 1 : 0);
+  }
+
+  if (problems.length > 0) {
+    fail(`Refusing to apply migrations:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  apply(target, pending);
+}
+
+try {
+  main();
+} catch (error) {
+  if (error instanceof MigrationError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -677,6 +677,54 @@ export class AllMessagesGroupsCrud extends BaseCrud<AllMessagesGroups> {
     }
   }
 
+  /**
+   * Get the latest join request of every user who has not become a member of the group since
+   * @param chatId The group's chat ID
+   * @param limit Number of requests to retrieve
+   */
+  async getPendingJoinRequests(
+    chatId: string,
+    limit: number = 20
+  ): Promise<Array<{
+    user_id: string;
+    message: any;
+    created_at: string;
+  }>> {
+    try {
+      const query = `
+        SELECT r.user_id, r.message_json, r.created_at
+        FROM ${this.tableName} r
+        WHERE r.chat_id = ?
+          AND json_extract(r.message_json, '$.message_type') = 'chat_join_request'
+          AND r.created_at = (
+            SELECT MAX(created_at) FROM ${this.tableName}
+            WHERE chat_id = r.chat_id AND user_id = r.user_id
+              AND json_extract(message_json, '$.message_type') = 'chat_join_request'
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM group_members m
+            WHERE m.chat_id = r.chat_id AND m.user_id = r.user_id
+              AND m.status IN ('member', 'administrator', 'creator', 'restricted')
+          )
+        GROUP BY r.user_id
+        ORDER BY r.created_at ASC
+        LIMIT ?
+      `;
+      const result = await this.db.prepare(query).bind(chatId, limit).all<{ user_id: string; message_json: string; created_at: string }>();
+
+      if (!result.success) return [];
+
+      return result.results.map(result => ({
+        user_id: result.user_id,
+        message: JSON.parse(result.message_json),
+        created_at: result.created_at
+      }));
+    } catch (error) {
+      console.error('Error getting pending join requests:', error);
+      return [];
+    }
+  }
+
   /**
    * Get messages by user_id across all groups with pagination
    * @param userId The user's telegram ID
@@ -0,0 +1,123 @@
+import { BaseCrud, DatabaseConnection } from './base';
+import { ApiKey, ApiKeyModel, ApiKeyScope, ApiKeyWithScopes } from '../models/api-keys';
+
+export class ApiKeysCrud extends BaseCrud<ApiKey> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'api_keys');
+  }
+
+  /**
+   * Hash an API key for storage and lookup
+   * Keys are long random strings, so a plain SHA-256 digest is enough
+   */
+  static async hashKey(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Generate and store a new API key
+   * The plain key is returned once and never stored
+   * @param name Label of the key (who or what uses it)
+   * @param scopes Scopes granted to the key
+   */
+  async createKey(
+    name: string,
+    scopes: ApiKeyScope[]
+  ): Promise<{ success: boolean; id?: string; key?: string; error?: string }> {
+    try {
+      const randomBytes = crypto.getRandomValues(new Uint8Array(32));
+      const key = 'tmb_' + Array.from(randomBytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+      const data: ApiKeyModel = {
+        name,
+        key_hash: await ApiKeysCrud.hashKey(key),
+        key_prefix: key.slice(0, 12),
+        scopes: JSON.stringify(scopes)
+      };
+
+      const result = await this.create(data as Omit<ApiKey, 'id'>);
+      return result.success ? { success: true, id: result.id, key } : result;
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Find an active (not revoked) key by its plain value
+   * @param key The plain API key from the request
+   */
+  async getActiveKey(key: string): Promise<ApiKeyWithScopes | null> {
+    try {
+      const keyHash = await ApiKeysCrud.hashKey(key);
+      const query = `SELECT * FROM ${this.tableName} WHERE key_hash = ? AND revoked_at IS NULL`;
+      const result = await this.db.prepare(query).bind(keyHash).first<ApiKey>();
+      return result ? this.parseKey(result) : null;
+    } catch (error) {
+      console.error('Error getting API key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List all keys (without hashes), newest first
+   */
+  async listKeys(): Promise<ApiKeyWithScopes[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} ORDER BY created_at DESC`;
+      const result = await this.db.prepare(query).bind().all<ApiKey>();
+      return result.results.map(key => this.parseKey(key));
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Revoke a key so it can no longer be used
+   * @param id Key ID
+   */
+  async revokeKey(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const query = `UPDATE ${this.tableName} SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL`;
+      const result = await this.db.prepare(query).bind(id).run();
+
+      if (result.success && result.meta?.changes === 0) {
+        return { success: false, error: 'API key not found or already revoked' };
+      }
+
+      return { success: result.success, error: result.error };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Record when a key was last used
+   * @param id Key ID
+   */
+  async touchLastUsed(id: string): Promise<void> {
+    try {
+      const query = `UPDATE ${this.tableName} SET last_used_at = datetime('now') WHERE id = ?`;
+      await this.db.prepare(query).bind(id).run();
+    } catch (error) {
+      console.error('Error updating API key last use:', error);
+    }
+  }
+
+  private parseKey(key: ApiKey): ApiKeyWithScopes {
+    const { key_hash, scopes, ...rest } = key;
+    return {
+      ...rest,
+      scopes: JSON.parse(scopes || '[]')
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { BaseCrud, DatabaseConnection } from './base';
+import { BroadcastCampaign, BroadcastCampaignModel, CampaignStatus } from '../models/broadcast-campaigns';
+
+export class BroadcastCampaignsCrud extends BaseCrud<BroadcastCampaign> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'broadcast_campaigns');
+  }
+
+  /**
+   * Store a new campaign, scheduled when it has a send time
+   * @param campaignData The campaign data
+   */
+  async createCampaign(campaignData: BroadcastCampaignModel): Promise<{ success: boolean; id?: string; error?: string }> {
+    try {
+      return await this.create({
+        title: campaignData.title,
+        message: campaignData.message,
+        photo: campaignData.photo || null,
+        boxes: campaignData.boxes || '[]',
+        segment_type: campaignData.segment_type,
+        segment_field: campaignData.segment_field || null,
+        segment_value: campaignData.segment_value || null,
+        author_member_id: campaignData.author_member_id,
+        status: campaignData.status || (campaignData.scheduled_at ? 'scheduled' : 'draft'),
+        scheduled_at: campaignData.scheduled_at || null
+      } as Omit<BroadcastCampaign, 'id'>);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get campaigns, newest first
+   * @param status Optional status to filter by
+   */
+  async getCampaigns(status?: CampaignStatus, limit: number = 50, offset: number = 0): Promise<BroadcastCampaign[]> {
+    try {
+      const where = status ? 'WHERE status = ?' : '';
+      const params = status ? [status] : [];
+      const query = `SELECT * FROM ${this.tableName} ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`;
+      const result = await this.db.prepare(query).bind(...params, limit, offset).all<BroadcastCampaign>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting broadcast campaigns:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get scheduled campaigns whose send time has passed, and campaigns still sending
+   * @param now Current time as ISO string
+   */
+  async getCampaignsToSend(now: string = new Date().toISOString()): Promise<BroadcastCampaign[]> {
+    try {
+      const query = `
+        SELECT * FROM ${this.tableName}
+        WHERE (status = 'scheduled' AND scheduled_at <= ?) OR status = 'sending'
+        ORDER BY scheduled_at ASC, created_at ASC
+      `;
+      const result = await this.db.prepare(query).bind(now).all<BroadcastCampaign>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting campaigns to send:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Move a campaign to another status, only from one of the given statuses
+   * So a campaign is started once even when the cron and an admin start it at the same time
+   * @returns Whether the campaign was in one of the given statuses
+   */
+  async updateStatus(
+    id: string,
+    from: CampaignStatus[],
+    to: CampaignStatus,
+    extra: Partial<Pick<BroadcastCampaign, 'started_at' | 'completed_at' | 'scheduled_at'>> = {}
+  ): Promise<boolean> {
+    try {
+      const fields = Object.keys(extra);
+      const setClause = ['status = ?', ...fields.map(field => `${field} = ?`)].join(', ');
+      const query = `UPDATE ${this.tableName} SET ${setClause} WHERE id = ? AND status IN (${from.map(() => '?').join(', ')})`;
+      const result = await this.db.prepare(query).bind(to, ...Object.values(extra), id, ...from).run();
+      return result.success && result.meta?.changes === 1;
+    } catch (error) {
+      console.error('Error updating campaign status:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { BaseCrud, DatabaseConnection } from './base';
+import { BroadcastRecipient, BroadcastRecipientStatus } from '../models/broadcast-campaigns';
+import { OutboxStatus } from '../models/outbox';
+
+// A recipient with the outbox status of its message, for recipients left to the outbox
+export type BroadcastRecipientDelivery = Pick<BroadcastRecipient, 'status' | 'error_code'> & {
+  outbox_status: OutboxStatus | null;
+  outbox_error_code: string | null;
+};
+
+export class BroadcastRecipientsCrud extends BaseCrud<BroadcastRecipient> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'broadcast_recipients');
+  }
+
+  /**
+   * Store the recipients of a campaign, skipping members already stored
+   * @returns Number of recipients added
+   */
+  async addRecipients(campaignId: string, recipients: Array<{ member_id: string; telegram_id: string | null }>): Promise<number> {
+    let added = 0;
+
+    for (const recipient of recipients) {
+      try {
+        const query = `
+          INSERT INTO ${this.tableName} (id, campaign_id, member_id, telegram_id, status)
+          VALUES (?, ?, ?, ?, 'pending')
+          ON CONFLICT(campaign_id, member_id) DO NOTHING
+        `;
+        const result = await this.db.prepare(query).bind(crypto.randomUUID(), campaignId, recipient.member_id, recipient.telegram_id).run();
+        if (result.success && result.meta?.changes === 1) {
+          added++;
+        }
+      } catch (error) {
+        console.error(`Error adding recipient ${recipient.member_id} to campaign ${campaignId}:`, error);
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Claim the next recipients the campaign was not sent to yet, so no other batch sends to them
+   * Recipients claimed before staleBefore are claimed again, their batch never finished
+   * @param limit Number of recipients to claim
+   */
+  async claimPendingRecipients(campaignId: string, limit: number, staleBefore: string): Promise<BroadcastRecipient[]> {
+    try {
+      const claimable = `(status = 'pending' OR (status = 'sending' AND claimed_at < ?))`;
+      const query = `
+        UPDATE ${this.tableName} SET status = 'sending', claimed_at = ?
+        WHERE id IN (
+          SELECT id FROM ${this.tableName} WHERE campaign_id = ? AND ${claimable} ORDER BY created_at ASC LIMIT ?
+        ) AND ${claimable}
+        RETURNING *
+      `;
+      const result = await this.db.prepare(query)
+        .bind(new Date().toISOString(), campaignId, staleBefore, limit, staleBefore)
+        .all<BroadcastRecipient>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error claiming pending campaign recipients:', error);
+      return [];
+    }
+  }
+
+  // Whether some recipients are still waiting for or being sent the campaign message
+  async hasUnsentRecipients(campaignId: string): Promise<boolean> {
+    try {
+      const query = `SELECT 1 FROM ${this.tableName} WHERE campaign_id = ? AND status IN ('pending', 'sending') LIMIT 1`;
+      return (await this.db.prepare(query).bind(campaignId).first()) !== null;
+    } catch (error) {
+      console.error('Error checking unsent campaign recipients:', error);
+      return true;
+    }
+  }
+
+  // Record what happened to the campaign message of a recipient
+  async recordResult(
+    id: string,
+    status: BroadcastRecipientStatus,
+    errorCode?: string,
+    error?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, {
+      status,
+      error_code: errorCode || null,
+      error: error || null,
+      sent_at: status === 'failed' ? null : new Date().toISOString()
+    });
+  }
+
+  /**
+   * Get the delivery of every recipient of a campaign
+   * Messages left to the outbox take their final status from it
+   */
+  async getDeliveries(campaignId: string): Promise<BroadcastRecipientDelivery[]> {
+    try {
+      const query = `
+        SELECT r.status, r.error_code, o.status as outbox_status, o.error_code as outbox_error_code
+        FROM ${this.tableName} r
+        LEFT JOIN outbox_messages o
+          ON r.status = 'queued' AND o.category = 'broadcast' AND o.reference_id = r.campaign_id AND o.chat_id = r.telegram_id
+        WHERE r.campaign_id = ?
+      `;
+      const result = await this.db.prepare(query).bind(campaignId).all<BroadcastRecipientDelivery>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting campaign deliveries:', error);
+      return [];
+    }
+  }
+
+  // Remove the recipients of a campaign
+  async deleteByCampaign(campaignId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const query = `DELETE FROM ${this.tableName} WHERE campaign_id = ?`;
+      const result = await this.db.prepare(query).bind(campaignId).run();
+      return { success: result.success, error: result.error };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
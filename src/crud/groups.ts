@@ -197,6 +197,53 @@ export class GroupsCrud extends BaseCrud<Group> {
     return await this.update(id, { is_active: isActive ? 1 : 0 });
   }
 
+  /**
+   * Update whether joining a group needs admin approval
+   * @param id Group ID
+   * @param needsApproval Whether join requests need admin approval
+   */
+  async setNeedsAdminApproval(
+    id: string,
+    needsApproval: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, { needs_admin_approval: needsApproval ? 1 : 0 });
+  }
+
+  /**
+   * Set the project whose monthly leaderboard is posted in a group
+   * @param id Group ID
+   * @param projectName Project name as in the task sheets, or null to stop the posts
+   */
+  async setProjectName(
+    id: string,
+    projectName: string | null
+  ): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, { project_name: projectName });
+  }
+
+  /**
+   * Get the active groups of a project
+   * @param projectName Project name as in the task sheets
+   */
+  async getGroupsByProject(projectName: string): Promise<GroupWithAdmins[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE is_active = 1 AND project_name = ? ORDER BY created_at DESC`;
+      const result = await this.db.prepare(query).bind(projectName).all<Group>();
+      
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch project groups');
+      }
+      
+      return result.results.map(group => ({
+        ...group,
+        admins: JSON.parse(group.admins || '[]')
+      }));
+    } catch (error) {
+      console.error('Error getting groups by project:', error);
+      return [];
+    }
+  }
+
   /**
    * Add or update admins for a group
    * @param id Group ID
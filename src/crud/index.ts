@@ -3,10 +3,23 @@ export { BaseCrud, DatabaseConnection } from './base';
 export { ActivityCrud } from './task-follower/activity';
 export { SheetCrud } from './task-follower/sheet';
 export { TaskCrud } from './task-follower/task';
+export { ExtensionRequestsCrud } from './task-follower/extension-request';
+export { TaskEventsCrud } from './task-follower/task-event';
+export { PointsLedgerCrud } from './task-follower/points';
+export { PointsReportsCrud } from './task-follower/points-report';
+export { NotificationPolicyCrud } from './task-follower/notification-policy';
+export { EmailNotificationsCrud } from './task-follower/email-notification';
 export { AllMessagesPrivateCrud } from './all-messages-private';
 export { AllMessagesGroupsCrud } from './all-messages-groups';
 export { GroupsCrud } from './groups';
 export { GroupMembersCrud } from './group-members';
+export { ApiKeysCrud } from './api-keys';
+export { ProcessedUpdatesCrud } from './processed-updates';
+export { JoinRequestsCrud } from './join-requests';
+export { OutboxCrud } from './outbox';
+export { BroadcastCampaignsCrud } from './broadcast-campaigns';
+export { BroadcastRecipientsCrud } from './broadcast-recipients';
+export { MemberPreferencesCrud } from './member-preferences';
 
 // Combined CRUD manager class
 import { ActivityCrud } from './task-follower/activity';
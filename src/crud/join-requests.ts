@@ -0,0 +1,125 @@
+import { BaseCrud, DatabaseConnection } from './base';
+import { JoinRequest, JoinRequestModel, JoinRequestStatus, JoinRequestAdminMessage } from '../models/join-requests';
+
+export class JoinRequestsCrud extends BaseCrud<JoinRequest> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'join_requests');
+  }
+
+  /**
+   * Store a new pending join request
+   * @param requestData The join request data
+   */
+  async createRequest(requestData: JoinRequestModel): Promise<{ success: boolean; id?: string; error?: string }> {
+    try {
+      return await this.create({
+        ...requestData,
+        status: requestData.status || 'pending',
+        admin_messages: requestData.admin_messages || '[]'
+      } as Omit<JoinRequest, 'id'>);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the pending request of a user for a group, if any
+   * @param chatId Telegram chat ID
+   * @param userId Telegram user ID
+   */
+  async getPendingRequest(chatId: string, userId: string): Promise<JoinRequest | null> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE chat_id = ? AND user_id = ? AND status = 'pending' ORDER BY created_at DESC LIMIT 1`;
+      return await this.db.prepare(query).bind(chatId, userId).first<JoinRequest>();
+    } catch (error) {
+      console.error('Error getting pending join request:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the pending requests of a group, oldest first
+   * @param chatId Telegram chat ID
+   * @param limit Number of requests to retrieve
+   */
+  async getPendingRequestsByChat(chatId: string, limit: number = 20): Promise<JoinRequest[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE chat_id = ? AND status = 'pending' ORDER BY created_at ASC LIMIT ?`;
+      const result = await this.db.prepare(query).bind(chatId, limit).all<JoinRequest>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting pending join requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get pending requests whose expiry time has passed
+   * @param now Current time as ISO string
+   */
+  async getExpiredRequests(now: string = new Date().toISOString()): Promise<JoinRequest[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE status = 'pending' AND expires_at <= ? ORDER BY expires_at ASC`;
+      const result = await this.db.prepare(query).bind(now).all<JoinRequest>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting expired join requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the decision on a pending request
+   * Only a pending request can be decided, so two admins answering at once can't both win
+   * @param id Join request ID
+   * @param status The new status
+   * @param decidedBy Telegram ID of the admin, null when the request expired
+   * @returns Whether the request was still pending
+   */
+  async decideRequest(
+    id: string,
+    status: Exclude<JoinRequestStatus, 'pending'>,
+    decidedBy: string | null
+  ): Promise<boolean> {
+    try {
+      const query = `
+        UPDATE ${this.tableName}
+        SET status = ?, decided_by = ?, decided_at = ?
+        WHERE id = ? AND status = 'pending'
+      `;
+      const result = await this.db.prepare(query).bind(status, decidedBy, new Date().toISOString(), id).run();
+      return result.success && result.meta?.changes !== 0;
+    } catch (error) {
+      console.error('Error deciding join request:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the DMs sent to the admins about a request
+   * @param id Join request ID
+   * @param messages The sent messages
+   */
+  async setAdminMessages(
+    id: string,
+    messages: JoinRequestAdminMessage[]
+  ): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, { admin_messages: JSON.stringify(messages) });
+  }
+
+  /**
+   * Parse the admin_messages column of a request
+   * @param request The join request
+   */
+  getAdminMessages(request: JoinRequest): JoinRequestAdminMessage[] {
+    try {
+      return JSON.parse(request.admin_messages || '[]');
+    } catch (error) {
+      console.error('Error parsing join request admin messages:', error);
+      return [];
+    }
+  }
+}
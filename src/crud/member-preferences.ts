@@ -0,0 +1,90 @@
+import { BaseCrud, DatabaseConnection } from './base';
+import {
+  DEFAULT_MEMBER_PREFERENCES,
+  MemberPreferences,
+  MemberPreferenceSettings,
+  PreferredLanguage,
+  PREFERRED_LANGUAGES
+} from '../models/member-preferences';
+
+export class MemberPreferencesCrud extends BaseCrud<MemberPreferences> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'member_preferences');
+  }
+
+  // Get the stored preferences of a Telegram user
+  async getByTelegramId(telegramId: string): Promise<MemberPreferences | null> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE telegram_id = ?`;
+      const result = await this.db.prepare(query).bind(telegramId).first<MemberPreferences>();
+      return result || null;
+    } catch (error) {
+      console.error('Error getting member preferences:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the preferences of a Telegram user, with the defaults for what they never set
+   * @param defaultLanguage Language of a user without stored preferences, e.g. the one of their Telegram app
+   */
+  async getSettings(telegramId: string, defaultLanguage?: PreferredLanguage | null): Promise<MemberPreferenceSettings> {
+    const stored = await this.getByTelegramId(telegramId);
+    if (stored) {
+      return this.parseSettings(stored);
+    }
+    return { ...DEFAULT_MEMBER_PREFERENCES, language: defaultLanguage || DEFAULT_MEMBER_PREFERENCES.language };
+  }
+
+  /**
+   * Get the preferences of everyone who changed them, by Telegram ID
+   * Used by the bulk sends, the others get the defaults
+   */
+  async getAllSettings(): Promise<Map<string, MemberPreferenceSettings>> {
+    try {
+      const query = `SELECT * FROM ${this.tableName}`;
+      const result = await this.db.prepare(query).bind().all<MemberPreferences>();
+      const rows = result.success ? result.results : [];
+      return new Map(rows.map(row => [row.telegram_id, this.parseSettings(row)]));
+    } catch (error) {
+      console.error('Error getting all member preferences:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Store the preferences of a Telegram user
+   */
+  async setSettings(telegramId: string, settings: MemberPreferenceSettings): Promise<{ success: boolean; error?: string }> {
+    const columns = {
+      task_reminders: settings.task_reminders ? 1 : 0,
+      shame: settings.shame ? 1 : 0,
+      broadcasts: settings.broadcasts ? 1 : 0,
+      group_summaries: settings.group_summaries ? 1 : 0,
+      daily_digest: settings.daily_digest ? 1 : 0,
+      language: settings.language,
+      quiet_start: settings.quiet_hours?.start ?? null,
+      quiet_end: settings.quiet_hours?.end ?? null
+    };
+
+    const existing = await this.getByTelegramId(telegramId);
+    if (existing) {
+      return await this.update(existing.id, columns);
+    }
+    return await this.create({ telegram_id: telegramId, ...columns } as Omit<MemberPreferences, 'id'>);
+  }
+
+  parseSettings(preferences: MemberPreferences): MemberPreferenceSettings {
+    return {
+      task_reminders: !!preferences.task_reminders,
+      shame: !!preferences.shame,
+      broadcasts: !!preferences.broadcasts,
+      group_summaries: !!preferences.group_summaries,
+      daily_digest: !!preferences.daily_digest,
+      language: PREFERRED_LANGUAGES.includes(preferences.language) ? preferences.language : DEFAULT_MEMBER_PREFERENCES.language,
+      quiet_hours: preferences.quiet_start != null && preferences.quiet_end != null
+        ? { start: preferences.quiet_start, end: preferences.quiet_end }
+        : null
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { Environment } from '../../types';
+import { Member, StoredMember } from '../../types/membership-manager';
+import { D1DatabaseConnection } from '../database';
+
+// Columns mirrored from the member sheet (the password column is deliberately not copied)
+const MEMBER_COLUMNS = [
+  'membership_number',
+  'ar_name',
+  'latin_name',
+  'whatsapp',
+  'email',
+  'sex',
+  'phone',
+  'telegram_id',
+  'telegram_username'
+] as const;
+
+// D1 allows at most 100 bound parameters per statement
+const UPSERT_BATCH_SIZE = 8;
+
+export class MembersMirrorService {
+  private db: D1DatabaseConnection;
+
+  constructor(env: Environment) {
+    this.db = new D1DatabaseConnection(env.DB);
+  }
+
+  /**
+   * Get all mirrored members in sheet order
+   */
+  async getMembers(): Promise<Member[]> {
+    try {
+      const query = `SELECT * FROM members ORDER BY sheet_row ASC`;
+      const result = await this.db.prepare(query).bind().all<StoredMember>();
+      return result.results.map(member => this.toMember(member));
+    } catch (error) {
+      console.error('Error getting mirrored members:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether a full sync from the sheet has completed at least once
+   */
+  async hasCompletedSync(): Promise<boolean> {
+    try {
+      const query = `SELECT 1 AS synced FROM members WHERE synced_at IS NOT NULL LIMIT 1`;
+      const result = await this.db.prepare(query).bind().first<{ synced: number }>();
+      return !!result;
+    } catch (error) {
+      console.error('Error checking members sync state:', error);
+      return false;
+    }
+  }
+
+  async getMemberByMembershipNumber(membershipNumber: string): Promise<Member | null> {
+    return this.getMemberBy('membership_number', membershipNumber);
+  }
+
+  async getMemberByEmail(email: string): Promise<Member | null> {
+    return this.getMemberBy('email', email);
+  }
+
+  async getMemberByTelegramId(telegramId: string): Promise<Member | null> {
+    return this.getMemberBy('telegram_id', telegramId);
+  }
+
+  /**
+   * Insert or update members read from the sheet
+   * @param members Members with their 1-based sheet row
+   * @param syncedAt Timestamp of the full sync run, or null for single members written outside a sync
+   */
+  async upsertMembers(members: Array<Member & { sheet_row: number }>, syncedAt: string | null): Promise<boolean> {
+    try {
+      for (let i = 0; i < members.length; i += UPSERT_BATCH_SIZE) {
+        const batch = members.slice(i, i + UPSERT_BATCH_SIZE);
+        const rowPlaceholders = `(${[...MEMBER_COLUMNS, 'sheet_row', 'synced_at'].map(() => '?').join(', ')})`;
+
+        const query = `
+          INSERT INTO members (${MEMBER_COLUMNS.join(', ')}, sheet_row, synced_at)
+          VALUES ${batch.map(() => rowPlaceholders).join(', ')}
+          ON CONFLICT(membership_number) DO UPDATE SET
+            ${[...MEMBER_COLUMNS.slice(1), 'sheet_row'].map(column => `${column} = excluded.${column}`).join(',\n            ')},
+            synced_at = COALESCE(excluded.synced_at, members.synced_at),
+            updated_at = datetime('now')
+        `;
+
+        const params = batch.flatMap(member => [
+          ...MEMBER_COLUMNS.map(column => member[column] || null),
+          member.sheet_row,
+          syncedAt
+        ]);
+
+        const result = await this.db.prepare(query).bind(...params).run();
+        if (!result.success) {
+          console.error('Error upserting mirrored members:', result.error);
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.error('Error upserting mirrored members:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete members that were not seen in the given sync run (removed from the sheet)
+   * @param syncedAt Timestamp of the sync run
+   */
+  async deleteMembersNotSyncedAt(syncedAt: string): Promise<number> {
+    try {
+      // Every member still in the sheet was just stamped with syncedAt
+      const query = `DELETE FROM members WHERE synced_at IS NULL OR synced_at <> ?`;
+      const result = await this.db.prepare(query).bind(syncedAt).run();
+      return result.meta?.changes || 0;
+    } catch (error) {
+      console.error('Error deleting removed members:', error);
+      return 0;
+    }
+  }
+
+  private async getMemberBy(column: 'membership_number' | 'email' | 'telegram_id', value: string): Promise<Member | null> {
+    if (!value) return null;
+
+    try {
+      const query = `SELECT * FROM members WHERE ${column} = ? LIMIT 1`;
+      const result = await this.db.prepare(query).bind(value).first<StoredMember>();
+      return result ? this.toMember(result) : null;
+    } catch (error) {
+      console.error(`Error getting mirrored member by ${column}:`, error);
+      return null;
+    }
+  }
+
+  private toMember(stored: StoredMember): Member {
+    return {
+      membership_number: stored.membership_number,
+      ar_name: stored.ar_name || '',
+      latin_name: stored.latin_name || '',
+      whatsapp: stored.whatsapp || '',
+      email: stored.email || '',
+      sex: stored.sex || '',
+      password: '',
+      phone: stored.phone || '',
+      telegram_id: stored.telegram_id || '',
+      telegram_username: stored.telegram_username || ''
+    };
+  }
+}
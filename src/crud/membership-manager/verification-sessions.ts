@@ -0,0 +1,160 @@
+import { Environment, VerificationSession } from '../../types';
+import { D1DatabaseConnection } from '../database';
+
+// Verification code rules
+export const VERIFICATION_CODE_TTL_MINUTES = 10;
+export const VERIFICATION_MAX_ATTEMPTS = 5;
+export const VERIFICATION_LOCKOUT_MINUTES = 30;
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+export class VerificationSessionService {
+  private db: D1DatabaseConnection;
+
+  constructor(env: Environment) {
+    this.db = new D1DatabaseConnection(env.DB);
+  }
+
+  /**
+   * Get the verification session of a Telegram user (including expired or locked ones)
+   */
+  async getSession(telegramId: string): Promise<VerificationSession | null> {
+    try {
+      const query = `SELECT * FROM verification_sessions WHERE telegram_id = ?`;
+      return await this.db.prepare(query).bind(telegramId).first<VerificationSession>();
+    } catch (error) {
+      console.error('Error getting verification session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start a new session after a code was emailed
+   * Resets the attempt counter but keeps an active lockout in place
+   */
+  async startSession(
+    telegramId: string,
+    membershipNumber: string,
+    telegramUsername: string,
+    codeHash: string
+  ): Promise<boolean> {
+    try {
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + VERIFICATION_CODE_TTL_MINUTES * 60 * 1000);
+
+      const query = `
+        INSERT INTO verification_sessions (telegram_id, membership_number, telegram_username, code_hash, attempts, created_at, expires_at, last_sent_at, locked_until)
+        VALUES (?, ?, ?, ?, 0, ?, ?, ?, NULL)
+        ON CONFLICT(telegram_id) DO UPDATE SET
+          membership_number = excluded.membership_number,
+          telegram_username = excluded.telegram_username,
+          code_hash = excluded.code_hash,
+          attempts = 0,
+          created_at = excluded.created_at,
+          expires_at = excluded.expires_at,
+          last_sent_at = excluded.last_sent_at
+      `;
+
+      const result = await this.db.prepare(query).bind(
+        telegramId,
+        membershipNumber,
+        telegramUsername,
+        codeHash,
+        now.toISOString(),
+        expiresAt.toISOString(),
+        now.toISOString()
+      ).run();
+      return result.success;
+    } catch (error) {
+      console.error('Error starting verification session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Count a wrong code and lock the session once the limit is reached
+   * Returns the updated session
+   */
+  async recordFailedAttempt(telegramId: string): Promise<VerificationSession | null> {
+    try {
+      const lockedUntil = new Date(Date.now() + VERIFICATION_LOCKOUT_MINUTES * 60 * 1000);
+
+      const query = `
+        UPDATE verification_sessions
+        SET attempts = attempts + 1,
+            locked_until = CASE WHEN attempts + 1 >= ? THEN ? ELSE locked_until END
+        WHERE telegram_id = ?
+      `;
+
+      await this.db.prepare(query).bind(VERIFICATION_MAX_ATTEMPTS, lockedUntil.toISOString(), telegramId).run();
+      return await this.getSession(telegramId);
+    } catch (error) {
+      console.error('Error recording failed verification attempt:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the most recent code email sent for a membership number by any Telegram user
+   * Used to stop one inbox from being flooded through several Telegram accounts
+   */
+  async getLastSentForMembership(membershipNumber: string): Promise<string | null> {
+    try {
+      const query = `
+        SELECT MAX(last_sent_at) AS last_sent_at
+        FROM verification_sessions
+        WHERE membership_number = ?
+      `;
+
+      const result = await this.db.prepare(query).bind(membershipNumber).first<{ last_sent_at: string | null }>();
+      return result?.last_sent_at || null;
+    } catch (error) {
+      console.error('Error getting last verification email time:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a session (after successful verification or a failed email)
+   */
+  async deleteSession(telegramId: string): Promise<boolean> {
+    try {
+      const query = `DELETE FROM verification_sessions WHERE telegram_id = ?`;
+      const result = await this.db.prepare(query).bind(telegramId).run();
+      return result.success;
+    } catch (error) {
+      console.error('Error deleting verification session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether the session is currently locked after too many wrong codes
+   */
+  isLocked(session: VerificationSession, now: Date = new Date()): boolean {
+    return !!session.locked_until && new Date(session.locked_until) > now;
+  }
+
+  /**
+   * Whether the code of the session has expired
+   */
+  isExpired(session: VerificationSession, now: Date = new Date()): boolean {
+    return new Date(session.expires_at) <= now;
+  }
+
+  /**
+   * Seconds left before another code email may be sent (0 when allowed)
+   */
+  getResendWaitSeconds(lastSentAt: string | null, now: Date = new Date()): number {
+    if (!lastSentAt) return 0;
+    const nextAllowed = new Date(lastSentAt).getTime() + VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000;
+    return Math.max(0, Math.ceil((nextAllowed - now.getTime()) / 1000));
+  }
+
+  /**
+   * Minutes left in an active lockout (rounded up)
+   */
+  getLockoutMinutesLeft(session: VerificationSession, now: Date = new Date()): number {
+    if (!session.locked_until) return 0;
+    return Math.max(0, Math.ceil((new Date(session.locked_until).getTime() - now.getTime()) / 60000));
+  }
+}
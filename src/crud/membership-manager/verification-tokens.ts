@@ -0,0 +1,110 @@
+import { Environment } from '../../types';
+import { D1DatabaseConnection } from '../database';
+
+export class VerificationTokenService {
+  private db: D1DatabaseConnection;
+
+  constructor(env: Environment) {
+    this.db = new D1DatabaseConnection(env.DB);
+  }
+
+  /**
+   * Record an issued verification token so it can only be used once
+   */
+  async recordToken(jti: string, membershipNumber: string, telegramId: string, expiresAt: Date): Promise<boolean> {
+    try {
+      const query = `
+        INSERT INTO verification_tokens (jti, membership_number, telegram_id, expires_at)
+        VALUES (?, ?, ?, ?)
+      `;
+
+      const result = await this.db.prepare(query).bind(jti, membershipNumber, telegramId, expiresAt.toISOString()).run();
+      return result.success;
+    } catch (error) {
+      console.error('Error recording verification token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether a token is known, unused and unexpired, without using it
+   */
+  async isTokenUsable(jti: string): Promise<boolean> {
+    try {
+      const query = `
+        SELECT jti FROM verification_tokens
+        WHERE jti = ?
+          AND used_at IS NULL
+          AND datetime(expires_at) > datetime('now')
+      `;
+
+      const result = await this.db.prepare(query).bind(jti).first();
+      return result !== null;
+    } catch (error) {
+      console.error('Error checking verification token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark a token as used
+   * Returns true only for the first use of a known, unexpired token
+   */
+  async consumeToken(jti: string): Promise<boolean> {
+    try {
+      const query = `
+        UPDATE verification_tokens
+        SET used_at = datetime('now')
+        WHERE jti = ?
+          AND used_at IS NULL
+          AND datetime(expires_at) > datetime('now')
+      `;
+
+      const result = await this.db.prepare(query).bind(jti).run();
+      return result.success && result.meta?.changes === 1;
+    } catch (error) {
+      console.error('Error consuming verification token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Make a consumed token usable again, when linking the account failed after consuming it
+   */
+  async releaseToken(jti: string): Promise<boolean> {
+    try {
+      const query = `
+        UPDATE verification_tokens
+        SET used_at = NULL
+        WHERE jti = ?
+      `;
+
+      const result = await this.db.prepare(query).bind(jti).run();
+      return result.success;
+    } catch (error) {
+      console.error('Error releasing verification token:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Invalidate all outstanding tokens for a Telegram user
+   * Used once the user is verified through another path (e.g. the 6-digit code)
+   */
+  async revokeTokensForTelegramId(telegramId: string): Promise<boolean> {
+    try {
+      const query = `
+        UPDATE verification_tokens
+        SET used_at = datetime('now')
+        WHERE telegram_id = ?
+          AND used_at IS NULL
+      `;
+
+      const result = await this.db.prepare(query).bind(telegramId).run();
+      return result.success;
+    } catch (error) {
+      console.error('Error revoking verification tokens:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { BaseCrud, DatabaseConnection } from './base';
+import { OutboxMessage, OutboxMessageModel, OutboxStatus, OutboxCategory } from '../models/outbox';
+
+export class OutboxCrud extends BaseCrud<OutboxMessage> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'outbox_messages');
+  }
+
+  /**
+   * Queue a message for delivery
+   * @param message The message to send
+   * @param nextAttemptAt When the message may be sent, now by default
+   */
+  async enqueue(
+    message: OutboxMessageModel,
+    nextAttemptAt: string = new Date().toISOString()
+  ): Promise<{ success: boolean; id?: string; error?: string }> {
+    try {
+      return await this.create({
+        chat_id: message.chat_id,
+        text: message.text,
+        parse_mode: message.parse_mode || 'MarkdownV2',
+        reply_markup: message.inline_keyboard && message.inline_keyboard.length > 0
+          ? JSON.stringify(message.inline_keyboard)
+          : null,
+        category: message.category,
+        reference_id: message.reference_id ?? null,
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: nextAttemptAt
+      } as Omit<OutboxMessage, 'id'>);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the pending messages that are due, oldest first
+   * @param limit Number of messages to retrieve
+   * @param now Current time as ISO string
+   */
+  async getDueMessages(limit: number = 100, now: string = new Date().toISOString()): Promise<OutboxMessage[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC, created_at ASC LIMIT ?`;
+      const result = await this.db.prepare(query).bind(now, limit).all<OutboxMessage>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting due outbox messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a due message for sending, so two dispatchers running at once can't both send it
+   * The next attempt is pushed forward until the lock expires, in case the sender dies before recording the result
+   * @param message The message as read by getDueMessages
+   * @param lockUntil Until when other dispatchers leave the message alone
+   * @returns Whether the message was taken
+   */
+  async claim(message: OutboxMessage, lockUntil: string): Promise<boolean> {
+    try {
+      const query = `UPDATE ${this.tableName} SET next_attempt_at = ? WHERE id = ? AND status = 'pending' AND next_attempt_at = ?`;
+      const result = await this.db.prepare(query).bind(lockUntil, message.id, message.next_attempt_at).run();
+      return result.success && result.meta?.changes === 1;
+    } catch (error) {
+      console.error('Error claiming outbox message:', error);
+      return false;
+    }
+  }
+
+  // Record a delivered message
+  async markSent(id: string, attempts: number, telegramMessageId?: number): Promise<{ success: boolean; error?: string }> {
+    const now = new Date().toISOString();
+    return await this.update(id, {
+      status: 'sent',
+      attempts,
+      telegram_message_id: telegramMessageId ?? null,
+      sent_at: now,
+      last_error: null,
+      error_code: null
+    });
+  }
+
+  /**
+   * Leave a message pending for another attempt
+   * @param nextAttemptAt When the message may be sent again
+   */
+  async markRetry(
+    id: string,
+    attempts: number,
+    nextAttemptAt: string,
+    error: string,
+    errorCode: string
+  ): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, {
+      attempts,
+      next_attempt_at: nextAttemptAt,
+      last_error: error,
+      error_code: errorCode
+    });
+  }
+
+  // Give up on a message
+  async markFailed(id: string, attempts: number, error: string, errorCode: string): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, {
+      status: 'failed',
+      attempts,
+      last_error: error,
+      error_code: errorCode
+    });
+  }
+
+  /**
+   * Get messages, newest first
+   * @param filters Optional status, category and reference to filter by
+   */
+  async getMessages(
+    filters: { status?: OutboxStatus; category?: OutboxCategory; referenceId?: string } = {},
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<OutboxMessage[]> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filters.status) {
+        conditions.push('status = ?');
+        params.push(filters.status);
+      }
+      if (filters.category) {
+        conditions.push('category = ?');
+        params.push(filters.category);
+      }
+      if (filters.referenceId) {
+        conditions.push('reference_id = ?');
+        params.push(filters.referenceId);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const query = `SELECT * FROM ${this.tableName} ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`;
+      const result = await this.db.prepare(query).bind(...params, limit, offset).all<OutboxMessage>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting outbox messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Count messages by category and status
+   * @param referenceId Optional broadcast or task to count the messages of
+   */
+  async getStats(referenceId?: string): Promise<Record<string, Record<OutboxStatus, number>>> {
+    const stats: Record<string, Record<OutboxStatus, number>> = {};
+
+    try {
+      const where = referenceId ? 'WHERE reference_id = ?' : '';
+      const params = referenceId ? [referenceId] : [];
+      const query = `SELECT category, status, COUNT(*) as count FROM ${this.tableName} ${where} GROUP BY category, status`;
+      const result = await this.db.prepare(query).bind(...params).all<{ category: string; status: OutboxStatus; count: number }>();
+
+      for (const row of result.success ? result.results : []) {
+        stats[row.category] = stats[row.category] || { pending: 0, sent: 0, failed: 0 };
+        stats[row.category][row.status] = row.count;
+      }
+    } catch (error) {
+      console.error('Error getting outbox stats:', error);
+    }
+
+    return stats;
+  }
+
+  // Delete sent and failed messages older than the given number of days
+  async deleteOldMessages(days: number): Promise<{ success: boolean; deletedCount?: number; error?: string }> {
+    try {
+      const query = `
+        DELETE FROM ${this.tableName}
+        WHERE status != 'pending' AND created_at < datetime('now', '-${days} days')
+      `;
+      const result = await this.db.prepare(query).bind().run();
+
+      return {
+        success: result.success,
+        deletedCount: result.meta?.changes,
+        error: result.error
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
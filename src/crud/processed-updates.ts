@@ -0,0 +1,73 @@
+import { DatabaseConnection } from './base';
+
+// Tracks Telegram update_ids that were already handled by the webhook
+// Keyed by update_id instead of a UUID, so it doesn't extend BaseCrud
+export class ProcessedUpdatesCrud {
+  private db: DatabaseConnection;
+  private tableName = 'processed_updates';
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  /**
+   * Record an update as processed
+   * Returns false if the update was already recorded (a Telegram retry)
+   * @param updateId Telegram update_id
+   * @param updateType Kind of update (message, callback_query, ...)
+   */
+  async markProcessed(updateId: number, updateType?: string): Promise<boolean> {
+    try {
+      const query = `INSERT OR IGNORE INTO ${this.tableName} (update_id, update_type) VALUES (?, ?)`;
+      const result = await this.db.prepare(query).bind(updateId, updateType || null).run();
+
+      // If the insert itself failed, process the update rather than dropping it
+      if (!result.success) return true;
+
+      return result.meta?.changes !== 0;
+    } catch (error) {
+      console.error('Error recording processed update:', error);
+      return true;
+    }
+  }
+
+  /**
+   * Remove the record of an update whose processing failed, so Telegram's retry is processed again
+   * @param updateId Telegram update_id
+   */
+  async unmarkProcessed(updateId: number): Promise<boolean> {
+    try {
+      const query = `DELETE FROM ${this.tableName} WHERE update_id = ?`;
+      const result = await this.db.prepare(query).bind(updateId).run();
+      return result.success;
+    } catch (error) {
+      console.error('Error removing processed update:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete old records (Telegram stops retrying after a day)
+   * @param days Number of days to keep
+   */
+  async deleteOldUpdates(days: number): Promise<{ success: boolean; deletedCount?: number; error?: string }> {
+    try {
+      const query = `
+        DELETE FROM ${this.tableName} 
+        WHERE created_at < datetime('now', '-${days} days')
+      `;
+      const result = await this.db.prepare(query).bind().run();
+
+      return {
+        success: result.success,
+        deletedCount: result.meta?.changes,
+        error: result.error
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
@@ -42,6 +42,39 @@ export class ActivityCrud extends BaseCrud<Activity> {
     }
   }
 
+  /**
+   * Get the activity of a manager on a project, creating it on the first check of the project
+   * @param managerId Membership number of the manager
+   * @param managerName Name of the manager
+   * @param projectName Project name
+   * @param managerTelegramId Telegram ID of the manager
+   */
+  async getOrCreate(managerId: string, managerName: string, projectName: string, managerTelegramId?: string | null): Promise<Activity | null> {
+    const [existing] = await this.getByManagerAndProject(managerId, projectName);
+    if (existing) {
+      if (managerTelegramId && existing.manager_telegram_id !== managerTelegramId) {
+        await this.update(existing.id!, { manager_telegram_id: managerTelegramId, managerName });
+        return { ...existing, manager_telegram_id: managerTelegramId, managerName };
+      }
+      return existing;
+    }
+
+    const result = await this.create({
+      created_at: new Date(),
+      updated_at: new Date(),
+      last_reported: null,
+      managerName,
+      managerID: managerId,
+      manager_telegram_id: managerTelegramId ?? null,
+      projectName
+    });
+    if (!result.success) {
+      console.error(`Error creating activity of ${managerId} on ${projectName}:`, result.error);
+      return null;
+    }
+    return await this.getById(result.id!);
+  }
+
   // Update last reported timestamp
   async updateLastReported(id: string): Promise<{ success: boolean; error?: string }> {
     try {
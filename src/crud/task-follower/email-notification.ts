@@ -0,0 +1,36 @@
+import { BaseCrud, DatabaseConnection } from '../base';
+import { EmailNotification, EmailNotificationModel } from '../../models/task-follower/email-notification';
+
+export class EmailNotificationsCrud extends BaseCrud<EmailNotification> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'email_notifications');
+  }
+
+  // Record an email sent to a member
+  async record(data: EmailNotificationModel): Promise<{ success: boolean; id?: string; error?: string }> {
+    return await this.create({
+      member_id: data.member_id,
+      email: data.email,
+      task_id: data.task_id ?? null,
+      kind: data.kind,
+      error_code: data.error_code ?? null,
+      created_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Count the emails sent to a member since a time
+   * @param memberId Membership number
+   * @param since ISO time to count from
+   */
+  async countSince(memberId: string, since: string): Promise<number> {
+    try {
+      const query = `SELECT COUNT(*) as count FROM ${this.tableName} WHERE member_id = ? AND created_at >= ?`;
+      const result = await this.db.prepare(query).bind(memberId, since).first<{ count: number }>();
+      return result?.count || 0;
+    } catch (error) {
+      console.error('Error counting email notifications:', error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { BaseCrud, DatabaseConnection } from '../base';
+import { ExtensionRequest, ExtensionRequestModel, ExtensionRequestStatus } from '../../models/task-follower/extension-request';
+
+export class ExtensionRequestsCrud extends BaseCrud<ExtensionRequest> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'task_extension_requests');
+  }
+
+  /**
+   * Store a new pending extension request
+   * @param requestData The extension request data
+   */
+  async createRequest(requestData: ExtensionRequestModel): Promise<{ success: boolean; id?: string; error?: string }> {
+    try {
+      return await this.create({
+        ...requestData,
+        previous_due_date: requestData.previous_due_date ?? null,
+        status: requestData.status || 'pending'
+      } as Omit<ExtensionRequest, 'id'>);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the pending extension request of a task, if any
+   * @param taskId Task ID
+   */
+  async getPendingByTask(taskId: string): Promise<ExtensionRequest | null> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE task_id = ? AND status = 'pending' ORDER BY created_at DESC LIMIT 1`;
+      return await this.db.prepare(query).bind(taskId).first<ExtensionRequest>();
+    } catch (error) {
+      console.error('Error getting pending extension request:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the extension history of a task, newest first
+   * @param taskId Task ID
+   */
+  async getByTaskId(taskId: string): Promise<ExtensionRequest[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE task_id = ? ORDER BY created_at DESC`;
+      const result = await this.db.prepare(query).bind(taskId).all<ExtensionRequest>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting extension requests by task:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get extension requests created in a period, for reporting
+   * @param since ISO date of the start of the period
+   * @param status Optional status filter
+   */
+  async getRequestsSince(since: string, status?: ExtensionRequestStatus): Promise<ExtensionRequest[]> {
+    try {
+      let query = `SELECT * FROM ${this.tableName} WHERE created_at >= ?`;
+      const params: any[] = [since];
+
+      if (status) {
+        query += ` AND status = ?`;
+        params.push(status);
+      }
+
+      query += ` ORDER BY created_at DESC`;
+      const result = await this.db.prepare(query).bind(...params).all<ExtensionRequest>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting extension requests:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the manager's decision on a pending request
+   * Only a pending request can be decided, so a double click can't apply it twice
+   * @param id Extension request ID
+   * @param status The new status
+   * @param decidedBy Telegram ID of the manager
+   * @returns Whether the request was still pending
+   */
+  async decideRequest(
+    id: string,
+    status: Exclude<ExtensionRequestStatus, 'pending'>,
+    decidedBy: string
+  ): Promise<boolean> {
+    try {
+      const query = `
+        UPDATE ${this.tableName}
+        SET status = ?, decided_by = ?, decided_at = ?
+        WHERE id = ? AND status = 'pending'
+      `;
+      const result = await this.db.prepare(query).bind(status, decidedBy, new Date().toISOString(), id).run();
+      return result.success && result.meta?.changes !== 0;
+    } catch (error) {
+      console.error('Error deciding extension request:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the manager's DM with the Approve/Reject buttons
+   * @param id Extension request ID
+   * @param messageId Telegram message ID
+   */
+  async setManagerMessage(id: string, messageId: number): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, { manager_message_id: messageId });
+  }
+}
@@ -0,0 +1,190 @@
+import { BaseCrud, DatabaseConnection } from '../base';
+import {
+  DEFAULT_NOTIFICATION_POLICY,
+  EffectiveNotificationPolicy,
+  NotificationPolicy,
+  NotificationPolicyKey,
+  NotificationPolicySettings,
+  NOTIFICATION_POLICY_KEYS
+} from '../../models/task-follower/notification-policy';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class NotificationPolicyCrud extends BaseCrud<NotificationPolicy> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'notification_policies');
+  }
+
+  // Get the sheet policy and the project policies of a sheet
+  async getBySheetId(sheetId: string): Promise<NotificationPolicy[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE sheet_id = ? ORDER BY project_name ASC`;
+      const result = await this.db.prepare(query).bind(sheetId).all<NotificationPolicy>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting notification policies by sheet:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the policy that applies to a project
+   * @param sheetId Google Sheets ID of the task sheet
+   * @param projectName Project name, null for the policy of the whole sheet
+   */
+  async getEffectivePolicy(sheetId: string, projectName: string | null): Promise<EffectiveNotificationPolicy> {
+    return this.resolvePolicy(await this.getBySheetId(sheetId), sheetId, projectName);
+  }
+
+  /**
+   * Work out the policy of a project from the stored policies of its sheet
+   * Each setting comes from the project policy, then from the sheet policy, then from the defaults
+   * @param policies The stored policies of the sheet
+   */
+  resolvePolicy(policies: NotificationPolicy[], sheetId: string, projectName: string | null): EffectiveNotificationPolicy {
+    const sheetPolicy = policies.find(policy => policy.project_name === '');
+    const projectPolicy = projectName ? policies.find(policy => policy.project_name === projectName) : undefined;
+
+    const settings = { ...DEFAULT_NOTIFICATION_POLICY };
+    for (const stored of [sheetPolicy, projectPolicy]) {
+      if (stored) Object.assign(settings, this.parseSettings(stored));
+    }
+
+    return {
+      sheet_id: sheetId,
+      project_name: projectName,
+      source: projectPolicy ? 'project' : sheetPolicy ? 'sheet' : 'default',
+      settings
+    };
+  }
+
+  /**
+   * Check the settings sent to the API
+   * @param value An object of setting to value; null values clear the setting so it is inherited again
+   */
+  validateSettings(value: unknown): { settings?: Partial<Record<NotificationPolicyKey, unknown>>; error?: string } {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { error: 'The policy must be an object' };
+    }
+
+    const settings: Partial<Record<NotificationPolicyKey, unknown>> = {};
+    const isCount = (n: unknown, max: number) => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= max;
+
+    for (const [key, setting] of Object.entries(value as Record<string, unknown>)) {
+      if (!(NOTIFICATION_POLICY_KEYS as string[]).includes(key)) {
+        return { error: `Unknown setting "${key}", expected one of: ${NOTIFICATION_POLICY_KEYS.join(', ')}` };
+      }
+      if (setting === null) {
+        settings[key as NotificationPolicyKey] = null;
+        continue;
+      }
+
+      switch (key as NotificationPolicyKey) {
+        case 'reminder_days':
+          if (!Array.isArray(setting) || !setting.every(day => isCount(day, 365))) {
+            return { error: 'reminder_days must be an array of days between 0 and 365' };
+          }
+          break;
+        case 'late_reminder_hours':
+          if (!isCount(setting, 24 * 30) || setting === 0) {
+            return { error: 'late_reminder_hours must be a number of hours between 1 and 720' };
+          }
+          break;
+        case 'shame_enabled':
+          if (typeof setting !== 'boolean') {
+            return { error: 'shame_enabled must be true or false' };
+          }
+          break;
+        case 'shame_after_days':
+          if (!isCount(setting, 365)) {
+            return { error: 'shame_after_days must be a number of days between 0 and 365' };
+          }
+          break;
+        case 'quiet_weekdays':
+          if (!Array.isArray(setting) || !setting.every(day => isCount(day, 6))) {
+            return { error: 'quiet_weekdays must be an array of weekdays between 0 (Sunday) and 6 (Saturday)' };
+          }
+          break;
+        case 'holidays':
+          if (!Array.isArray(setting) || !setting.every(date => typeof date === 'string' && DATE_PATTERN.test(date) && !isNaN(Date.parse(date)))) {
+            return { error: 'holidays must be an array of YYYY-MM-DD dates' };
+          }
+          break;
+        case 'escalate_after':
+          if (!isCount(setting, 100)) {
+            return { error: 'escalate_after must be a number of late reminders between 0 and 100' };
+          }
+          break;
+      }
+
+      settings[key as NotificationPolicyKey] = Array.isArray(setting) ? [...new Set(setting)].sort((a, b) => a < b ? -1 : a > b ? 1 : 0) : setting;
+    }
+
+    return { settings };
+  }
+
+  /**
+   * Set settings of the sheet policy or of a project policy, keeping its other settings
+   * @param sheetId Google Sheets ID of the task sheet
+   * @param projectName Project name, null for the policy of the whole sheet
+   * @param settings Validated settings, null to inherit the setting again
+   */
+  async setPolicy(
+    sheetId: string,
+    projectName: string | null,
+    settings: Partial<Record<NotificationPolicyKey, unknown>>
+  ): Promise<{ success: boolean; error?: string }> {
+    const columns: Record<string, string | number | null> = {};
+    for (const [key, setting] of Object.entries(settings)) {
+      columns[key] = setting === null ? null
+        : Array.isArray(setting) ? JSON.stringify(setting)
+        : typeof setting === 'boolean' ? (setting ? 1 : 0)
+        : setting as string | number;
+    }
+
+    const existing = (await this.getBySheetId(sheetId)).find(policy => policy.project_name === (projectName || ''));
+    if (existing) {
+      return await this.update(existing.id!, { ...columns, updated_at: new Date().toISOString() });
+    }
+    return await this.create({ sheet_id: sheetId, project_name: projectName || '', ...columns });
+  }
+
+  // Remove the sheet policy or a project policy, so the defaults or the sheet policy apply again
+  async deletePolicy(sheetId: string, projectName: string | null): Promise<{ success: boolean; deleted: boolean; error?: string }> {
+    try {
+      const query = `DELETE FROM ${this.tableName} WHERE sheet_id = ? AND project_name = ?`;
+      const result = await this.db.prepare(query).bind(sheetId, projectName || '').run();
+      return { success: result.success, deleted: result.meta?.changes !== 0, error: result.error };
+    } catch (error) {
+      return { success: false, deleted: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // The settings a stored policy sets (the others are inherited)
+  parseSettings(policy: NotificationPolicy): Partial<NotificationPolicySettings> {
+    const settings: Partial<NotificationPolicySettings> = {};
+    const parseList = <T>(value: string, key: string): T[] | undefined => {
+      try {
+        const list = JSON.parse(value);
+        return Array.isArray(list) ? list : undefined;
+      } catch (error) {
+        console.error(`Invalid ${key} in notification policy ${policy.id}:`, error);
+        return undefined;
+      }
+    };
+
+    if (policy.reminder_days != null) settings.reminder_days = parseList<number>(policy.reminder_days, 'reminder_days');
+    if (policy.late_reminder_hours != null) settings.late_reminder_hours = policy.late_reminder_hours;
+    if (policy.shame_enabled != null) settings.shame_enabled = !!policy.shame_enabled;
+    if (policy.shame_after_days != null) settings.shame_after_days = policy.shame_after_days;
+    if (policy.quiet_weekdays != null) settings.quiet_weekdays = parseList<number>(policy.quiet_weekdays, 'quiet_weekdays');
+    if (policy.holidays != null) settings.holidays = parseList<string>(policy.holidays, 'holidays');
+    if (policy.escalate_after != null) settings.escalate_after = policy.escalate_after;
+
+    // Unreadable lists are inherited
+    for (const key of Object.keys(settings) as NotificationPolicyKey[]) {
+      if (settings[key] === undefined) delete settings[key];
+    }
+    return settings;
+  }
+}
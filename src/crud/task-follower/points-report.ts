@@ -0,0 +1,33 @@
+import { BaseCrud, DatabaseConnection } from '../base';
+import { PointsReport } from '../../models/task-follower/points';
+
+export class PointsReportsCrud extends BaseCrud<PointsReport> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'points_reports');
+  }
+
+  /**
+   * Claim the post of a monthly leaderboard in a group, before posting it
+   * @returns Whether the leaderboard still had to be posted there
+   */
+  async claim(period: string, projectName: string, chatId: string): Promise<boolean> {
+    try {
+      const query = `INSERT OR IGNORE INTO ${this.tableName} (id, period, project_name, chat_id) VALUES (?, ?, ?, ?)`;
+      const result = await this.db.prepare(query).bind(crypto.randomUUID(), period, projectName, chatId).run();
+      return result.success && result.meta?.changes === 1;
+    } catch (error) {
+      console.error('Error claiming monthly leaderboard post:', error);
+      return false;
+    }
+  }
+
+  // Give up a claim whose post failed, so the next run tries again
+  async release(period: string, projectName: string, chatId: string): Promise<void> {
+    try {
+      const query = `DELETE FROM ${this.tableName} WHERE period = ? AND project_name = ? AND chat_id = ?`;
+      await this.db.prepare(query).bind(period, projectName, chatId).run();
+    } catch (error) {
+      console.error('Error releasing monthly leaderboard post:', error);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { BaseCrud, DatabaseConnection } from '../base';
+import { LeaderboardEntry, PointsEntry, PointsEntryModel, PointsTotal } from '../../models/task-follower/points';
+
+export class PointsLedgerCrud extends BaseCrud<PointsEntry> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'points_ledger');
+  }
+
+  /**
+   * Add an entry to the ledger
+   * A task gets one entry of each type, adding it again does nothing
+   * @param entryData The ledger entry
+   * @returns Whether a new entry was added
+   */
+  async addEntry(entryData: PointsEntryModel): Promise<{ success: boolean; created: boolean; error?: string }> {
+    try {
+      const query = `
+        INSERT OR IGNORE INTO ${this.tableName}
+          (id, task_id, entry_type, points, membership_number, member_name, telegram_id, sheet_id, project_name, period, reason)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      const result = await this.db.prepare(query).bind(
+        crypto.randomUUID(),
+        entryData.task_id,
+        entryData.entry_type,
+        entryData.points,
+        entryData.membership_number,
+        entryData.member_name,
+        entryData.telegram_id ?? null,
+        entryData.sheet_id,
+        entryData.project_name,
+        entryData.period,
+        entryData.reason ?? null
+      ).run();
+
+      return { success: result.success, created: result.success && result.meta?.changes !== 0, error: result.error };
+    } catch (error) {
+      return {
+        success: false,
+        created: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Get the ledger entries of a task
+   * @param taskId Task ID
+   */
+  async getByTaskId(taskId: string): Promise<PointsEntry[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE task_id = ? ORDER BY created_at ASC`;
+      const result = await this.db.prepare(query).bind(taskId).all<PointsEntry>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting points entries by task:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the members ranked by their points
+   * @param filters Optional month (YYYY-MM), project and number of members
+   */
+  async getLeaderboard(filters: { period?: string; projectName?: string; limit?: number } = {}): Promise<LeaderboardEntry[]> {
+    try {
+      const { where, params } = this.buildFilters(filters.period, filters.projectName);
+      // The latest name and Telegram ID of each member
+      const query = `
+        SELECT
+          membership_number,
+          (SELECT member_name FROM ${this.tableName} latest WHERE latest.membership_number = ledger.membership_number ORDER BY created_at DESC LIMIT 1) AS member_name,
+          (SELECT telegram_id FROM ${this.tableName} latest WHERE latest.membership_number = ledger.membership_number ORDER BY created_at DESC LIMIT 1) AS telegram_id,
+          SUM(points) AS points,
+          SUM(CASE WHEN entry_type = 'completion' THEN 1 ELSE 0 END) AS tasks_completed,
+          SUM(CASE WHEN entry_type = 'late_penalty' THEN points ELSE 0 END) AS penalties
+        FROM ${this.tableName} ledger
+        ${where}
+        GROUP BY membership_number
+        ORDER BY points DESC, tasks_completed DESC, member_name ASC
+        LIMIT ?
+      `;
+      const result = await this.db.prepare(query).bind(...params, filters.limit ?? -1).all<LeaderboardEntry>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting leaderboard:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the points of each project
+   * @param period Optional month (YYYY-MM)
+   */
+  async getProjectTotals(period?: string): Promise<PointsTotal[]> {
+    return await this.getTotals('project_name', period);
+  }
+
+  /**
+   * Get the points of each month
+   * @param membershipNumber Optional member to get the months of
+   */
+  async getMonthlyTotals(membershipNumber?: string): Promise<PointsTotal[]> {
+    return await this.getTotals('period', undefined, membershipNumber);
+  }
+
+  /**
+   * Get the projects that have points in a month
+   * @param period Month (YYYY-MM)
+   */
+  async getProjectsWithPoints(period: string): Promise<string[]> {
+    return (await this.getProjectTotals(period)).map(total => total.key);
+  }
+
+  private async getTotals(column: 'project_name' | 'period', period?: string, membershipNumber?: string): Promise<PointsTotal[]> {
+    try {
+      const { where, params } = this.buildFilters(period, undefined, membershipNumber);
+      const query = `
+        SELECT
+          ${column} AS key,
+          SUM(points) AS points,
+          SUM(CASE WHEN entry_type = 'completion' THEN 1 ELSE 0 END) AS tasks_completed,
+          COUNT(DISTINCT membership_number) AS members
+        FROM ${this.tableName}
+        ${where}
+        GROUP BY ${column}
+        ORDER BY ${column === 'period' ? 'key DESC' : 'points DESC'}
+      `;
+      const result = await this.db.prepare(query).bind(...params).all<PointsTotal>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error(`Error getting points totals by ${column}:`, error);
+      return [];
+    }
+  }
+
+  private buildFilters(period?: string, projectName?: string, membershipNumber?: string): { where: string; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (period) {
+      conditions.push('period = ?');
+      params.push(period);
+    }
+    if (projectName) {
+      conditions.push('project_name = ?');
+      params.push(projectName);
+    }
+    if (membershipNumber) {
+      conditions.push('membership_number = ?');
+      params.push(membershipNumber);
+    }
+
+    return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+}
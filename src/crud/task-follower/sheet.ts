@@ -1,5 +1,5 @@
 import { BaseCrud, DatabaseConnection } from '../base';
-import { Sheet } from '../../models/task-follower/sheet';
+import { Sheet, TaskColumnMapping, TASK_COLUMN_KEYS } from '../../models/task-follower/sheet';
 
 export class SheetCrud extends BaseCrud<Sheet> {
   constructor(db: DatabaseConnection) {
@@ -158,6 +158,55 @@ export class SheetCrud extends BaseCrud<Sheet> {
     }
   }
 
+  /**
+   * Get the column mapping of a registered sheet
+   * @param sheetId Google Sheet ID
+   * @returns The mapping, or null when the sheet isn't registered or has none
+   */
+  async getColumnMapping(sheetId: string): Promise<TaskColumnMapping | null> {
+    const sheet = await this.getBySheetId(sheetId);
+    if (!sheet?.column_mapping) return null;
+
+    try {
+      return JSON.parse(sheet.column_mapping) as TaskColumnMapping;
+    } catch (error) {
+      console.error(`Invalid column mapping for sheet ${sheetId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check a column mapping sent to the API
+   * @param value An object of column key to header name, or null to remove the mapping
+   */
+  validateColumnMapping(value: unknown): { mapping?: TaskColumnMapping | null; error?: string } {
+    if (value === null) {
+      return { mapping: null };
+    }
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return { error: 'column_mapping must be an object or null' };
+    }
+
+    const mapping: TaskColumnMapping = {};
+    for (const [key, header] of Object.entries(value as Record<string, unknown>)) {
+      if (!(TASK_COLUMN_KEYS as readonly string[]).includes(key)) {
+        return { error: `Unknown column "${key}", expected one of: ${TASK_COLUMN_KEYS.join(', ')}` };
+      }
+      if (typeof header !== 'string' || !header.trim()) {
+        return { error: `The header of column "${key}" must be a non-empty string` };
+      }
+      mapping[key as keyof TaskColumnMapping] = header.trim();
+    }
+
+    return { mapping };
+  }
+
+  // Set or remove (null) the column mapping of a sheet
+  async setColumnMapping(id: string, mapping: TaskColumnMapping | null): Promise<{ success: boolean; error?: string }> {
+    return await this.update(id, { column_mapping: mapping ? JSON.stringify(mapping) : null });
+  }
+
   // Get sheet statistics
   async getSheetStats(): Promise<{
     totalSheets: number;
@@ -0,0 +1,124 @@
+import { BaseCrud, DatabaseConnection } from '../base';
+import { Task } from '../../models/task-follower/task';
+import { TaskEvent, TaskEventModel, TaskEventSource } from '../../models/task-follower/task-event';
+
+// Task fields kept in the history (positions in the sheet, Telegram IDs and send times are left out)
+const TRACKED_FIELDS: (keyof Task)[] = [
+  'ownerID', 'ownerName', 'managerID', 'managerName',
+  'points', 'status', 'taskText', 'priority', 'notes', 'milestone', 'projectName'
+];
+const TRACKED_DATE_FIELDS: (keyof Task)[] = ['dueDate', 'completed_at', 'blocked_at'];
+
+export class TaskEventsCrud extends BaseCrud<TaskEvent> {
+  constructor(db: DatabaseConnection) {
+    super(db, 'task_events');
+  }
+
+  /**
+   * Add an event to the history of a task
+   * The history never blocks the change it describes, so errors are only logged
+   * @param eventData The event data
+   */
+  async record(eventData: TaskEventModel): Promise<{ success: boolean; id?: string; error?: string }> {
+    const result = await this.create({
+      task_id: eventData.task_id,
+      event_type: eventData.event_type,
+      field: eventData.field ?? null,
+      old_value: eventData.old_value ?? null,
+      new_value: eventData.new_value ?? null,
+      source: eventData.source,
+      actor: eventData.actor ?? null,
+      channel: eventData.channel ?? null,
+      created_at: new Date().toISOString() // Milliseconds keep the events of one check in order
+    });
+
+    if (!result.success) {
+      console.error(`Error recording ${eventData.event_type} event of task ${eventData.task_id}:`, result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Record every tracked field that differs between two versions of a task
+   * @param before The stored task before the change
+   * @param after The task after the change (fields left undefined are not compared)
+   * @param source What made the change
+   * @param actor Telegram ID of the user behind a Telegram change
+   * @returns The number of recorded changes
+   */
+  async recordChanges(before: Task, after: Partial<Task>, source: TaskEventSource, actor?: string): Promise<number> {
+    let recorded = 0;
+
+    for (const field of [...TRACKED_FIELDS, ...TRACKED_DATE_FIELDS]) {
+      if (after[field] === undefined) continue;
+
+      const isDate = TRACKED_DATE_FIELDS.includes(field);
+      const oldValue = this.formatValue(before[field], isDate);
+      const newValue = this.formatValue(after[field], isDate);
+      if (oldValue === newValue) continue;
+
+      const result = await this.record({
+        task_id: before.id!,
+        event_type: 'changed',
+        field,
+        old_value: oldValue,
+        new_value: newValue,
+        source,
+        actor
+      });
+      if (result.success) recorded++;
+    }
+
+    return recorded;
+  }
+
+  /**
+   * Get the history of a task, oldest first
+   * @param taskId Task ID
+   */
+  async getByTaskId(taskId: string): Promise<TaskEvent[]> {
+    try {
+      const query = `SELECT * FROM ${this.tableName} WHERE task_id = ? ORDER BY created_at ASC, rowid ASC`;
+      const result = await this.db.prepare(query).bind(taskId).all<TaskEvent>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting task events:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the time of the last change of each task (notifications are not a change)
+   * @param sheetId Optional sheet to get the tasks of
+   * @returns Map of task ID to the time of its last created or changed event
+   */
+  async getLastMovements(sheetId?: string): Promise<Map<string, string>> {
+    try {
+      const query = `
+        SELECT events.task_id, MAX(events.created_at) AS moved_at
+        FROM ${this.tableName} events
+        JOIN tasks ON tasks.id = events.task_id
+        WHERE events.event_type IN ('created', 'changed')
+        ${sheetId ? 'AND tasks.sheetID = ?' : ''}
+        GROUP BY events.task_id
+      `;
+      const statement = this.db.prepare(query);
+      const result = await (sheetId ? statement.bind(sheetId) : statement.bind())
+        .all<{ task_id: string; moved_at: string }>();
+      return new Map(result.success ? result.results.map(row => [row.task_id, row.moved_at]) : []);
+    } catch (error) {
+      console.error('Error getting last task movements:', error);
+      return new Map();
+    }
+  }
+
+  // Stored form of a field value (dates as ISO strings, empty values as null)
+  private formatValue(value: unknown, isDate: boolean): string | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (isDate) {
+      const date = value instanceof Date ? value : new Date(value as string);
+      return isNaN(date.getTime()) ? String(value) : date.toISOString();
+    }
+    return String(value);
+  }
+}
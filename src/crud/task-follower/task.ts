@@ -1,6 +1,14 @@
 import { BaseCrud, DatabaseConnection } from '../base';
 import { Task, TaskModel } from '../../models/task-follower/task';
 
+// Columns copied from tasks to archived_tasks
+const ARCHIVED_TASK_COLUMNS = [
+  'id', 'created_at', 'updated_at', 'last_sent', 'last_reported', 'sheetID', 'projectName', 'pageID',
+  'row_number', 'sheet_row', 'ownerID', 'ownerName', 'ownerEmail', 'ownerPhone', 'owner_telegram_id',
+  'owner_telegram_username', 'managerID', 'managerName', 'manager_telegram_id', 'manager_telegram_username',
+  'points', 'status', 'taskText', 'priority', 'dueDate', 'completed_at', 'blocked_at', 'notes', 'milestone'
+].join(', ');
+
 export class TaskCrud extends BaseCrud<Task> {
   constructor(db: DatabaseConnection) {
     super(db, TaskModel.tableName);
@@ -269,7 +277,7 @@ export class TaskCrud extends BaseCrud<Task> {
         updated_at: new Date()
       };
 
-      if (status === 'completed') {
+      if (status.toLowerCase() === 'completed') {
         // Only set completed_at if it wasn't already set
         updateData.completed_at = existingTask?.completed_at || new Date();
       }
@@ -621,4 +629,43 @@ export class TaskCrud extends BaseCrud<Task> {
       return [];
     }
   }
+
+  /**
+   * Move a task to archived_tasks
+   * The ID is kept, so the history stored for the task still points to it
+   * @param id Task ID
+   * @param reason Why the task was archived
+   */
+  async archiveTask(id: string, reason: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const copy = await this.db.prepare(`
+        INSERT OR REPLACE INTO archived_tasks (${ARCHIVED_TASK_COLUMNS}, archived_at, archive_reason)
+        SELECT ${ARCHIVED_TASK_COLUMNS}, ?, ? FROM ${this.tableName} WHERE id = ?
+      `).bind(new Date().toISOString(), reason, id).run();
+
+      if (!copy.success) {
+        return { success: false, error: copy.error };
+      }
+
+      return await this.delete(id);
+    } catch (error) {
+      console.error('Error archiving task:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get the archived tasks of a sheet, most recently archived first
+   * @param sheetId Google Sheet ID
+   */
+  async getArchivedBySheetId(sheetId: string): Promise<Array<Task & { archived_at: string; archive_reason: string }>> {
+    try {
+      const query = `SELECT * FROM archived_tasks WHERE sheetID = ? ORDER BY archived_at DESC`;
+      const result = await this.db.prepare(query).bind(sheetId).all<Task & { archived_at: string; archive_reason: string }>();
+      return result.success ? result.results : [];
+    } catch (error) {
+      console.error('Error getting archived tasks by sheet ID:', error);
+      return [];
+    }
+  }
 }
@@ -0,0 +1,531 @@
+// Arabic messages of the bot, the catalog every other language follows
+// Templates are MarkdownV2, except the web.* pages (HTML) and the plain text of the *_alert and *_button keys
+// and of the words passed to other templates as parameters (common.*, time.*, priority.*, labels and reasons)
+
+export const ar = {
+  // Shared words
+  'common.on': 'مفعّل',
+  'common.off': 'متوقّف',
+  'common.not_set': 'غير محدّد',
+  'common.unavailable': 'غير متوفر',
+  'common.error_alert': '❌ حدث خطأ. يرجى المحاولة لاحقاً',
+  'common.error': '❌ حدث خطأ\\. يرجى المحاولة لاحقاً',
+  'time.hours_one': 'ساعة واحدة',
+  'time.hours_two': 'ساعتين',
+  'time.hours_few': '{count} ساعات',
+  'time.hours_other': '{count} ساعة',
+  'priority.P0': 'مستعجل جداً أو طارئ',
+  'priority.P1': 'مستعجل',
+  'priority.P2': 'متوسط',
+  'priority.P3': 'غير مستعجل',
+
+  // /start and /help
+  'welcome.text': `*مرحباً بك في تجمّع إبتكار\\!* 🎉
+
+شكراً لاهتمامك بالتواصل معنا عبر تيليجرام\\.
+
+*حول هذا البوت*
+تم تصميم هذا البوت للتحقق من عضويتك وإبقائك على اطلاع بالإشعارات والإعلانات المهمة من تجمّع إبتكار\\.
+
+*إشعار الخصوصية*
+• نقوم بجمع بيانات الاستخدام لتحسين أداء البوت وتجربة المستخدم\\.
+• باستخدامك لهذا البوت، فإنك توافق على جمع بياناتك واستخدامها كما هو موضح في هذا الإشعار\\.
+• لمعرفة المزيد حول سياسة الخصوصية الخاصة بنا، يرجى زيارة [موقعنا](https://ibtikar.org.tr) أو زيارة الكود مفتوح المصدر على [GitHub](https://github.com/ibtikar-org-tr/telegram-membership-bot) أو الاتصال بالدعم\\.
+
+*كيفية البدء*
+1\\. استخدم الأمر */verify* لبدء عملية التحقق
+2\\. قدم رقم عضويتك
+3\\. تحقق من بريدك الإلكتروني المسجل للحصول على رابط التحقق
+4\\. انقر على الرابط لإكمال التحقق
+
+*هل تحتاج إلى مساعدة؟*
+استخدم الأمر */help* لعرض جميع الأوامر المتاحة\\.
+يمكنك أيضاً طرح أسئلتك على هذا البوت كونه مرتبط بالذكاء الاصطناعي\\.
+في حال نسيت بيانات العضوية يمكنك زيارة الرابط التالي: [استعادة بيانات العضوية](https://iforgot.ibtikar.tr)\\.
+
+مرحباً بك على متن الطائرة\\! 🚀`,
+  'help.text': `*قائمة المساعدة*
+
+مرحباً بك في بوت العضوية لدينا\\! إليك الأوامر المتاحة:
+
+🔹 */start* \\- عرض رسالة الترحيب ومعلومات السياسة
+🔹 */verify* \\- بدء عملية التحقق من العضوية
+🔹 */myinfo* \\- عرض معلومات عضويتك
+🔹 */groups* \\- عرض المجموعات المتاحة وطلب الانضمام
+🔹 */mytasks* \\- عرض مهامّك المفتوحة والمتأخّرة والمنجزة مؤخّراً
+🔹 */team* \\- عرض مهامّ الفريق الذي تديره
+🔹 */leaderboard* \\- عرض لوحة الصدارة لنقاط هذا الشهر
+🔹 */settings* \\- اختيار الإشعارات التي تصلك وساعات الهدوء واللغة
+🔹 */help* \\- عرض قائمة المساعدة هذه
+
+يمكنك طرح أسئلتك على هذا البوت كونه مرتبط بالذكاء الاصطناعي\\.
+إذا كنت بحاجة إلى مساعدة أخرى\\، يرجى الاتصال بفريق الدعم لدينا\\.
+
+_يُستخدم هذا البوت للتحقق من العضوية والإشعارات\\._`,
+  'ai.thinking': '_جارٍ التفكير\\.\\.\\._',
+
+  // /verify
+  'verify.already_registered': 'أنت مسجل بالفعل برقم العضوية {membership_number}\n\nالاسم: {name}\n\nاستخدم /help لعرض الأوامر المتاحة',
+  'verify.locked': '⛔ تم إيقاف التحقق مؤقتاً بسبب إدخال رمز خاطئ عدة مرات\\.\n\nيرجى المحاولة مرة أخرى بعد {minutes} دقيقة',
+  'verify.cooldown': '⏳ تم إرسال رمز تحقق إلى بريدك الإلكتروني قبل قليل\\.\n\nيرجى إدخال الرمز هنا، أو الانتظار {seconds} ثانية قبل طلب رمز جديد باستخدام /verify',
+  'verify.subscribe_first': 'للتحقق من عضويتك، يجب عليك أولاً الاشتراك في قناتنا الرسمية:\n\n{link}\n\nبعد الاشتراك، اضغط على الزر أدناه للمتابعة',
+  'verify.subscribe_button': '📢 اشترك في القناة',
+  'verify.subscribed_button': '✅ تحققت من الاشتراك',
+  'verify.subscription_confirmed': '✅ تم التحقق من اشتراكك بنجاح\\!\n\nالآن يرجى إدخال رقم العضوية للتحقق من عضويتك',
+  'verify.subscription_confirmed_alert': '✅ تم التحقق من اشتراكك',
+  'verify.subscription_missing_alert': '❌ لم يتم العثور على اشتراك. يرجى الاشتراك في القناة أولاً',
+  'verify.enter_membership_number': 'يرجى إدخال رقم العضوية للتحقق من عضويتك',
+  'verify.membership_not_found': 'رقم العضوية غير موجود في قاعدة البيانات\\. يرجى التحقق من رقم عضويتك والمحاولة مرة أخرى\\، أو الاتصال بالدعم\\.\n\nاستخدم /help للأوامر المتاحة',
+  'verify.no_email': 'لم يتم العثور على عنوان بريد إلكتروني لهذه العضوية\\. يرجى الاتصال بالدعم لتحديث عنوان بريدك الإلكتروني',
+  'verify.telegram_registered': 'حساب تيليجرام هذا مسجل بالفعل\\. يرجى الاتصال بالمسؤول إذا كنت بحاجة إلى مساعدة',
+  'verify.membership_linked_elsewhere': 'رقم العضوية هذا مسجل بالفعل مع حساب تيليجرام آخر\\. إذا كنت تعتقد أن هذا خطأ\\، يرجى الاتصال بالدعم للحصول على المساعدة',
+  'verify.membership_cooldown': '⏳ تم إرسال بريد تحقق لهذه العضوية قبل قليل\\.\n\nيرجى الانتظار {seconds} ثانية ثم استخدام /verify مرة أخرى',
+  'verify.email_failed': 'تعذر إرسال بريد التحقق حالياً\\. يرجى المحاولة مرة أخرى لاحقاً باستخدام /verify',
+  'verify.email_sent': 'تم إرسال بريد التحقق إلى {email}\n\nيمكنك:\n1\\. إدخال الرمز المكون من 6 أرقام من البريد الإلكتروني هنا في المحادثة\n2\\. النقر على رابط التحقق في البريد الإلكتروني\n\nسينتهي صلاحية الرمز خلال 10 دقائق',
+  'verify.code_expired': '⌛ انتهت صلاحية رمز التحقق أو لم يتم العثور على جلسة تحقق\\. يرجى استخدام /verify لطلب رمز جديد',
+  'verify.code_wrong': '❌ رمز التحقق غير صحيح\\. المحاولات المتبقية: {attempts}\n\nيرجى التحقق والمحاولة مرة أخرى\\، أو استخدام الرابط من بريدك الإلكتروني',
+  'verify.member_missing': 'لم يتم العثور على العضو\\. يرجى الاتصال بالدعم',
+  'verify.telegram_registered_short': 'حساب تيليجرام هذا مسجل بالفعل\\. يرجى الاتصال بالمسؤول',
+  'verify.success': '✅ تم التحقق بنجاح\\!\n\nأنت الآن مسجل لتلقي الرسائل من منظمتنا\\.\n\nعضويتك: {name} \\- {membership_number}\n\nاستخدم /help لعرض الأوامر المتاحة',
+  'verify.link_success': 'تم التحقق بنجاح\\. أنت الآن مسجل لتلقي الرسائل من منظمتنا\\.\n\nعضويتك: {name} \\، {membership_number}\n\nاستخدم /help لعرض الأوامر المتاحة',
+
+  // Pages of the emailed verification link
+  'web.missing_parameters': '<h1>رابط تحقق غير صالح</h1><p>المعاملات المطلوبة مفقودة.</p>',
+  'web.link_expired': '<h1>انتهت صلاحية الرابط</h1><p>انتهت صلاحية رابط التحقق. يرجى استخدام /verify في البوت لطلب رابط جديد.</p>',
+  'web.link_invalid': '<h1>رابط تحقق غير صالح</h1><p>رابط التحقق غير صالح. يرجى استخدام الرابط المرسل إلى بريدك الإلكتروني كما هو.</p>',
+  'web.link_used': '<h1>رابط مستخدم</h1><p>تم استخدام رابط التحقق هذا مسبقاً أو لم يعد صالحاً. يرجى استخدام /verify في البوت لطلب رابط جديد.</p>',
+  'web.member_missing': '<h1>فشل التحقق</h1><p>لم يتم العثور على العضو. يرجى الاتصال بالدعم.</p>',
+  'web.membership_linked_elsewhere': '<h1>فشل التحقق</h1><p>رقم العضوية هذا مسجل بالفعل مع حساب تيليجرام آخر. يرجى الاتصال بالدعم.</p>',
+  'web.telegram_registered': '<h1>المستخدم موجود بالفعل</h1><p>حساب تيليجرام هذا مسجل بالفعل. يرجى الاتصال بالمسؤول.</p>',
+  'web.success': `<h1>تم التحقق بنجاح!</h1>
+      <p>مرحباً {name}،</p>
+      <p>تم ربط حساب تيليجرام الخاص بك بعضويتك ({membership_number}) بنجاح.</p>
+      <p>يمكنك الآن إغلاق هذه النافذة والعودة إلى تيليجرام.</p>`,
+  'web.error': '<h1>فشل التحقق</h1><p>حدث خطأ أثناء التحقق. يرجى المحاولة مرة أخرى أو الاتصال بالدعم.</p>',
+
+  // /myinfo and /leaderboard
+  'info.not_found': 'لم يتم العثور على معلومات العضوية\\. يرجى استخدام /verify لتسجيل حسابك',
+  'info.details': `*معلومات العضوية* 📋
+
+🆔 *رقم العضوية:* {membership_number}
+👤 *الاسم بالعربية:* {ar_name}
+👤 *الاسم اللاتيني:* {latin_name}
+📧 *البريد الإلكتروني:* {email}
+📱 *الهاتف:* {phone}
+💬 *واتساب:* {whatsapp}
+
+_هذه المعلومات مسجلة في نظامنا\\._`,
+  'leaderboard.invalid_period': 'يرجى كتابة الشهر بالصيغة YYYY\\-MM، مثلاً /leaderboard 2026\\-09',
+  'leaderboard.title': '🏆 *لوحة الصدارة \\- {period}*',
+  'leaderboard.empty': 'لم تُسجَّل نقاط في هذا الشهر بعد',
+  'leaderboard.rank': '📍 *ترتيبك:* {rank} \\- {points}',
+  'leaderboard.no_rank': '📍 لم تجمع نقاطاً في هذا الشهر بعد',
+  'leaderboard.entry': '{rank} {name} \\- {points} \\({tasks} مهامّ{penalty}\\)',
+  'leaderboard.penalty': '، خصم تأخير {points}',
+  'leaderboard.points': '*{points}* نقطة',
+  'leaderboard.monthly_title': '🏆 *نقاط شهر {period} \\- {project}*',
+  'leaderboard.monthly_thanks': '🙏 شكراً لكلّ من ساهم في المشروع هذا الشهر\\!',
+
+  // /groups and the join requests
+  'groups.none': 'لا توجد مجموعات متاحة حالياً\\. يرجى المحاولة لاحقاً\\.',
+  'groups.header': '*المجموعات المتاحة* 🏢\n\nيمكنك طلب الانضمام إلى أي من المجموعات التالية:',
+  'groups.item': '*{number}\\. {title}*',
+  'groups.members': '👥 {count} عضو',
+  'groups.join_button': 'انضم إلى {title}',
+  'groups.not_found_alert': '❌ المجموعة غير موجودة',
+  'groups.verify_first_alert': '❌ يجب عليك التحقق من عضويتك أولاً باستخدام /verify',
+  'groups.invite_link': '✅ *تم إنشاء رابط الانضمام\\!*\n\nالمجموعة: *{group}*\n\nإليك رابط الانضمام الخاص بك:\n{link}\n\n⚠️ *ملاحظة مهمة:*\n• هذا الرابط خاص بك فقط\n• يمكن استخدامه مرة واحدة فقط\n• لا تشاركه مع أي شخص آخر',
+  'groups.invite_link_alert': '✅ تم إنشاء رابط الانضمام',
+  'groups.invite_link_failed_alert': '❌ فشل إنشاء رابط الانضمام. يرجى المحاولة لاحقاً',
+  'join.invite_link': 'مرحباً {name}\\! 🎉\n\nتم التحقق من عضويتك بنجاح\\.\n\nإليك رابط الانضمام الخاص بك:\n{link}\n\n⚠️ *ملاحظة مهمة:*\n• هذا الرابط خاص بك فقط\n• يمكن استخدامه مرة واحدة فقط\n• لا تشاركه مع أي شخص آخر',
+  'join.approved_soon': 'مرحباً {name}\\!\n\nتم التحقق من عضويتك\\. سيتم الموافقة على طلبك قريباً\\.',
+  'join.verify_prompt': 'مرحباً {name}\\!\n\nلقد تلقينا طلب انضمامك إلى المجموعة\\.\n\nيرجى استخدام الأمر /verify للتحقق من عضويتك حتى تتمكن من الوصول إلى المجموعة\\.',
+  'join.start_bot': 'عزيزي/عزيزتي {name} {username}\n\nيرجى التواصل مع هذا البوت على الخاص حتى تتمكن من الانضمام إلى المجموعة\\.',
+
+  // Join requests waiting for admin approval
+  'join_request.requester_pending': 'مرحباً {name}\\!\n\nتم استلام طلب انضمامك إلى *{group}*\\.\nسيتم إعلامك عند موافقة المشرفين على الطلب\\.',
+  'join_request.requester_approved': '🎉 تمت الموافقة على طلب انضمامك إلى *{group}*\\. أهلاً بك\\!',
+  'join_request.requester_declined': 'نأسف، لم تتم الموافقة على طلب انضمامك إلى *{group}*\\.',
+  'join_request.admin_request': '📥 *طلب انضمام جديد*\n\nالمجموعة: *{group}*\nالاسم: {name}\nالمعرّف: {username}\nرقم تيليجرام: `{user_id}`\n\n{member}',
+  'join_request.verified_member': '✅ *عضو متحقق منه*\nرقم العضوية: {membership_number}\nالاسم بالعربية: {ar_name}\nالاسم باللاتينية: {latin_name}',
+  'join_request.verified_number': '✅ *عضو متحقق منه*\nرقم العضوية: {membership_number}',
+  'join_request.unverified': '⚠️ *لم يتحقق من عضويته بعد*',
+  'join_request.no_username': 'لا يوجد',
+  'join_request.approve_button': '✅ قبول',
+  'join_request.decline_button': '❌ رفض',
+  'join_request.approved_decision': '✅ *تم القبول* بواسطة {admin}',
+  'join_request.declined_decision': '❌ *تم الرفض* بواسطة {admin}',
+  'join_request.expired_decision': '⌛ *انتهت صلاحية الطلب* دون رد من المشرفين',
+  'join_request.not_found_alert': '❌ الطلب غير موجود',
+  'join_request.admin_only_alert': '⛔ هذا الإجراء متاح لمشرفي المجموعة فقط',
+  'join_request.already_decided_alert': 'ℹ️ تمت معالجة هذا الطلب مسبقاً ({status})',
+  'join_request.already_handled_alert': 'ℹ️ تمت معالجة هذا الطلب مسبقاً',
+  'join_request.action_failed_alert': '❌ تعذّر تنفيذ الإجراء، ربما سحب المستخدم طلبه',
+  'join_request.approved_alert': '✅ تم قبول الطلب',
+  'join_request.declined_alert': '❌ تم رفض الطلب',
+  'join_request.status_approved': 'مقبول',
+  'join_request.status_declined': 'مرفوض',
+  'join_request.status_expired': 'منتهي الصلاحية',
+
+  // /settings
+  'settings.text': `⚙️ *إعدادات الإشعارات*
+
+اضغط على أيّ إعداد لتغييره\\.
+✅ يصلك  \\|  🔕 لا يصلك
+
+🌙 *ساعات الهدوء:* {quiet_hours}
+_الرسائل التي تصل في ساعات الهدوء تُؤجَّل إلى نهايتها بتوقيت إسطنبول\\._
+
+_رسائل المهامّ الجديدة وتغيير مواعيدها تصلك دائماً\\._`,
+  'settings.no_quiet_hours': 'بدون',
+  'settings.task_reminders.label': 'تذكيرات مهامّي وتأخّرها',
+  'settings.shame.label': 'رسائل التوبيخ من الزملاء',
+  'settings.broadcasts.label': 'الرسائل العامّة',
+  'settings.group_summaries.label': 'ملخّصات نشاط المشاريع',
+  'settings.daily_digest.label': 'التقرير اليومي للمشاريع',
+  'settings.language_button': '🌐 اللغة: {language}',
+  'settings.quiet_hours_button': '🌙 ساعات الهدوء: {quiet_hours}',
+  'settings.saved_alert': '✅ تم حفظ الإعدادات',
+  'settings.unknown_alert': '❌ إعداد غير معروف',
+  'settings.save_failed_alert': '❌ فشل حفظ الإعدادات',
+  'settings.error_alert': '❌ حدث خطأ أثناء حفظ الإعدادات',
+
+  // Task notices of the sheet check
+  'task.new': `🆕 *مهمّة جديدة*
+
+📋 *المهمّة:* {task}
+⚡ *الاستعجاليّة:* {priority}
+📅 *آخر موعد للتّسليم:* {due_date}
+
+📝 *ملاحظات:* {notes}
+
+🏗️ *المشروع:* {project}
+👨‍💼 *مسؤول المشروع:* {manager}
+
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task.reminder': `⏰ *تذكير بالمهمّة*
+
+📋 *المهمّة:* {task}
+⚡ *الاستعجاليّة:* {priority}
+📅 *آخر موعد للتّسليم:* {due_date}
+
+📝 *ملاحظات:* {notes}
+
+🏗️ *المشروع:* {project}
+👨‍💼 *مسؤول المشروع:* {manager}
+
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task.late': `🚨 *مهمّة متأخرة*
+
+📋 *المهمّة:* {task}
+⚡ *الاستعجاليّة:* {priority}
+📅 *كان آخر موعد للتّسليم:* {due_date}
+
+📝 *ملاحظات:* {notes}
+
+🏗️ *المشروع:* {project}
+👨‍💼 *مسؤول المشروع:* {manager}
+
+⚠️ *الرجاء التواصل مع مسؤول المشروع في أقرب وقت ممكن*
+
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task.escalation': `📣 *تصعيد مهمّة متأخّرة*
+
+👤 *المسؤول:* {owner}
+📋 *المهمّة:* {task}
+📅 *كان آخر موعد للتّسليم:* {due_date} \\({days} يوم تأخير\\)
+🔔 *تذكيرات التأخير المرسلة:* {reminders}
+
+🏗️ *المشروع:* {project}
+
+⚠️ *المهمّة ما زالت متأخّرة بعد {reminders} تذكيرات، الرجاء التواصل مع المسؤول*
+
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task.due_date_changed': `📅 *تحديث موعد التسليم*
+
+📋 *المهمّة:* {task}
+⚡ *الاستعجاليّة:* {priority}
+📅 *الموعد الجديد:* {due_date}
+📅 *الموعد السابق:* {old_due_date}
+
+📝 *ملاحظات:* {notes}
+
+🏗️ *المشروع:* {project}
+👨‍💼 *مسؤول المشروع:* {manager}
+
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task.missing_data': `⚠️ *بيانات ناقصة في المهمة*
+
+🏗️ *المشروع:* {project}
+📍 *السّطر:* {row}
+
+❌ *البيانات الناقصة:*
+{fields}
+
+📝 *المهمة الحالية:* {task}
+👤 *المسؤول الحالي:* {owner}
+
+🔗 [رابط ملف المتابعة]({sheet_url})
+
+الرجاء استكمال البيانات الناقصة في الملف\\.`,
+  'task.missing.owner': 'اسم المسؤول',
+  'task.missing.points': 'النقاط',
+  'task.missing.task': 'وصف المهمة',
+  'task.missing.priority': 'الأولوية',
+  'task.missing.due_date': 'تاريخ التسليم',
+  'task.delivery_failed': `🚫 *فشل إرسال رسالة إلى عضو*
+
+📋 *نوع الرسالة:* {type}
+👤 *العضو:* {owner}
+🆔 *رقم العضوية:* {membership_number}
+{username_line}
+❌ *سبب الفشل:* {reason}
+{email_line}
+📝 *المهمة:* {task}
+🏗️ *المشروع:* {project}
+📅 *آخر موعد للتسليم:* {due_date}
+
+⚠️ *يرجى أخذ الإجراء المناسب، أو التّواصل مع مكتب التحوّل الرّقمي لطلب المساعدة*
+
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task.delivery_failed.username': '📱 *معرف التيليجرام:* @{username}\n',
+  'task.delivery_failed.email': '📧 *أُرسلت الرسالة إلى بريده الإلكتروني:* {email}\n',
+  'task.delivery_failed.type.new': 'مهمة جديدة',
+  'task.delivery_failed.type.reminder': 'تذكير بمهمة',
+  'task.delivery_failed.type.late': 'مهمة متأخرة',
+  'task.delivery_failed.type.updated': 'تحديث موعد مهمة',
+  'task.delivery_failed.reason.BOT_BLOCKED': 'المستخدم قام بحظر البوت',
+  'task.delivery_failed.reason.NOT_STARTED': 'المستخدم لم يبدأ المحادثة مع البوت بعد',
+  'task.delivery_failed.reason.CHAT_NOT_FOUND': 'حساب المستخدم غير موجود أو غير صالح',
+  'task.delivery_failed.reason.NO_TELEGRAM_ID': 'المستخدم لم يسجل حساب تيليجرام في النظام',
+  'task.delivery_failed.reason.MEMBER_NOT_FOUND': 'المستخدم غير موجود في قاعدة البيانات',
+  'task.delivery_failed.reason.RATE_LIMIT': 'تم تجاوز حد الإرسال المسموح',
+  'task.delivery_failed.reason.BAD_REQUEST': 'خطأ في البيانات المرسلة',
+  'task.delivery_failed.reason.UNKNOWN_ERROR': 'خطأ غير معروف',
+  'task.no_notes': 'لا توجد ملاحظات',
+  'task.done_button': '✅ تمّ الإنجاز',
+  'task.progress_button': '🔄 قيد التنفيذ',
+  'task.block_button': '⛔ متوقّفة',
+  'task.help_button': '🆘 أحتاج مساعدة',
+  'task.extend_button': '📅 طلب تمديد الموعد',
+  'task.history_button': '🕘 سجلّ المهمّة',
+  'task.not_found_alert': '❌ المهمّة غير موجودة',
+  'task.owner_only_alert': '⛔ هذا الإجراء متاح لصاحب المهمّة فقط',
+  'task.sheet_failed_alert': '❌ تعذّر تحديث ملف المتابعة. يرجى المحاولة لاحقاً',
+  'task.sheet_failed': '❌ تعذّر تحديث ملف المتابعة\\. يرجى المحاولة لاحقاً',
+
+  // Buttons under task notices
+  'task_action.done_alert': '✅ تمّ تسجيل إنجاز المهمّة',
+  'task_action.progress_alert': '🔄 تمّ تحديث حالة المهمّة',
+  'task_action.block_reason_alert': '✍️ يرجى إرسال سبب توقّف المهمّة',
+  'task_action.help_sent_alert': '📨 تمّ إبلاغ مسؤول المشروع بطلبك',
+  'task_action.help_failed_alert': '❌ تعذّر التواصل مع مسؤول المشروع',
+  'task_action.block_task_missing': '❌ لم يتم العثور على المهمّة\\. يرجى الضغط على زر *متوقّفة* مرة أخرى',
+  'task_action.blocked': '⛔ تمّ تسجيل توقّف المهمّة وإبلاغ مسؤول المشروع',
+  'task_action.title.done': '✅ *تمّ إنجاز مهمّة*',
+  'task_action.title.progress': '🔄 *مهمّة قيد التنفيذ*',
+  'task_action.title.block': '⛔ *مهمّة متوقّفة*',
+  'task_action.title.help': '🆘 *طلب مساعدة في مهمّة*',
+  'task_action.manager_notice': `{title}
+
+👤 *العضو:* {owner}
+📋 *المهمّة:* {task}
+🏗️ *المشروع:* {project}
+{reason_line}
+🔗 [رابط ملف المتابعة]({sheet_url})`,
+  'task_action.manager_notice.reason': '📝 *السبب:* {reason}\n',
+
+  // Due date extension requests
+  'extension.completed_alert': 'ℹ️ هذه المهمّة منجزة بالفعل',
+  'extension.no_manager_alert': '❌ لا يمكن التواصل مع مسؤول المشروع عبر تيليجرام',
+  'extension.pending_alert': 'ℹ️ لديك طلب تمديد قيد المراجعة لهذه المهمّة',
+  'extension.pending': 'ℹ️ لديك طلب تمديد قيد المراجعة لهذه المهمّة',
+  'extension.date_prompt': `📅 *طلب تمديد موعد التسليم*
+
+📋 *المهمّة:* {task}
+📅 *الموعد الحالي:* {due_date}
+
+يرجى إرسال الموعد الجديد بصيغة *يوم\\-شهر\\-سنة*، مثلاً: {example}`,
+  'extension.date_prompt_alert': '📅 يرجى إرسال الموعد الجديد',
+  'extension.task_missing': '❌ لم يتم العثور على المهمّة\\. يرجى الضغط على زر *طلب تمديد الموعد* مرة أخرى',
+  'extension.invalid_date': '❌ صيغة التاريخ غير صحيحة\\. يرجى إرسال التاريخ بصيغة *يوم\\-شهر\\-سنة*، مثلاً: {example}',
+  'extension.past_date': '❌ يجب أن يكون الموعد الجديد بعد اليوم\\. يرجى إرسال تاريخ آخر',
+  'extension.reason_prompt': '📝 الموعد المطلوب: *{due_date}*\n\nيرجى إرسال سبب طلب التمديد',
+  'extension.manager_unreachable': '⚠️ تمّ تسجيل طلبك لكن تعذّر إرساله إلى مسؤول المشروع\\. يرجى التواصل معه مباشرة',
+  'extension.sent': '📨 تمّ إرسال طلب التمديد إلى مسؤول المشروع\\. سيتم إعلامك بالقرار',
+  'extension.request': `📅 *طلب تمديد موعد التسليم*
+
+👤 *العضو:* {owner}
+📋 *المهمّة:* {task}
+🏗️ *المشروع:* {project}
+📅 *الموعد الحالي:* {due_date}
+📅 *الموعد المطلوب:* {requested_due_date}
+
+📝 *السبب:* {reason}`,
+  'extension.approve_button': '✅ موافقة',
+  'extension.reject_button': '❌ رفض',
+  'extension.request_not_found_alert': '❌ الطلب غير موجود',
+  'extension.manager_only_alert': '⛔ هذا الإجراء متاح لمسؤول المشروع فقط',
+  'extension.already_decided_alert': 'ℹ️ تمت معالجة هذا الطلب مسبقاً',
+  'extension.approved_alert': '✅ تمت الموافقة على التمديد',
+  'extension.rejected_alert': '❌ تم رفض طلب التمديد',
+  'extension.approved_decision': '✅ *تمت الموافقة على التمديد*',
+  'extension.rejected_decision': '❌ *تم رفض طلب التمديد*',
+  'extension.owner_approved': `✅ *تمت الموافقة على طلب التمديد*
+
+📋 *المهمّة:* {task}
+📅 *الموعد الجديد:* {due_date}`,
+  'extension.owner_rejected': `❌ *تم رفض طلب التمديد*
+
+📋 *المهمّة:* {task}
+📅 *يبقى الموعد:* {due_date}
+
+يرجى التواصل مع مسؤول المشروع إذا احتجت إلى مساعدة`,
+
+  // History button of task notices
+  'history.forbidden_alert': '⛔ سجلّ المهمّة متاح لصاحبها ولمسؤول المشروع فقط',
+  'history.header': `🕘 *سجلّ المهمّة*
+
+📋 *المهمّة:* {task}
+🏗️ *المشروع:* {project}
+📅 *تغيّر موعد التسليم:* {due_date_changes} \\(تأجيل: {due_date_slips}\\)
+🔔 *الإشعارات المرسلة:* {sent}`,
+  'history.earlier_events': '\\.\\.\\. و{count} أحداث سابقة',
+  'history.no_events': 'لا توجد أحداث مسجّلة بعد',
+  'history.event.created': '• {date}: 🆕 أُضيفت المهمّة \\({source}\\)',
+  'history.event.archived': '• {date}: 🗄️ حُذفت المهمّة من الملف',
+  'history.event.notified': '• {date}: 🔔 {notification}',
+  'history.event.notified_email': '• {date}: 🔔 {notification} \\(بالبريد الإلكتروني\\)',
+  'history.event.changed': '• {date}: ✏️ {field}: {old_value} ⬅️ {new_value} \\({source}\\)',
+  'history.empty_value': 'فارغ',
+  'history.field.ownerName': 'المسؤول',
+  'history.field.managerName': 'مسؤول المشروع',
+  'history.field.points': 'النقاط',
+  'history.field.status': 'الحالة',
+  'history.field.taskText': 'المهمّة',
+  'history.field.priority': 'الاستعجاليّة',
+  'history.field.notes': 'الملاحظات',
+  'history.field.milestone': 'المرحلة',
+  'history.field.projectName': 'المشروع',
+  'history.field.dueDate': 'موعد التسليم',
+  'history.field.completed_at': 'تاريخ الإنجاز',
+  'history.field.blocked_at': 'تاريخ التوقّف',
+  'history.notification.new': 'إشعار مهمّة جديدة',
+  'history.notification.reminder': 'تذكير',
+  'history.notification.late': 'تنبيه تأخّر',
+  'history.notification.late_undelivered': 'تنبيه تأخّر لم يصل',
+  'history.notification.date_changed': 'إشعار تغيير الموعد',
+  'history.notification.missing_data': 'تنبيه بيانات ناقصة',
+  'history.notification.shame': 'إشعار فضيحة',
+  'history.notification.escalation': 'تصعيد إلى مسؤول المشروع',
+  'history.source.sheet_sync': 'ملف المتابعة',
+  'history.source.telegram': 'تيليجرام',
+  'history.source.api': 'لوحة التحكّم',
+
+  // /mytasks and /team
+  'task_list.my_empty': '📭 لا توجد لديك مهامّ مفتوحة أو منجزة مؤخّراً',
+  'task_list.my_header': '📋 *مهامّي*\n\n🚨 متأخّرة: {overdue}  \\|  🔄 مفتوحة: {open}  \\|  ✅ منجزة مؤخّراً: {completed}',
+  'task_list.team_empty': '📭 لا توجد مهامّ تديرها حالياً',
+  'task_list.team_header': '👥 *مهامّ الفريق*\n\n✅ منجزة خلال 24 ساعة: {completed}  \\|  ⏳ قيد الانتظار: {pending}  \\|  🚨 متأخّرة: {overdue}',
+  'task_list.team_header_counts': '👥 *مهامّ الفريق*\n\n🔄 مفتوحة: {open}  \\|  🚨 متأخّرة: {overdue}',
+  'task_list.completed_on': 'أُنجزت {date}',
+  'task_list.page': '_الصفحة {page} من {pages}_',
+  'task_list.previous_button': '◀️ السابق',
+  'task_list.next_button': 'التالي ▶️',
+
+  // Reports to the managers and the admin chat
+  'manager_report.title': `*📊 تقرير يومي \\- {manager}*
+*📁 المشروع: {project}*
+
+📅 التاريخ: {date}`,
+  'manager_report.default_manager': 'المدير',
+  'manager_report.completed': '*✅ المهام المكتملة \\(آخر 24 ساعة\\):* {count}',
+  'manager_report.overdue': '*⚠️ المهام المتأخرة:* {count}',
+  'manager_report.pending': '*⏳ المهام قيد الانتظار:* {count}',
+  'manager_report.high_priority': '🔴 مهام ذات أولوية عالية: {count}',
+  'manager_report.more_tasks': '_\\.\\.\\. و {count} مهام أخرى_',
+  'manager_report.totals': '*📈 الإجمالي:*\n  • المهام النشطة: {active}\n  • المكتمل اليوم: {completed}',
+  'manager_report.follow_up': '⚡️ _يرجى متابعة المهام المتأخرة مع أعضاء الفريق_',
+  'manager_report.well_done': '🎉 _عمل رائع\\! استمروا بنفس الأداء_',
+  'activity.project_title': '📉 *متابعة نشاط المشروع \\- {project}*',
+  'activity.project_inactive': '⏸️ لا توجد أيّ حركة على مهامّ المشروع منذ {days} أيّام أو أكثر',
+  'activity.owners_inactive': '⚠️ بعض أعضاء الفريق بلا حركة على مهامّهم منذ {days} أيّام أو أكثر',
+  'activity.owner': '*{name}:* {open} مفتوحة{overdue}{blocked}، {completed} منجزة',
+  'activity.owner_overdue': '، {count} متأخّرة',
+  'activity.owner_blocked': '، {count} متوقّفة',
+  'activity.last_movement': '🕘 آخر حركة: {date}',
+  'activity.project_footer': '💬 _يرجى التواصل مع أعضاء الفريق المتوقّفين لمعرفة ما يعيقهم_',
+  'activity.summary': `🗂️ *ملخّص المتابعة اليومي \\- {date}*
+
+⚠️ *المهامّ المتأخّرة:* {overdue}
+⏳ *تستحقّ خلال {days} أيّام:* {due_soon}
+⛔ *المهامّ المتوقّفة:* {blocked}`,
+  'activity.summary_overdue_projects': '📁 *المشاريع الأكثر تأخّراً:*',
+  'activity.summary_blocked_projects': '🚧 *المشاريع الأكثر توقّفاً:*',
+  'activity.summary_inactive_projects': '⏸️ *مشاريع بلا حركة منذ {days} أيّام أو أكثر:*',
+  'activity.summary_inactive_project': '• {project} \\({manager}\\) \\- آخر حركة: {date}',
+  'activity.summary_more_projects': '_\\.\\.\\. و{count} مشاريع أخرى_',
+  'activity.summary_all_clear': '🎉 _لا توجد مهامّ متأخّرة أو متوقّفة اليوم_',
+
+  // Shame messages about late tasks
+  'shame.notification': `🫣 *فضيحة\\! \\- لدى زميلك مهمة متأخرة*
+
+أحد زملائك في المشروع لديه مهمة متأخرة\\!
+
+🤡 *الكسول:* {owner}
+📋 *المشروع:* {project}
+📝 *المهمة:* {task}
+⏰ *متأخرة بـ:* {days} يوم
+⚡ *الأولوية:* {priority}
+
+يمكنك تذكيره بالضغط على الزر أدناه 👇`,
+  'shame.button': '😤 أرسل "عارٌ عليك!"',
+  'shame.message': `😤 *عارٌ عليك\\!*
+
+لقد تلقيت رسالة "عارٌ عليك" من أحد زملائك في المشروع بسبب تأخرك في المهمة:
+
+📋 *المشروع:* {project}
+📝 *المهمة:* {task}
+
+⏰ حان الوقت لإنجاز هذه المهمة\\!`,
+  'shame.task_not_found_alert': '❌ لم يتم العثور على المهمة',
+  'shame.task_completed_alert': '✅ لقد أنهى المهمة، لا يمكنك توبيخه الآن!',
+  'shame.self_alert': '😅 لا يمكنك توبيخ نفسك!',
+  'shame.owner_not_linked_alert': '❌ صاحب المهمة ليس لديه حساب تيليجرام مسجل',
+  'shame.owner_opted_out_alert': '🔕 صاحب المهمة أوقف رسائل التوبيخ',
+  'shame.send_failed_alert': '❌ فشل إرسال الرسالة',
+  'shame.sent_alert': '✅ تم إرسال رسالة "عارٌ عليك!" بنجاح',
+  'shame.error_alert': '❌ حدث خطأ أثناء معالجة الطلب',
+
+  // /summarize in groups
+  'summarize.generating': '_جارٍ تلخيص المحادثة خلال آخر {hours}\\.\\.\\._',
+  'summarize.generating_topic': '_جارٍ تلخيص هذا الموضوع خلال آخر {hours}\\.\\.\\._',
+  'summarize.no_messages': 'لا توجد رسائل خلال آخر {hours}\\.',
+  'summarize.no_messages_topic': 'لا توجد رسائل في هذا الموضوع خلال آخر {hours}\\.',
+  'summarize.summary': '📝 ملخّص المحادثة خلال آخر {hours}:\n\n{summary}',
+  'summarize.summary_topic': '📝 ملخّص هذا الموضوع خلال آخر {hours}:\n\n{summary}',
+  'summarize.error': 'عذراً\\، حدث خطأ أثناء إعداد الملخّص\\. يرجى المحاولة لاحقاً\\.',
+
+  // Admin commands in groups
+  'group_admin.not_admin': '⛔ هذا الأمر متاح لمشرفي المجموعة فقط\\.',
+  'group_admin.not_registered': 'هذه المجموعة غير مسجّلة بعد\\. استخدم /register\\_group أولاً\\.',
+  'group_admin.telegram_failed': '❌ تعذّر جلب معلومات المجموعة من تيليجرام\\. تأكّد من أنّ البوت مشرف في هذه المجموعة\\.',
+  'group_admin.register_failed': '❌ فشل تسجيل هذه المجموعة\\. يرجى المحاولة لاحقاً\\.',
+  'group_admin.registered': '✅ تم تسجيل المجموعة: *{title}*\n\n{status}',
+  'group_admin.updated': '✅ تم تحديث معلومات المجموعة: *{title}*\n\n{status}',
+  'group_admin.sync_failed': '❌ فشلت مزامنة هذه المجموعة\\. يرجى المحاولة لاحقاً\\.',
+  'group_admin.synced': '🔄 تمت مزامنة المجموعة: *{title}*\n\n{status}',
+  'group_admin.status': '👮 المشرفون: {admins}\n👥 الأعضاء: {members}\n🔐 موافقة الانضمام: {approval}',
+  'group_admin.approval_current': 'موافقة الانضمام حالياً *{state}*\\.\n\nالاستخدام: /approval on \\| /approval off',
+  'group_admin.approval_failed': '❌ فشل تغيير إعداد موافقة الانضمام\\. يرجى المحاولة لاحقاً\\.',
+  'group_admin.approval_on': '✅ موافقة الانضمام الآن *مفعّلة*\\. يحتاج الأعضاء الجدد إلى موافقة أحد المشرفين\\.',
+  'group_admin.approval_off': '✅ موافقة الانضمام الآن *متوقّفة*\\. يمكن للأعضاء الموثّقين الانضمام مباشرة\\.',
+  'group_admin.description_usage': 'الاستخدام: /set\\_description <الوصف الجديد\\>',
+  'group_admin.description_failed': '❌ فشل تغيير الوصف\\. يحتاج البوت إلى صلاحية تغيير معلومات المجموعة\\.',
+  'group_admin.description_updated': '✅ تم تحديث وصف المجموعة\\.',
+  'group_admin.no_pending': 'لا توجد طلبات انضمام معلّقة\\.',
+  'group_admin.pending': '⏳ *طلبات الانضمام المعلّقة \\({count}\\):*\n\n{requests}',
+  'group_admin.error': 'عذراً\\، حدث خطأ أثناء تنفيذ هذا الأمر\\. يرجى المحاولة لاحقاً\\.'
+};
+
+export type MessageKey = keyof typeof ar;
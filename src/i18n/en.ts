@@ -0,0 +1,528 @@
+import { MessageKey } from './ar';
+
+// English messages of the bot, see ar.ts for the formats of the keys
+export const en: Record<MessageKey, string> = {
+  // Shared words
+  'common.on': 'on',
+  'common.off': 'off',
+  'common.not_set': 'Not set',
+  'common.unavailable': 'Not available',
+  'common.error_alert': '❌ Something went wrong. Please try again later',
+  'common.error': '❌ Something went wrong\\. Please try again later',
+  'time.hours_one': '{count} hour',
+  'time.hours_two': '{count} hours',
+  'time.hours_few': '{count} hours',
+  'time.hours_other': '{count} hours',
+  'priority.P0': 'Very urgent or emergency',
+  'priority.P1': 'Urgent',
+  'priority.P2': 'Medium',
+  'priority.P3': 'Not urgent',
+
+  // /start and /help
+  'welcome.text': `*Welcome to Ibtikar Assembly\\!* 🎉
+
+Thank you for reaching out to us on Telegram\\.
+
+*About this bot*
+This bot verifies your membership and keeps you up to date with the important notices and announcements of Ibtikar Assembly\\.
+
+*Privacy notice*
+• We collect usage data to improve the bot and the user experience\\.
+• By using this bot, you agree to the collection and use of your data as described in this notice\\.
+• To learn more about our privacy policy, please visit [our website](https://ibtikar.org.tr), see the open source code on [GitHub](https://github.com/ibtikar-org-tr/telegram-membership-bot) or contact support\\.
+
+*Getting started*
+1\\. Use the */verify* command to start the verification
+2\\. Enter your membership number
+3\\. Check your registered email for the verification link
+4\\. Click the link to complete the verification
+
+*Need help?*
+Use the */help* command to see all the available commands\\.
+You can also ask this bot your questions, it is connected to an AI assistant\\.
+If you forgot your membership details, visit: [Recover membership details](https://iforgot.ibtikar.tr)\\.
+
+Welcome aboard\\! 🚀`,
+  'help.text': `*Help*
+
+Welcome to our membership bot\\! Here are the available commands:
+
+🔹 */start* \\- Show the welcome message and the privacy notice
+🔹 */verify* \\- Start the membership verification
+🔹 */myinfo* \\- Show your membership information
+🔹 */groups* \\- Show the available groups and ask to join them
+🔹 */mytasks* \\- Show your open, late and recently completed tasks
+🔹 */team* \\- Show the tasks of the team you manage
+🔹 */leaderboard* \\- Show the points leaderboard of this month
+🔹 */settings* \\- Choose the notifications you get, quiet hours and language
+🔹 */help* \\- Show this help
+
+You can ask this bot your questions, it is connected to an AI assistant\\.
+If you need any other help\\, please contact our support team\\.
+
+_This bot is used for membership verification and notifications\\._`,
+  'ai.thinking': '_Thinking\\.\\.\\._',
+
+  // /verify
+  'verify.already_registered': 'You are already registered with membership number {membership_number}\n\nName: {name}\n\nUse /help to see the available commands',
+  'verify.locked': '⛔ Verification is paused because a wrong code was entered too many times\\.\n\nPlease try again in {minutes} minutes',
+  'verify.cooldown': '⏳ A verification code was sent to your email a moment ago\\.\n\nPlease enter the code here, or wait {seconds} seconds before asking for a new code with /verify',
+  'verify.subscribe_first': 'To verify your membership, please first subscribe to our official channel:\n\n{link}\n\nAfter subscribing, press the button below to continue',
+  'verify.subscribe_button': '📢 Subscribe to the channel',
+  'verify.subscribed_button': '✅ I have subscribed',
+  'verify.subscription_confirmed': '✅ Your subscription is confirmed\\!\n\nNow please enter your membership number to verify your membership',
+  'verify.subscription_confirmed_alert': '✅ Your subscription is confirmed',
+  'verify.subscription_missing_alert': '❌ No subscription found. Please subscribe to the channel first',
+  'verify.enter_membership_number': 'Please enter your membership number to verify your membership',
+  'verify.membership_not_found': 'This membership number was not found\\. Please check your membership number and try again\\, or contact support\\.\n\nUse /help to see the available commands',
+  'verify.no_email': 'No email address was found for this membership\\. Please contact support to update your email address',
+  'verify.telegram_registered': 'This Telegram account is already registered\\. Please contact an admin if you need help',
+  'verify.membership_linked_elsewhere': 'This membership number is already registered with another Telegram account\\. If you think this is a mistake\\, please contact support for help',
+  'verify.membership_cooldown': '⏳ A verification email was sent for this membership a moment ago\\.\n\nPlease wait {seconds} seconds, then use /verify again',
+  'verify.email_failed': 'The verification email could not be sent right now\\. Please try again later with /verify',
+  'verify.email_sent': 'A verification email was sent to {email}\n\nYou can:\n1\\. Enter the 6\\-digit code from the email here in the chat\n2\\. Click the verification link in the email\n\nThe code expires in 10 minutes',
+  'verify.code_expired': '⌛ The verification code expired or no verification was started\\. Please use /verify to ask for a new code',
+  'verify.code_wrong': '❌ Wrong verification code\\. Attempts left: {attempts}\n\nPlease check it and try again\\, or use the link from your email',
+  'verify.member_missing': 'The member was not found\\. Please contact support',
+  'verify.telegram_registered_short': 'This Telegram account is already registered\\. Please contact an admin',
+  'verify.success': '✅ Verification successful\\!\n\nYou are now registered to receive messages from our organization\\.\n\nYour membership: {name} \\- {membership_number}\n\nUse /help to see the available commands',
+  'verify.link_success': 'Verification successful\\. You are now registered to receive messages from our organization\\.\n\nYour membership: {name}\\, {membership_number}\n\nUse /help to see the available commands',
+
+  // Pages of the emailed verification link
+  'web.missing_parameters': '<h1>Invalid verification link</h1><p>Required parameters are missing.</p>',
+  'web.link_expired': '<h1>Link expired</h1><p>The verification link has expired. Please use /verify in the bot to get a new link.</p>',
+  'web.link_invalid': '<h1>Invalid verification link</h1><p>The verification link is invalid. Please use the link sent to your email as it is.</p>',
+  'web.link_used': '<h1>Link already used</h1><p>This verification link was already used or is no longer valid. Please use /verify in the bot to get a new link.</p>',
+  'web.member_missing': '<h1>Verification failed</h1><p>The member was not found. Please contact support.</p>',
+  'web.membership_linked_elsewhere': '<h1>Verification failed</h1><p>This membership number is already registered with another Telegram account. Please contact support.</p>',
+  'web.telegram_registered': '<h1>User already exists</h1><p>This Telegram account is already registered. Please contact an admin.</p>',
+  'web.success': `<h1>Verification successful!</h1>
+      <p>Hello {name},</p>
+      <p>Your Telegram account is now linked to your membership ({membership_number}).</p>
+      <p>You can close this window and go back to Telegram.</p>`,
+  'web.error': '<h1>Verification failed</h1><p>Something went wrong during the verification. Please try again or contact support.</p>',
+
+  // /myinfo and /leaderboard
+  'info.not_found': 'No membership information was found\\. Please use /verify to register your account',
+  'info.details': `*Membership information* 📋
+
+🆔 *Membership number:* {membership_number}
+👤 *Arabic name:* {ar_name}
+👤 *Latin name:* {latin_name}
+📧 *Email:* {email}
+📱 *Phone:* {phone}
+💬 *WhatsApp:* {whatsapp}
+
+_This information is registered in our system\\._`,
+  'leaderboard.invalid_period': 'Please write the month as YYYY\\-MM, for example /leaderboard 2026\\-09',
+  'leaderboard.title': '🏆 *Leaderboard \\- {period}*',
+  'leaderboard.empty': 'No points have been recorded this month yet',
+  'leaderboard.rank': '📍 *Your rank:* {rank} \\- {points}',
+  'leaderboard.no_rank': '📍 You haven\'t earned points this month yet',
+  'leaderboard.entry': '{rank} {name} \\- {points} \\({tasks} tasks{penalty}\\)',
+  'leaderboard.penalty': ', late penalty {points}',
+  'leaderboard.points': '*{points}* points',
+  'leaderboard.monthly_title': '🏆 *Points of {period} \\- {project}*',
+  'leaderboard.monthly_thanks': '🙏 Thanks to everyone who contributed to the project this month\\!',
+
+  // /groups and the join requests
+  'groups.none': 'No groups are available right now\\. Please try again later\\.',
+  'groups.header': '*Available groups* 🏢\n\nYou can ask to join any of these groups:',
+  'groups.item': '*{number}\\. {title}*',
+  'groups.members': '👥 {count} members',
+  'groups.join_button': 'Join {title}',
+  'groups.not_found_alert': '❌ The group was not found',
+  'groups.verify_first_alert': '❌ Please verify your membership first with /verify',
+  'groups.invite_link': '✅ *Your join link is ready\\!*\n\nGroup: *{group}*\n\nHere is your personal join link:\n{link}\n\n⚠️ *Important:*\n• This link is only for you\n• It can only be used once\n• Do not share it with anyone',
+  'groups.invite_link_alert': '✅ Join link created',
+  'groups.invite_link_failed_alert': '❌ Failed to create the join link. Please try again later',
+  'join.invite_link': 'Hello {name}\\! 🎉\n\nYour membership is verified\\.\n\nHere is your personal join link:\n{link}\n\n⚠️ *Important:*\n• This link is only for you\n• It can only be used once\n• Do not share it with anyone',
+  'join.approved_soon': 'Hello {name}\\!\n\nYour membership is verified\\. Your request will be approved soon\\.',
+  'join.verify_prompt': 'Hello {name}\\!\n\nWe received your request to join the group\\.\n\nPlease use the /verify command to verify your membership so you can access the group\\.',
+  'join.start_bot': 'Dear {name} {username}\n\nPlease start a private chat with this bot so you can join the group\\.',
+
+  // Join requests waiting for admin approval
+  'join_request.requester_pending': 'Hello {name}\\!\n\nYour request to join *{group}* was received\\.\nYou will be told once the admins approve it\\.',
+  'join_request.requester_approved': '🎉 Your request to join *{group}* is approved\\. Welcome\\!',
+  'join_request.requester_declined': 'Sorry, your request to join *{group}* was not approved\\.',
+  'join_request.admin_request': '📥 *New join request*\n\nGroup: *{group}*\nName: {name}\nUsername: {username}\nTelegram ID: `{user_id}`\n\n{member}',
+  'join_request.verified_member': '✅ *Verified member*\nMembership number: {membership_number}\nArabic name: {ar_name}\nLatin name: {latin_name}',
+  'join_request.verified_number': '✅ *Verified member*\nMembership number: {membership_number}',
+  'join_request.unverified': '⚠️ *Membership not verified yet*',
+  'join_request.no_username': 'None',
+  'join_request.approve_button': '✅ Approve',
+  'join_request.decline_button': '❌ Decline',
+  'join_request.approved_decision': '✅ *Approved* by {admin}',
+  'join_request.declined_decision': '❌ *Declined* by {admin}',
+  'join_request.expired_decision': '⌛ *The request expired* without an answer from the admins',
+  'join_request.not_found_alert': '❌ Request not found',
+  'join_request.admin_only_alert': '⛔ Only the group admins can do this',
+  'join_request.already_decided_alert': 'ℹ️ This request was already handled ({status})',
+  'join_request.already_handled_alert': 'ℹ️ This request was already handled',
+  'join_request.action_failed_alert': '❌ The action failed, the user may have withdrawn their request',
+  'join_request.approved_alert': '✅ The request is approved',
+  'join_request.declined_alert': '❌ The request is declined',
+  'join_request.status_approved': 'approved',
+  'join_request.status_declined': 'declined',
+  'join_request.status_expired': 'expired',
+
+  // /settings
+  'settings.text': `⚙️ *Notification settings*
+
+Press a setting to change it\\.
+✅ You get it  \\|  🔕 You don't
+
+🌙 *Quiet hours:* {quiet_hours}
+_Messages that arrive in the quiet hours wait until they end, Istanbul time\\._
+
+_New tasks and due date changes are always sent\\._`,
+  'settings.no_quiet_hours': 'None',
+  'settings.task_reminders.label': 'Reminders and late notices of my tasks',
+  'settings.shame.label': 'Shame messages from colleagues',
+  'settings.broadcasts.label': 'Announcements',
+  'settings.group_summaries.label': 'Project activity summaries',
+  'settings.daily_digest.label': 'Daily project report',
+  'settings.language_button': '🌐 Language: {language}',
+  'settings.quiet_hours_button': '🌙 Quiet hours: {quiet_hours}',
+  'settings.saved_alert': '✅ Settings saved',
+  'settings.unknown_alert': '❌ Unknown setting',
+  'settings.save_failed_alert': '❌ Failed to save the settings',
+  'settings.error_alert': '❌ Something went wrong while saving the settings',
+
+  // Task notices of the sheet check
+  'task.new': `🆕 *New task*
+
+📋 *Task:* {task}
+⚡ *Priority:* {priority}
+📅 *Due date:* {due_date}
+
+📝 *Notes:* {notes}
+
+🏗️ *Project:* {project}
+👨‍💼 *Project manager:* {manager}
+
+🔗 [Tracking sheet]({sheet_url})`,
+  'task.reminder': `⏰ *Task reminder*
+
+📋 *Task:* {task}
+⚡ *Priority:* {priority}
+📅 *Due date:* {due_date}
+
+📝 *Notes:* {notes}
+
+🏗️ *Project:* {project}
+👨‍💼 *Project manager:* {manager}
+
+🔗 [Tracking sheet]({sheet_url})`,
+  'task.late': `🚨 *Late task*
+
+📋 *Task:* {task}
+⚡ *Priority:* {priority}
+📅 *Was due on:* {due_date}
+
+📝 *Notes:* {notes}
+
+🏗️ *Project:* {project}
+👨‍💼 *Project manager:* {manager}
+
+⚠️ *Please contact the project manager as soon as possible*
+
+🔗 [Tracking sheet]({sheet_url})`,
+  'task.escalation': `📣 *Late task escalation*
+
+👤 *Owner:* {owner}
+📋 *Task:* {task}
+📅 *Was due on:* {due_date} \\({days} days late\\)
+🔔 *Late reminders sent:* {reminders}
+
+🏗️ *Project:* {project}
+
+⚠️ *The task is still late after {reminders} reminders, please contact the owner*
+
+🔗 [Tracking sheet]({sheet_url})`,
+  'task.due_date_changed': `📅 *Due date changed*
+
+📋 *Task:* {task}
+⚡ *Priority:* {priority}
+📅 *New due date:* {due_date}
+📅 *Previous due date:* {old_due_date}
+
+📝 *Notes:* {notes}
+
+🏗️ *Project:* {project}
+👨‍💼 *Project manager:* {manager}
+
+🔗 [Tracking sheet]({sheet_url})`,
+  'task.missing_data': `⚠️ *Missing task data*
+
+🏗️ *Project:* {project}
+📍 *Row:* {row}
+
+❌ *Missing data:*
+{fields}
+
+📝 *Current task:* {task}
+👤 *Current owner:* {owner}
+
+🔗 [Tracking sheet]({sheet_url})
+
+Please fill in the missing data in the sheet\\.`,
+  'task.missing.owner': 'Owner name',
+  'task.missing.points': 'Points',
+  'task.missing.task': 'Task description',
+  'task.missing.priority': 'Priority',
+  'task.missing.due_date': 'Due date',
+  'task.delivery_failed': `🚫 *A message could not be sent to a member*
+
+📋 *Message:* {type}
+👤 *Member:* {owner}
+🆔 *Membership number:* {membership_number}
+{username_line}
+❌ *Reason:* {reason}
+{email_line}
+📝 *Task:* {task}
+🏗️ *Project:* {project}
+📅 *Due date:* {due_date}
+
+⚠️ *Please take the right action, or contact the digital transformation office for help*
+
+🔗 [Tracking sheet]({sheet_url})`,
+  'task.delivery_failed.username': '📱 *Telegram username:* @{username}\n',
+  'task.delivery_failed.email': '📧 *The message was sent to their email:* {email}\n',
+  'task.delivery_failed.type.new': 'New task',
+  'task.delivery_failed.type.reminder': 'Task reminder',
+  'task.delivery_failed.type.late': 'Late task',
+  'task.delivery_failed.type.updated': 'Due date change',
+  'task.delivery_failed.reason.BOT_BLOCKED': 'The user blocked the bot',
+  'task.delivery_failed.reason.NOT_STARTED': 'The user has not started a chat with the bot yet',
+  'task.delivery_failed.reason.CHAT_NOT_FOUND': 'The user account does not exist or is invalid',
+  'task.delivery_failed.reason.NO_TELEGRAM_ID': 'The user has not registered a Telegram account',
+  'task.delivery_failed.reason.MEMBER_NOT_FOUND': 'The user was not found in the database',
+  'task.delivery_failed.reason.RATE_LIMIT': 'The sending limit was exceeded',
+  'task.delivery_failed.reason.BAD_REQUEST': 'The message data was invalid',
+  'task.delivery_failed.reason.UNKNOWN_ERROR': 'Unknown error',
+  'task.no_notes': 'No notes',
+  'task.done_button': '✅ Done',
+  'task.progress_button': '🔄 In progress',
+  'task.block_button': '⛔ Blocked',
+  'task.help_button': '🆘 I need help',
+  'task.extend_button': '📅 Ask for more time',
+  'task.history_button': '🕘 Task history',
+  'task.not_found_alert': '❌ Task not found',
+  'task.owner_only_alert': '⛔ Only the owner of the task can do this',
+  'task.sheet_failed_alert': '❌ Could not update the tracking sheet. Please try again later',
+  'task.sheet_failed': '❌ Could not update the tracking sheet\\. Please try again later',
+
+  // Buttons under task notices
+  'task_action.done_alert': '✅ The task is marked as done',
+  'task_action.progress_alert': '🔄 The task status is updated',
+  'task_action.block_reason_alert': '✍️ Please send the reason the task is blocked',
+  'task_action.help_sent_alert': '📨 The project manager was told about your request',
+  'task_action.help_failed_alert': '❌ Could not reach the project manager',
+  'task_action.block_task_missing': '❌ Task not found\\. Please press the *Blocked* button again',
+  'task_action.blocked': '⛔ The task is marked as blocked and the project manager was told',
+  'task_action.title.done': '✅ *Task done*',
+  'task_action.title.progress': '🔄 *Task in progress*',
+  'task_action.title.block': '⛔ *Task blocked*',
+  'task_action.title.help': '🆘 *Help requested on a task*',
+  'task_action.manager_notice': `{title}
+
+👤 *Member:* {owner}
+📋 *Task:* {task}
+🏗️ *Project:* {project}
+{reason_line}
+🔗 [Tracking sheet]({sheet_url})`,
+  'task_action.manager_notice.reason': '📝 *Reason:* {reason}\n',
+
+  // Due date extension requests
+  'extension.completed_alert': 'ℹ️ This task is already done',
+  'extension.no_manager_alert': '❌ The project manager can\'t be reached on Telegram',
+  'extension.pending_alert': 'ℹ️ You already have an extension request under review for this task',
+  'extension.pending': 'ℹ️ You already have an extension request under review for this task',
+  'extension.date_prompt': `📅 *Due date extension request*
+
+📋 *Task:* {task}
+📅 *Current due date:* {due_date}
+
+Please send the new due date as *day\\-month\\-year*, for example: {example}`,
+  'extension.date_prompt_alert': '📅 Please send the new due date',
+  'extension.task_missing': '❌ Task not found\\. Please press the *Ask for more time* button again',
+  'extension.invalid_date': '❌ The date format is not valid\\. Please send the date as *day\\-month\\-year*, for example: {example}',
+  'extension.past_date': '❌ The new due date must be after today\\. Please send another date',
+  'extension.reason_prompt': '📝 Requested due date: *{due_date}*\n\nPlease send the reason for the extension',
+  'extension.manager_unreachable': '⚠️ Your request is saved but could not be sent to the project manager\\. Please contact them directly',
+  'extension.sent': '📨 The extension request was sent to the project manager\\. You will be told about the decision',
+  'extension.request': `📅 *Due date extension request*
+
+👤 *Member:* {owner}
+📋 *Task:* {task}
+🏗️ *Project:* {project}
+📅 *Current due date:* {due_date}
+📅 *Requested due date:* {requested_due_date}
+
+📝 *Reason:* {reason}`,
+  'extension.approve_button': '✅ Approve',
+  'extension.reject_button': '❌ Reject',
+  'extension.request_not_found_alert': '❌ Request not found',
+  'extension.manager_only_alert': '⛔ Only the project manager can do this',
+  'extension.already_decided_alert': 'ℹ️ This request was already handled',
+  'extension.approved_alert': '✅ The extension is approved',
+  'extension.rejected_alert': '❌ The extension request is rejected',
+  'extension.approved_decision': '✅ *Extension approved*',
+  'extension.rejected_decision': '❌ *Extension request rejected*',
+  'extension.owner_approved': `✅ *Your extension request is approved*
+
+📋 *Task:* {task}
+📅 *New due date:* {due_date}`,
+  'extension.owner_rejected': `❌ *Your extension request is rejected*
+
+📋 *Task:* {task}
+📅 *The due date stays:* {due_date}
+
+Please contact the project manager if you need help`,
+
+  // History button of task notices
+  'history.forbidden_alert': '⛔ Only the owner of the task and the project manager can see its history',
+  'history.header': `🕘 *Task history*
+
+📋 *Task:* {task}
+🏗️ *Project:* {project}
+📅 *Due date changes:* {due_date_changes} \\(postponed: {due_date_slips}\\)
+🔔 *Notifications sent:* {sent}`,
+  'history.earlier_events': '\\.\\.\\. and {count} earlier events',
+  'history.no_events': 'No events recorded yet',
+  'history.event.created': '• {date}: 🆕 Task added \\({source}\\)',
+  'history.event.archived': '• {date}: 🗄️ Task removed from the sheet',
+  'history.event.notified': '• {date}: 🔔 {notification}',
+  'history.event.notified_email': '• {date}: 🔔 {notification} \\(by email\\)',
+  'history.event.changed': '• {date}: ✏️ {field}: {old_value} ➡️ {new_value} \\({source}\\)',
+  'history.empty_value': 'empty',
+  'history.field.ownerName': 'Owner',
+  'history.field.managerName': 'Project manager',
+  'history.field.points': 'Points',
+  'history.field.status': 'Status',
+  'history.field.taskText': 'Task',
+  'history.field.priority': 'Priority',
+  'history.field.notes': 'Notes',
+  'history.field.milestone': 'Milestone',
+  'history.field.projectName': 'Project',
+  'history.field.dueDate': 'Due date',
+  'history.field.completed_at': 'Completion date',
+  'history.field.blocked_at': 'Blocked date',
+  'history.notification.new': 'New task notice',
+  'history.notification.reminder': 'Reminder',
+  'history.notification.late': 'Late task notice',
+  'history.notification.late_undelivered': 'Late task notice not delivered',
+  'history.notification.date_changed': 'Due date change notice',
+  'history.notification.missing_data': 'Missing data notice',
+  'history.notification.shame': 'Shame notice',
+  'history.notification.escalation': 'Escalation to the project manager',
+  'history.source.sheet_sync': 'tracking sheet',
+  'history.source.telegram': 'Telegram',
+  'history.source.api': 'dashboard',
+
+  // /mytasks and /team
+  'task_list.my_empty': '📭 You have no open or recently completed tasks',
+  'task_list.my_header': '📋 *My tasks*\n\n🚨 Overdue: {overdue}  \\|  🔄 Open: {open}  \\|  ✅ Recently done: {completed}',
+  'task_list.team_empty': '📭 You don\'t manage any tasks at the moment',
+  'task_list.team_header': '👥 *Team tasks*\n\n✅ Done in 24 hours: {completed}  \\|  ⏳ Pending: {pending}  \\|  🚨 Overdue: {overdue}',
+  'task_list.team_header_counts': '👥 *Team tasks*\n\n🔄 Open: {open}  \\|  🚨 Overdue: {overdue}',
+  'task_list.completed_on': 'done {date}',
+  'task_list.page': '_Page {page} of {pages}_',
+  'task_list.previous_button': '◀️ Previous',
+  'task_list.next_button': 'Next ▶️',
+
+  // Reports to the managers and the admin chat
+  'manager_report.title': `*📊 Daily report \\- {manager}*
+*📁 Project: {project}*
+
+📅 Date: {date}`,
+  'manager_report.default_manager': 'Manager',
+  'manager_report.completed': '*✅ Tasks completed \\(last 24 hours\\):* {count}',
+  'manager_report.overdue': '*⚠️ Overdue tasks:* {count}',
+  'manager_report.pending': '*⏳ Pending tasks:* {count}',
+  'manager_report.high_priority': '🔴 High priority tasks: {count}',
+  'manager_report.more_tasks': '_\\.\\.\\. and {count} more tasks_',
+  'manager_report.totals': '*📈 Totals:*\n  • Active tasks: {active}\n  • Completed today: {completed}',
+  'manager_report.follow_up': '⚡️ _Please follow up on the overdue tasks with the team_',
+  'manager_report.well_done': '🎉 _Great work\\! Keep it up_',
+  'activity.project_title': '📉 *Project activity \\- {project}*',
+  'activity.project_inactive': '⏸️ No movement on the tasks of the project for {days} days or more',
+  'activity.owners_inactive': '⚠️ Some team members have had no movement on their tasks for {days} days or more',
+  'activity.owner': '*{name}:* {open} open{overdue}{blocked}, {completed} done',
+  'activity.owner_overdue': ', {count} overdue',
+  'activity.owner_blocked': ', {count} blocked',
+  'activity.last_movement': '🕘 Last movement: {date}',
+  'activity.project_footer': '💬 _Please contact the stalled team members to find out what is holding them up_',
+  'activity.summary': `🗂️ *Daily follow\\-up summary \\- {date}*
+
+⚠️ *Overdue tasks:* {overdue}
+⏳ *Due within {days} days:* {due_soon}
+⛔ *Blocked tasks:* {blocked}`,
+  'activity.summary_overdue_projects': '📁 *Projects with the most overdue tasks:*',
+  'activity.summary_blocked_projects': '🚧 *Projects with the most blocked tasks:*',
+  'activity.summary_inactive_projects': '⏸️ *Projects without movement for {days} days or more:*',
+  'activity.summary_inactive_project': '• {project} \\({manager}\\) \\- last movement: {date}',
+  'activity.summary_more_projects': '_\\.\\.\\. and {count} more projects_',
+  'activity.summary_all_clear': '🎉 _No overdue or blocked tasks today_',
+
+  // Shame messages about late tasks
+  'shame.notification': `🫣 *Shame\\! \\- A colleague has a late task*
+
+One of your project colleagues has a late task\\!
+
+🤡 *Slacker:* {owner}
+📋 *Project:* {project}
+📝 *Task:* {task}
+⏰ *Late by:* {days} days
+⚡ *Priority:* {priority}
+
+You can remind them with the button below 👇`,
+  'shame.button': '😤 Send "Shame on you!"',
+  'shame.message': `😤 *Shame on you\\!*
+
+A project colleague sent you "Shame on you" because this task is late:
+
+📋 *Project:* {project}
+📝 *Task:* {task}
+
+⏰ Time to get it done\\!`,
+  'shame.task_not_found_alert': '❌ The task was not found',
+  'shame.task_completed_alert': '✅ The task is done, no shaming now!',
+  'shame.self_alert': '😅 You cannot shame yourself!',
+  'shame.owner_not_linked_alert': '❌ The task owner has no registered Telegram account',
+  'shame.owner_opted_out_alert': '🔕 The task owner turned off shame messages',
+  'shame.send_failed_alert': '❌ Failed to send the message',
+  'shame.sent_alert': '✅ "Shame on you!" sent',
+  'shame.error_alert': '❌ Something went wrong while handling the request',
+
+  // /summarize in groups
+  'summarize.generating': '_Generating summary of the last {hours} conversation\\.\\.\\._',
+  'summarize.generating_topic': '_Generating summary of this topic from the last {hours}\\.\\.\\._',
+  'summarize.no_messages': 'No messages found in the last {hours}\\.',
+  'summarize.no_messages_topic': 'No messages found in this topic in the last {hours}\\.',
+  'summarize.summary': '📝 Summary of conversation from last {hours}:\n\n{summary}',
+  'summarize.summary_topic': '📝 Summary of this topic from last {hours}:\n\n{summary}',
+  'summarize.error': 'Sorry\\, I encountered an error while generating the summary\\. Please try again later\\.',
+
+  // Admin commands in groups
+  'group_admin.not_admin': '⛔ This command is only available to the group admins\\.',
+  'group_admin.not_registered': 'This group is not registered yet\\. Use /register\\_group first\\.',
+  'group_admin.telegram_failed': '❌ Failed to fetch the group info from Telegram\\. Make sure the bot is an admin in this group\\.',
+  'group_admin.register_failed': '❌ Failed to register this group\\. Please try again later\\.',
+  'group_admin.registered': '✅ Group registered: *{title}*\n\n{status}',
+  'group_admin.updated': '✅ Group info updated: *{title}*\n\n{status}',
+  'group_admin.sync_failed': '❌ Failed to sync this group\\. Please try again later\\.',
+  'group_admin.synced': '🔄 Group synced: *{title}*\n\n{status}',
+  'group_admin.status': '👮 Admins: {admins}\n👥 Members: {members}\n🔐 Join approval: {approval}',
+  'group_admin.approval_current': 'Join approval is currently *{state}*\\.\n\nUsage: /approval on \\| /approval off',
+  'group_admin.approval_failed': '❌ Failed to update the join approval setting\\. Please try again later\\.',
+  'group_admin.approval_on': '✅ Join approval is now *on*\\. New members need an admin to approve them\\.',
+  'group_admin.approval_off': '✅ Join approval is now *off*\\. Verified members can join directly\\.',
+  'group_admin.description_usage': 'Usage: /set\\_description <new description\\>',
+  'group_admin.description_failed': '❌ Failed to update the description\\. The bot needs the permission to change the group info\\.',
+  'group_admin.description_updated': '✅ Group description updated\\.',
+  'group_admin.no_pending': 'No pending join requests\\.',
+  'group_admin.pending': '⏳ *Pending join requests \\({count}\\):*\n\n{requests}',
+  'group_admin.error': 'Sorry\\, I encountered an error while running this command\\. Please try again later\\.'
+};
@@ -0,0 +1,97 @@
+import { PreferredLanguage, PREFERRED_LANGUAGES } from '../models/member-preferences';
+import { escapeHtml, escapeMarkdownV2 } from '../utils/helpers';
+import { ar, MessageKey } from './ar';
+import { en } from './en';
+import { tr } from './tr';
+
+export { MessageKey } from './ar';
+
+// Language of the members without a preference whose Telegram app doesn't tell theirs
+export const DEFAULT_LANGUAGE: PreferredLanguage = 'ar';
+
+const CATALOGS: Record<PreferredLanguage, Record<MessageKey, string>> = { ar, en, tr };
+
+// A parameter that is already formatted (MarkdownV2 or HTML) and is put in the template as it is
+export interface FormattedText {
+  formatted: string;
+}
+
+export type MessageParams = Record<string, string | number | FormattedText | null | undefined>;
+
+/**
+ * Mark text that is already formatted, e.g. a link or a message part built with t(), so it isn't escaped again
+ */
+export function formatted(text: string): FormattedText {
+  return { formatted: text };
+}
+
+/**
+ * Supported language of a Telegram language_code or an Accept-Language header ("en", "tr-TR", "en-US,en;q=0.9")
+ * @returns null when the language isn't supported
+ */
+export function languageFromCode(code?: string | null): PreferredLanguage | null {
+  const language = (code || '').trim().slice(0, 2).toLowerCase();
+  return (PREFERRED_LANGUAGES as string[]).includes(language) ? language as PreferredLanguage : null;
+}
+
+/**
+ * Language to talk to a user in: their /settings choice, then the language of their Telegram app
+ */
+export function resolveLanguage(stored?: PreferredLanguage | null, languageCode?: string | null): PreferredLanguage {
+  return stored || languageFromCode(languageCode) || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Message for Telegram in MarkdownV2
+ * The templates are written in MarkdownV2, the parameters are escaped unless wrapped in formatted()
+ * @param params Values of the {name} placeholders of the template
+ */
+export function t(language: PreferredLanguage, key: MessageKey, params: MessageParams = {}): string {
+  return interpolate(language, key, params, escapeMarkdownV2);
+}
+
+/**
+ * Plain text message, for buttons and callback query answers
+ */
+export function tText(language: PreferredLanguage, key: MessageKey, params: MessageParams = {}): string {
+  return interpolate(language, key, params, text => text);
+}
+
+/**
+ * HTML message, for the pages of the web verification
+ */
+export function tHtml(language: PreferredLanguage, key: MessageKey, params: MessageParams = {}): string {
+  return interpolate(language, key, params, escapeHtml);
+}
+
+/**
+ * A number of hours in words, "3 hours" or "3 ساعات"
+ */
+export function formatHours(language: PreferredLanguage, hours: number): string {
+  // Arabic counts have a form for 1, 2 and 3-10
+  const form = hours === 1 ? 'one' : hours === 2 ? 'two' : hours >= 3 && hours <= 10 ? 'few' : 'other';
+  return tText(language, `time.hours_${form}` as MessageKey, { count: hours });
+}
+
+/**
+ * Priority of a task in words, for the P0-P3 codes; other priorities are returned as they are
+ */
+export function formatPriority(language: PreferredLanguage, priority: string): string {
+  const code = (priority || '').trim().toUpperCase();
+  return /^P[0-3]$/.test(code) ? tText(language, `priority.${code}` as MessageKey) : priority;
+}
+
+function interpolate(language: PreferredLanguage, key: MessageKey, params: MessageParams, escape: (text: string) => string): string {
+  const template = CATALOGS[language]?.[key] ?? ar[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      console.warn(`Missing parameter ${name} of message ${key}`);
+      return '';
+    }
+    if (value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? value.formatted : escape(String(value));
+  });
+}
@@ -0,0 +1,528 @@
+import { MessageKey } from './ar';
+
+// Turkish messages of the bot, see ar.ts for the formats of the keys
+export const tr: Record<MessageKey, string> = {
+  // Shared words
+  'common.on': 'açık',
+  'common.off': 'kapalı',
+  'common.not_set': 'Belirtilmemiş',
+  'common.unavailable': 'Mevcut değil',
+  'common.error_alert': '❌ Bir hata oluştu. Lütfen daha sonra tekrar deneyin',
+  'common.error': '❌ Bir hata oluştu\\. Lütfen daha sonra tekrar deneyin',
+  'time.hours_one': '{count} saat',
+  'time.hours_two': '{count} saat',
+  'time.hours_few': '{count} saat',
+  'time.hours_other': '{count} saat',
+  'priority.P0': 'Çok acil veya olağanüstü',
+  'priority.P1': 'Acil',
+  'priority.P2': 'Orta',
+  'priority.P3': 'Acil değil',
+
+  // /start and /help
+  'welcome.text': `*İbtikar Topluluğuna hoş geldiniz\\!* 🎉
+
+Telegram üzerinden bizimle iletişime geçtiğiniz için teşekkür ederiz\\.
+
+*Bu bot hakkında*
+Bu bot üyeliğinizi doğrulamak ve İbtikar Topluluğunun önemli bildirim ve duyurularından sizi haberdar etmek için tasarlandı\\.
+
+*Gizlilik bildirimi*
+• Botu ve kullanıcı deneyimini iyileştirmek için kullanım verileri topluyoruz\\.
+• Bu botu kullanarak verilerinizin bu bildirimde açıklandığı şekilde toplanmasını ve kullanılmasını kabul etmiş olursunuz\\.
+• Gizlilik politikamız hakkında daha fazla bilgi için [web sitemizi](https://ibtikar.org.tr) ziyaret edin, [GitHub](https://github.com/ibtikar-org-tr/telegram-membership-bot) üzerindeki açık kaynak koda bakın veya destekle iletişime geçin\\.
+
+*Nasıl başlanır*
+1\\. Doğrulamayı başlatmak için */verify* komutunu kullanın
+2\\. Üyelik numaranızı girin
+3\\. Doğrulama bağlantısı için kayıtlı e\\-postanızı kontrol edin
+4\\. Doğrulamayı tamamlamak için bağlantıya tıklayın
+
+*Yardıma mı ihtiyacınız var?*
+Tüm komutları görmek için */help* komutunu kullanın\\.
+Bu bota sorularınızı da sorabilirsiniz, bir yapay zeka asistanına bağlıdır\\.
+Üyelik bilgilerinizi unuttuysanız şu bağlantıyı ziyaret edin: [Üyelik bilgilerini kurtar](https://iforgot.ibtikar.tr)\\.
+
+Aramıza hoş geldiniz\\! 🚀`,
+  'help.text': `*Yardım*
+
+Üyelik botumuza hoş geldiniz\\! Kullanılabilir komutlar:
+
+🔹 */start* \\- Hoş geldin mesajını ve gizlilik bildirimini göster
+🔹 */verify* \\- Üyelik doğrulamasını başlat
+🔹 */myinfo* \\- Üyelik bilgilerini göster
+🔹 */groups* \\- Mevcut grupları göster ve katılma isteği gönder
+🔹 */mytasks* \\- Açık, geciken ve yakında tamamlanan görevlerini göster
+🔹 */team* \\- Yönettiğin ekibin görevlerini göster
+🔹 */leaderboard* \\- Bu ayın puan sıralamasını göster
+🔹 */settings* \\- Aldığın bildirimleri, sessiz saatleri ve dili seç
+🔹 */help* \\- Bu yardımı göster
+
+Bu bota sorularını sorabilirsin, bir yapay zeka asistanına bağlıdır\\.
+Başka bir konuda yardıma ihtiyacın olursa\\, lütfen destek ekibimizle iletişime geç\\.
+
+_Bu bot üyelik doğrulaması ve bildirimler için kullanılır\\._`,
+  'ai.thinking': '_Düşünüyorum\\.\\.\\._',
+
+  // /verify
+  'verify.already_registered': '{membership_number} üyelik numarasıyla zaten kayıtlısınız\n\nAd: {name}\n\nKullanılabilir komutlar için /help kullanın',
+  'verify.locked': '⛔ Çok sayıda yanlış kod girildiği için doğrulama durduruldu\\.\n\nLütfen {minutes} dakika sonra tekrar deneyin',
+  'verify.cooldown': '⏳ Az önce e\\-postanıza bir doğrulama kodu gönderildi\\.\n\nLütfen kodu buraya girin veya /verify ile yeni kod istemeden önce {seconds} saniye bekleyin',
+  'verify.subscribe_first': 'Üyeliğinizi doğrulamak için önce resmi kanalımıza abone olun:\n\n{link}\n\nAbone olduktan sonra devam etmek için aşağıdaki düğmeye basın',
+  'verify.subscribe_button': '📢 Kanala abone ol',
+  'verify.subscribed_button': '✅ Abone oldum',
+  'verify.subscription_confirmed': '✅ Aboneliğiniz doğrulandı\\!\n\nŞimdi üyeliğinizi doğrulamak için üyelik numaranızı girin',
+  'verify.subscription_confirmed_alert': '✅ Aboneliğiniz doğrulandı',
+  'verify.subscription_missing_alert': '❌ Abonelik bulunamadı. Lütfen önce kanala abone olun',
+  'verify.enter_membership_number': 'Üyeliğinizi doğrulamak için lütfen üyelik numaranızı girin',
+  'verify.membership_not_found': 'Bu üyelik numarası bulunamadı\\. Lütfen üyelik numaranızı kontrol edip tekrar deneyin\\, veya destekle iletişime geçin\\.\n\nKullanılabilir komutlar için /help kullanın',
+  'verify.no_email': 'Bu üyelik için e\\-posta adresi bulunamadı\\. E\\-posta adresinizi güncellemek için lütfen destekle iletişime geçin',
+  'verify.telegram_registered': 'Bu Telegram hesabı zaten kayıtlı\\. Yardıma ihtiyacınız varsa lütfen bir yöneticiyle iletişime geçin',
+  'verify.membership_linked_elsewhere': 'Bu üyelik numarası başka bir Telegram hesabıyla kayıtlı\\. Bunun bir hata olduğunu düşünüyorsanız\\, lütfen destekle iletişime geçin',
+  'verify.membership_cooldown': '⏳ Bu üyelik için az önce bir doğrulama e\\-postası gönderildi\\.\n\nLütfen {seconds} saniye bekleyip /verify komutunu tekrar kullanın',
+  'verify.email_failed': 'Doğrulama e\\-postası şu anda gönderilemedi\\. Lütfen daha sonra /verify ile tekrar deneyin',
+  'verify.email_sent': 'Doğrulama e\\-postası {email} adresine gönderildi\n\nŞunları yapabilirsiniz:\n1\\. E\\-postadaki 6 haneli kodu buraya yazın\n2\\. E\\-postadaki doğrulama bağlantısına tıklayın\n\nKodun süresi 10 dakika içinde dolacak',
+  'verify.code_expired': '⌛ Doğrulama kodunun süresi doldu veya başlatılmış bir doğrulama yok\\. Yeni kod için lütfen /verify kullanın',
+  'verify.code_wrong': '❌ Doğrulama kodu yanlış\\. Kalan deneme: {attempts}\n\nLütfen kontrol edip tekrar deneyin\\, veya e\\-postanızdaki bağlantıyı kullanın',
+  'verify.member_missing': 'Üye bulunamadı\\. Lütfen destekle iletişime geçin',
+  'verify.telegram_registered_short': 'Bu Telegram hesabı zaten kayıtlı\\. Lütfen bir yöneticiyle iletişime geçin',
+  'verify.success': '✅ Doğrulama başarılı\\!\n\nArtık topluluğumuzdan mesaj almak için kayıtlısınız\\.\n\nÜyeliğiniz: {name} \\- {membership_number}\n\nKullanılabilir komutlar için /help kullanın',
+  'verify.link_success': 'Doğrulama başarılı\\. Artık topluluğumuzdan mesaj almak için kayıtlısınız\\.\n\nÜyeliğiniz: {name}\\, {membership_number}\n\nKullanılabilir komutlar için /help kullanın',
+
+  // Pages of the emailed verification link
+  'web.missing_parameters': '<h1>Geçersiz doğrulama bağlantısı</h1><p>Gerekli parametreler eksik.</p>',
+  'web.link_expired': '<h1>Bağlantının süresi doldu</h1><p>Doğrulama bağlantısının süresi doldu. Yeni bağlantı için lütfen botta /verify kullanın.</p>',
+  'web.link_invalid': '<h1>Geçersiz doğrulama bağlantısı</h1><p>Doğrulama bağlantısı geçersiz. Lütfen e-postanıza gönderilen bağlantıyı olduğu gibi kullanın.</p>',
+  'web.link_used': '<h1>Bağlantı kullanılmış</h1><p>Bu doğrulama bağlantısı daha önce kullanıldı veya artık geçerli değil. Yeni bağlantı için lütfen botta /verify kullanın.</p>',
+  'web.member_missing': '<h1>Doğrulama başarısız</h1><p>Üye bulunamadı. Lütfen destekle iletişime geçin.</p>',
+  'web.membership_linked_elsewhere': '<h1>Doğrulama başarısız</h1><p>Bu üyelik numarası başka bir Telegram hesabıyla kayıtlı. Lütfen destekle iletişime geçin.</p>',
+  'web.telegram_registered': '<h1>Kullanıcı zaten var</h1><p>Bu Telegram hesabı zaten kayıtlı. Lütfen bir yöneticiyle iletişime geçin.</p>',
+  'web.success': `<h1>Doğrulama başarılı!</h1>
+      <p>Merhaba {name},</p>
+      <p>Telegram hesabınız üyeliğinize ({membership_number}) bağlandı.</p>
+      <p>Bu pencereyi kapatıp Telegram'a dönebilirsiniz.</p>`,
+  'web.error': '<h1>Doğrulama başarısız</h1><p>Doğrulama sırasında bir hata oluştu. Lütfen tekrar deneyin veya destekle iletişime geçin.</p>',
+
+  // /myinfo and /leaderboard
+  'info.not_found': 'Üyelik bilgisi bulunamadı\\. Hesabınızı kaydetmek için lütfen /verify kullanın',
+  'info.details': `*Üyelik bilgileri* 📋
+
+🆔 *Üyelik numarası:* {membership_number}
+👤 *Arapça ad:* {ar_name}
+👤 *Latin ad:* {latin_name}
+📧 *E\\-posta:* {email}
+📱 *Telefon:* {phone}
+💬 *WhatsApp:* {whatsapp}
+
+_Bu bilgiler sistemimizde kayıtlıdır\\._`,
+  'leaderboard.invalid_period': 'Lütfen ayı YYYY\\-MM biçiminde yazın, örneğin /leaderboard 2026\\-09',
+  'leaderboard.title': '🏆 *Puan tablosu \\- {period}*',
+  'leaderboard.empty': 'Bu ay henüz puan kaydedilmedi',
+  'leaderboard.rank': '📍 *Sıranız:* {rank} \\- {points}',
+  'leaderboard.no_rank': '📍 Bu ay henüz puan toplamadınız',
+  'leaderboard.entry': '{rank} {name} \\- {points} \\({tasks} görev{penalty}\\)',
+  'leaderboard.penalty': ', gecikme kesintisi {points}',
+  'leaderboard.points': '*{points}* puan',
+  'leaderboard.monthly_title': '🏆 *{period} puanları \\- {project}*',
+  'leaderboard.monthly_thanks': '🙏 Bu ay projeye katkıda bulunan herkese teşekkürler\\!',
+
+  // /groups and the join requests
+  'groups.none': 'Şu anda uygun grup yok\\. Lütfen daha sonra tekrar deneyin\\.',
+  'groups.header': '*Mevcut gruplar* 🏢\n\nAşağıdaki gruplardan herhangi birine katılma isteği gönderebilirsiniz:',
+  'groups.item': '*{number}\\. {title}*',
+  'groups.members': '👥 {count} üye',
+  'groups.join_button': '{title} grubuna katıl',
+  'groups.not_found_alert': '❌ Grup bulunamadı',
+  'groups.verify_first_alert': '❌ Önce /verify ile üyeliğinizi doğrulamalısınız',
+  'groups.invite_link': '✅ *Katılma bağlantınız hazır\\!*\n\nGrup: *{group}*\n\nSize özel katılma bağlantınız:\n{link}\n\n⚠️ *Önemli:*\n• Bu bağlantı yalnızca size özeldir\n• Yalnızca bir kez kullanılabilir\n• Kimseyle paylaşmayın',
+  'groups.invite_link_alert': '✅ Katılma bağlantısı oluşturuldu',
+  'groups.invite_link_failed_alert': '❌ Katılma bağlantısı oluşturulamadı. Lütfen daha sonra tekrar deneyin',
+  'join.invite_link': 'Merhaba {name}\\! 🎉\n\nÜyeliğiniz doğrulandı\\.\n\nSize özel katılma bağlantınız:\n{link}\n\n⚠️ *Önemli:*\n• Bu bağlantı yalnızca size özeldir\n• Yalnızca bir kez kullanılabilir\n• Kimseyle paylaşmayın',
+  'join.approved_soon': 'Merhaba {name}\\!\n\nÜyeliğiniz doğrulandı\\. İsteğiniz yakında onaylanacak\\.',
+  'join.verify_prompt': 'Merhaba {name}\\!\n\nGruba katılma isteğinizi aldık\\.\n\nGruba erişebilmek için lütfen /verify komutuyla üyeliğinizi doğrulayın\\.',
+  'join.start_bot': 'Sevgili {name} {username}\n\nGruba katılabilmek için lütfen bu botla özel sohbet başlatın\\.',
+
+  // Join requests waiting for admin approval
+  'join_request.requester_pending': 'Merhaba {name}\\!\n\n*{group}* grubuna katılma isteğiniz alındı\\.\nYöneticiler isteği onayladığında size haber verilecek\\.',
+  'join_request.requester_approved': '🎉 *{group}* grubuna katılma isteğiniz onaylandı\\. Hoş geldiniz\\!',
+  'join_request.requester_declined': 'Üzgünüz, *{group}* grubuna katılma isteğiniz onaylanmadı\\.',
+  'join_request.admin_request': '📥 *Yeni katılma isteği*\n\nGrup: *{group}*\nAd: {name}\nKullanıcı adı: {username}\nTelegram kimliği: `{user_id}`\n\n{member}',
+  'join_request.verified_member': '✅ *Doğrulanmış üye*\nÜyelik numarası: {membership_number}\nArapça ad: {ar_name}\nLatin harfli ad: {latin_name}',
+  'join_request.verified_number': '✅ *Doğrulanmış üye*\nÜyelik numarası: {membership_number}',
+  'join_request.unverified': '⚠️ *Üyeliği henüz doğrulanmadı*',
+  'join_request.no_username': 'Yok',
+  'join_request.approve_button': '✅ Onayla',
+  'join_request.decline_button': '❌ Reddet',
+  'join_request.approved_decision': '✅ {admin} tarafından *onaylandı*',
+  'join_request.declined_decision': '❌ {admin} tarafından *reddedildi*',
+  'join_request.expired_decision': '⌛ Yöneticiler yanıt vermeden *isteğin süresi doldu*',
+  'join_request.not_found_alert': '❌ İstek bulunamadı',
+  'join_request.admin_only_alert': '⛔ Bu işlemi yalnızca grup yöneticileri yapabilir',
+  'join_request.already_decided_alert': 'ℹ️ Bu istek daha önce işlendi ({status})',
+  'join_request.already_handled_alert': 'ℹ️ Bu istek daha önce işlendi',
+  'join_request.action_failed_alert': '❌ İşlem yapılamadı, kullanıcı isteğini geri çekmiş olabilir',
+  'join_request.approved_alert': '✅ İstek onaylandı',
+  'join_request.declined_alert': '❌ İstek reddedildi',
+  'join_request.status_approved': 'onaylandı',
+  'join_request.status_declined': 'reddedildi',
+  'join_request.status_expired': 'süresi doldu',
+
+  // /settings
+  'settings.text': `⚙️ *Bildirim ayarları*
+
+Değiştirmek için bir ayara basın\\.
+✅ Alıyorsunuz  \\|  🔕 Almıyorsunuz
+
+🌙 *Sessiz saatler:* {quiet_hours}
+_Sessiz saatlerde gelen mesajlar, İstanbul saatiyle sessiz saatler bitene kadar bekletilir\\._
+
+_Yeni görevler ve teslim tarihi değişiklikleri her zaman gönderilir\\._`,
+  'settings.no_quiet_hours': 'Yok',
+  'settings.task_reminders.label': 'Görevlerimin hatırlatmaları ve gecikmeleri',
+  'settings.shame.label': 'Arkadaşlardan utanç mesajları',
+  'settings.broadcasts.label': 'Duyurular',
+  'settings.group_summaries.label': 'Proje etkinlik özetleri',
+  'settings.daily_digest.label': 'Günlük proje raporu',
+  'settings.language_button': '🌐 Dil: {language}',
+  'settings.quiet_hours_button': '🌙 Sessiz saatler: {quiet_hours}',
+  'settings.saved_alert': '✅ Ayarlar kaydedildi',
+  'settings.unknown_alert': '❌ Bilinmeyen ayar',
+  'settings.save_failed_alert': '❌ Ayarlar kaydedilemedi',
+  'settings.error_alert': '❌ Ayarlar kaydedilirken bir hata oluştu',
+
+  // Task notices of the sheet check
+  'task.new': `🆕 *Yeni görev*
+
+📋 *Görev:* {task}
+⚡ *Öncelik:* {priority}
+📅 *Teslim tarihi:* {due_date}
+
+📝 *Notlar:* {notes}
+
+🏗️ *Proje:* {project}
+👨‍💼 *Proje yöneticisi:* {manager}
+
+🔗 [Takip dosyası]({sheet_url})`,
+  'task.reminder': `⏰ *Görev hatırlatması*
+
+📋 *Görev:* {task}
+⚡ *Öncelik:* {priority}
+📅 *Teslim tarihi:* {due_date}
+
+📝 *Notlar:* {notes}
+
+🏗️ *Proje:* {project}
+👨‍💼 *Proje yöneticisi:* {manager}
+
+🔗 [Takip dosyası]({sheet_url})`,
+  'task.late': `🚨 *Geciken görev*
+
+📋 *Görev:* {task}
+⚡ *Öncelik:* {priority}
+📅 *Teslim tarihiydi:* {due_date}
+
+📝 *Notlar:* {notes}
+
+🏗️ *Proje:* {project}
+👨‍💼 *Proje yöneticisi:* {manager}
+
+⚠️ *Lütfen en kısa sürede proje yöneticisiyle iletişime geçin*
+
+🔗 [Takip dosyası]({sheet_url})`,
+  'task.escalation': `📣 *Geciken görev bildirimi*
+
+👤 *Sorumlu:* {owner}
+📋 *Görev:* {task}
+📅 *Teslim tarihiydi:* {due_date} \\({days} gün gecikme\\)
+🔔 *Gönderilen gecikme hatırlatmaları:* {reminders}
+
+🏗️ *Proje:* {project}
+
+⚠️ *Görev {reminders} hatırlatmadan sonra hâlâ gecikmede, lütfen sorumluyla iletişime geçin*
+
+🔗 [Takip dosyası]({sheet_url})`,
+  'task.due_date_changed': `📅 *Teslim tarihi değişti*
+
+📋 *Görev:* {task}
+⚡ *Öncelik:* {priority}
+📅 *Yeni teslim tarihi:* {due_date}
+📅 *Önceki teslim tarihi:* {old_due_date}
+
+📝 *Notlar:* {notes}
+
+🏗️ *Proje:* {project}
+👨‍💼 *Proje yöneticisi:* {manager}
+
+🔗 [Takip dosyası]({sheet_url})`,
+  'task.missing_data': `⚠️ *Görevde eksik bilgi*
+
+🏗️ *Proje:* {project}
+📍 *Satır:* {row}
+
+❌ *Eksik bilgiler:*
+{fields}
+
+📝 *Mevcut görev:* {task}
+👤 *Mevcut sorumlu:* {owner}
+
+🔗 [Takip dosyası]({sheet_url})
+
+Lütfen dosyadaki eksik bilgileri tamamlayın\\.`,
+  'task.missing.owner': 'Sorumlu adı',
+  'task.missing.points': 'Puan',
+  'task.missing.task': 'Görev açıklaması',
+  'task.missing.priority': 'Öncelik',
+  'task.missing.due_date': 'Teslim tarihi',
+  'task.delivery_failed': `🚫 *Bir üyeye mesaj gönderilemedi*
+
+📋 *Mesaj türü:* {type}
+👤 *Üye:* {owner}
+🆔 *Üyelik numarası:* {membership_number}
+{username_line}
+❌ *Sebep:* {reason}
+{email_line}
+📝 *Görev:* {task}
+🏗️ *Proje:* {project}
+📅 *Teslim tarihi:* {due_date}
+
+⚠️ *Lütfen gerekli işlemi yapın veya yardım için dijital dönüşüm ofisiyle iletişime geçin*
+
+🔗 [Takip dosyası]({sheet_url})`,
+  'task.delivery_failed.username': '📱 *Telegram kullanıcı adı:* @{username}\n',
+  'task.delivery_failed.email': '📧 *Mesaj e\\-posta adresine gönderildi:* {email}\n',
+  'task.delivery_failed.type.new': 'Yeni görev',
+  'task.delivery_failed.type.reminder': 'Görev hatırlatması',
+  'task.delivery_failed.type.late': 'Geciken görev',
+  'task.delivery_failed.type.updated': 'Teslim tarihi değişikliği',
+  'task.delivery_failed.reason.BOT_BLOCKED': 'Kullanıcı botu engelledi',
+  'task.delivery_failed.reason.NOT_STARTED': 'Kullanıcı henüz botla sohbet başlatmadı',
+  'task.delivery_failed.reason.CHAT_NOT_FOUND': 'Kullanıcı hesabı yok veya geçersiz',
+  'task.delivery_failed.reason.NO_TELEGRAM_ID': 'Kullanıcı sistemde Telegram hesabı kaydetmedi',
+  'task.delivery_failed.reason.MEMBER_NOT_FOUND': 'Kullanıcı veritabanında bulunamadı',
+  'task.delivery_failed.reason.RATE_LIMIT': 'Gönderim sınırı aşıldı',
+  'task.delivery_failed.reason.BAD_REQUEST': 'Gönderilen veriler hatalı',
+  'task.delivery_failed.reason.UNKNOWN_ERROR': 'Bilinmeyen hata',
+  'task.no_notes': 'Not yok',
+  'task.done_button': '✅ Tamamlandı',
+  'task.progress_button': '🔄 Devam ediyor',
+  'task.block_button': '⛔ Durdu',
+  'task.help_button': '🆘 Yardım lazım',
+  'task.extend_button': '📅 Ek süre iste',
+  'task.history_button': '🕘 Görev geçmişi',
+  'task.not_found_alert': '❌ Görev bulunamadı',
+  'task.owner_only_alert': '⛔ Bu işlemi yalnızca görevin sahibi yapabilir',
+  'task.sheet_failed_alert': '❌ Takip dosyası güncellenemedi. Lütfen daha sonra tekrar deneyin',
+  'task.sheet_failed': '❌ Takip dosyası güncellenemedi\\. Lütfen daha sonra tekrar deneyin',
+
+  // Buttons under task notices
+  'task_action.done_alert': '✅ Görev tamamlandı olarak kaydedildi',
+  'task_action.progress_alert': '🔄 Görevin durumu güncellendi',
+  'task_action.block_reason_alert': '✍️ Lütfen görevin durma nedenini gönderin',
+  'task_action.help_sent_alert': '📨 Talebiniz proje sorumlusuna iletildi',
+  'task_action.help_failed_alert': '❌ Proje sorumlusuna ulaşılamadı',
+  'task_action.block_task_missing': '❌ Görev bulunamadı\\. Lütfen *Durdu* düğmesine tekrar basın',
+  'task_action.blocked': '⛔ Görevin durduğu kaydedildi ve proje sorumlusuna bildirildi',
+  'task_action.title.done': '✅ *Görev tamamlandı*',
+  'task_action.title.progress': '🔄 *Görev devam ediyor*',
+  'task_action.title.block': '⛔ *Görev durdu*',
+  'task_action.title.help': '🆘 *Bir görev için yardım istendi*',
+  'task_action.manager_notice': `{title}
+
+👤 *Üye:* {owner}
+📋 *Görev:* {task}
+🏗️ *Proje:* {project}
+{reason_line}
+🔗 [Takip dosyası]({sheet_url})`,
+  'task_action.manager_notice.reason': '📝 *Neden:* {reason}\n',
+
+  // Due date extension requests
+  'extension.completed_alert': 'ℹ️ Bu görev zaten tamamlandı',
+  'extension.no_manager_alert': '❌ Proje sorumlusuna Telegram üzerinden ulaşılamıyor',
+  'extension.pending_alert': 'ℹ️ Bu görev için incelenmekte olan bir uzatma talebiniz var',
+  'extension.pending': 'ℹ️ Bu görev için incelenmekte olan bir uzatma talebiniz var',
+  'extension.date_prompt': `📅 *Teslim tarihi uzatma talebi*
+
+📋 *Görev:* {task}
+📅 *Mevcut teslim tarihi:* {due_date}
+
+Lütfen yeni teslim tarihini *gün\\-ay\\-yıl* biçiminde gönderin, örneğin: {example}`,
+  'extension.date_prompt_alert': '📅 Lütfen yeni teslim tarihini gönderin',
+  'extension.task_missing': '❌ Görev bulunamadı\\. Lütfen *Ek süre iste* düğmesine tekrar basın',
+  'extension.invalid_date': '❌ Tarih biçimi geçersiz\\. Lütfen tarihi *gün\\-ay\\-yıl* biçiminde gönderin, örneğin: {example}',
+  'extension.past_date': '❌ Yeni teslim tarihi bugünden sonra olmalı\\. Lütfen başka bir tarih gönderin',
+  'extension.reason_prompt': '📝 İstenen teslim tarihi: *{due_date}*\n\nLütfen uzatma talebinin nedenini gönderin',
+  'extension.manager_unreachable': '⚠️ Talebiniz kaydedildi ancak proje sorumlusuna gönderilemedi\\. Lütfen doğrudan onunla iletişime geçin',
+  'extension.sent': '📨 Uzatma talebi proje sorumlusuna gönderildi\\. Karar size bildirilecek',
+  'extension.request': `📅 *Teslim tarihi uzatma talebi*
+
+👤 *Üye:* {owner}
+📋 *Görev:* {task}
+🏗️ *Proje:* {project}
+📅 *Mevcut teslim tarihi:* {due_date}
+📅 *İstenen teslim tarihi:* {requested_due_date}
+
+📝 *Neden:* {reason}`,
+  'extension.approve_button': '✅ Onayla',
+  'extension.reject_button': '❌ Reddet',
+  'extension.request_not_found_alert': '❌ Talep bulunamadı',
+  'extension.manager_only_alert': '⛔ Bu işlemi yalnızca proje sorumlusu yapabilir',
+  'extension.already_decided_alert': 'ℹ️ Bu talep daha önce işlendi',
+  'extension.approved_alert': '✅ Uzatma onaylandı',
+  'extension.rejected_alert': '❌ Uzatma talebi reddedildi',
+  'extension.approved_decision': '✅ *Uzatma onaylandı*',
+  'extension.rejected_decision': '❌ *Uzatma talebi reddedildi*',
+  'extension.owner_approved': `✅ *Uzatma talebiniz onaylandı*
+
+📋 *Görev:* {task}
+📅 *Yeni teslim tarihi:* {due_date}`,
+  'extension.owner_rejected': `❌ *Uzatma talebiniz reddedildi*
+
+📋 *Görev:* {task}
+📅 *Teslim tarihi aynı kalıyor:* {due_date}
+
+Yardıma ihtiyacınız olursa lütfen proje sorumlusuyla iletişime geçin`,
+
+  // History button of task notices
+  'history.forbidden_alert': '⛔ Görev geçmişini yalnızca görevin sahibi ve proje sorumlusu görebilir',
+  'history.header': `🕘 *Görev geçmişi*
+
+📋 *Görev:* {task}
+🏗️ *Proje:* {project}
+📅 *Teslim tarihi değişiklikleri:* {due_date_changes} \\(erteleme: {due_date_slips}\\)
+🔔 *Gönderilen bildirimler:* {sent}`,
+  'history.earlier_events': '\\.\\.\\. ve {count} önceki olay',
+  'history.no_events': 'Henüz kayıtlı olay yok',
+  'history.event.created': '• {date}: 🆕 Görev eklendi \\({source}\\)',
+  'history.event.archived': '• {date}: 🗄️ Görev dosyadan silindi',
+  'history.event.notified': '• {date}: 🔔 {notification}',
+  'history.event.notified_email': '• {date}: 🔔 {notification} \\(e\\-posta ile\\)',
+  'history.event.changed': '• {date}: ✏️ {field}: {old_value} ➡️ {new_value} \\({source}\\)',
+  'history.empty_value': 'boş',
+  'history.field.ownerName': 'Sorumlu',
+  'history.field.managerName': 'Proje sorumlusu',
+  'history.field.points': 'Puan',
+  'history.field.status': 'Durum',
+  'history.field.taskText': 'Görev',
+  'history.field.priority': 'Öncelik',
+  'history.field.notes': 'Notlar',
+  'history.field.milestone': 'Aşama',
+  'history.field.projectName': 'Proje',
+  'history.field.dueDate': 'Teslim tarihi',
+  'history.field.completed_at': 'Tamamlanma tarihi',
+  'history.field.blocked_at': 'Durma tarihi',
+  'history.notification.new': 'Yeni görev bildirimi',
+  'history.notification.reminder': 'Hatırlatma',
+  'history.notification.late': 'Gecikme uyarısı',
+  'history.notification.late_undelivered': 'Ulaşmayan gecikme uyarısı',
+  'history.notification.date_changed': 'Tarih değişikliği bildirimi',
+  'history.notification.missing_data': 'Eksik bilgi uyarısı',
+  'history.notification.shame': 'Ayıp bildirimi',
+  'history.notification.escalation': 'Proje sorumlusuna bildirim',
+  'history.source.sheet_sync': 'takip dosyası',
+  'history.source.telegram': 'Telegram',
+  'history.source.api': 'kontrol paneli',
+
+  // /mytasks and /team
+  'task_list.my_empty': '📭 Açık ya da yakında tamamlanmış göreviniz yok',
+  'task_list.my_header': '📋 *Görevlerim*\n\n🚨 Geciken: {overdue}  \\|  🔄 Açık: {open}  \\|  ✅ Yakında tamamlanan: {completed}',
+  'task_list.team_empty': '📭 Şu anda yönettiğiniz görev yok',
+  'task_list.team_header': '👥 *Ekip görevleri*\n\n✅ 24 saatte tamamlanan: {completed}  \\|  ⏳ Bekleyen: {pending}  \\|  🚨 Geciken: {overdue}',
+  'task_list.team_header_counts': '👥 *Ekip görevleri*\n\n🔄 Açık: {open}  \\|  🚨 Geciken: {overdue}',
+  'task_list.completed_on': '{date} tarihinde tamamlandı',
+  'task_list.page': '_Sayfa {page} / {pages}_',
+  'task_list.previous_button': '◀️ Önceki',
+  'task_list.next_button': 'Sonraki ▶️',
+
+  // Reports to the managers and the admin chat
+  'manager_report.title': `*📊 Günlük rapor \\- {manager}*
+*📁 Proje: {project}*
+
+📅 Tarih: {date}`,
+  'manager_report.default_manager': 'Yönetici',
+  'manager_report.completed': '*✅ Tamamlanan görevler \\(son 24 saat\\):* {count}',
+  'manager_report.overdue': '*⚠️ Geciken görevler:* {count}',
+  'manager_report.pending': '*⏳ Bekleyen görevler:* {count}',
+  'manager_report.high_priority': '🔴 Yüksek öncelikli görevler: {count}',
+  'manager_report.more_tasks': '_\\.\\.\\. ve {count} görev daha_',
+  'manager_report.totals': '*📈 Toplam:*\n  • Aktif görevler: {active}\n  • Bugün tamamlanan: {completed}',
+  'manager_report.follow_up': '⚡️ _Lütfen geciken görevleri ekiple takip edin_',
+  'manager_report.well_done': '🎉 _Harika iş\\! Böyle devam edin_',
+  'activity.project_title': '📉 *Proje etkinliği \\- {project}*',
+  'activity.project_inactive': '⏸️ Projenin görevlerinde {days} gün ya da daha uzun süredir hiç hareket yok',
+  'activity.owners_inactive': '⚠️ Bazı ekip üyelerinin görevlerinde {days} gün ya da daha uzun süredir hareket yok',
+  'activity.owner': '*{name}:* {open} açık{overdue}{blocked}, {completed} tamamlanan',
+  'activity.owner_overdue': ', {count} geciken',
+  'activity.owner_blocked': ', {count} duran',
+  'activity.last_movement': '🕘 Son hareket: {date}',
+  'activity.project_footer': '💬 _Lütfen duran ekip üyeleriyle iletişime geçip onları neyin engellediğini öğrenin_',
+  'activity.summary': `🗂️ *Günlük takip özeti \\- {date}*
+
+⚠️ *Geciken görevler:* {overdue}
+⏳ *{days} gün içinde teslim edilecek:* {due_soon}
+⛔ *Duran görevler:* {blocked}`,
+  'activity.summary_overdue_projects': '📁 *En çok geciken projeler:*',
+  'activity.summary_blocked_projects': '🚧 *En çok duran projeler:*',
+  'activity.summary_inactive_projects': '⏸️ *{days} gün ya da daha uzun süredir hareketsiz projeler:*',
+  'activity.summary_inactive_project': '• {project} \\({manager}\\) \\- son hareket: {date}',
+  'activity.summary_more_projects': '_\\.\\.\\. ve {count} proje daha_',
+  'activity.summary_all_clear': '🎉 _Bugün geciken ya da duran görev yok_',
+
+  // Shame messages about late tasks
+  'shame.notification': `🫣 *Ayıp\\! \\- Bir arkadaşının görevi gecikti*
+
+Projedeki arkadaşlarından birinin geciken bir görevi var\\!
+
+🤡 *Tembel:* {owner}
+📋 *Proje:* {project}
+📝 *Görev:* {task}
+⏰ *Gecikme:* {days} gün
+⚡ *Öncelik:* {priority}
+
+Aşağıdaki düğmeyle ona hatırlatabilirsin 👇`,
+  'shame.button': '😤 "Ayıp sana!" gönder',
+  'shame.message': `😤 *Ayıp sana\\!*
+
+Projedeki arkadaşlarından biri bu görevi geciktirdiğin için sana "Ayıp sana" gönderdi:
+
+📋 *Proje:* {project}
+📝 *Görev:* {task}
+
+⏰ Bu görevi bitirme zamanı\\!`,
+  'shame.task_not_found_alert': '❌ Görev bulunamadı',
+  'shame.task_completed_alert': '✅ Görevi bitirdi, artık ayıplayamazsın!',
+  'shame.self_alert': '😅 Kendini ayıplayamazsın!',
+  'shame.owner_not_linked_alert': '❌ Görev sahibinin kayıtlı bir Telegram hesabı yok',
+  'shame.owner_opted_out_alert': '🔕 Görev sahibi utanç mesajlarını kapattı',
+  'shame.send_failed_alert': '❌ Mesaj gönderilemedi',
+  'shame.sent_alert': '✅ "Ayıp sana!" gönderildi',
+  'shame.error_alert': '❌ İstek işlenirken bir hata oluştu',
+
+  // /summarize in groups
+  'summarize.generating': '_Son {hours} içindeki sohbet özetleniyor\\.\\.\\._',
+  'summarize.generating_topic': '_Bu konunun son {hours} içindeki mesajları özetleniyor\\.\\.\\._',
+  'summarize.no_messages': 'Son {hours} içinde mesaj bulunamadı\\.',
+  'summarize.no_messages_topic': 'Bu konuda son {hours} içinde mesaj bulunamadı\\.',
+  'summarize.summary': '📝 Son {hours} içindeki sohbetin özeti:\n\n{summary}',
+  'summarize.summary_topic': '📝 Bu konunun son {hours} içindeki özeti:\n\n{summary}',
+  'summarize.error': 'Üzgünüm\\, özet hazırlanırken bir hata oluştu\\. Lütfen daha sonra tekrar deneyin\\.',
+
+  // Admin commands in groups
+  'group_admin.not_admin': '⛔ Bu komut yalnızca grup yöneticileri içindir\\.',
+  'group_admin.not_registered': 'Bu grup henüz kayıtlı değil\\. Önce /register\\_group kullanın\\.',
+  'group_admin.telegram_failed': '❌ Grup bilgileri Telegram\'dan alınamadı\\. Botun bu grupta yönetici olduğundan emin olun\\.',
+  'group_admin.register_failed': '❌ Bu grup kaydedilemedi\\. Lütfen daha sonra tekrar deneyin\\.',
+  'group_admin.registered': '✅ Grup kaydedildi: *{title}*\n\n{status}',
+  'group_admin.updated': '✅ Grup bilgileri güncellendi: *{title}*\n\n{status}',
+  'group_admin.sync_failed': '❌ Bu grup eşitlenemedi\\. Lütfen daha sonra tekrar deneyin\\.',
+  'group_admin.synced': '🔄 Grup eşitlendi: *{title}*\n\n{status}',
+  'group_admin.status': '👮 Yöneticiler: {admins}\n👥 Üyeler: {members}\n🔐 Katılma onayı: {approval}',
+  'group_admin.approval_current': 'Katılma onayı şu anda *{state}*\\.\n\nKullanım: /approval on \\| /approval off',
+  'group_admin.approval_failed': '❌ Katılma onayı ayarı değiştirilemedi\\. Lütfen daha sonra tekrar deneyin\\.',
+  'group_admin.approval_on': '✅ Katılma onayı artık *açık*\\. Yeni üyelerin bir yönetici tarafından onaylanması gerekir\\.',
+  'group_admin.approval_off': '✅ Katılma onayı artık *kapalı*\\. Doğrulanmış üyeler doğrudan katılabilir\\.',
+  'group_admin.description_usage': 'Kullanım: /set\\_description <yeni açıklama\\>',
+  'group_admin.description_failed': '❌ Açıklama değiştirilemedi\\. Botun grup bilgilerini değiştirme izni olmalı\\.',
+  'group_admin.description_updated': '✅ Grup açıklaması güncellendi\\.',
+  'group_admin.no_pending': 'Bekleyen katılma isteği yok\\.',
+  'group_admin.pending': '⏳ *Bekleyen katılma istekleri \\({count}\\):*\n\n{requests}',
+  'group_admin.error': 'Üzgünüm\\, bu komut çalıştırılırken bir hata oluştu\\. Lütfen daha sonra tekrar deneyin\\.'
+};
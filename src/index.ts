@@ -6,7 +6,11 @@ import apiRoutes from './routes/api';
 import testingRoutes from './routes/testing';
 import { taskRoutes } from './routes/task-follower/task';
 import { taskSheetRoutes } from './routes/task-follower/sheet';
+import { pointsRoutes } from './routes/task-follower/points';
 import groupsRouter from './routes/groups';
+import apiKeysRouter from './routes/api-keys';
+import outboxRouter from './routes/outbox';
+import broadcastsRouter from './routes/broadcasts';
 
 const app = new Hono<{ Bindings: Environment }>();
 
@@ -31,18 +35,30 @@ app.get('/', (c) => {
 });
 
 // Mount routes ----------------
+// Routers that accept scoped API keys are mounted before /api: the master-key check of the /api
+// router matches '/api/*', and these routers answer their requests before it would run
+// Member Google Sheets routes
+app.route('/api/tasks', taskRoutes);
+app.route('/api/task-sheets', taskSheetRoutes);
+app.route('/api/points', pointsRoutes);
+
+// Outgoing message queue routes
+app.route('/api/outbox', outboxRouter);
+
+// Broadcast campaign routes
+app.route('/api/broadcasts', broadcastsRouter);
+
 // V1 API routes - including Member Google Sheets routes
 app.route('/telegram', telegramRoutes);
 app.route('/api', apiRoutes);
 app.route('/api/testing', testingRoutes);
 
-// Member Google Sheets routes
-app.route('/api/tasks', taskRoutes);
-app.route('/api/task-sheets', taskSheetRoutes);
-
 // Groups routes
 app.route('/api/groups', groupsRouter);
 
+// API key management routes
+app.route('/api/keys', apiKeysRouter);
+
 // 404 handler ----------------------
 app.notFound((c) => {
   return c.json({ error: 'Not found' }, 404);
@@ -1,5 +1,9 @@
 import { Context, Next } from 'hono';
+import { createMiddleware } from 'hono/factory';
 import { Environment } from '../types';
+import { D1DatabaseConnection } from '../crud/database';
+import { ApiKeysCrud } from '../crud/api-keys';
+import { ApiKeyScope } from '../models/api-keys';
 
 export const authMiddleware = async (c: Context<{ Bindings: Environment }>, next: Next) => {
   const apiKey = c.req.header('X-API-Key');
@@ -9,4 +13,38 @@ export const authMiddleware = async (c: Context<{ Bindings: Environment }>, next
   }
   
   await next();
-};
\ No newline at end of file
+};
+
+/**
+ * Require a scoped API key (or the master SECRET_KEY, which has every scope)
+ * @param scope The scope the route needs
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  // Built with createMiddleware so the routes it guards keep their path param types
+  return createMiddleware<{ Bindings: Environment }>(async (c, next) => {
+    const apiKey = c.req.header('X-API-Key');
+
+    if (!apiKey) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    if (apiKey === c.env.SECRET_KEY) {
+      await next();
+      return;
+    }
+
+    const apiKeysCrud = new ApiKeysCrud(new D1DatabaseConnection(c.env.DB));
+    const key = await apiKeysCrud.getActiveKey(apiKey);
+
+    if (!key) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    if (!key.scopes.includes(scope)) {
+      return c.json({ error: 'Forbidden', details: `API key is missing the '${scope}' scope` }, 403);
+    }
+
+    await apiKeysCrud.touchLastUsed(key.id);
+    await next();
+  });
+};
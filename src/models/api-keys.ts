@@ -0,0 +1,30 @@
+// Model for scoped API keys
+
+// read: read-only access to tasks and sheets
+// task-admin: create, update and delete tasks and sheets
+// broadcast: trigger sheet checks and shame notifications that message members
+export const API_KEY_SCOPES = ['read', 'task-admin', 'broadcast'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  key_hash: string; // SHA-256 hex digest, the plain key is only shown once on creation
+  key_prefix: string; // First characters of the key, to recognize it in listings
+  scopes: string; // JSON array string of ApiKeyScope
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ApiKeyModel {
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  scopes: string; // JSON array string
+}
+
+export interface ApiKeyWithScopes extends Omit<ApiKey, 'scopes' | 'key_hash'> {
+  scopes: ApiKeyScope[];
+}
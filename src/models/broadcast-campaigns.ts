@@ -0,0 +1,70 @@
+// Models for broadcast campaigns and their recipients
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled';
+export type CampaignSegmentType = 'verified' | 'group' | 'project' | 'field';
+export type BroadcastRecipientStatus = 'pending' | 'sending' | 'sent' | 'queued' | 'failed';
+
+export const CAMPAIGN_SEGMENT_TYPES: CampaignSegmentType[] = ['verified', 'group', 'project', 'field'];
+
+export interface BroadcastCampaign {
+  id: string;
+  title: string;
+  message: string;
+  photo: string | null;
+  boxes: string; // JSON array of { text, link }
+  segment_type: CampaignSegmentType;
+  segment_field: string | null;
+  segment_value: string | null;
+  author_member_id: string;
+  status: CampaignStatus;
+  scheduled_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BroadcastCampaignModel {
+  title: string;
+  message: string;
+  photo?: string | null;
+  boxes?: string; // JSON array of { text, link }
+  segment_type: CampaignSegmentType;
+  segment_field?: string | null;
+  segment_value?: string | null;
+  author_member_id: string;
+  status?: CampaignStatus;
+  scheduled_at?: string | null;
+}
+
+// Who a campaign goes to
+export interface CampaignSegment {
+  type: CampaignSegmentType;
+  field?: string | null; // field segments: member sheet field, e.g. sex
+  value?: string | null; // group chat ID, project name or field value
+}
+
+export interface BroadcastRecipient {
+  id: string;
+  campaign_id: string;
+  member_id: string;
+  telegram_id: string | null;
+  status: BroadcastRecipientStatus;
+  error_code: string | null;
+  error: string | null;
+  sent_at: string | null;
+  claimed_at: string | null; // When a batch claimed the recipient to send to it
+  created_at: string;
+}
+
+// Delivery counts of a campaign
+export interface CampaignReport {
+  total: number;
+  pending: number; // Not sent yet, or waiting in the outbox
+  delivered: number;
+  blocked: number; // BOT_BLOCKED
+  not_started: number; // NOT_STARTED, or no Telegram ID in the member sheet
+  opted_out: number; // OPTED_OUT, broadcasts turned off in /settings
+  failed: number; // Any other error
+  errors: Record<string, number>; // Failed recipients by error code
+}
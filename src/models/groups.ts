@@ -13,6 +13,7 @@ export interface Group {
   admins: string; // JSON array string
   needs_admin_approval: number;
   notes: string | null;
+  project_name: string | null; // Project whose monthly leaderboard is posted here
   created_at: string;
   updated_at: string;
 }
@@ -29,6 +30,7 @@ export interface GroupModel {
   admins?: string; // JSON array string
   needs_admin_approval?: number;
   notes?: string | null;
+  project_name?: string | null;
 }
 
 export interface GroupAdmin {
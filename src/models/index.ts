@@ -1,7 +1,17 @@
 export { Activity, ActivityModel } from './task-follower/activity';
-export { Sheet, TaskSheetModel } from './task-follower/sheet';
+export { Sheet, TaskSheetModel, TaskColumnKey, TaskColumnMapping, TASK_COLUMN_KEYS } from './task-follower/sheet';
 export { Task, TaskModel } from './task-follower/task';
+export { ExtensionRequest, ExtensionRequestModel, ExtensionRequestStatus } from './task-follower/extension-request';
+export { TaskEvent, TaskEventModel, TaskEventType, TaskEventSource } from './task-follower/task-event';
+export { PointsEntry, PointsEntryModel, PointsEntryType, LeaderboardEntry, PointsTotal } from './task-follower/points';
+export { NotificationPolicy, NotificationPolicySettings, NotificationPolicyKey, EffectiveNotificationPolicy, DEFAULT_NOTIFICATION_POLICY, NOTIFICATION_POLICY_KEYS } from './task-follower/notification-policy';
+export { EmailNotification, EmailNotificationModel, EmailNotificationKind } from './task-follower/email-notification';
 export { AllMessagesPrivate, AllMessagesPrivateModel, MessageData } from './all-messages-private';
 export { AllMessagesGroups, AllMessagesGroupsModel, GroupMessageData } from './all-messages-groups';
 export { Group, GroupModel, GroupAdmin, GroupWithAdmins } from './groups';
 export { GroupMember, GroupMemberModel, MemberStatus, MemberChangeEvent } from './group-members';
+export { ApiKey, ApiKeyModel, ApiKeyScope, ApiKeyWithScopes, API_KEY_SCOPES } from './api-keys';
+export { JoinRequest, JoinRequestModel, JoinRequestStatus, JoinRequestAdminMessage } from './join-requests';
+export { OutboxMessage, OutboxMessageModel, OutboxStatus, OutboxCategory } from './outbox';
+export { BroadcastCampaign, BroadcastCampaignModel, BroadcastRecipient, BroadcastRecipientStatus, CampaignStatus, CampaignSegment, CampaignSegmentType, CampaignReport, CAMPAIGN_SEGMENT_TYPES } from './broadcast-campaigns';
+export { MemberPreferences, MemberPreferenceSettings, NotificationPreferenceKey, PreferredLanguage, DEFAULT_MEMBER_PREFERENCES, NOTIFICATION_PREFERENCE_KEYS, PREFERRED_LANGUAGES } from './member-preferences';
\ No newline at end of file
@@ -0,0 +1,38 @@
+// Model for join requests waiting for a group admin's decision
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'declined' | 'expired';
+
+export interface JoinRequest {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  membership_number: string | null;
+  status: JoinRequestStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  expires_at: string;
+  admin_messages: string; // JSON array string
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JoinRequestModel {
+  chat_id: string;
+  user_id: string;
+  username?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  membership_number?: string | null;
+  status?: JoinRequestStatus;
+  expires_at: string;
+  admin_messages?: string; // JSON array string
+}
+
+// A DM sent to a group admin with the Approve/Decline buttons
+export interface JoinRequestAdminMessage {
+  chat_id: string;
+  message_id: number;
+}
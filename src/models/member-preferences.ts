@@ -0,0 +1,44 @@
+// Model for the notification preferences of the members, set with /settings
+
+export type NotificationPreferenceKey = 'task_reminders' | 'shame' | 'broadcasts' | 'group_summaries' | 'daily_digest';
+export type PreferredLanguage = 'ar' | 'en' | 'tr';
+
+export interface MemberPreferences {
+  id: string;
+  telegram_id: string;
+  task_reminders: number; // 0 or 1
+  shame: number;
+  broadcasts: number;
+  group_summaries: number;
+  daily_digest: number;
+  language: PreferredLanguage;
+  quiet_start: number | null; // Hour the quiet hours start at (Istanbul time)
+  quiet_end: number | null; // Hour the quiet hours end at
+  created_at: string;
+  updated_at: string;
+}
+
+// The preferences of a member, with the defaults for what they never set
+export interface MemberPreferenceSettings {
+  task_reminders: boolean; // Reminders and late notices of own tasks; new tasks are always sent
+  shame: boolean; // Late tasks of colleagues and "shame on you" messages from them
+  broadcasts: boolean; // Messages to all members and broadcast campaigns
+  group_summaries: boolean; // Activity reports of the managed projects
+  daily_digest: boolean; // Daily report of the managed projects
+  language: PreferredLanguage;
+  quiet_hours: { start: number; end: number } | null; // Istanbul time, may span midnight
+}
+
+export const NOTIFICATION_PREFERENCE_KEYS: NotificationPreferenceKey[] = ['task_reminders', 'shame', 'broadcasts', 'group_summaries', 'daily_digest'];
+export const PREFERRED_LANGUAGES: PreferredLanguage[] = ['ar', 'en', 'tr'];
+
+// Preferences of the members who never opened /settings
+export const DEFAULT_MEMBER_PREFERENCES: MemberPreferenceSettings = {
+  task_reminders: true,
+  shame: true,
+  broadcasts: true,
+  group_summaries: true,
+  daily_digest: true,
+  language: 'ar',
+  quiet_hours: null
+};
@@ -0,0 +1,35 @@
+// Model for the outgoing Telegram message queue
+
+import { InlineKeyboardButton } from '../types';
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+export type OutboxCategory = 'broadcast' | 'task' | 'shame' | 'member';
+
+export interface OutboxMessage {
+  id: string;
+  chat_id: string;
+  text: string;
+  parse_mode: string;
+  reply_markup: string | null; // JSON inline keyboard
+  category: OutboxCategory;
+  reference_id: string | null; // Broadcast or task the message belongs to
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  error_code: string | null;
+  telegram_message_id: number | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OutboxMessageModel {
+  chat_id: string;
+  text: string;
+  parse_mode?: string; // MarkdownV2 by default
+  inline_keyboard?: InlineKeyboardButton[][];
+  category: OutboxCategory;
+  reference_id?: string | null;
+  not_before?: string; // Not sent before this time, for the quiet hours of the recipient
+}
@@ -0,0 +1,21 @@
+// Model for task notices emailed to owners who can't be reached on Telegram
+
+export type EmailNotificationKind = 'new' | 'reminder' | 'late';
+
+export interface EmailNotification {
+  id: string;
+  member_id: string;
+  email: string;
+  task_id: string | null;
+  kind: EmailNotificationKind;
+  error_code: string | null;
+  created_at: string;
+}
+
+export interface EmailNotificationModel {
+  member_id: string;
+  email: string;
+  task_id?: string | null;
+  kind: EmailNotificationKind;
+  error_code?: string | null;
+}
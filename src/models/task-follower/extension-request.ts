@@ -0,0 +1,29 @@
+// Model for due-date extension requests of tasks, decided by the project manager
+
+export type ExtensionRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ExtensionRequest {
+  id: string;
+  task_id: string;
+  owner_telegram_id: string;
+  manager_telegram_id: string;
+  previous_due_date: string | null;
+  requested_due_date: string;
+  reason: string;
+  status: ExtensionRequestStatus;
+  decided_by: string | null;
+  decided_at: string | null;
+  manager_message_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExtensionRequestModel {
+  task_id: string;
+  owner_telegram_id: string;
+  manager_telegram_id: string;
+  previous_due_date?: string | null;
+  requested_due_date: string;
+  reason: string;
+  status?: ExtensionRequestStatus;
+}
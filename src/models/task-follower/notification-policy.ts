@@ -0,0 +1,50 @@
+// Model for the notification policies of the task sheets, set per sheet or per project
+
+export interface NotificationPolicy {
+  id?: string;
+  sheet_id: string; // Google Sheets ID of the task sheet
+  project_name: string; // Empty for the policy of the whole sheet
+  reminder_days?: string | null; // JSON number[]
+  late_reminder_hours?: number | null;
+  shame_enabled?: number | null; // 0 or 1
+  shame_after_days?: number | null;
+  quiet_weekdays?: string | null; // JSON number[]
+  holidays?: string | null; // JSON string[]
+  escalate_after?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// The settings of a policy; null settings of a stored policy are inherited
+export interface NotificationPolicySettings {
+  reminder_days: number[]; // Days before the due date to remind on (0 = on the due date), [] to remind every day
+  late_reminder_hours: number; // Hours between the reminders of a late task
+  shame_enabled: boolean;
+  shame_after_days: number; // Days late before the project members are told
+  quiet_weekdays: number[]; // Weekdays without reminders, 0 = Sunday (Istanbul time)
+  holidays: string[]; // YYYY-MM-DD dates without reminders
+  escalate_after: number; // Late reminders before the manager is told, 0 to never escalate
+}
+
+export type NotificationPolicyKey = keyof NotificationPolicySettings;
+
+// Behaviour of the sheets without a policy
+export const DEFAULT_NOTIFICATION_POLICY: NotificationPolicySettings = {
+  reminder_days: [],
+  late_reminder_hours: 24,
+  shame_enabled: true,
+  shame_after_days: 2,
+  quiet_weekdays: [],
+  holidays: [],
+  escalate_after: 0
+};
+
+export const NOTIFICATION_POLICY_KEYS = Object.keys(DEFAULT_NOTIFICATION_POLICY) as NotificationPolicyKey[];
+
+// The policy that applies to a project, and where it comes from
+export interface EffectiveNotificationPolicy {
+  sheet_id: string;
+  project_name: string | null;
+  source: 'project' | 'sheet' | 'default';
+  settings: NotificationPolicySettings;
+}
@@ -0,0 +1,58 @@
+// Model for the points ledger, credited to task owners when their tasks are completed
+
+export type PointsEntryType = 'completion' | 'late_penalty';
+
+export interface PointsEntry {
+  id: string;
+  task_id: string;
+  entry_type: PointsEntryType;
+  points: number; // Negative for penalties
+  membership_number: string;
+  member_name: string;
+  telegram_id: string | null;
+  sheet_id: string;
+  project_name: string;
+  period: string; // YYYY-MM of the completion
+  reason: string | null;
+  created_at: string;
+}
+
+export interface PointsEntryModel {
+  task_id: string;
+  entry_type: PointsEntryType;
+  points: number;
+  membership_number: string;
+  member_name: string;
+  telegram_id?: string | null;
+  sheet_id: string;
+  project_name: string;
+  period: string;
+  reason?: string | null;
+}
+
+// A member's row of the leaderboard
+export interface LeaderboardEntry {
+  membership_number: string;
+  member_name: string;
+  telegram_id: string | null;
+  points: number;
+  tasks_completed: number;
+  penalties: number; // Sum of the (negative) penalty points
+}
+
+// Totals of a project or a month
+export interface PointsTotal {
+  key: string; // Project name or YYYY-MM
+  points: number;
+  tasks_completed: number;
+  members: number;
+}
+
+// A monthly leaderboard posted to a project group
+export interface PointsReport {
+  id: string;
+  period: string; // YYYY-MM of the leaderboard
+  project_name: string;
+  chat_id: string;
+  posted_at: string;
+}
@@ -2,13 +2,25 @@ export interface Sheet {
   id?: string;
   sheetID: string;
   sheetName: string;
+  column_mapping?: string | null; // JSON TaskColumnMapping, null to find the columns by their headers
   created_at: Date;
 }
 
+// Columns of a project tab that can be mapped to a header
+export const TASK_COLUMN_KEYS = [
+  'owner', 'task', 'status', 'priority', 'points', 'startDate', 'dueDate', 'notes', 'milestone', 'taskId'
+] as const;
+
+export type TaskColumnKey = typeof TASK_COLUMN_KEYS[number];
+
+// Header name of each column, compared case-insensitively; unmapped columns are guessed from the headers
+export type TaskColumnMapping = Partial<Record<TaskColumnKey, string>>;
+
 export class TaskSheetModel implements Sheet { // this model is used for the task-google-sheet only
   id?: string;
   sheetID: string;
   sheetName: string;
+  column_mapping?: string | null;
   created_at: Date;
 
   constructor(data: Omit<Sheet, 'id' | 'created_at'> & { 
@@ -18,8 +30,9 @@ export class TaskSheetModel implements Sheet { // this model is used for the tas
     this.id = data.id || crypto.randomUUID();
     this.sheetID = data.sheetID;
     this.sheetName = data.sheetName;
+    this.column_mapping = data.column_mapping ?? null;
     this.created_at = data.created_at || new Date();
   }
 
   static tableName = 'sheets';
-}
\ No newline at end of file
+}
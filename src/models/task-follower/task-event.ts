@@ -0,0 +1,29 @@
+// Model for the change history of tasks, written by the sheet check and the Telegram task actions
+
+export type TaskEventType = 'created' | 'changed' | 'notified' | 'archived';
+export type TaskEventSource = 'sheet_sync' | 'telegram' | 'api';
+export type TaskNotificationChannel = 'email';
+
+export interface TaskEvent {
+  id: string;
+  task_id: string;
+  event_type: TaskEventType;
+  field: string | null; // Changed field, or the notification kind
+  old_value: string | null;
+  new_value: string | null; // New value, or the recipient of a notification
+  source: TaskEventSource;
+  actor: string | null; // Telegram ID of the user behind a Telegram change
+  channel: TaskNotificationChannel | null; // Channel of a notification not sent on Telegram
+  created_at: string;
+}
+
+export interface TaskEventModel {
+  task_id: string;
+  event_type: TaskEventType;
+  field?: string | null;
+  old_value?: string | null;
+  new_value?: string | null;
+  source: TaskEventSource;
+  actor?: string | null;
+  channel?: TaskNotificationChannel | null;
+}
@@ -8,6 +8,7 @@ export interface Task { // represents a task extracted from a Google Sheet (Task
   projectName: string;
   pageID: string; // google sheet page ID
   row_number: number;
+  sheet_row?: number | null; // 1-based row in the project tab, used to write changes back to the sheet
   ownerID: string; // membership_number for the member (owner of the task)
   ownerName: string;
   ownerEmail: string;
@@ -39,6 +40,7 @@ export class TaskModel implements Task {
   projectName: string;
   pageID: string;
   row_number: number;
+  sheet_row?: number | null;
   ownerID: string;
   ownerName: string;
   ownerEmail: string;
@@ -75,6 +77,7 @@ export class TaskModel implements Task {
     this.projectName = data.projectName;
     this.pageID = data.pageID;
     this.row_number = data.row_number;
+    this.sheet_row = data.sheet_row ?? null;
     this.ownerID = data.ownerID;
     this.ownerName = data.ownerName;
     this.ownerEmail = data.ownerEmail;
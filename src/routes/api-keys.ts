@@ -0,0 +1,113 @@
+import { Hono } from 'hono';
+import { Environment } from '../types';
+import { D1DatabaseConnection } from '../crud/database';
+import { ApiKeysCrud } from '../crud/api-keys';
+import { authMiddleware } from '../middleware/auth';
+import { API_KEY_SCOPES, ApiKeyScope } from '../models/api-keys';
+
+const apiKeysRouter = new Hono<{ Bindings: Environment }>();
+
+// Only the master SECRET_KEY can manage API keys
+apiKeysRouter.use('*', authMiddleware);
+
+/**
+ * GET /api-keys
+ * List all API keys with their scopes (hashes are never returned)
+ */
+apiKeysRouter.get('/', async (c) => {
+  try {
+    const apiKeysCrud = new ApiKeysCrud(new D1DatabaseConnection(c.env.DB));
+    const keys = await apiKeysCrud.listKeys();
+
+    return c.json({ success: true, data: keys, count: keys.length });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return c.json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /api-keys
+ * Create a new scoped API key
+ * Body: {
+ *   name: string (required) - Label of the key,
+ *   scopes: string[] (required) - Any of 'read', 'task-admin', 'broadcast'
+ * }
+ * 
+ * The plain key is returned only in this response
+ */
+apiKeysRouter.post('/', async (c) => {
+  try {
+    const body = await c.req.json();
+    const { name, scopes } = body;
+
+    if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+      return c.json({ 
+        error: 'Missing required fields: name, scopes' 
+      }, 400);
+    }
+
+    const invalidScopes = scopes.filter((scope: string) => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+    if (invalidScopes.length > 0) {
+      return c.json({ 
+        error: 'Invalid scopes',
+        details: `Unknown scopes: ${invalidScopes.join(', ')}. Allowed: ${API_KEY_SCOPES.join(', ')}`
+      }, 400);
+    }
+
+    const apiKeysCrud = new ApiKeysCrud(new D1DatabaseConnection(c.env.DB));
+    const result = await apiKeysCrud.createKey(name, Array.from(new Set(scopes as ApiKeyScope[])));
+
+    if (!result.success) {
+      return c.json({ 
+        error: 'Failed to create API key',
+        details: result.error 
+      }, 500);
+    }
+
+    return c.json({ 
+      success: true,
+      message: 'API key created. Store it now, it will not be shown again.',
+      id: result.id,
+      key: result.key
+    }, 201);
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return c.json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /api-keys/:id
+ * Revoke an API key
+ */
+apiKeysRouter.delete('/:id', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const apiKeysCrud = new ApiKeysCrud(new D1DatabaseConnection(c.env.DB));
+    const result = await apiKeysCrud.revokeKey(id);
+
+    if (!result.success) {
+      return c.json({ 
+        error: 'Failed to revoke API key',
+        details: result.error 
+      }, 404);
+    }
+
+    return c.json({ success: true, message: 'API key revoked' });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return c.json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+export default apiKeysRouter;
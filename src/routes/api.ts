@@ -4,6 +4,9 @@ import { MemberSheetServices } from '../services/membership-manager/member-sheet
 import { TelegramService } from '../services/telegram';
 import { authMiddleware } from '../middleware/auth';
 import { sendMessageToMember } from '../services/membership-manager/member-services';
+import { OutboxService } from '../services/outbox';
+import { MemberPreferencesService } from '../services/member-preferences';
+import { DEFAULT_MEMBER_PREFERENCES } from '../models/member-preferences';
 
 const api = new Hono<{ Bindings: Environment }>();
 
@@ -32,11 +35,31 @@ api.post('/send-message', async (c) => {
         return c.json({ error: 'No members with Telegram IDs found' }, 404);
       }
 
-      await telegramService.sendBulkMessage(telegramIds, message);
+      // Members who turned broadcasts off are skipped, the quiet hours of the others hold their message back
+      const preferencesService = new MemberPreferencesService(c.env);
+      const preferences = await preferencesService.getAllSettings();
+      const deliveries = telegramIds.map(telegramId => ({
+        telegramId: String(telegramId),
+        ...preferencesService.getDelivery(preferences.get(String(telegramId)) || DEFAULT_MEMBER_PREFERENCES, 'broadcasts')
+      }));
+
+      // Queued in the outbox and sent after the response within the Telegram rate limits
+      const outboxService = new OutboxService(c.env);
+      const broadcastId = crypto.randomUUID();
+      const queued = await outboxService.enqueue(deliveries.filter(delivery => delivery.send).map(delivery => ({
+        chat_id: delivery.telegramId,
+        text: message,
+        category: 'broadcast' as const,
+        reference_id: broadcastId,
+        not_before: delivery.notBefore
+      })));
+      c.executionCtx.waitUntil(outboxService.dispatch(queued));
       
       return c.json({ 
         success: true, 
-        message: `Message sent to ${telegramIds.length} members` 
+        message: `Message queued for ${queued} members`,
+        broadcast_id: broadcastId,
+        opted_out: deliveries.filter(delivery => !delivery.send).length
       });
     } else if (target) {
       // Send to specific member by membership number or email
@@ -127,7 +150,8 @@ api.post('/notify-member', async (c) => {
     return c.json({ 
       success: true, 
       message: result.message,
-      telegram_id: result.telegram_id
+      telegram_id: result.telegram_id,
+      queued: result.queued || false
     });
   } catch (error) {
     console.error('Notify member error:', error);
@@ -153,4 +177,21 @@ api.post('/webhook/setup', async (c) => {
   }
 });
 
+// Copy the member sheet into the D1 members table now instead of waiting for the hourly sync
+api.post('/members/sync', async (c) => {
+  try {
+    const memberSheetServices = new MemberSheetServices(c.env);
+    const result = await memberSheetServices.syncMembers();
+    
+    return c.json({ 
+      success: true, 
+      message: 'Members synced successfully',
+      ...result
+    });
+  } catch (error) {
+    console.error('Member sync error:', error);
+    return c.json({ error: 'Failed to sync members' }, 500);
+  }
+});
+
 export default api;
\ No newline at end of file
@@ -0,0 +1,287 @@
+import { Hono } from 'hono';
+import { Environment } from '../types';
+import { D1DatabaseConnection } from '../crud/database';
+import { BroadcastCampaignsCrud } from '../crud/broadcast-campaigns';
+import { requireScope } from '../middleware/auth';
+import { BroadcastCampaign, CampaignStatus } from '../models/broadcast-campaigns';
+import { BroadcastCampaignService } from '../services/broadcast-campaigns';
+
+const CAMPAIGN_STATUSES: CampaignStatus[] = ['draft', 'scheduled', 'sending', 'sent', 'cancelled'];
+
+const broadcastsRouter = new Hono<{ Bindings: Environment }>();
+
+/**
+ * POST /broadcasts
+ * Create a campaign, scheduled when scheduled_at is set, otherwise a draft sent with POST /broadcasts/:id/send
+ * Body: {
+ *   title: string (required),
+ *   message: string (required) - MarkdownV2 text, the caption when a photo is set,
+ *   photo?: string - Photo URL or Telegram file_id,
+ *   boxes?: Array<{ text, link }> - URL buttons, as for /notify-member,
+ *   segment: { type: 'verified' } | { type: 'group', value: chat_id } | { type: 'project', value: project_name }
+ *     | { type: 'field', field: 'sex', value: 'female' } (required),
+ *   author_member_id: string (required) - Membership number of the author, who receives the test sends,
+ *   scheduled_at?: string - ISO date and time to send the campaign at
+ * }
+ */
+broadcastsRouter.post('/', requireScope('broadcast'), async (c) => {
+  try {
+    const body = await c.req.json();
+    const campaignService = new BroadcastCampaignService(c.env);
+
+    const { campaign, error } = campaignService.validateCampaign(body);
+    if (!campaign) {
+      return c.json({ error }, 400);
+    }
+
+    const campaignsCrud = new BroadcastCampaignsCrud(new D1DatabaseConnection(c.env.DB));
+    const result = await campaignsCrud.createCampaign(campaign);
+    if (!result.success || !result.id) {
+      return c.json({ error: result.error || 'Failed to create campaign' }, 500);
+    }
+
+    const created = await campaignsCrud.getById(result.id);
+    return c.json({ success: true, data: campaignService.formatCampaign(created!) }, 201);
+  } catch (error) {
+    console.error('Error creating campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /broadcasts
+ * List campaigns, newest first
+ * Query: status, limit, offset
+ */
+broadcastsRouter.get('/', requireScope('read'), async (c) => {
+  try {
+    const status = c.req.query('status') as CampaignStatus | undefined;
+    const limit = c.req.query('limit') ? parseInt(c.req.query('limit')!) : 50;
+    const offset = c.req.query('offset') ? parseInt(c.req.query('offset')!) : 0;
+
+    if (status && !CAMPAIGN_STATUSES.includes(status)) {
+      return c.json({ error: `status must be one of: ${CAMPAIGN_STATUSES.join(', ')}` }, 400);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    const campaignsCrud = new BroadcastCampaignsCrud(new D1DatabaseConnection(c.env.DB));
+    const campaigns = await campaignsCrud.getCampaigns(status, limit, offset);
+
+    return c.json({ success: true, data: campaigns.map(campaign => campaignService.formatCampaign(campaign)), count: campaigns.length });
+  } catch (error) {
+    console.error('Error listing campaigns:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /broadcasts/:id
+ * Get a campaign with its delivery report
+ */
+broadcastsRouter.get('/:id', requireScope('read'), async (c) => {
+  try {
+    const campaign = await getCampaign(c.env, c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    return c.json({
+      success: true,
+      data: { ...campaignService.formatCampaign(campaign), report: await campaignService.getReport(campaign.id) }
+    });
+  } catch (error) {
+    console.error('Error getting campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * PUT /broadcasts/:id
+ * Change a draft or scheduled campaign; the body has the fields of POST /broadcasts to change
+ * scheduled_at: null turns a scheduled campaign back into a draft
+ */
+broadcastsRouter.put('/:id', requireScope('broadcast'), async (c) => {
+  try {
+    const campaign = await getCampaign(c.env, c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+    if (campaign.status !== 'draft' && campaign.status !== 'scheduled') {
+      return c.json({ error: `Campaign is ${campaign.status}, only draft and scheduled campaigns can be changed` }, 409);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    const body = await c.req.json();
+    const { campaign: changed, error } = campaignService.validateCampaign({
+      ...campaignService.formatCampaign(campaign),
+      segment: campaignService.getSegment(campaign),
+      ...body
+    });
+    if (!changed) {
+      return c.json({ error }, 400);
+    }
+
+    const campaignsCrud = new BroadcastCampaignsCrud(new D1DatabaseConnection(c.env.DB));
+    const result = await campaignsCrud.update(campaign.id, {
+      ...changed,
+      status: changed.scheduled_at ? 'scheduled' : 'draft'
+    });
+    if (!result.success) {
+      return c.json({ error: result.error || 'Failed to update campaign' }, 500);
+    }
+
+    const updated = await campaignsCrud.getById(campaign.id);
+    return c.json({ success: true, data: campaignService.formatCampaign(updated!) });
+  } catch (error) {
+    console.error('Error updating campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /broadcasts/:id/preview
+ * Number of members the segment matches now, and the first names
+ */
+broadcastsRouter.get('/:id/preview', requireScope('read'), async (c) => {
+  try {
+    const campaign = await getCampaign(c.env, c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    return c.json({ success: true, data: await campaignService.previewCampaign(campaign) });
+  } catch (error) {
+    console.error('Error previewing campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /broadcasts/:id/test
+ * Send the campaign message to its author only
+ */
+broadcastsRouter.post('/:id/test', requireScope('broadcast'), async (c) => {
+  try {
+    const campaign = await getCampaign(c.env, c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    const result = await campaignService.sendTest(campaign);
+    if (!result.success) {
+      return c.json({ error: result.error, errorCode: result.errorCode }, 400);
+    }
+
+    return c.json({ success: true, message: result.message });
+  } catch (error) {
+    console.error('Error sending test campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /broadcasts/:id/send
+ * Start sending a draft or scheduled campaign now
+ * The first batch is sent after the response, the cron sends the rest
+ */
+broadcastsRouter.post('/:id/send', requireScope('broadcast'), async (c) => {
+  try {
+    const campaign = await getCampaign(c.env, c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    const result = await campaignService.startCampaign(campaign);
+    if (!result.success) {
+      return c.json({ error: result.error }, 409);
+    }
+
+    c.executionCtx.waitUntil(campaignService.sendBatch(campaign.id));
+
+    return c.json({ success: true, message: `Campaign started for ${result.recipients} members`, recipients: result.recipients });
+  } catch (error) {
+    console.error('Error starting campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /broadcasts/:id/cancel
+ * Stop a campaign; members it was already sent to keep their message
+ */
+broadcastsRouter.post('/:id/cancel', requireScope('broadcast'), async (c) => {
+  try {
+    const campaignsCrud = new BroadcastCampaignsCrud(new D1DatabaseConnection(c.env.DB));
+    const campaign = await campaignsCrud.getById(c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+
+    const cancelled = await campaignsCrud.updateStatus(campaign.id, ['draft', 'scheduled', 'sending'], 'cancelled');
+    if (!cancelled) {
+      return c.json({ error: `Campaign is ${campaign.status} and can't be cancelled` }, 409);
+    }
+
+    return c.json({ success: true, message: 'Campaign cancelled' });
+  } catch (error) {
+    console.error('Error cancelling campaign:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /broadcasts/:id/report
+ * Delivered, blocked, not started, opted out and failed counts of a campaign
+ */
+broadcastsRouter.get('/:id/report', requireScope('read'), async (c) => {
+  try {
+    const campaign = await getCampaign(c.env, c.req.param('id'));
+    if (!campaign) {
+      return c.json({ error: 'Campaign not found' }, 404);
+    }
+
+    const campaignService = new BroadcastCampaignService(c.env);
+    return c.json({ success: true, data: { status: campaign.status, ...(await campaignService.getReport(campaign.id)) } });
+  } catch (error) {
+    console.error('Error getting campaign report:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+async function getCampaign(env: Environment, id: string): Promise<BroadcastCampaign | null> {
+  const campaignsCrud = new BroadcastCampaignsCrud(new D1DatabaseConnection(env.DB));
+  return await campaignsCrud.getById(id);
+}
+
+export default broadcastsRouter;
@@ -2,7 +2,7 @@ import { Hono } from 'hono';
 import { Environment } from '../types';
 import { GroupsCrud } from '../crud/groups';
 import { authMiddleware } from '../middleware/auth';
-import { GroupAdmin, GroupModel } from '../models/groups';
+import { GroupServices } from '../services/group-services';
 
 const groupsRouter = new Hono<{ Bindings: Environment }>();
 
@@ -40,77 +40,27 @@ groupsRouter.post('/store', async (c) => {
       }, 400);
     }
 
-    const groupsCrud = new GroupsCrud(c.env.DB);
-    const telegramService = new (await import('../services/telegram')).TelegramService(c.env);
-
-    // Fetch group info from Telegram
-    let chatInfo;
-    try {
-      chatInfo = await telegramService.getChat(chat_id);
-    } catch (error) {
-      return c.json({ 
-        error: 'Failed to fetch group info from Telegram. Make sure the bot is an admin in this group.',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }, 400);
-    }
-
-    // Fetch administrators
-    let adminsList: GroupAdmin[] = [];
-    try {
-      const chatAdmins = await telegramService.getChatAdministrators(chat_id);
-      adminsList = chatAdmins.map((admin: any) => ({
-        user_id: admin.user.id.toString(),
-        username: admin.user.username,
-        first_name: admin.user.first_name,
-        last_name: admin.user.last_name,
-        status: admin.status === 'creator' ? 'creator' : 'administrator'
-      }));
-    } catch (error) {
-      console.warn('Failed to fetch administrators, continuing with empty list:', error);
-    }
-
-    // Fetch member count
-    let memberCount = 0;
-    try {
-      memberCount = await telegramService.getChatMemberCount(chat_id);
-    } catch (error) {
-      console.warn('Failed to fetch member count:', error);
-    }
-
-    // Build group data from Telegram info
-    const groupData: GroupModel = {
-      chat_id: chat_id.toString(),
-      title: chatInfo.title || 'Unknown',
-      type: chatInfo.type || 'group',
-      username: chatInfo.username || null,
-      description: chatInfo.description || null,
-      invite_link: chatInfo.invite_link || null,
-      is_active: 1,
-      member_count: memberCount || null,
-      needs_admin_approval: needs_admin_approval ? 1 : 0,
+    const groupServices = new GroupServices(c.env);
+    const result = await groupServices.storeGroup(chat_id, {
+      needsAdminApproval: !!needs_admin_approval,
       notes: notes || null
-    };
-
-    // Upsert the group (create if new, update if exists)
-    const result = await groupsCrud.upsertGroup(groupData, adminsList);
+    });
 
     if (!result.success) {
       return c.json({ 
-        error: result.error || 'Failed to store group' 
-      }, 500);
+        error: result.error || 'Failed to store group',
+        details: result.details
+      }, result.errorType === 'telegram' ? 400 : 500);
     }
 
-    // Fetch the stored group to return complete info
-    const storedGroup = await groupsCrud.getGroupById(result.id!);
-
     return c.json({ 
       success: true,
       id: result.id,
       isNew: result.isNew,
       message: result.isNew ? 'Group created successfully' : 'Group updated successfully',
-      group: storedGroup,
-      admins_count: adminsList.length,
-      member_count: memberCount
+      group: result.group,
+      admins_count: result.adminsCount,
+      member_count: result.memberCount
     });
   } catch (error) {
     console.error('Store group error:', error);
@@ -130,78 +80,23 @@ groupsRouter.post('/sync/:chatId', async (c) => {
   try {
     const chatId = c.req.param('chatId');
 
-    const groupsCrud = new GroupsCrud(c.env.DB);
-    const telegramService = new (await import('../services/telegram')).TelegramService(c.env);
-
-    // Check if group exists
-    const existingGroup = await groupsCrud.getGroupByChatId(chatId);
-    if (!existingGroup) {
-      return c.json({ 
-        error: 'Group not found. Use /store endpoint to add it first.' 
-      }, 404);
-    }
-
-    // Fetch updated group info from Telegram
-    let chatInfo;
-    try {
-      chatInfo = await telegramService.getChat(chatId);
-    } catch (error) {
-      return c.json({ 
-        error: 'Failed to fetch group info from Telegram.',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }, 400);
-    }
-
-    // Fetch administrators
-    let adminsList: GroupAdmin[] = [];
-    try {
-      const chatAdmins = await telegramService.getChatAdministrators(chatId);
-      adminsList = chatAdmins.map((admin: any) => ({
-        user_id: admin.user.id.toString(),
-        username: admin.user.username,
-        first_name: admin.user.first_name,
-        last_name: admin.user.last_name,
-        status: admin.status === 'creator' ? 'creator' : 'administrator'
-      }));
-    } catch (error) {
-      console.warn('Failed to fetch administrators:', error);
-    }
-
-    // Fetch member count
-    let memberCount = 0;
-    try {
-      memberCount = await telegramService.getChatMemberCount(chatId);
-    } catch (error) {
-      console.warn('Failed to fetch member count:', error);
-    }
-
-    // Update group data
-    const updateData: Partial<GroupModel> = {
-      title: chatInfo.title || existingGroup.title,
-      type: chatInfo.type || existingGroup.type,
-      username: chatInfo.username || null,
-      description: chatInfo.description || null,
-      invite_link: chatInfo.invite_link || null,
-      member_count: memberCount || existingGroup.member_count
-    };
-
-    const result = await groupsCrud.updateGroup(existingGroup.id, updateData, adminsList);
+    const groupServices = new GroupServices(c.env);
+    const result = await groupServices.syncGroup(chatId);
 
     if (!result.success) {
+      const status = result.errorType === 'not_found' ? 404 : result.errorType === 'telegram' ? 400 : 500;
       return c.json({ 
-        error: result.error || 'Failed to sync group' 
-      }, 500);
+        error: result.error || 'Failed to sync group',
+        details: result.details
+      }, status);
     }
 
-    // Fetch updated group
-    const updatedGroup = await groupsCrud.getGroupById(existingGroup.id);
-
     return c.json({ 
       success: true,
       message: 'Group synced successfully',
-      group: updatedGroup,
-      admins_count: adminsList.length,
-      member_count: memberCount
+      group: result.group,
+      admins_count: result.adminsCount,
+      member_count: result.memberCount
     });
   } catch (error) {
     console.error('Sync group error:', error);
@@ -226,7 +121,7 @@ groupsRouter.post('/sync-all', async (c) => {
     const batchSize = parseInt(c.req.query('batch_size') || '10');
 
     const groupsCrud = new GroupsCrud(c.env.DB);
-    const telegramService = new (await import('../services/telegram')).TelegramService(c.env);
+    const groupServices = new GroupServices(c.env);
 
     // Get all groups to sync
     const groups = activeOnly 
@@ -259,43 +154,7 @@ groupsRouter.post('/sync-all', async (c) => {
       await Promise.allSettled(
         batch.map(async (group) => {
           try {
-            // Fetch updated group info from Telegram
-            const chatInfo = await telegramService.getChat(group.chat_id);
-
-            // Fetch administrators
-            let adminsList: GroupAdmin[] = [];
-            try {
-              const chatAdmins = await telegramService.getChatAdministrators(group.chat_id);
-              adminsList = chatAdmins.map((admin: any) => ({
-                user_id: admin.user.id.toString(),
-                username: admin.user.username,
-                first_name: admin.user.first_name,
-                last_name: admin.user.last_name,
-                status: admin.status === 'creator' ? 'creator' : 'administrator'
-              }));
-            } catch (error) {
-              console.warn(`Failed to fetch administrators for ${group.chat_id}:`, error);
-            }
-
-            // Fetch member count
-            let memberCount = 0;
-            try {
-              memberCount = await telegramService.getChatMemberCount(group.chat_id);
-            } catch (error) {
-              console.warn(`Failed to fetch member count for ${group.chat_id}:`, error);
-            }
-
-            // Update group data
-            const updateData: Partial<GroupModel> = {
-              title: chatInfo.title || group.title,
-              type: chatInfo.type || group.type,
-              username: chatInfo.username || null,
-              description: chatInfo.description || null,
-              invite_link: chatInfo.invite_link || null,
-              member_count: memberCount || group.member_count
-            };
-
-            const result = await groupsCrud.updateGroup(group.id, updateData, adminsList);
+            const result = await groupServices.refreshGroup(group);
 
             if (result.success) {
               results.synced++;
@@ -305,9 +164,9 @@ groupsRouter.post('/sync-all', async (c) => {
               results.errors.push({
                 chat_id: group.chat_id,
                 title: group.title,
-                error: result.error || 'Unknown error'
+                error: result.details || result.error || 'Unknown error'
               });
-              console.error(`✗ Failed to sync: ${group.title} (${group.chat_id}) - ${result.error}`);
+              console.error(`✗ Failed to sync: ${group.title} (${group.chat_id}) - ${result.details || result.error}`);
             }
           } catch (error) {
             results.failed++;
@@ -546,6 +405,44 @@ groupsRouter.put('/:id/status', async (c) => {
   }
 });
 
+/**
+ * PUT /groups/:id/project
+ * Set the project whose monthly points leaderboard is posted in the group
+ * Body: { project_name: string | null } - the project (tab) name as in the task sheets, null to stop the posts
+ */
+groupsRouter.put('/:id/project', async (c) => {
+  try {
+    const id = c.req.param('id');
+    const { project_name } = await c.req.json();
+
+    if (project_name !== null && (typeof project_name !== 'string' || !project_name.trim())) {
+      return c.json({ 
+        error: 'project_name must be a non-empty string or null' 
+      }, 400);
+    }
+
+    const groupsCrud = new GroupsCrud(c.env.DB);
+    const result = await groupsCrud.setProjectName(id, project_name ? project_name.trim() : null);
+
+    if (!result.success) {
+      return c.json({ 
+        error: result.error || 'Failed to update project' 
+      }, 500);
+    }
+
+    return c.json({ 
+      success: true,
+      message: 'Group project updated successfully'
+    });
+  } catch (error) {
+    console.error('Update project error:', error);
+    return c.json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * GET /groups/search/:term
  * Search groups by title
@@ -0,0 +1,85 @@
+import { Hono } from 'hono';
+import { Environment } from '../types';
+import { D1DatabaseConnection } from '../crud/database';
+import { OutboxCrud } from '../crud/outbox';
+import { requireScope } from '../middleware/auth';
+import { OutboxCategory, OutboxStatus } from '../models/outbox';
+import { OutboxService } from '../services/outbox';
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'sent', 'failed'];
+const OUTBOX_CATEGORIES: OutboxCategory[] = ['broadcast', 'task', 'shame', 'member'];
+
+const outboxRouter = new Hono<{ Bindings: Environment }>();
+
+/**
+ * GET /outbox
+ * List queued and sent messages, newest first
+ * Query: status, category, reference_id (broadcast or task ID), limit, offset
+ */
+outboxRouter.get('/', requireScope('read'), async (c) => {
+  try {
+    const status = c.req.query('status') as OutboxStatus | undefined;
+    const category = c.req.query('category') as OutboxCategory | undefined;
+    const limit = c.req.query('limit') ? parseInt(c.req.query('limit')!) : 100;
+    const offset = c.req.query('offset') ? parseInt(c.req.query('offset')!) : 0;
+
+    if (status && !OUTBOX_STATUSES.includes(status)) {
+      return c.json({ error: `status must be one of: ${OUTBOX_STATUSES.join(', ')}` }, 400);
+    }
+    if (category && !OUTBOX_CATEGORIES.includes(category)) {
+      return c.json({ error: `category must be one of: ${OUTBOX_CATEGORIES.join(', ')}` }, 400);
+    }
+
+    const outboxCrud = new OutboxCrud(new D1DatabaseConnection(c.env.DB));
+    const messages = await outboxCrud.getMessages({ status, category, referenceId: c.req.query('reference_id') }, limit, offset);
+
+    return c.json({ success: true, data: messages, count: messages.length });
+  } catch (error) {
+    console.error('Error listing outbox messages:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * GET /outbox/stats
+ * Number of pending, sent and failed messages of each category
+ * Query: reference_id (optional) - Only the messages of a broadcast or a task
+ */
+outboxRouter.get('/stats', requireScope('read'), async (c) => {
+  try {
+    const outboxCrud = new OutboxCrud(new D1DatabaseConnection(c.env.DB));
+    const stats = await outboxCrud.getStats(c.req.query('reference_id'));
+
+    return c.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('Error getting outbox stats:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * POST /outbox/dispatch
+ * Send the pending messages that are due now instead of waiting for the next cron run
+ */
+outboxRouter.post('/dispatch', requireScope('broadcast'), async (c) => {
+  try {
+    const outboxService = new OutboxService(c.env);
+    const result = await outboxService.dispatch();
+
+    return c.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error dispatching outbox:', error);
+    return c.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+export default outboxRouter;
@@ -0,0 +1,105 @@
+import { Hono } from 'hono';
+import { Environment } from '../../types';
+import { requireScope } from '../../middleware/auth';
+import { D1DatabaseConnection } from '../../crud/database';
+import { PointsLedgerCrud } from '../../crud/task-follower/points';
+import { PointsService, PERIOD_PATTERN } from '../../services/task-follower/points-service';
+
+type Variables = {
+  pointsLedgerCrud: PointsLedgerCrud;
+};
+
+const pointsRoutes = new Hono<{ Bindings: Environment; Variables: Variables }>();
+
+// Every route requires an API key with the scope passed to requireScope
+// (read, task-admin or broadcast); the master SECRET_KEY has all scopes
+// Months are passed as ?month=YYYY-MM
+
+// Middleware to initialize the points ledger CRUD
+pointsRoutes.use('/*', async (c, next) => {
+  const db = new D1DatabaseConnection(c.env.DB);
+  c.set('pointsLedgerCrud', new PointsLedgerCrud(db));
+  await next();
+});
+
+// Members ranked by points, optionally for a month and a project
+pointsRoutes.get('/leaderboard', requireScope('read'), async (c) => {
+  try {
+    const pointsLedgerCrud = c.get('pointsLedgerCrud') as PointsLedgerCrud;
+    const period = c.req.query('month');
+    const projectName = c.req.query('project');
+    const limit = c.req.query('limit') ? parseInt(c.req.query('limit')!) : undefined;
+
+    if (period && !PERIOD_PATTERN.test(period)) {
+      return c.json({ success: false, error: 'month must be YYYY-MM' }, 400);
+    }
+
+    const leaderboard = await pointsLedgerCrud.getLeaderboard({ period, projectName, limit });
+    return c.json({ success: true, data: leaderboard });
+  } catch (error) {
+    console.error('Error getting leaderboard:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Points of each project, optionally for a month
+pointsRoutes.get('/projects', requireScope('read'), async (c) => {
+  try {
+    const pointsLedgerCrud = c.get('pointsLedgerCrud') as PointsLedgerCrud;
+    const period = c.req.query('month');
+
+    if (period && !PERIOD_PATTERN.test(period)) {
+      return c.json({ success: false, error: 'month must be YYYY-MM' }, 400);
+    }
+
+    const totals = await pointsLedgerCrud.getProjectTotals(period);
+    return c.json({ success: true, data: totals });
+  } catch (error) {
+    console.error('Error getting project points:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Points of each month, optionally of one member (?member=<membership number>)
+pointsRoutes.get('/months', requireScope('read'), async (c) => {
+  try {
+    const pointsLedgerCrud = c.get('pointsLedgerCrud') as PointsLedgerCrud;
+    const totals = await pointsLedgerCrud.getMonthlyTotals(c.req.query('member'));
+    return c.json({ success: true, data: totals });
+  } catch (error) {
+    console.error('Error getting monthly points:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Post the monthly leaderboard to the project groups now (last month by default)
+pointsRoutes.post('/monthly-report', requireScope('broadcast'), async (c) => {
+  try {
+    const period = c.req.query('month');
+    if (period && !PERIOD_PATTERN.test(period)) {
+      return c.json({ success: false, error: 'month must be YYYY-MM' }, 400);
+    }
+
+    const db = new D1DatabaseConnection(c.env.DB);
+    const pointsService = new PointsService(db, c.env);
+    const result = await pointsService.sendMonthlyReports(period);
+    return c.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error sending monthly points reports:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+export { pointsRoutes };
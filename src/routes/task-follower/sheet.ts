@@ -1,7 +1,11 @@
 import { Hono } from 'hono';
 import { Environment } from '../../types';
+import { requireScope } from '../../middleware/auth';
 import { D1DatabaseConnection } from '../../crud/database';
 import { SheetCrud } from '../../crud/task-follower/sheet';
+import { NotificationPolicyCrud } from '../../crud/task-follower/notification-policy';
+import { DEFAULT_NOTIFICATION_POLICY } from '../../models/task-follower/notification-policy';
+import { TaskService } from '../../services/task-follower/task-service';
 
 type Variables = {
   sheetCrud: SheetCrud;
@@ -9,6 +13,9 @@ type Variables = {
 
 const taskSheetRoutes = new Hono<{ Bindings: Environment; Variables: Variables }>();
 
+// Every route requires an API key with the scope passed to requireScope
+// (read, task-admin or broadcast); the master SECRET_KEY has all scopes
+
 // Middleware to initialize sheet CRUD
 taskSheetRoutes.use('/*', async (c, next) => {
   const db = new D1DatabaseConnection(c.env.DB);
@@ -18,7 +25,7 @@ taskSheetRoutes.use('/*', async (c, next) => {
 });
 
 // Get all registered sheets
-taskSheetRoutes.get('/', async (c) => {
+taskSheetRoutes.get('/', requireScope('read'), async (c) => {
   try {
     const sheetCrud = c.get('sheetCrud') as SheetCrud;
     const sheets = await sheetCrud.getAll();
@@ -33,7 +40,7 @@ taskSheetRoutes.get('/', async (c) => {
 });
 
 // Get sheet by ID
-taskSheetRoutes.get('/:id', async (c) => {
+taskSheetRoutes.get('/:id', requireScope('read'), async (c) => {
   try {
     const sheetCrud = c.get('sheetCrud') as SheetCrud;
     const sheetId = c.req.param('id');
@@ -54,10 +61,10 @@ taskSheetRoutes.get('/:id', async (c) => {
 });
 
 // Register a new sheet for task checking
-taskSheetRoutes.post('/', async (c) => {
+taskSheetRoutes.post('/', requireScope('task-admin'), async (c) => {
   try {
     const sheetCrud = c.get('sheetCrud') as SheetCrud;
-    const { sheetID, sheetName } = await c.req.json();
+    const { sheetID, sheetName, column_mapping } = await c.req.json();
     
     if (!sheetID || !sheetName) {
       return c.json({ 
@@ -66,6 +73,11 @@ taskSheetRoutes.post('/', async (c) => {
       }, 400);
     }
     
+    const { mapping, error: mappingError } = sheetCrud.validateColumnMapping(column_mapping ?? null);
+    if (mappingError) {
+      return c.json({ success: false, error: mappingError }, 400);
+    }
+    
     // Check if sheet already exists
     const db = new D1DatabaseConnection(c.env.DB);
     const existingSheet = await db.prepare('SELECT * FROM sheets WHERE sheetID = ? LIMIT 1')
@@ -82,6 +94,7 @@ taskSheetRoutes.post('/', async (c) => {
     const sheetData = {
       sheetID,
       sheetName,
+      column_mapping: mapping ? JSON.stringify(mapping) : null,
       created_at: new Date()
     };
     
@@ -109,12 +122,21 @@ taskSheetRoutes.post('/', async (c) => {
 });
 
 // Update sheet information
-taskSheetRoutes.put('/:id', async (c) => {
+taskSheetRoutes.put('/:id', requireScope('task-admin'), async (c) => {
   try {
     const sheetCrud = c.get('sheetCrud') as SheetCrud;
     const sheetId = c.req.param('id');
     const updateData = await c.req.json();
     
+    // The column mapping is sent as an object and stored as JSON
+    if ('column_mapping' in updateData) {
+      const { mapping, error: mappingError } = sheetCrud.validateColumnMapping(updateData.column_mapping);
+      if (mappingError) {
+        return c.json({ success: false, error: mappingError }, 400);
+      }
+      updateData.column_mapping = mapping ? JSON.stringify(mapping) : null;
+    }
+    
     const result = await sheetCrud.update(sheetId, updateData);
     
     if (!result.success) {
@@ -139,8 +161,166 @@ taskSheetRoutes.put('/:id', async (c) => {
   }
 });
 
+// Validate a sheet against its column mapping without sending any notification
+// Reports missing headers, unparseable dates, owners not found in contacts and duplicate rows
+taskSheetRoutes.get('/:id/validate', requireScope('read'), async (c) => {
+  try {
+    const sheetCrud = c.get('sheetCrud') as SheetCrud;
+    const sheet = await sheetCrud.getById(c.req.param('id'));
+    
+    if (!sheet) {
+      return c.json({ success: false, error: 'Sheet not found' }, 404);
+    }
+    
+    const db = new D1DatabaseConnection(c.env.DB);
+    const taskService = new TaskService(db, c.env);
+    const report = await taskService.validateTaskSheet(sheet.sheetID);
+    
+    return c.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error validating sheet:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Get the notification policies of a sheet: the sheet policy and the project policies, with the settings that apply
+taskSheetRoutes.get('/:id/policies', requireScope('read'), async (c) => {
+  try {
+    const sheetCrud = c.get('sheetCrud') as SheetCrud;
+    const sheet = await sheetCrud.getById(c.req.param('id'));
+    
+    if (!sheet) {
+      return c.json({ success: false, error: 'Sheet not found' }, 404);
+    }
+    
+    const policyCrud = new NotificationPolicyCrud(new D1DatabaseConnection(c.env.DB));
+    const policies = await policyCrud.getBySheetId(sheet.sheetID);
+    const projects = policies.filter(policy => policy.project_name).map(policy => policy.project_name);
+    
+    return c.json({
+      success: true,
+      data: {
+        defaults: DEFAULT_NOTIFICATION_POLICY,
+        sheet: policyCrud.resolvePolicy(policies, sheet.sheetID, null),
+        projects: projects.map(projectName => policyCrud.resolvePolicy(policies, sheet.sheetID, projectName))
+      }
+    });
+  } catch (error) {
+    console.error('Error getting notification policies:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Get the notification policy that applies to a project (?project=), or to the whole sheet
+taskSheetRoutes.get('/:id/policy', requireScope('read'), async (c) => {
+  try {
+    const sheetCrud = c.get('sheetCrud') as SheetCrud;
+    const sheet = await sheetCrud.getById(c.req.param('id'));
+    
+    if (!sheet) {
+      return c.json({ success: false, error: 'Sheet not found' }, 404);
+    }
+    
+    const policyCrud = new NotificationPolicyCrud(new D1DatabaseConnection(c.env.DB));
+    const policy = await policyCrud.getEffectivePolicy(sheet.sheetID, c.req.query('project') || null);
+    
+    return c.json({ success: true, data: policy });
+  } catch (error) {
+    console.error('Error getting notification policy:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Set settings of the sheet policy, or of a project policy when project_name is sent
+// Settings left out are kept, null settings are inherited from the sheet policy or the defaults again
+taskSheetRoutes.put('/:id/policy', requireScope('task-admin'), async (c) => {
+  try {
+    const sheetCrud = c.get('sheetCrud') as SheetCrud;
+    const sheet = await sheetCrud.getById(c.req.param('id'));
+    
+    if (!sheet) {
+      return c.json({ success: false, error: 'Sheet not found' }, 404);
+    }
+    
+    const { project_name, ...body } = await c.req.json();
+    if (project_name !== undefined && project_name !== null && (typeof project_name !== 'string' || !project_name.trim())) {
+      return c.json({ success: false, error: 'project_name must be a non-empty string or null' }, 400);
+    }
+    
+    const policyCrud = new NotificationPolicyCrud(new D1DatabaseConnection(c.env.DB));
+    const { settings, error: settingsError } = policyCrud.validateSettings(body);
+    if (settingsError) {
+      return c.json({ success: false, error: settingsError }, 400);
+    }
+    
+    const projectName = project_name ? project_name.trim() : null;
+    const result = await policyCrud.setPolicy(sheet.sheetID, projectName, settings!);
+    
+    if (!result.success) {
+      return c.json({ 
+        success: false, 
+        error: result.error || 'Failed to update notification policy' 
+      }, 500);
+    }
+    
+    return c.json({ 
+      success: true, 
+      data: await policyCrud.getEffectivePolicy(sheet.sheetID, projectName),
+      message: 'Notification policy updated successfully' 
+    });
+  } catch (error) {
+    console.error('Error updating notification policy:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
+// Remove a project policy (?project=) or the sheet policy
+taskSheetRoutes.delete('/:id/policy', requireScope('task-admin'), async (c) => {
+  try {
+    const sheetCrud = c.get('sheetCrud') as SheetCrud;
+    const sheet = await sheetCrud.getById(c.req.param('id'));
+    
+    if (!sheet) {
+      return c.json({ success: false, error: 'Sheet not found' }, 404);
+    }
+    
+    const policyCrud = new NotificationPolicyCrud(new D1DatabaseConnection(c.env.DB));
+    const result = await policyCrud.deletePolicy(sheet.sheetID, c.req.query('project') || null);
+    
+    if (!result.success) {
+      return c.json({ 
+        success: false, 
+        error: result.error || 'Failed to delete notification policy' 
+      }, 500);
+    }
+    if (!result.deleted) {
+      return c.json({ success: false, error: 'Notification policy not found' }, 404);
+    }
+    
+    return c.json({ success: true, message: 'Notification policy deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting notification policy:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
 // Delete a sheet registration
-taskSheetRoutes.delete('/:id', async (c) => {
+taskSheetRoutes.delete('/:id', requireScope('task-admin'), async (c) => {
   try {
     const sheetId = c.req.param('id');
     const db = new D1DatabaseConnection(c.env.DB);
@@ -158,6 +338,9 @@ taskSheetRoutes.delete('/:id', async (c) => {
     await db.prepare('DELETE FROM tasks WHERE sheetID = ?')
       .bind((existingSheet as any).sheetID)
       .run();
+    await db.prepare('DELETE FROM notification_policies WHERE sheet_id = ?')
+      .bind((existingSheet as any).sheetID)
+      .run();
     
     // Delete the sheet
     const result = await db.prepare('DELETE FROM sheets WHERE id = ?')
@@ -185,7 +368,7 @@ taskSheetRoutes.delete('/:id', async (c) => {
 });
 
 // Get sheet by sheetID (Google Sheets ID)
-taskSheetRoutes.get('/by-sheet-id/:sheetId', async (c) => {
+taskSheetRoutes.get('/by-sheet-id/:sheetId', requireScope('read'), async (c) => {
   try {
     const sheetId = c.req.param('sheetId');
     const db = new D1DatabaseConnection(c.env.DB);
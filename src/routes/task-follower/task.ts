@@ -1,9 +1,11 @@
 import { Hono } from 'hono';
 import { Environment } from '../../types';
+import { requireScope } from '../../middleware/auth';
 import { D1DatabaseConnection } from '../../crud/database';
 import { TaskService } from '../../services/task-follower/task-service';
 import { TaskModel } from '../../models/task-follower/task';
 import { ShameService } from '../../services/task-follower/shame-service';
+import { TaskHistoryService } from '../../services/task-follower/task-history-service';
 
 type Variables = {
   taskService: TaskService;
@@ -11,6 +13,9 @@ type Variables = {
 
 const taskRoutes = new Hono<{ Bindings: Environment; Variables: Variables }>();
 
+// Every route requires an API key with the scope passed to requireScope
+// (read, task-admin or broadcast); the master SECRET_KEY has all scopes
+
 // Middleware to initialize task service
 taskRoutes.use('/*', async (c, next) => {
   const db = new D1DatabaseConnection(c.env.DB);
@@ -20,7 +25,7 @@ taskRoutes.use('/*', async (c, next) => {
 });
 
 // Get all tasks
-taskRoutes.get('/', async (c) => {
+taskRoutes.get('/', requireScope('read'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const tasks = await taskService.getAllTasks();
@@ -35,7 +40,7 @@ taskRoutes.get('/', async (c) => {
 });
 
 // Get task by ID
-taskRoutes.get('/get-task-by-id/:id', async (c) => {
+taskRoutes.get('/get-task-by-id/:id', requireScope('read'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const taskId = c.req.param('id');
@@ -55,8 +60,29 @@ taskRoutes.get('/get-task-by-id/:id', async (c) => {
   }
 });
 
+// Get the change history of a task (also for archived tasks), oldest event first
+taskRoutes.get('/:id/history', requireScope('read'), async (c) => {
+  try {
+    const db = new D1DatabaseConnection(c.env.DB);
+    const taskHistoryService = new TaskHistoryService(db, c.env);
+    const history = await taskHistoryService.getHistory(c.req.param('id'));
+    
+    if (!history) {
+      return c.json({ success: false, error: 'Task not found' }, 404);
+    }
+    
+    return c.json({ success: true, data: history });
+  } catch (error) {
+    console.error('Error getting task history:', error);
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500);
+  }
+});
+
 // Get tasks by owner ID
-taskRoutes.get('/owner/:ownerId', async (c) => {
+taskRoutes.get('/owner/:ownerId', requireScope('read'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const ownerId = c.req.param('ownerId');
@@ -77,7 +103,7 @@ taskRoutes.get('/owner/:ownerId', async (c) => {
 });
 
 // Get tasks by project name
-taskRoutes.get('/project/:projectName', async (c) => {
+taskRoutes.get('/project/:projectName', requireScope('read'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const projectName = c.req.param('projectName');
@@ -98,7 +124,7 @@ taskRoutes.get('/project/:projectName', async (c) => {
 });
 
 // Get tasks by status
-taskRoutes.get('/status/:status', async (c) => {
+taskRoutes.get('/status/:status', requireScope('read'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const status = c.req.param('status');
@@ -119,7 +145,7 @@ taskRoutes.get('/status/:status', async (c) => {
 });
 
 // Get tasks needing attention (overdue, due soon, blocked)
-taskRoutes.get('/attention/all', async (c) => {
+taskRoutes.get('/attention/all', requireScope('read'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const tasksNeedingAttention = await taskService.getTasksNeedingAttention();
@@ -134,7 +160,7 @@ taskRoutes.get('/attention/all', async (c) => {
 });
 
 // Create a new task
-taskRoutes.post('/', async (c) => {
+taskRoutes.post('/', requireScope('task-admin'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const taskData = await c.req.json();
@@ -179,7 +205,7 @@ taskRoutes.post('/', async (c) => {
 });
 
 // Update a task
-taskRoutes.put('/:id', async (c) => {
+taskRoutes.put('/:id', requireScope('task-admin'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const taskId = c.req.param('id');
@@ -202,7 +228,7 @@ taskRoutes.put('/:id', async (c) => {
 });
 
 // Update task status
-taskRoutes.patch('/:id/status', async (c) => {
+taskRoutes.patch('/:id/status', requireScope('task-admin'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const taskId = c.req.param('id');
@@ -264,7 +290,7 @@ taskRoutes.patch('/:id/status', async (c) => {
 });
 
 // Delete a task
-taskRoutes.delete('/:id', async (c) => {
+taskRoutes.delete('/:id', requireScope('task-admin'), async (c) => {
   try {
     const taskId = c.req.param('id');
     const db = new D1DatabaseConnection(c.env.DB);
@@ -286,11 +312,17 @@ taskRoutes.delete('/:id', async (c) => {
 });
 
 // Trigger task checking for a specific sheet
-taskRoutes.post('/check-sheet/:sheetId', async (c) => {
+taskRoutes.post('/check-sheet/:sheetId', requireScope('broadcast'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     const sheetId = c.req.param('sheetId');
     
+    // ?dry_run=true shows what the check would send and change, without doing it
+    if (c.req.query('dry_run') === 'true') {
+      const preview = await taskService.previewTasksFromSheet(sheetId);
+      return c.json({ success: true, data: preview });
+    }
+    
     const result = await taskService.checkTasksFromSheet(sheetId);
     return c.json({ success: true, message: result });
   } catch (error) {
@@ -303,7 +335,7 @@ taskRoutes.post('/check-sheet/:sheetId', async (c) => {
 });
 
 // Trigger task checking for all sheets
-taskRoutes.post('/check-all', async (c) => {
+taskRoutes.post('/check-all', requireScope('broadcast'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     
@@ -319,7 +351,7 @@ taskRoutes.post('/check-all', async (c) => {
 });
 
 // Trigger task checking during work hours
-taskRoutes.post('/check-work-hours', async (c) => {
+taskRoutes.post('/check-work-hours', requireScope('broadcast'), async (c) => {
   try {
     const taskService = c.get('taskService') as TaskService;
     
@@ -335,7 +367,7 @@ taskRoutes.post('/check-work-hours', async (c) => {
 });
 
 // Get all delayed tasks (overdue by more than 2 days)
-taskRoutes.get('/delayed', async (c) => {
+taskRoutes.get('/delayed', requireScope('read'), async (c) => {
   try {
     const db = new D1DatabaseConnection(c.env.DB);
     const shameService = new ShameService(db, c.env);
@@ -352,7 +384,7 @@ taskRoutes.get('/delayed', async (c) => {
 });
 
 // Send shame notifications for a specific task
-taskRoutes.post('/:id/shame', async (c) => {
+taskRoutes.post('/:id/shame', requireScope('broadcast'), async (c) => {
   try {
     const taskId = c.req.param('id');
     const db = new D1DatabaseConnection(c.env.DB);
@@ -382,7 +414,7 @@ taskRoutes.post('/:id/shame', async (c) => {
 });
 
 // Process all delayed tasks and send shame notifications
-taskRoutes.post('/shame/process-all', async (c) => {
+taskRoutes.post('/shame/process-all', requireScope('broadcast'), async (c) => {
   try {
     const db = new D1DatabaseConnection(c.env.DB);
     const shameService = new ShameService(db, c.env);
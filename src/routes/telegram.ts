@@ -4,17 +4,30 @@ import { MemberSheetServices } from '../services/membership-manager/member-sheet
 import { TelegramService } from '../services/telegram';
 import { EmailService } from '../services/email';
 import { TelegramUserStateService } from '../crud/membership-manager/telegram-user-state';
+import { VerificationTokenService } from '../crud/membership-manager/verification-tokens';
+import { VerificationSessionService, VERIFICATION_MAX_ATTEMPTS } from '../crud/membership-manager/verification-sessions';
 import { AllMessagesPrivateCrud } from '../crud/all-messages-private';
 import { AllMessagesGroupsCrud } from '../crud/all-messages-groups';
 import { TaskCrud } from '../crud/task-follower/task';
 import { D1DatabaseConnection } from '../crud/database';
-import { escapeMarkdownV2 } from '../utils/helpers';
+import { ProcessedUpdatesCrud } from '../crud/processed-updates';
+import { escapeMarkdownV2, timingSafeEqual } from '../utils/helpers';
+import { createVerificationToken, verifyVerificationToken, hashVerificationCode } from '../utils/verification-token';
 import LLMService from '../services/ai-services/deepseek';
 import { AI_CONFIG } from '../utils/ai-config';
 import { GroupServices } from '../services/group-services';
 import { GroupMemberTrackingService } from '../services/group-member-tracking';
 import { ShameService } from '../services/task-follower/shame-service';
 import { handleChatJoinRequest } from '../services/membership-manager/chat-join-request-handler';
+import { JoinRequestApprovalService } from '../services/membership-manager/join-request-approval';
+import { TaskActionService, TaskAction, WAITING_BLOCK_REASON_STATE } from '../services/task-follower/task-action-service';
+import { TaskListService } from '../services/task-follower/task-list-service';
+import { TaskHistoryService } from '../services/task-follower/task-history-service';
+import { PointsService, PERIOD_PATTERN } from '../services/task-follower/points-service';
+import { ExtensionRequestService, WAITING_EXTENSION_DATE_STATE, WAITING_EXTENSION_REASON_STATE } from '../services/task-follower/extension-request-service';
+import { MemberPreferencesService } from '../services/member-preferences';
+import { PreferredLanguage } from '../models/member-preferences';
+import { resolveLanguage, t, tHtml, tText } from '../i18n';
 
 const telegram = new Hono<{ Bindings: Environment }>();
 
@@ -23,9 +36,36 @@ function generateVerificationCode(): string {
   return Math.floor(100000 + Math.random() * 900000).toString();
 }
 
+// Verification messages shared by /verify and the code input handlers
+function verificationLockedMessage(language: PreferredLanguage, minutesLeft: number): string {
+  return t(language, 'verify.locked', { minutes: minutesLeft });
+}
+
+function verificationCooldownMessage(language: PreferredLanguage, secondsLeft: number): string {
+  return t(language, 'verify.cooldown', { seconds: secondsLeft });
+}
+
 telegram.post('/webhook', async (c) => {
+  const processedUpdatesCrud = new ProcessedUpdatesCrud(new D1DatabaseConnection(c.env.DB));
+  let claimedUpdateId: number | undefined;
   try {
+    // Only accept requests carrying the secret token registered with setWebhook
+    const webhookSecret = await new TelegramService(c.env).getWebhookSecret();
+    if (!timingSafeEqual(c.req.header('X-Telegram-Bot-Api-Secret-Token') || '', webhookSecret)) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
     const update: TelegramUpdate = await c.req.json();
+
+    // Skip updates that were already handled, so Telegram retries don't store or send anything twice.
+    // The update is claimed before processing and released if processing fails, so the retry is processed again.
+    const updateType = Object.keys(update).find(key => key !== 'update_id');
+    const isNewUpdate = await processedUpdatesCrud.markProcessed(update.update_id, updateType);
+    if (!isNewUpdate) {
+      console.log(`Skipping already processed update ${update.update_id}`);
+      return c.json({ ok: true });
+    }
+    claimedUpdateId = update.update_id;
     
     // Handle callback queries (button clicks)
     if (update.callback_query) {
@@ -38,6 +78,8 @@ telegram.post('/webhook', async (c) => {
       const telegramService = new TelegramService(c.env);
       const memberSheetServices = new MemberSheetServices(c.env);
       const userStateService = new TelegramUserStateService(c.env);
+      const preferencesService = new MemberPreferencesService(c.env);
+      const language = await preferencesService.getLanguage(telegramId.toString(), callbackQuery.from.language_code);
 
       // Handle "shame_" callback (shame button clicks)
       if (callbackData?.startsWith('shame_')) {
@@ -45,7 +87,7 @@ telegram.post('/webhook', async (c) => {
         const db = new D1DatabaseConnection(c.env.DB);
         const shameService = new ShameService(db, c.env);
 
-        const result = await shameService.handleShameButtonClick(taskId, telegramId.toString());
+        const result = await shameService.handleShameButtonClick(taskId, telegramId.toString(), language);
 
         // Answer the callback query with appropriate message
         await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
@@ -53,7 +95,7 @@ telegram.post('/webhook', async (c) => {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             callback_query_id: callbackQuery.id,
-            text: result.message.replace(/\\/g, ''), // Remove markdown escaping for alert
+            text: result.message,
             show_alert: true
           })
         });
@@ -75,12 +117,12 @@ telegram.post('/webhook', async (c) => {
             await telegramService.editMessage(
               telegramId,
               messageId,
-              `✅ تم التحقق من اشتراكك بنجاح\\!\n\nالآن يرجى إدخال رقم العضوية للتحقق من عضويتك`
+              t(language, 'verify.subscription_confirmed')
             );
           } else {
             await telegramService.sendMessage(
               telegramId,
-              `✅ تم التحقق من اشتراكك بنجاح\\!\n\nالآن يرجى إدخال رقم العضوية للتحقق من عضويتك`
+              t(language, 'verify.subscription_confirmed')
             );
           }
 
@@ -90,7 +132,7 @@ telegram.post('/webhook', async (c) => {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               callback_query_id: callbackQuery.id,
-              text: '✅ تم التحقق من اشتراكك'
+              text: tText(language, 'verify.subscription_confirmed_alert')
             })
           });
         } else {
@@ -100,13 +142,182 @@ telegram.post('/webhook', async (c) => {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               callback_query_id: callbackQuery.id,
-              text: '❌ لم يتم العثور على اشتراك. يرجى الاشتراك في القناة أولاً',
+              text: tText(language, 'verify.subscription_missing_alert'),
               show_alert: true
             })
           });
         }
       }
 
+      // Handle "jr_approve_" / "jr_decline_" callbacks (admin decisions on queued join requests)
+      if (callbackData?.startsWith('jr_approve_') || callbackData?.startsWith('jr_decline_')) {
+        const approve = callbackData.startsWith('jr_approve_');
+        const requestId = callbackData.replace(approve ? 'jr_approve_' : 'jr_decline_', '');
+        const approvalService = new JoinRequestApprovalService(c.env);
+
+        const result = await approvalService.handleDecision(requestId, approve, telegramId, language);
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            callback_query_id: callbackQuery.id,
+            text: result.message,
+            show_alert: !result.success
+          })
+        });
+
+        return c.json({ ok: true });
+      }
+
+      // Handle "task_" callbacks (buttons under task notifications)
+      const taskActionMatch = callbackData?.match(/^task_(done|progress|block|help)_(.+)$/);
+      if (taskActionMatch) {
+        const db = new D1DatabaseConnection(c.env.DB);
+        const taskActionService = new TaskActionService(db, c.env);
+
+        const result = await taskActionService.handleAction(
+          taskActionMatch[1] as TaskAction,
+          taskActionMatch[2],
+          telegramId.toString(),
+          language
+        );
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            callback_query_id: callbackQuery.id,
+            text: result.message,
+            show_alert: !result.success
+          })
+        });
+
+        return c.json({ ok: true });
+      }
+
+      // Handle "task_extend_" callback (owner asks for a later due date)
+      if (callbackData?.startsWith('task_extend_')) {
+        const taskId = callbackData.replace('task_extend_', '');
+        const db = new D1DatabaseConnection(c.env.DB);
+        const extensionRequestService = new ExtensionRequestService(db, c.env);
+
+        const result = await extensionRequestService.startRequest(taskId, telegramId.toString(), language);
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            callback_query_id: callbackQuery.id,
+            text: result.message,
+            show_alert: !result.success
+          })
+        });
+
+        return c.json({ ok: true });
+      }
+
+      // Handle "ext_approve_" / "ext_reject_" callbacks (manager decisions on extension requests)
+      if (callbackData?.startsWith('ext_approve_') || callbackData?.startsWith('ext_reject_')) {
+        const approve = callbackData.startsWith('ext_approve_');
+        const requestId = callbackData.replace(approve ? 'ext_approve_' : 'ext_reject_', '');
+        const db = new D1DatabaseConnection(c.env.DB);
+        const extensionRequestService = new ExtensionRequestService(db, c.env);
+
+        const result = await extensionRequestService.handleDecision(requestId, approve, telegramId.toString(), language);
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            callback_query_id: callbackQuery.id,
+            text: result.message,
+            show_alert: !result.success
+          })
+        });
+
+        return c.json({ ok: true });
+      }
+
+      // Handle "task_history_" callback (history of a task, sent as a new message)
+      if (callbackData?.startsWith('task_history_')) {
+        const taskId = callbackData.replace('task_history_', '');
+        const db = new D1DatabaseConnection(c.env.DB);
+        const taskHistoryService = new TaskHistoryService(db, c.env);
+
+        const history = await taskHistoryService.buildHistoryMessage(taskId, telegramId.toString(), language);
+        if (history.success) {
+          await telegramService.sendMessage(telegramId, history.text);
+        }
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            callback_query_id: callbackQuery.id,
+            text: history.success ? undefined : history.text,
+            show_alert: !history.success
+          })
+        });
+
+        return c.json({ ok: true });
+      }
+
+      // Handle "mytasks_page_" / "team_page_" callbacks (pagination of the task lists)
+      const taskListMatch = callbackData?.match(/^(mytasks|team)_page_(\d+)$/);
+      if (taskListMatch) {
+        const db = new D1DatabaseConnection(c.env.DB);
+        const taskListService = new TaskListService(db, c.env);
+        const page = parseInt(taskListMatch[2]);
+
+        const taskList = taskListMatch[1] === 'mytasks'
+          ? await taskListService.buildMyTasksPage(telegramId.toString(), page, language)
+          : await taskListService.buildTeamPage(telegramId.toString(), page, language);
+
+        if (messageId) {
+          await telegramService.editMessage(telegramId, messageId, taskList.text, undefined, taskList.keyboard);
+        } else {
+          await telegramService.sendMessage(telegramId, taskList.text, undefined, taskList.keyboard);
+        }
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ callback_query_id: callbackQuery.id })
+        });
+
+        return c.json({ ok: true });
+      }
+
+      // Handle "settings_" callbacks (buttons of the /settings message)
+      if (callbackData?.startsWith('settings_')) {
+        const result = await preferencesService.handleSettingsAction(
+          telegramId.toString(),
+          callbackData.replace('settings_', ''),
+          callbackQuery.from.language_code
+        );
+
+        if (result.success && result.text) {
+          if (messageId) {
+            await telegramService.editMessage(telegramId, messageId, result.text, undefined, result.keyboard);
+          } else {
+            await telegramService.sendMessage(telegramId, result.text, undefined, result.keyboard);
+          }
+        }
+
+        await fetch(`https://api.telegram.org/bot${c.env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            callback_query_id: callbackQuery.id,
+            text: result.message,
+            show_alert: !result.success
+          })
+        });
+
+        return c.json({ ok: true });
+      }
+
       // Handle "join_group_" callback (group join requests)
       if (callbackData?.startsWith('join_group_')) {
         const chatId = callbackData.replace('join_group_', '');
@@ -123,7 +334,7 @@ telegram.post('/webhook', async (c) => {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               callback_query_id: callbackQuery.id,
-              text: '❌ المجموعة غير موجودة',
+              text: tText(language, 'groups.not_found_alert'),
               show_alert: true
             })
           });
@@ -140,7 +351,7 @@ telegram.post('/webhook', async (c) => {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               callback_query_id: callbackQuery.id,
-              text: '❌ يجب عليك التحقق من عضويتك أولاً باستخدام /verify',
+              text: tText(language, 'groups.verify_first_alert'),
               show_alert: true
             })
           });
@@ -162,26 +373,12 @@ telegram.post('/webhook', async (c) => {
               await telegramService.editMessage(
                 telegramId,
                 messageId,
-                `✅ *تم إنشاء رابط الانضمام\\!*\n\n` +
-                `المجموعة: *${escapeMarkdownV2(group.title)}*\n\n` +
-                `إليك رابط الانضمام الخاص بك:\n` +
-                `${escapeMarkdownV2(inviteLink)}\n\n` +
-                `⚠️ *ملاحظة مهمة:*\n` +
-                `• هذا الرابط خاص بك فقط\n` +
-                `• يمكن استخدامه مرة واحدة فقط\n` +
-                `• لا تشاركه مع أي شخص آخر`
+                t(language, 'groups.invite_link', { group: group.title, link: inviteLink })
               );
             } else {
               await telegramService.sendMessage(
                 telegramId,
-                `✅ *تم إنشاء رابط الانضمام\\!*\n\n` +
-                `المجموعة: *${escapeMarkdownV2(group.title)}*\n\n` +
-                `إليك رابط الانضمام الخاص بك:\n` +
-                `${escapeMarkdownV2(inviteLink)}\n\n` +
-                `⚠️ *ملاحظة مهمة:*\n` +
-                `• هذا الرابط خاص بك فقط\n` +
-                `• يمكن استخدامه مرة واحدة فقط\n` +
-                `• لا تشاركه مع أي شخص آخر`
+                t(language, 'groups.invite_link', { group: group.title, link: inviteLink })
               );
             }
             
@@ -190,7 +387,7 @@ telegram.post('/webhook', async (c) => {
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
                 callback_query_id: callbackQuery.id,
-                text: '✅ تم إنشاء رابط الانضمام'
+                text: tText(language, 'groups.invite_link_alert')
               })
             });
           } else {
@@ -200,7 +397,7 @@ telegram.post('/webhook', async (c) => {
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
                 callback_query_id: callbackQuery.id,
-                text: '❌ فشل إنشاء رابط الانضمام. يرجى المحاولة لاحقاً',
+                text: tText(language, 'groups.invite_link_failed_alert'),
                 show_alert: true
               })
             });
@@ -212,7 +409,7 @@ telegram.post('/webhook', async (c) => {
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               callback_query_id: callbackQuery.id,
-              text: '❌ حدث خطأ. يرجى المحاولة لاحقاً',
+              text: tText(language, 'common.error_alert'),
               show_alert: true
             })
           });
@@ -228,6 +425,20 @@ telegram.post('/webhook', async (c) => {
     if (update.chat_join_request) {
       return await handleChatJoinRequest(update, c);
     }
+
+    // Handle member status changes (joins by link, kicks, bans, promotions)
+    if (update.chat_member) {
+      const trackingService = new GroupMemberTrackingService(new D1DatabaseConnection(c.env.DB));
+      await trackingService.processChatMemberUpdate(update.chat_member);
+      return c.json({ ok: true });
+    }
+
+    // Handle the bot being added to or removed from a group
+    if (update.my_chat_member) {
+      const trackingService = new GroupMemberTrackingService(new D1DatabaseConnection(c.env.DB));
+      await trackingService.processMyChatMemberUpdate(update.my_chat_member);
+      return c.json({ ok: true });
+    }
     
     if (!update.message) {
       return c.json({ ok: true });
@@ -277,16 +488,34 @@ telegram.post('/webhook', async (c) => {
 
     // Handle group-specific commands
     if (chatType !== 'private') {
+      const groupServices = new GroupServices(c.env);
+
       // Handle /summarize command in groups
-      if (text.startsWith('/summarize')) {
-        const groupServices = new GroupServices(c.env);
+      if (groupServices.isSummarizeCommand(text)) {
         // Pass message_thread_id if present (for forum topics)
         const messageThreadId = message.message_thread_id;
         const commandMessageId = message.message_id;
-        await groupServices.handleSummarizeCommand(message.chat.id, text, messageThreadId, commandMessageId);
+        const language = await new MemberPreferencesService(c.env).getLanguage(telegramId.toString(), message.from.language_code);
+        await groupServices.handleSummarizeCommand(message.chat.id, text, messageThreadId, commandMessageId, language);
         return c.json({ ok: true });
       }
-      
+
+      // Handle admin commands (/register_group, /sync, /approval, /set_description, /list_pending)
+      if (text.startsWith('/')) {
+        if (groupServices.isAdminCommand(text)) {
+          const language = await new MemberPreferencesService(c.env).getLanguage(telegramId.toString(), message.from.language_code);
+          await groupServices.handleAdminCommand(
+            message.chat.id,
+            telegramId,
+            text,
+            message.message_thread_id,
+            message.message_id,
+            language
+          );
+          return c.json({ ok: true });
+        }
+      }
+
       // For other group messages, we just store them and return
       return c.json({ ok: true });
     }
@@ -295,6 +524,8 @@ telegram.post('/webhook', async (c) => {
     const memberSheetServices = new MemberSheetServices(c.env);
     const emailService = new EmailService(c.env);
     const userStateService = new TelegramUserStateService(c.env);
+    const preferencesService = new MemberPreferencesService(c.env);
+    const language = await preferencesService.getLanguage(telegramId.toString(), message.from.language_code);
 
     // Helper function to mask email for privacy
     const maskEmail = (email: string): string => {
@@ -311,7 +542,7 @@ telegram.post('/webhook', async (c) => {
 
     // Handle /start command
     if (text === '/start') {
-      await telegramService.sendWelcomeMessage(telegramId);
+      await telegramService.sendWelcomeMessage(telegramId, language);
       return c.json({ ok: true });
     }
 
@@ -325,11 +556,36 @@ telegram.post('/webhook', async (c) => {
         await userStateService.clearUserState(telegramId.toString());
         await telegramService.sendMessage(
           telegramId,
-          `أنت مسجل بالفعل برقم العضوية ${existingMember.membership_number}\n\nالاسم: ${escapeMarkdownV2(existingMember.latin_name)}\n\nاستخدم /help لعرض الأوامر المتاحة`
+          t(language, 'verify.already_registered', {
+            membership_number: existingMember.membership_number,
+            name: existingMember.latin_name
+          })
+        );
+        return c.json({ ok: true });
+      }
+
+      // Don't start over while locked out, or while a recently sent code is still valid
+      const verificationSessionService = new VerificationSessionService(c.env);
+      const session = await verificationSessionService.getSession(telegramId.toString());
+
+      if (session && verificationSessionService.isLocked(session)) {
+        await userStateService.clearUserState(telegramId.toString());
+        await telegramService.sendMessage(
+          telegramId,
+          verificationLockedMessage(language, verificationSessionService.getLockoutMinutesLeft(session))
         );
         return c.json({ ok: true });
       }
 
+      if (session && !verificationSessionService.isExpired(session)) {
+        const waitSeconds = verificationSessionService.getResendWaitSeconds(session.last_sent_at);
+        if (waitSeconds > 0) {
+          await userStateService.setUserState(telegramId.toString(), 'waiting_verification_code');
+          await telegramService.sendMessage(telegramId, verificationCooldownMessage(language, waitSeconds));
+          return c.json({ ok: true });
+        }
+      }
+
       // Check if user is subscribed to the main channel
       const isSubscribed = await telegramService.checkChannelMembership(telegramId, c.env.MAIN_CHANNEL);
       
@@ -339,13 +595,13 @@ telegram.post('/webhook', async (c) => {
         const subscribeButton: InlineKeyboardButton[][] = [
           [
             {
-              text: '📢 اشترك في القناة',
+              text: tText(language, 'verify.subscribe_button'),
               url: channelLink
             }
           ],
           [
             {
-              text: '✅ تحققت من الاشتراك',
+              text: tText(language, 'verify.subscribed_button'),
               callback_data: 'check_subscription'
             }
           ]
@@ -353,7 +609,7 @@ telegram.post('/webhook', async (c) => {
 
         await telegramService.sendMessage(
           telegramId,
-          `للتحقق من عضويتك، يجب عليك أولاً الاشتراك في قناتنا الرسمية:\n\n${escapeMarkdownV2(channelLink)}\n\nبعد الاشتراك، اضغط على الزر أدناه للمتابعة`,
+          t(language, 'verify.subscribe_first', { link: channelLink }),
           'MarkdownV2',
           subscribeButton
         );
@@ -365,14 +621,14 @@ telegram.post('/webhook', async (c) => {
       await userStateService.setUserState(telegramId.toString(), 'waiting_membership_number');
       await telegramService.sendMessage(
         telegramId,
-        `يرجى إدخال رقم العضوية للتحقق من عضويتك`
+        t(language, 'verify.enter_membership_number')
       );
       return c.json({ ok: true });
     }
 
     // Handle /help command
     if (text === '/help') {
-      await telegramService.sendHelpMessage(telegramId);
+      await telegramService.sendHelpMessage(telegramId, language);
       return c.json({ ok: true });
     }
 
@@ -383,26 +639,57 @@ telegram.post('/webhook', async (c) => {
       if (!existingMember) {
         await telegramService.sendMessage(
           telegramId,
-          'لم يتم العثور على معلومات العضوية\\. يرجى استخدام /verify لتسجيل حسابك'
+          t(language, 'info.not_found')
         );
         return c.json({ ok: true });
       }
 
       // Build membership info message
-      const infoText = `
-*معلومات العضوية* 📋
+      const unavailable = tText(language, 'common.unavailable');
+      const infoText = t(language, 'info.details', {
+        membership_number: existingMember.membership_number,
+        ar_name: existingMember.ar_name || unavailable,
+        latin_name: existingMember.latin_name || unavailable,
+        email: existingMember.email || unavailable,
+        phone: existingMember.phone || unavailable,
+        whatsapp: existingMember.whatsapp || unavailable
+      });
 
-🆔 *رقم العضوية:* ${escapeMarkdownV2(existingMember.membership_number)}
-👤 *الاسم بالعربية:* ${escapeMarkdownV2(existingMember.ar_name || 'غير متوفر')}
-👤 *الاسم اللاتيني:* ${escapeMarkdownV2(existingMember.latin_name || 'غير متوفر')}
-📧 *البريد الإلكتروني:* ${escapeMarkdownV2(existingMember.email || 'غير متوفر')}
-📱 *الهاتف:* ${escapeMarkdownV2(existingMember.phone || 'غير متوفر')}
-💬 *واتساب:* ${escapeMarkdownV2(existingMember.whatsapp || 'غير متوفر')}
+      await telegramService.sendMessage(telegramId, infoText);
+      return c.json({ ok: true });
+    }
 
-_هذه المعلومات مسجلة في نظامنا\\._
-      `.trim();
+    // Handle /mytasks and /team commands - task lists for owners and managers
+    if (text === '/mytasks' || text === '/team') {
+      const db = new D1DatabaseConnection(c.env.DB);
+      const taskListService = new TaskListService(db, c.env);
 
-      await telegramService.sendMessage(telegramId, infoText);
+      const taskList = text === '/mytasks'
+        ? await taskListService.buildMyTasksPage(telegramId.toString(), 0, language)
+        : await taskListService.buildTeamPage(telegramId.toString(), 0, language);
+
+      await telegramService.sendMessage(telegramId, taskList.text, undefined, taskList.keyboard);
+      return c.json({ ok: true });
+    }
+
+    // Handle /leaderboard command - points of this month, or of the month given as /leaderboard YYYY-MM
+    if (text === '/leaderboard' || text.startsWith('/leaderboard ')) {
+      const period = text.split(/\s+/)[1];
+      if (period && !PERIOD_PATTERN.test(period)) {
+        await telegramService.sendMessage(telegramId, t(language, 'leaderboard.invalid_period'));
+        return c.json({ ok: true });
+      }
+
+      const db = new D1DatabaseConnection(c.env.DB);
+      const pointsService = new PointsService(db, c.env);
+      await telegramService.sendMessage(telegramId, await pointsService.buildLeaderboardMessage(telegramId.toString(), period, language));
+      return c.json({ ok: true });
+    }
+
+    // Handle /settings command - notifications the member gets, language and quiet hours
+    if (text === '/settings') {
+      const settings = await preferencesService.buildSettingsMessage(telegramId.toString(), message.from.language_code);
+      await telegramService.sendMessage(telegramId, settings.text, undefined, settings.keyboard);
       return c.json({ ok: true });
     }
 
@@ -419,14 +706,13 @@ _هذه المعلومات مسجلة في نظامنا\\._
       if (publicGroups.length === 0) {
         await telegramService.sendMessage(
           telegramId,
-          'لا توجد مجموعات متاحة حالياً\\. يرجى المحاولة لاحقاً\\.'
+          t(language, 'groups.none')
         );
         return c.json({ ok: true });
       }
 
       // Build groups list with inline keyboard
-      let groupsText = '*المجموعات المتاحة* 🏢\n\n';
-      groupsText += 'يمكنك طلب الانضمام إلى أي من المجموعات التالية:\n\n';
+      let groupsText = `${t(language, 'groups.header')}\n\n`;
       
       const buttons: InlineKeyboardButton[][] = [];
       
@@ -442,13 +728,13 @@ _هذه المعلومات مسجلة في نظامنا\\._
         
         // Add group info to message
         const groupNumber = publicGroups.indexOf(group) + 1;
-        groupsText += `*${groupNumber}\\. ${escapeMarkdownV2(group.title)}*\n`;
+        groupsText += `${t(language, 'groups.item', { number: groupNumber, title: group.title })}\n`;
         
         if (group.description) {
           groupsText += `   ${escapeMarkdownV2(group.description)}\n`;
         }
         
-        groupsText += `   👥 ${liveMemberCount} عضو\n`;
+        groupsText += `   ${t(language, 'groups.members', { count: liveMemberCount })}\n`;
         
         groupsText += '\n';
         
@@ -456,7 +742,7 @@ _هذه المعلومات مسجلة في نظامنا\\._
         // We'll use callback_data to handle the join request
         buttons.push([
           {
-            text: `انضم إلى ${group.title}`,
+            text: tText(language, 'groups.join_button', { title: group.title }),
             callback_data: `join_group_${group.chat_id}`
           }
         ]);
@@ -475,6 +761,25 @@ _هذه المعلومات مسجلة في نظامنا\\._
     // Get user's current state
     const currentState = await userStateService.getUserStateValue(telegramId.toString());
 
+    // A code typed after the state timed out still gets a clear answer instead of going to the AI
+    if (currentState === 'normal' && /^\d{6}$/.test(text.trim())) {
+      const verificationSessionService = new VerificationSessionService(c.env);
+      const pendingSession = await verificationSessionService.getSession(telegramId.toString());
+      if (pendingSession) {
+        await handleVerificationCodeInput(
+          text.trim(),
+          telegramId,
+          username,
+          memberSheetServices,
+          telegramService,
+          userStateService,
+          c.env,
+          language
+        );
+        return c.json({ ok: true });
+      }
+    }
+
     // Handle based on current state
     switch (currentState) {
       case 'waiting_membership_number':
@@ -488,7 +793,8 @@ _هذه المعلومات مسجلة في نظامنا\\._
           telegramService,
           userStateService,
           maskEmail,
-          c.env
+          c.env,
+          language
         );
         break;
 
@@ -501,10 +807,42 @@ _هذه المعلومات مسجلة في نظامنا\\._
           memberSheetServices,
           telegramService,
           userStateService,
-          c.env
+          c.env,
+          language
         );
         break;
 
+      case WAITING_BLOCK_REASON_STATE: {
+        // Reason for a task the owner marked as blocked, an unknown command cancels it
+        if (text.startsWith('/')) {
+          await userStateService.clearUserState(telegramId.toString());
+          await telegramService.sendHelpMessage(telegramId, language);
+          break;
+        }
+        const db = new D1DatabaseConnection(c.env.DB);
+        const taskActionService = new TaskActionService(db, c.env);
+        const reply = await taskActionService.handleBlockReason(telegramId.toString(), text.trim(), language);
+        await telegramService.sendMessage(telegramId, reply);
+        break;
+      }
+
+      case WAITING_EXTENSION_DATE_STATE:
+      case WAITING_EXTENSION_REASON_STATE: {
+        // New due date and reason of an extension request, an unknown command cancels it
+        if (text.startsWith('/')) {
+          await userStateService.clearUserState(telegramId.toString());
+          await telegramService.sendHelpMessage(telegramId, language);
+          break;
+        }
+        const db = new D1DatabaseConnection(c.env.DB);
+        const extensionRequestService = new ExtensionRequestService(db, c.env);
+        const reply = currentState === WAITING_EXTENSION_DATE_STATE
+          ? await extensionRequestService.handleDateInput(telegramId.toString(), text.trim(), language)
+          : await extensionRequestService.handleReasonInput(telegramId.toString(), text.trim(), language);
+        await telegramService.sendMessage(telegramId, reply);
+        break;
+      }
+
       case 'normal':
       default:
         // Normal state - handle with AI for non-command messages
@@ -513,7 +851,7 @@ _هذه المعلومات مسجلة في نظامنا\\._
             // Send "Thinking..."
             const thinkingMessageId = await telegramService.sendMessage(
               telegramId, 
-              '_جارٍ التفكير\\.\\.\\._'
+              t(language, 'ai.thinking')
             );
 
             // Get today's conversation history for this user
@@ -612,11 +950,11 @@ _هذه المعلومات مسجلة في نظامنا\\._
           } catch (aiError) {
             console.error('AI error:', aiError);
             // Fallback to help message if AI fails
-            await telegramService.sendHelpMessage(telegramId);
+            await telegramService.sendHelpMessage(telegramId, language);
           }
         } else {
           // For unknown commands, show help menu
-          await telegramService.sendHelpMessage(telegramId);
+          await telegramService.sendHelpMessage(telegramId, language);
         }
         break;
     }
@@ -624,6 +962,9 @@ _هذه المعلومات مسجلة في نظامنا\\._
     return c.json({ ok: true });
   } catch (error) {
     console.error('Webhook error:', error);
+    if (claimedUpdateId !== undefined) {
+      await processedUpdatesCrud.unmarkProcessed(claimedUpdateId);
+    }
     return c.json({ error: 'Internal server error' }, 500);
   }
 });
@@ -638,7 +979,8 @@ async function handleMembershipNumberInput(
   telegramService: TelegramService,
   userStateService: TelegramUserStateService,
   maskEmail: (email: string) => string,
-  env: Environment
+  env: Environment,
+  language: PreferredLanguage
 ) {
   // Check if member exists in Google Sheets
   const member = await memberSheetServices.getMemberByMembershipNumber(membershipNumber);
@@ -646,7 +988,7 @@ async function handleMembershipNumberInput(
   if (!member) {
     await telegramService.sendMessage(
       telegramId,
-      'رقم العضوية غير موجود في قاعدة البيانات\\. يرجى التحقق من رقم عضويتك والمحاولة مرة أخرى\\، أو الاتصال بالدعم\\.\n\nاستخدم /help للأوامر المتاحة'
+      t(language, 'verify.membership_not_found')
     );
     // Clear state so user can try again or use other commands
     await userStateService.clearUserState(telegramId.toString());
@@ -657,7 +999,7 @@ async function handleMembershipNumberInput(
   if (!member.email) {
     await telegramService.sendMessage(
       telegramId,
-      'لم يتم العثور على عنوان بريد إلكتروني لهذه العضوية\\. يرجى الاتصال بالدعم لتحديث عنوان بريدك الإلكتروني'
+      t(language, 'verify.no_email')
     );
     await userStateService.clearUserState(telegramId.toString());
     return;
@@ -668,7 +1010,7 @@ async function handleMembershipNumberInput(
   if (existingMember) {
     await telegramService.sendMessage(
       telegramId,
-      'حساب تيليجرام هذا مسجل بالفعل\\. يرجى الاتصال بالمسؤول إذا كنت بحاجة إلى مساعدة'
+      t(language, 'verify.telegram_registered')
     );
     await userStateService.clearUserState(telegramId.toString());
     return;
@@ -678,32 +1020,84 @@ async function handleMembershipNumberInput(
   if (member.telegram_id && member.telegram_id !== telegramId.toString()) {
     await telegramService.sendMessage(
       telegramId,
-      'رقم العضوية هذا مسجل بالفعل مع حساب تيليجرام آخر\\. إذا كنت تعتقد أن هذا خطأ\\، يرجى الاتصال بالدعم للحصول على المساعدة'
+      t(language, 'verify.membership_linked_elsewhere')
     );
     await userStateService.clearUserState(telegramId.toString());
     return;
   }
 
-  // Generate 6-digit verification code
+  const verificationSessionService = new VerificationSessionService(env);
+  const session = await verificationSessionService.getSession(telegramId.toString());
+
+  // Check if the user is locked out after too many wrong codes
+  if (session && verificationSessionService.isLocked(session)) {
+    await telegramService.sendMessage(
+      telegramId,
+      verificationLockedMessage(language, verificationSessionService.getLockoutMinutesLeft(session))
+    );
+    await userStateService.clearUserState(telegramId.toString());
+    return;
+  }
+
+  // Don't send another email while the cooldown is running, for this user or for this membership number
+  const lastSentForMembership = await verificationSessionService.getLastSentForMembership(member.membership_number);
+  const waitSeconds = Math.max(
+    verificationSessionService.getResendWaitSeconds(session?.last_sent_at || null),
+    verificationSessionService.getResendWaitSeconds(lastSentForMembership)
+  );
+
+  if (waitSeconds > 0) {
+    if (session && session.membership_number === member.membership_number && !verificationSessionService.isExpired(session)) {
+      // The code already sent to this user is still valid
+      await userStateService.setUserState(telegramId.toString(), 'waiting_verification_code');
+      await telegramService.sendMessage(telegramId, verificationCooldownMessage(language, waitSeconds));
+    } else {
+      await userStateService.clearUserState(telegramId.toString());
+      await telegramService.sendMessage(
+        telegramId,
+        t(language, 'verify.membership_cooldown', { seconds: waitSeconds })
+      );
+    }
+    return;
+  }
+
+  // Generate 6-digit verification code and keep only its hash
   const verificationCode = generateVerificationCode();
-  
-  // Store verification code and membership number in user state notes
-  // Format: code|membership_number|username
-  const stateData = `${verificationCode}|${member.membership_number}|${username || ''}`;
-  await userStateService.setUserState(telegramId.toString(), 'waiting_verification_code', stateData);
+  const codeHash = await hashVerificationCode(env.SECRET_KEY, telegramId.toString(), verificationCode);
+  await verificationSessionService.startSession(telegramId.toString(), member.membership_number, username || '', codeHash);
+  await userStateService.setUserState(telegramId.toString(), 'waiting_verification_code');
 
-  // Create verification link with query parameters
-  const verificationLink = `${env.BASE_URL}/telegram/verify?membership_number=${encodeURIComponent(member.membership_number)}&telegram_id=${telegramId}&telegram_username=${encodeURIComponent(username || '')}`;
+  // Create a signed, single-use verification link bound to this membership number and Telegram ID
+  const { token, payload } = await createVerificationToken(env.SECRET_KEY, {
+    membership_number: member.membership_number,
+    telegram_id: telegramId.toString(),
+    telegram_username: username || ''
+  });
+  const verificationTokenService = new VerificationTokenService(env);
+  await verificationTokenService.recordToken(payload.jti, payload.membership_number, payload.telegram_id, new Date(payload.exp * 1000));
+  const verificationLink = `${env.BASE_URL}/telegram/verify?token=${encodeURIComponent(token)}`;
 
   // Send verification email with code
-  await emailService.sendVerificationEmail(member.email, verificationLink, verificationCode);
+  try {
+    await emailService.sendVerificationEmail(member.email, verificationLink, verificationCode);
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    // Drop the session so the cooldown doesn't block a retry for an email that was never sent
+    await verificationSessionService.deleteSession(telegramId.toString());
+    await userStateService.clearUserState(telegramId.toString());
+    await telegramService.sendMessage(
+      telegramId,
+      t(language, 'verify.email_failed')
+    );
+    return;
+  }
   
   // Show masked email to user
   const maskedEmail = maskEmail(member.email);
   
   await telegramService.sendMessage(
     telegramId,
-    `تم إرسال بريد التحقق إلى ${escapeMarkdownV2(maskedEmail)}\n\nيمكنك:\n1\\. إدخال الرمز المكون من 6 أرقام من البريد الإلكتروني هنا في المحادثة\n2\\. النقر على رابط التحقق في البريد الإلكتروني\n\nسينتهي صلاحية الرمز خلال 10 دقائق`
+    t(language, 'verify.email_sent', { email: maskedEmail })
   );
 }
 
@@ -715,28 +1109,56 @@ async function handleVerificationCodeInput(
   memberSheetServices: MemberSheetServices,
   telegramService: TelegramService,
   userStateService: TelegramUserStateService,
-  env: Environment
+  env: Environment,
+  language: PreferredLanguage
 ) {
-  // Get the stored verification data from notes
-  const stateNotes = await userStateService.getUserStateNotes(telegramId.toString());
+  // Get the pending verification session
+  const verificationSessionService = new VerificationSessionService(env);
+  const session = await verificationSessionService.getSession(telegramId.toString());
+
+  // Check if the user is locked out after too many wrong codes
+  if (session && verificationSessionService.isLocked(session)) {
+    await telegramService.sendMessage(
+      telegramId,
+      verificationLockedMessage(language, verificationSessionService.getLockoutMinutesLeft(session))
+    );
+    await userStateService.clearUserState(telegramId.toString());
+    return;
+  }
   
-  if (!stateNotes) {
+  if (!session || verificationSessionService.isExpired(session)) {
+    if (session) {
+      await verificationSessionService.deleteSession(telegramId.toString());
+    }
     await telegramService.sendMessage(
       telegramId,
-      'انتهت صلاحية جلسة التحقق أو لم يتم العثور عليها\\. يرجى استخدام /verify للبدء من جديد'
+      t(language, 'verify.code_expired')
     );
     await userStateService.clearUserState(telegramId.toString());
     return;
   }
 
-  // Parse stored data: code|membership_number|username
-  const [storedCode, membershipNumber, storedUsername] = stateNotes.split('|');
+  const membershipNumber = session.membership_number;
+  const storedUsername = session.telegram_username;
   
   // Validate code
-  if (code !== storedCode) {
+  const codeHash = await hashVerificationCode(env.SECRET_KEY, telegramId.toString(), code);
+  if (codeHash !== session.code_hash) {
+    const updatedSession = await verificationSessionService.recordFailedAttempt(telegramId.toString());
+
+    if (updatedSession && verificationSessionService.isLocked(updatedSession)) {
+      await telegramService.sendMessage(
+        telegramId,
+        verificationLockedMessage(language, verificationSessionService.getLockoutMinutesLeft(updatedSession))
+      );
+      await userStateService.clearUserState(telegramId.toString());
+      return;
+    }
+
+    const attemptsLeft = VERIFICATION_MAX_ATTEMPTS - (updatedSession?.attempts ?? session.attempts + 1);
     await telegramService.sendMessage(
       telegramId,
-      'رمز التحقق غير صحيح\\. يرجى التحقق والمحاولة مرة أخرى\\، أو استخدام الرابط من بريدك الإلكتروني\n\nاستخدم /verify لطلب رمز جديد'
+      t(language, 'verify.code_wrong', { attempts: attemptsLeft })
     );
     // Don't clear state - let user try again or wait for timeout
     return;
@@ -748,7 +1170,7 @@ async function handleVerificationCodeInput(
   if (!member) {
     await telegramService.sendMessage(
       telegramId,
-      'لم يتم العثور على العضو\\. يرجى الاتصال بالدعم'
+      t(language, 'verify.member_missing')
     );
     await userStateService.clearUserState(telegramId.toString());
     return;
@@ -759,7 +1181,7 @@ async function handleVerificationCodeInput(
   if (existingMember) {
     await telegramService.sendMessage(
       telegramId,
-      'حساب تيليجرام هذا مسجل بالفعل\\. يرجى الاتصال بالمسؤول'
+      t(language, 'verify.telegram_registered_short')
     );
     await userStateService.clearUserState(telegramId.toString());
     return;
@@ -775,21 +1197,45 @@ async function handleVerificationCodeInput(
   // Clear user state since they're now registered
   await userStateService.clearUserState(telegramId.toString());
 
+  // The code and the emailed link must not be usable after verifying
+  await verificationSessionService.deleteSession(telegramId.toString());
+  const verificationTokenService = new VerificationTokenService(env);
+  await verificationTokenService.revokeTokensForTelegramId(telegramId.toString());
+
   // Send confirmation message
   await telegramService.sendMessage(
     telegramId,
-    `✅ تم التحقق بنجاح\\!\n\nأنت الآن مسجل لتلقي الرسائل من منظمتنا\\.\n\nعضويتك: ${escapeMarkdownV2(member.latin_name)} \\- ${escapeMarkdownV2(membershipNumber)}\n\nاستخدم /help لعرض الأوامر المتاحة`
+    t(language, 'verify.success', { name: member.latin_name, membership_number: membershipNumber })
   );
 }
 
 telegram.get('/verify', async (c) => {
+  // Language of the browser until the token tells who the member is
+  let language = resolveLanguage(null, c.req.header('Accept-Language'));
   try {
-    const membershipNumber = c.req.query('membership_number');
-    const telegramId = c.req.query('telegram_id');
-    const telegramUsername = c.req.query('telegram_username') || '';
+    const token = c.req.query('token');
     
-    if (!membershipNumber || !telegramId) {
-      return c.html('<h1>رابط تحقق غير صالح</h1><p>المعاملات المطلوبة مفقودة.</p>');
+    if (!token) {
+      return c.html(tHtml(language, 'web.missing_parameters'), 400);
+    }
+
+    // Check the signature and expiry before trusting anything in the token
+    const verification = await verifyVerificationToken(c.env.SECRET_KEY, token);
+    if (!verification.valid) {
+      if (verification.reason === 'expired') {
+        return c.html(tHtml(language, 'web.link_expired'), 410);
+      }
+      return c.html(tHtml(language, 'web.link_invalid'), 400);
+    }
+
+    const { jti, membership_number: membershipNumber, telegram_id: telegramId, telegram_username: telegramUsername } = verification.payload;
+    language = await new MemberPreferencesService(c.env).getLanguage(telegramId, c.req.header('Accept-Language'));
+
+    // Each link can only be used once, it is consumed only when the account gets linked
+    // so a check failing below doesn't cost the member the link
+    const verificationTokenService = new VerificationTokenService(c.env);
+    if (!await verificationTokenService.isTokenUsable(jti)) {
+      return c.html(tHtml(language, 'web.link_used'), 410);
     }
 
     const memberSheetServices = new MemberSheetServices(c.env);
@@ -799,40 +1245,51 @@ telegram.get('/verify', async (c) => {
     // Check if the membership number exists
     const member = await memberSheetServices.getMemberByMembershipNumber(membershipNumber);
     if (!member) {
-      return c.html('<h1>فشل التحقق</h1><p>لم يتم العثور على العضو. يرجى الاتصال بالدعم.</p>');
+      return c.html(tHtml(language, 'web.member_missing'));
+    }
+
+    // Check if this membership number was linked to another Telegram account since the link was sent
+    if (member.telegram_id && member.telegram_id !== telegramId) {
+      return c.html(tHtml(language, 'web.membership_linked_elsewhere'));
     }
 
     // Check if this telegram_id is already registered to any user
     const existingMember = await memberSheetServices.getMemberByTelegramId(telegramId);
     if (existingMember) {
-      return c.html('<h1>المستخدم موجود بالفعل</h1><p>حساب تيليجرام هذا مسجل بالفعل. يرجى الاتصال بالمسؤول.</p>');
+      return c.html(tHtml(language, 'web.telegram_registered'));
+    }
+
+    // Consume the link, another request may have used it since the check above
+    if (!await verificationTokenService.consumeToken(jti)) {
+      return c.html(tHtml(language, 'web.link_used'), 410);
     }
 
     // Update member with Telegram information
-    await memberSheetServices.updateMember({
-      membership_number: membershipNumber,
-      telegram_id: telegramId,
-      telegram_username: telegramUsername
-    });
+    try {
+      await memberSheetServices.updateMember({
+        membership_number: membershipNumber,
+        telegram_id: telegramId,
+        telegram_username: telegramUsername
+      });
+    } catch (error) {
+      await verificationTokenService.releaseToken(jti);
+      throw error;
+    }
 
-    // Clear any existing user state since they're now registered
+    // Clear any existing user state and pending code since they're now registered
     await userStateService.clearUserState(telegramId);
+    await new VerificationSessionService(c.env).deleteSession(telegramId);
 
     // Send confirmation message
     await telegramService.sendMessage(
       parseInt(telegramId),
-      `تم التحقق بنجاح\\. أنت الآن مسجل لتلقي الرسائل من منظمتنا\\.\n\nعضويتك: ${escapeMarkdownV2(member.latin_name)} \\، ${escapeMarkdownV2(membershipNumber)}\n\nاستخدم /help لعرض الأوامر المتاحة`
+      t(language, 'verify.link_success', { name: member.latin_name, membership_number: membershipNumber })
     );
 
-    return c.html(`
-      <h1>تم التحقق بنجاح!</h1>
-      <p>مرحباً ${member.latin_name}،</p>
-      <p>تم ربط حساب تيليجرام الخاص بك بعضويتك (${membershipNumber}) بنجاح.</p>
-      <p>يمكنك الآن إغلاق هذه النافذة والعودة إلى تيليجرام.</p>
-    `);
+    return c.html(tHtml(language, 'web.success', { name: member.latin_name, membership_number: membershipNumber }));
   } catch (error) {
     console.error('Verification error:', error);
-    return c.html('<h1>فشل التحقق</h1><p>حدث خطأ أثناء التحقق. يرجى المحاولة مرة أخرى أو الاتصال بالدعم.</p>');
+    return c.html(tHtml(language, 'web.error'));
   }
 });
 
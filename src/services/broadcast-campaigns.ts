@@ -0,0 +1,363 @@
+import { Environment } from '../types';
+import { Member } from '../types/membership-manager';
+import { D1DatabaseConnection } from '../crud/database';
+import { BroadcastCampaignsCrud } from '../crud/broadcast-campaigns';
+import { BroadcastRecipientsCrud } from '../crud/broadcast-recipients';
+import { GroupMembersCrud } from '../crud/group-members';
+import { TaskCrud } from '../crud/task-follower/task';
+import {
+  BroadcastCampaign,
+  BroadcastCampaignModel,
+  CampaignReport,
+  CampaignSegment,
+  CAMPAIGN_SEGMENT_TYPES
+} from '../models/broadcast-campaigns';
+import { MemberSheetServices } from './membership-manager/member-sheet-services';
+import { sendMessageToMember } from './membership-manager/member-services';
+
+// Member sheet fields a field segment can match on
+export const CAMPAIGN_SEGMENT_FIELDS = ['sex', 'email', 'phone', 'whatsapp', 'ar_name', 'latin_name', 'telegram_username', 'membership_number'] as const;
+// Recipients sent to per run, the cron carries on with the rest
+const CAMPAIGN_BATCH_SIZE = 50;
+// Recipients claimed longer ago belong to a batch that never finished and are claimed again
+const CAMPAIGN_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+// Group member statuses that are still in the group
+const ACTIVE_GROUP_MEMBER_STATUSES = ['member', 'administrator', 'creator', 'restricted'];
+
+type CampaignBox = { text: string; link: string };
+
+export interface CampaignRecipient {
+  member_id: string;
+  telegram_id: string | null;
+  name: string;
+}
+
+/**
+ * Broadcast campaigns: a message to a segment of the members, sent now or at a scheduled time
+ * Every recipient is stored when the campaign starts, so the sending can go on over several runs
+ * and the result of each message is kept for the delivery report
+ */
+export class BroadcastCampaignService {
+  private env: Environment;
+  private campaignsCrud: BroadcastCampaignsCrud;
+  private recipientsCrud: BroadcastRecipientsCrud;
+  private groupMembersCrud: GroupMembersCrud;
+  private taskCrud: TaskCrud;
+  private memberSheetServices: MemberSheetServices;
+
+  constructor(env: Environment) {
+    this.env = env;
+    const db = new D1DatabaseConnection(env.DB);
+    this.campaignsCrud = new BroadcastCampaignsCrud(db);
+    this.recipientsCrud = new BroadcastRecipientsCrud(db);
+    this.groupMembersCrud = new GroupMembersCrud(db);
+    this.taskCrud = new TaskCrud(db);
+    this.memberSheetServices = new MemberSheetServices(env);
+  }
+
+  /**
+   * Check a campaign sent to the API
+   * @param body The request body, merged over the stored campaign when updating one
+   */
+  validateCampaign(body: Record<string, any>): { campaign?: BroadcastCampaignModel; error?: string } {
+    const { title, message, photo, boxes, segment, author_member_id, scheduled_at } = body;
+
+    if (!title || typeof title !== 'string') {
+      return { error: 'title is required' };
+    }
+    if (!message || typeof message !== 'string') {
+      return { error: 'message is required' };
+    }
+    if (!author_member_id || typeof author_member_id !== 'string') {
+      return { error: 'author_member_id is required (membership number of the author, who receives the test sends)' };
+    }
+    if (photo != null && typeof photo !== 'string') {
+      return { error: 'photo must be a URL or a Telegram file_id' };
+    }
+    if (boxes != null && (!Array.isArray(boxes) || !boxes.every(box => box && typeof box.text === 'string' && typeof box.link === 'string'))) {
+      return { error: 'Invalid boxes format. Each box must have text and link properties' };
+    }
+
+    const segmentError = this.validateSegment(segment);
+    if (segmentError) {
+      return { error: segmentError };
+    }
+
+    if (scheduled_at != null && (typeof scheduled_at !== 'string' || isNaN(Date.parse(scheduled_at)))) {
+      return { error: 'scheduled_at must be an ISO date and time' };
+    }
+
+    return {
+      campaign: {
+        title,
+        message,
+        photo: photo || null,
+        boxes: JSON.stringify(boxes || []),
+        segment_type: segment.type,
+        segment_field: segment.field || null,
+        segment_value: segment.value != null ? String(segment.value) : null,
+        author_member_id,
+        scheduled_at: scheduled_at ? new Date(scheduled_at).toISOString() : null
+      }
+    };
+  }
+
+  private validateSegment(segment: CampaignSegment | undefined): string | undefined {
+    if (!segment || !CAMPAIGN_SEGMENT_TYPES.includes(segment.type)) {
+      return `segment.type must be one of: ${CAMPAIGN_SEGMENT_TYPES.join(', ')}`;
+    }
+    if (segment.type === 'group' && !segment.value) {
+      return 'segment.value must be the chat ID of the group';
+    }
+    if (segment.type === 'project' && !segment.value) {
+      return 'segment.value must be the project name';
+    }
+    if (segment.type === 'field') {
+      if (!segment.field || !(CAMPAIGN_SEGMENT_FIELDS as readonly string[]).includes(segment.field)) {
+        return `segment.field must be one of: ${CAMPAIGN_SEGMENT_FIELDS.join(', ')}`;
+      }
+      if (segment.value == null || segment.value === '') {
+        return 'segment.value must be the value of the member sheet field';
+      }
+    }
+    return undefined;
+  }
+
+  getSegment(campaign: BroadcastCampaign): CampaignSegment {
+    return { type: campaign.segment_type, field: campaign.segment_field, value: campaign.segment_value };
+  }
+
+  /**
+   * The members a segment currently matches
+   * Group members and project owners that aren't in the member sheet are left out
+   */
+  async resolveRecipients(segment: CampaignSegment): Promise<CampaignRecipient[]> {
+    const members = await this.memberSheetServices.getMembers();
+    let matched: Member[] = [];
+
+    switch (segment.type) {
+      case 'verified':
+        matched = members.filter(member => member.telegram_id);
+        break;
+      case 'group': {
+        const groupMembers = await this.groupMembersCrud.getMembersByChat(String(segment.value));
+        const userIds = new Set(groupMembers
+          .filter(groupMember => ACTIVE_GROUP_MEMBER_STATUSES.includes(groupMember.status))
+          .map(groupMember => String(groupMember.user_id)));
+        matched = members.filter(member => member.telegram_id && userIds.has(String(member.telegram_id)));
+        break;
+      }
+      case 'project': {
+        const tasks = await this.taskCrud.getByProjectName(String(segment.value));
+        const ownerIds = new Set(tasks.map(task => task.ownerID).filter(Boolean));
+        matched = members.filter(member => ownerIds.has(member.membership_number));
+        break;
+      }
+      case 'field': {
+        const expected = String(segment.value).trim().toLowerCase();
+        matched = members.filter(member => String(member[segment.field as keyof Member] || '').trim().toLowerCase() === expected);
+        break;
+      }
+    }
+
+    const recipients = new Map<string, CampaignRecipient>();
+    for (const member of matched) {
+      if (member.membership_number && !recipients.has(member.membership_number)) {
+        recipients.set(member.membership_number, {
+          member_id: member.membership_number,
+          telegram_id: member.telegram_id ? String(member.telegram_id) : null,
+          name: member.latin_name || member.ar_name || member.membership_number
+        });
+      }
+    }
+    return [...recipients.values()];
+  }
+
+  /**
+   * Who the campaign would go to if it started now
+   */
+  async previewCampaign(campaign: BroadcastCampaign): Promise<{
+    recipients: number;
+    with_telegram: number;
+    without_telegram: number;
+    sample: string[];
+  }> {
+    const recipients = await this.resolveRecipients(this.getSegment(campaign));
+    const withTelegram = recipients.filter(recipient => recipient.telegram_id).length;
+
+    return {
+      recipients: recipients.length,
+      with_telegram: withTelegram,
+      without_telegram: recipients.length - withTelegram,
+      sample: recipients.slice(0, 10).map(recipient => recipient.name)
+    };
+  }
+
+  /**
+   * Send the campaign message to its author only
+   */
+  async sendTest(campaign: BroadcastCampaign) {
+    return await sendMessageToMember(
+      this.env,
+      campaign.author_member_id,
+      campaign.message,
+      this.parseBoxes(campaign),
+      campaign.photo || undefined
+    );
+  }
+
+  /**
+   * Store the recipients of a draft or scheduled campaign and mark it as sending
+   * Recipients are stored first so a batch never finds a sending campaign without them
+   * @returns Whether the campaign was started by this call, and its number of recipients
+   */
+  async startCampaign(campaign: BroadcastCampaign): Promise<{ success: boolean; recipients: number; error?: string }> {
+    const notStartable = { success: false, recipients: 0, error: `Campaign is ${campaign.status}, only draft and scheduled campaigns can be sent` };
+    if (campaign.status !== 'draft' && campaign.status !== 'scheduled') {
+      return notStartable;
+    }
+
+    const recipients = await this.resolveRecipients(this.getSegment(campaign));
+    const added = await this.recipientsCrud.addRecipients(campaign.id, recipients);
+
+    const started = await this.campaignsCrud.updateStatus(campaign.id, ['draft', 'scheduled'], 'sending', {
+      started_at: new Date().toISOString()
+    });
+    if (!started) {
+      return notStartable;
+    }
+    console.log(`Started campaign ${campaign.id} (${campaign.title}) for ${added} recipients`);
+
+    return { success: true, recipients: added };
+  }
+
+  /**
+   * Send the campaign to its next pending recipients
+   * Recipients are claimed before sending so overlapping batches never message a member twice
+   * The campaign is marked as sent once no recipient is left
+   */
+  async sendBatch(campaignId: string, limit: number = CAMPAIGN_BATCH_SIZE): Promise<{ sent: number; failed: number; remaining: boolean }> {
+    const counts = { sent: 0, failed: 0, remaining: false };
+
+    const campaign = await this.campaignsCrud.getById(campaignId);
+    if (!campaign || campaign.status !== 'sending') {
+      return counts;
+    }
+
+    const staleBefore = new Date(Date.now() - CAMPAIGN_CLAIM_TIMEOUT_MS).toISOString();
+    const recipients = await this.recipientsCrud.claimPendingRecipients(campaignId, limit, staleBefore);
+    if (recipients.length > 0) {
+      const boxes = this.parseBoxes(campaign);
+      const members = new Map((await this.memberSheetServices.getMembers()).map(member => [member.membership_number, member]));
+
+      for (const recipient of recipients) {
+        try {
+          const result = await sendMessageToMember(
+            this.env,
+            recipient.member_id,
+            campaign.message,
+            boxes,
+            campaign.photo || undefined,
+            members.get(recipient.member_id),
+            undefined,
+            { category: 'broadcast', referenceId: campaignId, preference: 'broadcasts' }
+          );
+
+          if (result.success) {
+            await this.recipientsCrud.recordResult(recipient.id, result.queued ? 'queued' : 'sent');
+            counts.sent++;
+          } else {
+            await this.recipientsCrud.recordResult(recipient.id, 'failed', result.errorCode || 'UNKNOWN_ERROR', result.error);
+            counts.failed++;
+          }
+        } catch (error) {
+          console.error(`Error sending campaign ${campaignId} to ${recipient.member_id}:`, error);
+          await this.recipientsCrud.recordResult(recipient.id, 'failed', 'UNKNOWN_ERROR', error instanceof Error ? error.message : 'Unknown error');
+          counts.failed++;
+        }
+      }
+    }
+
+    counts.remaining = await this.recipientsCrud.hasUnsentRecipients(campaignId);
+    if (!counts.remaining) {
+      await this.campaignsCrud.updateStatus(campaignId, ['sending'], 'sent', { completed_at: new Date().toISOString() });
+    }
+
+    return counts;
+  }
+
+  /**
+   * Start the scheduled campaigns that are due and send the next batch of every campaign being sent
+   */
+  async processCampaigns(): Promise<{ started: number; sent: number; failed: number }> {
+    const result = { started: 0, sent: 0, failed: 0 };
+
+    for (const campaign of await this.campaignsCrud.getCampaignsToSend()) {
+      if (campaign.status === 'scheduled') {
+        const start = await this.startCampaign(campaign);
+        if (!start.success) continue;
+        result.started++;
+      }
+
+      const batch = await this.sendBatch(campaign.id);
+      result.sent += batch.sent;
+      result.failed += batch.failed;
+    }
+
+    return result;
+  }
+
+  /**
+   * Delivery counts of a campaign
+   * Messages still in the outbox count as pending until the outbox delivers or gives up on them
+   */
+  async getReport(campaignId: string): Promise<CampaignReport> {
+    const report: CampaignReport = { total: 0, pending: 0, delivered: 0, blocked: 0, not_started: 0, opted_out: 0, failed: 0, errors: {} };
+
+    for (const delivery of await this.recipientsCrud.getDeliveries(campaignId)) {
+      report.total++;
+
+      let status: string = delivery.status;
+      let errorCode = delivery.error_code;
+      if (delivery.status === 'queued') {
+        status = delivery.outbox_status || 'pending';
+        errorCode = delivery.outbox_error_code;
+      }
+
+      if (status === 'sent') {
+        report.delivered++;
+      } else if (status === 'pending' || status === 'sending') {
+        report.pending++;
+      } else {
+        const code = errorCode || 'UNKNOWN_ERROR';
+        report.errors[code] = (report.errors[code] || 0) + 1;
+        if (code === 'BOT_BLOCKED') {
+          report.blocked++;
+        } else if (code === 'NOT_STARTED' || code === 'NO_TELEGRAM_ID') {
+          report.not_started++;
+        } else if (code === 'OPTED_OUT') {
+          report.opted_out++;
+        } else {
+          report.failed++;
+        }
+      }
+    }
+
+    return report;
+  }
+
+  // Campaign as returned by the API, with its buttons parsed
+  formatCampaign(campaign: BroadcastCampaign) {
+    return { ...campaign, boxes: this.parseBoxes(campaign) };
+  }
+
+  private parseBoxes(campaign: BroadcastCampaign): CampaignBox[] {
+    try {
+      const boxes = JSON.parse(campaign.boxes || '[]');
+      return Array.isArray(boxes) ? boxes : [];
+    } catch (error) {
+      console.error(`Invalid boxes in campaign ${campaign.id}:`, error);
+      return [];
+    }
+  }
+}
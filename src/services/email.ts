@@ -1,5 +1,6 @@
 import { Environment } from '../types';
 import { WorkerMailer } from 'worker-mailer';
+import { escapeHtml } from '../utils/helpers';
 
 export interface EmailConfig {
   host: string;
@@ -8,6 +9,21 @@ export interface EmailConfig {
   pass: string;
 }
 
+// A task notice emailed to an owner who can't be reached on Telegram
+export interface TaskEmailNotice {
+  kind: 'new' | 'reminder' | 'late';
+  ownerName: string;
+  taskText: string;
+  projectName: string;
+  priorityAr: string;
+  priorityEn: string;
+  dueDate: string; // DD-MM-YYYY
+  notes: string;
+  managerName: string;
+  sheetUrl: string;
+  botUrl: string; // Link to the bot, where /verify links the Telegram account
+}
+
 export class EmailService {
   private config: EmailConfig;
 
@@ -130,4 +146,118 @@ ${verificationLink}
 
     await this.sendEmail(email, subject, text, html);
   }
+
+  async sendTaskNotificationEmail(email: string, notice: TaskEmailNotice): Promise<void> {
+    const titles = {
+      new: { ar: 'مهمّة جديدة', en: 'New task' },
+      reminder: { ar: 'تذكير بالمهمّة', en: 'Task reminder' },
+      late: { ar: 'مهمّة متأخرة', en: 'Overdue task' }
+    }[notice.kind];
+    const dueLabel = notice.kind === 'late'
+      ? { ar: 'كان آخر موعد للتّسليم', en: 'Was due on' }
+      : { ar: 'آخر موعد للتّسليم', en: 'Due date' };
+
+    const subject = `${titles.ar} | ${titles.en}: ${notice.taskText} - تجمّع إبتكار`;
+
+    const text = `
+مرحباً ${notice.ownerName}،
+
+${titles.ar}
+المهمّة: ${notice.taskText}
+المشروع: ${notice.projectName}
+الاستعجاليّة: ${notice.priorityAr}
+${dueLabel.ar}: ${notice.dueDate}
+ملاحظات: ${notice.notes || 'لا توجد ملاحظات'}
+مسؤول المشروع: ${notice.managerName}
+
+ملف المتابعة: ${notice.sheetUrl}
+
+وصلك هذا البريد لأنّنا لم نتمكّن من مراسلتك على تيليجرام. افتح البوت وأرسل /verify لربط حسابك، لتصلك المهامّ هناك:
+${notice.botUrl}
+
+---
+
+Hello ${notice.ownerName},
+
+${titles.en}
+Task: ${notice.taskText}
+Project: ${notice.projectName}
+Priority: ${notice.priorityEn}
+${dueLabel.en}: ${notice.dueDate}
+Notes: ${notice.notes || 'No notes'}
+Project manager: ${notice.managerName}
+
+Tracking sheet: ${notice.sheetUrl}
+
+You got this email because we could not reach you on Telegram. Open the bot and send /verify to link your account and get your tasks there:
+${notice.botUrl}
+
+مع خالص التحية،
+فريق تجمّع إبتكار
+    `.trim();
+
+    const row = (label: string, value: string) => `
+                <tr><td style="padding: 6px 0; color: #666; white-space: nowrap; vertical-align: top;">${escapeHtml(label)}</td><td style="padding: 6px 12px;">${escapeHtml(value)}</td></tr>`;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: ${notice.kind === 'late' ? '#dc3545' : '#007bff'}; color: white; padding: 20px; text-align: center; border-radius: 5px; }
+        .content { padding: 20px 0; }
+        .notice { background-color: #fff8e1; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        .button { 
+            display: inline-block; 
+            background-color: #28a745; 
+            color: white; 
+            padding: 12px 24px; 
+            text-decoration: none; 
+            border-radius: 5px; 
+            margin: 10px 0; 
+            font-weight: bold;
+        }
+        .separator { border-top: 1px solid #eee; margin: 30px 0; }
+        .footer { font-size: 12px; color: #666; border-top: 1px solid #eee; padding-top: 20px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h2>${escapeHtml(titles.ar)} | ${escapeHtml(titles.en)}</h2>
+        </div>
+        <div class="content" dir="rtl" style="text-align: right;">
+            <p>مرحباً ${escapeHtml(notice.ownerName)}،</p>
+            <table>${row('المهمّة:', notice.taskText)}${row('المشروع:', notice.projectName)}${row('الاستعجاليّة:', notice.priorityAr)}${row(`${dueLabel.ar}:`, notice.dueDate)}${row('ملاحظات:', notice.notes || 'لا توجد ملاحظات')}${row('مسؤول المشروع:', notice.managerName)}
+            </table>
+            <p><a href="${escapeHtml(notice.sheetUrl)}">رابط ملف المتابعة</a></p>
+            <div class="notice">
+                <p>وصلك هذا البريد لأنّنا لم نتمكّن من مراسلتك على تيليجرام. افتح البوت وأرسل <strong>/verify</strong> لربط حسابك، لتصلك المهامّ هناك.</p>
+                <p style="text-align: center;"><a href="${escapeHtml(notice.botUrl)}" class="button">ربط حساب التيليجرام</a></p>
+            </div>
+        </div>
+        <div class="separator"></div>
+        <div class="content" dir="ltr" style="text-align: left;">
+            <p>Hello ${escapeHtml(notice.ownerName)},</p>
+            <table>${row('Task:', notice.taskText)}${row('Project:', notice.projectName)}${row('Priority:', notice.priorityEn)}${row(`${dueLabel.en}:`, notice.dueDate)}${row('Notes:', notice.notes || 'No notes')}${row('Project manager:', notice.managerName)}
+            </table>
+            <p><a href="${escapeHtml(notice.sheetUrl)}">Open the tracking sheet</a></p>
+            <div class="notice">
+                <p>You got this email because we could not reach you on Telegram. Open the bot and send <strong>/verify</strong> to link your account and get your tasks there.</p>
+                <p style="text-align: center;"><a href="${escapeHtml(notice.botUrl)}" class="button">Link your Telegram account</a></p>
+            </div>
+        </div>
+        <div class="footer" dir="rtl">
+            <p>مع خالص التحية،<br>فريق تجمّع إبتكار</p>
+        </div>
+    </div>
+</body>
+</html>
+    `.trim();
+
+    await this.sendEmail(email, subject, text, html);
+  }
 }
\ No newline at end of file
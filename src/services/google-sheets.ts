@@ -13,6 +13,11 @@ export interface GoogleCredentials {
   client_x509_cert_url: string;
 }
 
+// The parts of a spreadsheet's metadata the bot reads: the titles of its tabs
+export interface SpreadsheetMetadata {
+  sheets?: Array<{ properties?: { title?: string } }>;
+}
+
 export class GoogleSheetsService {
   private env: Environment;
   private credentials: GoogleCredentials;
@@ -151,17 +156,11 @@ export class GoogleSheetsService {
   }
 
   // Google Sheets API methods
+  // Throws when the read fails, an empty range returns []
   async getSheetData(spreadsheetId: string, range: string): Promise<any[][]> {
-    const response = await fetch(
-      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${range}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${await this.getAccessToken()}`,
-        },
-      }
-    );
-
-    const data = await response.json() as { values?: any[][] };
+    const data = await this.makeRequest(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${range}`
+    ) as { values?: any[][] };
     return data.values || [];
   }
 
@@ -188,7 +187,7 @@ export class GoogleSheetsService {
   async updateSingleCell(spreadsheetId: string, cellRange: string, value: any): Promise<void> {
     const token = await this.getAccessToken();
     
-    await fetch(
+    const response = await fetch(
       `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${cellRange}?valueInputOption=USER_ENTERED`,
       {
         method: 'PUT',
@@ -201,13 +200,31 @@ export class GoogleSheetsService {
         }),
       }
     );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Google Sheets API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
   }
 
 
 
-  async getSpreadsheetMetadata(spreadsheetId: string): Promise<any> {
+  // Write several single cells in one request
+  async updateCells(spreadsheetId: string, updates: Array<{ range: string; value: any }>): Promise<void> {
+    if (updates.length === 0) return;
+
+    await this.makeRequest(`https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values:batchUpdate`, {
+      method: 'POST',
+      body: JSON.stringify({
+        valueInputOption: 'USER_ENTERED',
+        data: updates.map(update => ({ range: update.range, values: [[update.value]] })),
+      }),
+    });
+  }
+
+  async getSpreadsheetMetadata(spreadsheetId: string): Promise<SpreadsheetMetadata> {
     const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}`;
-    return await this.makeRequest(url);
+    return await this.makeRequest(url) as SpreadsheetMetadata;
   }
 
   getColumnLetter(columnIndex: number | string): string {
@@ -1,14 +1,18 @@
 import { GroupMembersCrud } from '../crud/group-members';
+import { GroupsCrud } from '../crud/groups';
 import { DatabaseConnection } from '../crud/base';
+import { ChatMemberUpdated } from '../types';
 
 /**
  * Service to handle group member tracking from Telegram messages
  */
 export class GroupMemberTrackingService {
   private groupMembersCrud: GroupMembersCrud;
+  private groupsCrud: GroupsCrud;
 
   constructor(db: DatabaseConnection) {
     this.groupMembersCrud = new GroupMembersCrud(db);
+    this.groupsCrud = new GroupsCrud(db);
   }
 
   /**
@@ -114,9 +118,9 @@ export class GroupMemberTrackingService {
 
   /**
    * Process chat member updated event (from Telegram API)
-   * This is called when getChatMember or when listening to chat_member updates
+   * This is called for chat_member updates, which the bot only receives in groups where it is admin
    */
-  async processChatMemberUpdate(update: any): Promise<void> {
+  async processChatMemberUpdate(update: ChatMemberUpdated): Promise<void> {
     try {
       const chatId = update.chat.id.toString();
       const newMember = update.new_chat_member;
@@ -143,11 +147,8 @@ export class GroupMemberTrackingService {
         // Member left
         await this.groupMembersCrud.memberLeft(chatId, userId);
       } else if (newStatus === 'kicked') {
-        // Member was kicked
+        // Member was kicked (Telegram reports bans as 'kicked' too)
         await this.groupMembersCrud.memberKicked(chatId, userId);
-      } else if (newStatus === 'banned') {
-        // Member was banned
-        await this.groupMembersCrud.memberBanned(chatId, userId);
       } else if (newStatus === 'creator' || newStatus === 'administrator') {
         // Member was promoted
         await this.groupMembersCrud.upsertMember({
@@ -183,4 +184,30 @@ export class GroupMemberTrackingService {
       console.error('Error processing chat member update:', error);
     }
   }
+
+  /**
+   * Process the bot's own status change in a chat (my_chat_member update)
+   * Marks a registered group inactive when the bot is removed, and active again when it is added back
+   */
+  async processMyChatMemberUpdate(update: ChatMemberUpdated): Promise<void> {
+    try {
+      const chatId = update.chat.id.toString();
+      const oldStatus = update.old_chat_member.status;
+      const newStatus = update.new_chat_member.status;
+
+      console.log(`Bot status changed in chat ${chatId} from ${oldStatus} to ${newStatus}`);
+
+      // Only registered groups are tracked
+      const group = await this.groupsCrud.getGroupByChatId(chatId);
+      if (!group) return;
+
+      const isActive = newStatus !== 'left' && newStatus !== 'kicked';
+      if ((group.is_active === 1) !== isActive) {
+        await this.groupsCrud.setGroupActiveStatus(group.id, isActive);
+        console.log(`Group ${group.title} (${chatId}) marked as ${isActive ? 'active' : 'inactive'}`);
+      }
+    } catch (error) {
+      console.error('Error processing bot chat member update:', error);
+    }
+  }
 }
@@ -1,10 +1,31 @@
 import { Environment } from '../types';
-import { TelegramService } from './telegram';
+import { DEFAULT_BOT_USERNAME, TelegramService } from './telegram';
 import { AllMessagesGroupsCrud } from '../crud/all-messages-groups';
+import { GroupsCrud } from '../crud/groups';
+import { JoinRequestsCrud } from '../crud/join-requests';
 import { D1DatabaseConnection } from '../crud/database';
-import { escapeMarkdownV2 } from '../utils/helpers';
+import { GroupAdmin, GroupModel, GroupWithAdmins } from '../models/groups';
+import { PreferredLanguage } from '../models/member-preferences';
+import { escapeMarkdownV2, isSuperAdmin } from '../utils/helpers';
+import { DEFAULT_LANGUAGE, formatHours, formatted, t, tText } from '../i18n';
 import LLMService from './ai-services/deepseek';
 
+export interface GroupStoreResult {
+  success: boolean;
+  id?: string;
+  isNew?: boolean;
+  group?: GroupWithAdmins | null;
+  adminsCount?: number;
+  memberCount?: number;
+  error?: string;
+  details?: string;
+  // What went wrong: the group isn't stored, Telegram didn't answer getChat, or the database write failed
+  errorType?: 'not_found' | 'telegram' | 'database';
+}
+
+// Admin commands handled in group chats, see handleAdminCommand
+const ADMIN_COMMANDS = ['/register_group', '/sync', '/approval', '/set_description', '/list_pending'];
+
 export class GroupServices {
   private env: Environment;
   private telegramService: TelegramService;
@@ -16,19 +37,193 @@ export class GroupServices {
     this.llmService = new LLMService(env);
   }
 
+  /**
+   * Store or update a group by fetching all its info from the Telegram API
+   * @param chatId The Telegram chat ID
+   * @param options needs_admin_approval and notes to store; left unchanged for an existing group when omitted
+   */
+  async storeGroup(
+    chatId: number | string,
+    options: { needsAdminApproval?: boolean; notes?: string | null } = {}
+  ): Promise<GroupStoreResult> {
+    const groupsCrud = new GroupsCrud(new D1DatabaseConnection(this.env.DB));
+
+    // Fetch group info from Telegram
+    let chatInfo;
+    try {
+      chatInfo = await this.telegramService.getChat(chatId);
+    } catch (error) {
+      return {
+        success: false,
+        errorType: 'telegram',
+        error: 'Failed to fetch group info from Telegram. Make sure the bot is an admin in this group.',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    const adminsList = await this.fetchGroupAdmins(chatId);
+    const memberCount = await this.fetchMemberCount(chatId);
+
+    // Build group data from Telegram info
+    const groupData: GroupModel = {
+      chat_id: chatId.toString(),
+      title: chatInfo.title || 'Unknown',
+      type: chatInfo.type || 'group',
+      username: chatInfo.username || null,
+      description: chatInfo.description || null,
+      invite_link: chatInfo.invite_link || null,
+      is_active: 1,
+      member_count: memberCount || null
+    };
+    if (options.needsAdminApproval !== undefined) {
+      groupData.needs_admin_approval = options.needsAdminApproval ? 1 : 0;
+    }
+    if (options.notes !== undefined) {
+      groupData.notes = options.notes;
+    }
+
+    // Upsert the group (create if new, update if exists)
+    const result = await groupsCrud.upsertGroup(groupData, adminsList);
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorType: 'database',
+        error: result.error || 'Failed to store group'
+      };
+    }
+
+    return {
+      success: true,
+      id: result.id,
+      isNew: result.isNew,
+      group: await groupsCrud.getGroupById(result.id!),
+      adminsCount: adminsList.length,
+      memberCount
+    };
+  }
+
+  /**
+   * Sync/refresh a stored group's info and admins from the Telegram API
+   * @param chatId The Telegram chat ID
+   */
+  async syncGroup(chatId: number | string): Promise<GroupStoreResult> {
+    const groupsCrud = new GroupsCrud(new D1DatabaseConnection(this.env.DB));
+
+    const existingGroup = await groupsCrud.getGroupByChatId(chatId.toString());
+    if (!existingGroup) {
+      return {
+        success: false,
+        errorType: 'not_found',
+        error: 'Group not found. Use /store endpoint to add it first.'
+      };
+    }
+
+    return await this.refreshGroup(existingGroup);
+  }
+
+  /**
+   * Refresh a group that is already loaded from the database
+   * @param group The stored group
+   */
+  async refreshGroup(group: GroupWithAdmins): Promise<GroupStoreResult> {
+    const groupsCrud = new GroupsCrud(new D1DatabaseConnection(this.env.DB));
+
+    // Fetch updated group info from Telegram
+    let chatInfo;
+    try {
+      chatInfo = await this.telegramService.getChat(group.chat_id);
+    } catch (error) {
+      return {
+        success: false,
+        errorType: 'telegram',
+        error: 'Failed to fetch group info from Telegram.',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    const adminsList = await this.fetchGroupAdmins(group.chat_id);
+    const memberCount = await this.fetchMemberCount(group.chat_id);
+
+    // Update group data
+    const updateData: Partial<GroupModel> = {
+      title: chatInfo.title || group.title,
+      type: chatInfo.type || group.type,
+      username: chatInfo.username || null,
+      description: chatInfo.description || null,
+      invite_link: chatInfo.invite_link || null,
+      member_count: memberCount || group.member_count
+    };
+
+    const result = await groupsCrud.updateGroup(group.id, updateData, adminsList);
+
+    if (!result.success) {
+      return {
+        success: false,
+        errorType: 'database',
+        error: result.error || 'Failed to sync group'
+      };
+    }
+
+    return {
+      success: true,
+      id: group.id,
+      isNew: false,
+      group: await groupsCrud.getGroupById(group.id),
+      adminsCount: adminsList.length,
+      memberCount
+    };
+  }
+
+  /**
+   * Fetch a chat's administrators in the shape stored in groups.admins
+   * An empty list is returned when Telegram doesn't answer
+   * @param chatId The Telegram chat ID
+   */
+  private async fetchGroupAdmins(chatId: number | string): Promise<GroupAdmin[]> {
+    try {
+      const chatAdmins = await this.telegramService.getChatAdministrators(chatId);
+      return chatAdmins.map((admin: any) => ({
+        user_id: admin.user.id.toString(),
+        username: admin.user.username,
+        first_name: admin.user.first_name,
+        last_name: admin.user.last_name,
+        status: admin.status === 'creator' ? 'creator' : 'administrator'
+      }));
+    } catch (error) {
+      console.warn(`Failed to fetch administrators for ${chatId}, continuing with empty list:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch a chat's member count, 0 when Telegram doesn't answer
+   * @param chatId The Telegram chat ID
+   */
+  private async fetchMemberCount(chatId: number | string): Promise<number> {
+    try {
+      return await this.telegramService.getChatMemberCount(chatId);
+    } catch (error) {
+      console.warn(`Failed to fetch member count for ${chatId}:`, error);
+      return 0;
+    }
+  }
+
   /**
    * Handle the /summarize command in group chats
    * @param chatId The group chat ID
    * @param commandText The full command text (e.g., "/summarize 24")
    * @param messageThreadId Optional message thread ID for topic-specific summarization
    * @param commandMessageId Optional message ID of the command message to reply to
+   * @param language Language of the user who asked, for the replies around the summary
    * @returns Promise<void>
    */
   async handleSummarizeCommand(
     chatId: number, 
     commandText: string,
     messageThreadId?: number,
-    commandMessageId?: number
+    commandMessageId?: number,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
   ): Promise<void> {
     try {
       const db = new D1DatabaseConnection(this.env.DB);
@@ -41,9 +236,9 @@ export class GroupServices {
       const isTopicSpecific = messageThreadId !== undefined;
       
       // Send "Generating summary..." message
-      const contextText = isTopicSpecific 
-        ? `_Generating summary of this topic from the last ${hours} hour${hours !== 1 ? 's' : ''}\\.\\.\\._`
-        : `_Generating summary of the last ${hours} hour${hours !== 1 ? 's' : ''} conversation\\.\\.\\._`;
+      const contextText = t(language, isTopicSpecific ? 'summarize.generating_topic' : 'summarize.generating', {
+        hours: formatHours(language, hours)
+      });
       
       const statusMessageId = await this.telegramService.sendMessage(
         chatId,
@@ -82,7 +277,7 @@ export class GroupServices {
       
       // Handle case where no messages found
       if (conversation.length === 0) {
-        await this.handleNoMessagesFound(chatId, hours, statusMessageId, isTopicSpecific, messageThreadId, commandMessageId);
+        await this.handleNoMessagesFound(chatId, hours, statusMessageId, isTopicSpecific, messageThreadId, commandMessageId, language);
         return;
       }
       
@@ -93,13 +288,13 @@ export class GroupServices {
       const summary = await this.generateSummary(conversationText);
       
       // Send or edit the response with the summary
-      await this.sendSummaryResponse(chatId, hours, summary, statusMessageId, isTopicSpecific, messageThreadId, commandMessageId);
+      await this.sendSummaryResponse(chatId, hours, summary, statusMessageId, isTopicSpecific, messageThreadId, commandMessageId, language);
       
     } catch (error) {
       console.error('Error generating summary:', error);
       await this.telegramService.sendMessage(
         chatId,
-        'Sorry\\, I encountered an error while generating the summary\\. Please try again later\\.',
+        t(language, 'summarize.error'),
         undefined, // parseMode
         undefined, // inlineKeyboard
         messageThreadId, // Send error in the same thread/topic
@@ -135,6 +330,7 @@ export class GroupServices {
    * @param isTopicSpecific Whether this is a topic-specific request
    * @param messageThreadId Optional message thread ID for topic-specific responses
    * @param commandMessageId Optional message ID of the command message to reply to
+   * @param language Language of the reply
    */
   private async handleNoMessagesFound(
     chatId: number,
@@ -142,12 +338,12 @@ export class GroupServices {
     statusMessageId?: number,
     isTopicSpecific: boolean = false,
     messageThreadId?: number,
-    commandMessageId?: number
+    commandMessageId?: number,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
   ): Promise<void> {
-    const context = isTopicSpecific ? 'in this topic ' : '';
-    const noMessagesText = hours === 1 
-      ? `No messages found ${context}in the last hour\\.`
-      : `No messages found ${context}in the last ${hours} hours\\.`;
+    const noMessagesText = t(language, isTopicSpecific ? 'summarize.no_messages_topic' : 'summarize.no_messages', {
+      hours: formatHours(language, hours)
+    });
     
     if (statusMessageId) {
       await this.telegramService.editMessage(
@@ -222,6 +418,7 @@ Format the summary in a clear, readable way with bullet points or sections if ap
    * @param isTopicSpecific Whether this is a topic-specific request
    * @param messageThreadId Optional message thread ID for topic-specific responses
    * @param commandMessageId Optional message ID of the command message to reply to
+   * @param language Language of the header; the summary is in the language of the conversation
    */
   private async sendSummaryResponse(
     chatId: number,
@@ -230,12 +427,13 @@ Format the summary in a clear, readable way with bullet points or sections if ap
     statusMessageId?: number,
     isTopicSpecific: boolean = false,
     messageThreadId?: number,
-    commandMessageId?: number
+    commandMessageId?: number,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
   ): Promise<void> {
-    const context = isTopicSpecific ? 'this topic' : 'conversation';
-    const summaryText = escapeMarkdownV2(
-      `📝 Summary of ${context} from last ${hours} hour${hours !== 1 ? 's' : ''}:\n\n${summary}`
-    );
+    const summaryText = t(language, isTopicSpecific ? 'summarize.summary_topic' : 'summarize.summary', {
+      hours: formatHours(language, hours),
+      summary
+    });
     
     if (statusMessageId) {
       await this.telegramService.editMessage(
@@ -257,4 +455,218 @@ Format the summary in a clear, readable way with bullet points or sections if ap
       );
     }
   }
+
+  /**
+   * Check whether a message in a group chat is the /summarize command
+   * @param text The message text (e.g., "/summarize@ibtikar_bot 24")
+   */
+  isSummarizeCommand(text: string): boolean {
+    return this.parseCommand(text).command === '/summarize';
+  }
+
+  /**
+   * Check whether a message in a group chat is one of the admin commands
+   * @param text The message text (e.g., "/approval@ibtikar_bot on")
+   */
+  isAdminCommand(text: string): boolean {
+    return ADMIN_COMMANDS.includes(this.parseCommand(text).command);
+  }
+
+  /**
+   * Handle the admin commands in group chats:
+   * /register_group, /sync, /approval on|off, /set_description <text> and /list_pending
+   * Only the group's admins (as stored in groups.admins) and the super admins may use them
+   * @param chatId The group chat ID
+   * @param userId Telegram ID of the user who sent the command
+   * @param commandText The full command text
+   * @param messageThreadId Optional message thread ID, replies go to the same topic
+   * @param commandMessageId Optional message ID of the command message to reply to
+   * @param language Language of the admin who sent the command
+   */
+  async handleAdminCommand(
+    chatId: number,
+    userId: number,
+    commandText: string,
+    messageThreadId?: number,
+    commandMessageId?: number,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<void> {
+    const reply = (text: string) => this.telegramService.sendMessage(
+      chatId,
+      text,
+      undefined, // parseMode
+      undefined, // inlineKeyboard
+      messageThreadId, // Send in the same thread/topic
+      commandMessageId // Reply to the command message
+    );
+
+    try {
+      const { command, args } = this.parseCommand(commandText);
+      const groupsCrud = new GroupsCrud(new D1DatabaseConnection(this.env.DB));
+      const group = await groupsCrud.getGroupByChatId(chatId.toString());
+
+      if (!(await this.isGroupAdmin(chatId, userId, group))) {
+        await reply(t(language, 'group_admin.not_admin'));
+        return;
+      }
+
+      // Everything but /register_group works on a registered group
+      if (command !== '/register_group' && !group) {
+        await reply(t(language, 'group_admin.not_registered'));
+        return;
+      }
+
+      switch (command) {
+        case '/register_group': {
+          const result = await this.storeGroup(chatId);
+          if (!result.success) {
+            console.error(`Failed to register group ${chatId}:`, result.error, result.details);
+            await reply(t(language, result.errorType === 'telegram' ? 'group_admin.telegram_failed' : 'group_admin.register_failed'));
+            return;
+          }
+          await reply(t(language, result.isNew ? 'group_admin.registered' : 'group_admin.updated', {
+            title: result.group?.title || '',
+            status: formatted(this.formatGroupStatus(result, language))
+          }));
+          return;
+        }
+
+        case '/sync': {
+          const result = await this.refreshGroup(group!);
+          if (!result.success) {
+            console.error(`Failed to sync group ${chatId}:`, result.error, result.details);
+            await reply(t(language, 'group_admin.sync_failed'));
+            return;
+          }
+          await reply(t(language, 'group_admin.synced', {
+            title: result.group?.title || '',
+            status: formatted(this.formatGroupStatus(result, language))
+          }));
+          return;
+        }
+
+        case '/approval': {
+          const mode = args.toLowerCase();
+          if (mode !== 'on' && mode !== 'off') {
+            await reply(t(language, 'group_admin.approval_current', {
+              state: tText(language, group!.needs_admin_approval ? 'common.on' : 'common.off')
+            }));
+            return;
+          }
+          const result = await groupsCrud.setNeedsAdminApproval(group!.id, mode === 'on');
+          if (!result.success) {
+            console.error(`Failed to update approval for group ${chatId}:`, result.error);
+            await reply(t(language, 'group_admin.approval_failed'));
+            return;
+          }
+          await reply(t(language, mode === 'on' ? 'group_admin.approval_on' : 'group_admin.approval_off'));
+          return;
+        }
+
+        case '/set_description': {
+          if (!args) {
+            await reply(t(language, 'group_admin.description_usage'));
+            return;
+          }
+          try {
+            await this.telegramService.setChatDescription(chatId, args);
+          } catch (error) {
+            await reply(t(language, 'group_admin.description_failed'));
+            return;
+          }
+          const result = await groupsCrud.updateGroup(group!.id, { description: args });
+          if (!result.success) {
+            console.error(`Failed to store description for group ${chatId}:`, result.error);
+          }
+          await reply(t(language, 'group_admin.description_updated'));
+          return;
+        }
+
+        case '/list_pending': {
+          const db = new D1DatabaseConnection(this.env.DB);
+          // Groups with admin approval have a real queue, otherwise requests are read from the stored updates
+          const pending = group!.needs_admin_approval
+            ? (await new JoinRequestsCrud(db).getPendingRequestsByChat(chatId.toString())).map(request => ({
+                user_id: request.user_id,
+                from: { first_name: request.first_name, last_name: request.last_name, username: request.username },
+                created_at: request.created_at
+              }))
+            : (await new AllMessagesGroupsCrud(db).getPendingJoinRequests(chatId.toString())).map(request => ({
+                user_id: request.user_id,
+                from: request.message.from || {},
+                created_at: request.created_at
+              }));
+          if (pending.length === 0) {
+            await reply(t(language, 'group_admin.no_pending'));
+            return;
+          }
+          const lines = pending.map(request => {
+            const name = `${request.from.first_name || ''} ${request.from.last_name || ''}`.trim() || request.user_id;
+            const username = request.from.username ? ` @${request.from.username}` : '';
+            return `• ${escapeMarkdownV2(`${name}${username} (${request.user_id}), ${request.created_at.slice(0, 16)}`)}`;
+          });
+          await reply(t(language, 'group_admin.pending', { count: pending.length, requests: formatted(lines.join('\n')) }));
+          return;
+        }
+      }
+    } catch (error) {
+      console.error('Error handling group admin command:', error);
+      await reply(t(language, 'group_admin.error'));
+    }
+  }
+
+  /**
+   * Check whether a user may run admin commands in a group
+   * Super admins always can; for a group that isn't registered yet the admins are fetched from Telegram
+   * @param chatId The group chat ID
+   * @param userId Telegram user ID
+   * @param group The stored group, if any
+   */
+  private async isGroupAdmin(chatId: number, userId: number, group: GroupWithAdmins | null): Promise<boolean> {
+    if (isSuperAdmin(this.env.SUPER_ADMIN_TELEGRAM_IDS, userId)) {
+      return true;
+    }
+
+    if (group) {
+      const groupsCrud = new GroupsCrud(new D1DatabaseConnection(this.env.DB));
+      return await groupsCrud.isUserAdmin(chatId.toString(), userId.toString());
+    }
+
+    const admins = await this.fetchGroupAdmins(chatId);
+    return admins.some(admin => admin.user_id === userId.toString());
+  }
+
+  /**
+   * Split a command message into the command (without the @botname suffix) and its arguments
+   * @param text The message text
+   */
+  private parseCommand(text: string): { command: string; args: string } {
+    const trimmed = text.trim();
+    const spaceIndex = trimmed.search(/\s/);
+    const commandPart = spaceIndex === -1 ? trimmed : trimmed.slice(0, spaceIndex);
+    const [command, botUsername] = commandPart.split('@');
+
+    // A command addressed to another bot in the group ("/sync@otherbot") is not ours
+    if (botUsername !== undefined && botUsername.toLowerCase() !== (this.env.BOT_USERNAME || DEFAULT_BOT_USERNAME).toLowerCase()) {
+      return { command: '', args: '' };
+    }
+
+    return {
+      command: command.toLowerCase(),
+      args: spaceIndex === -1 ? '' : trimmed.slice(spaceIndex).trim()
+    };
+  }
+
+  /**
+   * Format the stored state of a group for admin command replies
+   * @param result The store/sync result
+   * @param language Language of the reply
+   */
+  private formatGroupStatus(result: GroupStoreResult, language: PreferredLanguage): string {
+    return t(language, 'group_admin.status', {
+      admins: result.adminsCount ?? 0,
+      members: result.memberCount ?? 0,
+      approval: tText(language, result.group?.needs_admin_approval ? 'common.on' : 'common.off')
+    });
+  }
 }
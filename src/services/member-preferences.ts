@@ -0,0 +1,179 @@
+import { Environment, InlineKeyboardButton } from '../types';
+import { D1DatabaseConnection } from '../crud/database';
+import { MemberPreferencesCrud } from '../crud/member-preferences';
+import {
+  MemberPreferenceSettings,
+  NotificationPreferenceKey,
+  NOTIFICATION_PREFERENCE_KEYS,
+  PreferredLanguage,
+  PREFERRED_LANGUAGES
+} from '../models/member-preferences';
+import { DEFAULT_LANGUAGE, languageFromCode, MessageKey, t, tText } from '../i18n';
+
+// Turkey keeps UTC+3 all year
+const ISTANBUL_UTC_OFFSET_HOURS = 3;
+
+// Quiet hours offered by /settings, in the order the button goes through them
+export const QUIET_HOURS_OPTIONS: Array<{ start: number; end: number } | null> = [
+  null,
+  { start: 22, end: 8 },
+  { start: 21, end: 9 },
+  { start: 20, end: 10 }
+];
+
+// Each language is named in itself, so it can be found whatever language the bot is in
+const LANGUAGE_NAMES: Record<PreferredLanguage, string> = {
+  ar: 'العربية',
+  en: 'English',
+  tr: 'Türkçe'
+};
+
+/**
+ * Notification preferences of the members
+ * Members turn notifications off and set quiet hours with /settings; the messages of a turned off kind are not sent,
+ * the others wait in the outbox until the quiet hours end. New task assignments are always sent
+ */
+export class MemberPreferencesService {
+  private preferencesCrud: MemberPreferencesCrud;
+
+  constructor(env: Environment) {
+    this.preferencesCrud = new MemberPreferencesCrud(new D1DatabaseConnection(env.DB));
+  }
+
+  /**
+   * @param languageCode Telegram language_code of the user, the language of a user without stored preferences
+   */
+  async getSettings(telegramId: string, languageCode?: string): Promise<MemberPreferenceSettings> {
+    return await this.preferencesCrud.getSettings(telegramId, languageFromCode(languageCode));
+  }
+
+  /**
+   * Language to talk to a user in: the one they chose in /settings, else the one of their Telegram app
+   */
+  async getLanguage(telegramId: string, languageCode?: string): Promise<PreferredLanguage> {
+    return (await this.getSettings(telegramId, languageCode)).language;
+  }
+
+  // Preferences of everyone who changed them, for the bulk sends
+  async getAllSettings(): Promise<Map<string, MemberPreferenceSettings>> {
+    return await this.preferencesCrud.getAllSettings();
+  }
+
+  /**
+   * Whether a message of a kind may be sent to a member, and when
+   * @returns send: false when the member turned the kind off; notBefore when it has to wait for the end of the quiet hours
+   */
+  getDelivery(settings: MemberPreferenceSettings, key: NotificationPreferenceKey, now: Date = new Date()): { send: boolean; notBefore?: string } {
+    if (!settings[key]) {
+      return { send: false };
+    }
+
+    const quietEnd = this.getQuietHoursEnd(settings, now);
+    return quietEnd ? { send: true, notBefore: quietEnd.toISOString() } : { send: true };
+  }
+
+  async checkDelivery(telegramId: string, key: NotificationPreferenceKey): Promise<{ send: boolean; notBefore?: string }> {
+    return this.getDelivery(await this.getSettings(telegramId), key);
+  }
+
+  /**
+   * When the quiet hours of a member end, or null when it is not their quiet time
+   */
+  getQuietHoursEnd(settings: MemberPreferenceSettings, now: Date = new Date()): Date | null {
+    const quietHours = settings.quiet_hours;
+    if (!quietHours || quietHours.start === quietHours.end) {
+      return null;
+    }
+
+    // Istanbul wall time, read from the UTC fields
+    const local = new Date(now.getTime() + ISTANBUL_UTC_OFFSET_HOURS * 60 * 60 * 1000);
+    const hour = local.getUTCHours();
+    const isQuiet = quietHours.start < quietHours.end
+      ? hour >= quietHours.start && hour < quietHours.end
+      : hour >= quietHours.start || hour < quietHours.end;
+    if (!isQuiet) {
+      return null;
+    }
+
+    let end = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), quietHours.end) - ISTANBUL_UTC_OFFSET_HOURS * 60 * 60 * 1000;
+    if (end <= now.getTime()) {
+      end += 24 * 60 * 60 * 1000;
+    }
+    return new Date(end);
+  }
+
+  /**
+   * Build the /settings message with a button for each preference
+   */
+  async buildSettingsMessage(telegramId: string, languageCode?: string): Promise<{ text: string; keyboard: InlineKeyboardButton[][] }> {
+    return this.formatSettings(await this.getSettings(telegramId, languageCode));
+  }
+
+  /**
+   * Handle a button of the /settings message
+   * @param action What follows settings_ in the callback data: toggle_<preference>, language or quiet
+   * @param languageCode Telegram language_code of the user
+   * @returns The updated message, and the answer to the button press
+   */
+  async handleSettingsAction(telegramId: string, action: string, languageCode?: string): Promise<{
+    success: boolean;
+    message: string;
+    text?: string;
+    keyboard?: InlineKeyboardButton[][];
+  }> {
+    let language: PreferredLanguage = languageFromCode(languageCode) || DEFAULT_LANGUAGE;
+    try {
+      const settings = await this.getSettings(telegramId, languageCode);
+      language = settings.language;
+
+      const toggle = action.match(/^toggle_(.+)$/);
+      if (toggle && (NOTIFICATION_PREFERENCE_KEYS as string[]).includes(toggle[1])) {
+        const key = toggle[1] as NotificationPreferenceKey;
+        settings[key] = !settings[key];
+      } else if (action === 'language') {
+        settings.language = PREFERRED_LANGUAGES[(PREFERRED_LANGUAGES.indexOf(settings.language) + 1) % PREFERRED_LANGUAGES.length];
+      } else if (action === 'quiet') {
+        const current = QUIET_HOURS_OPTIONS.findIndex(option =>
+          option?.start === settings.quiet_hours?.start && option?.end === settings.quiet_hours?.end
+        );
+        settings.quiet_hours = QUIET_HOURS_OPTIONS[(current + 1) % QUIET_HOURS_OPTIONS.length];
+      } else {
+        return { success: false, message: tText(language, 'settings.unknown_alert') };
+      }
+
+      const result = await this.preferencesCrud.setSettings(telegramId, settings);
+      if (!result.success) {
+        console.error(`Error saving the preferences of ${telegramId}:`, result.error);
+        return { success: false, message: tText(language, 'settings.save_failed_alert') };
+      }
+
+      // A new language shows at once
+      return { success: true, message: tText(settings.language, 'settings.saved_alert'), ...this.formatSettings(settings) };
+    } catch (error) {
+      console.error('Error handling settings action:', error);
+      return { success: false, message: tText(language, 'settings.error_alert') };
+    }
+  }
+
+  private formatSettings(settings: MemberPreferenceSettings): { text: string; keyboard: InlineKeyboardButton[][] } {
+    const language = settings.language;
+    const quietHours = settings.quiet_hours
+      ? `${this.formatHour(settings.quiet_hours.start)} - ${this.formatHour(settings.quiet_hours.end)}`
+      : tText(language, 'settings.no_quiet_hours');
+
+    const text = t(language, 'settings.text', { quiet_hours: quietHours });
+
+    const keyboard: InlineKeyboardButton[][] = NOTIFICATION_PREFERENCE_KEYS.map(key => [{
+      text: `${settings[key] ? '✅' : '🔕'} ${tText(language, `settings.${key}.label` as MessageKey)}`,
+      callback_data: `settings_toggle_${key}`
+    }]);
+    keyboard.push([{ text: tText(language, 'settings.language_button', { language: LANGUAGE_NAMES[language] }), callback_data: 'settings_language' }]);
+    keyboard.push([{ text: tText(language, 'settings.quiet_hours_button', { quiet_hours: quietHours }), callback_data: 'settings_quiet' }]);
+
+    return { text, keyboard };
+  }
+
+  private formatHour(hour: number): string {
+    return `${String(hour).padStart(2, '0')}:00`;
+  }
+}
@@ -2,13 +2,18 @@ import { Context } from 'hono';
 import { Environment } from '../../types';
 import { TelegramService } from '../telegram';
 import { MemberSheetServices } from './member-sheet-services';
+import { JoinRequestApprovalService } from './join-request-approval';
 import { AllMessagesGroupsCrud } from '../../crud/all-messages-groups';
+import { GroupsCrud } from '../../crud/groups';
 import { D1DatabaseConnection } from '../../crud/database';
-import { escapeMarkdownV2 } from '../../utils/helpers';
+import { MemberPreferencesService } from '../member-preferences';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { t } from '../../i18n';
 
 /**
  * Handler for Telegram chat join requests
  * This handles the logic when users request to join a group/channel
+ * Requests for groups with needs_admin_approval go to the admin approval queue
  */
 export async function handleChatJoinRequest(
   update: any,
@@ -35,8 +40,16 @@ export async function handleChatJoinRequest(
   // Store the join request in all_messages_groups table
   await storeJoinRequest(joinRequest, fullName, username, c.env);
   
+  // Groups that need admin approval get the request queued for their admins instead
+  const group = await new GroupsCrud(new D1DatabaseConnection(c.env.DB)).getGroupByChatId(chatId.toString());
+  if (group?.needs_admin_approval) {
+    await new JoinRequestApprovalService(c.env).queueJoinRequest(joinRequest, group);
+    return c.json({ ok: true });
+  }
+  
   const telegramService = new TelegramService(c.env);
   const memberSheetServices = new MemberSheetServices(c.env);
+  const language = await new MemberPreferencesService(c.env).getLanguage(telegramId.toString(), joinRequest.from.language_code);
   
   // Check if the user has the bot activated (can receive messages)
   const hasBotActivated = await telegramService.canSendMessageToUser(telegramId);
@@ -49,7 +62,8 @@ export async function handleChatJoinRequest(
       fullName,
       username,
       memberSheetServices,
-      telegramService
+      telegramService,
+      language
     );
   } else {
     // User doesn't have bot activated - send silent message to group
@@ -59,6 +73,7 @@ export async function handleChatJoinRequest(
       fullName,
       username,
       telegramService,
+      language,
       c
     );
   }
@@ -112,7 +127,8 @@ async function handleUserWithBot(
   fullName: string,
   username: string | undefined,
   memberSheetServices: MemberSheetServices,
-  telegramService: TelegramService
+  telegramService: TelegramService,
+  language: PreferredLanguage
 ): Promise<void> {
   // Check if user is verified
   const member = await memberSheetServices.getMemberByTelegramId(telegramId.toString());
@@ -123,11 +139,12 @@ async function handleUserWithBot(
       telegramId,
       chatId,
       fullName,
-      telegramService
+      telegramService,
+      language
     );
   } else {
     // User has bot but not verified - ask them to verify
-    await sendVerificationPrompt(telegramId, fullName, telegramService);
+    await sendVerificationPrompt(telegramId, fullName, telegramService, language);
   }
 }
 
@@ -138,7 +155,8 @@ async function sendPrivateInviteLink(
   telegramId: number,
   chatId: number,
   fullName: string,
-  telegramService: TelegramService
+  telegramService: TelegramService,
+  language: PreferredLanguage
 ): Promise<void> {
   try {
     const inviteLink = await telegramService.createChatInviteLink(
@@ -151,14 +169,7 @@ async function sendPrivateInviteLink(
       // Send the private invite link to the user
       await telegramService.sendMessage(
         telegramId,
-        `مرحباً ${escapeMarkdownV2(fullName)}\\! 🎉\n\n` +
-        `تم التحقق من عضويتك بنجاح\\.\n\n` +
-        `إليك رابط الانضمام الخاص بك:\n` +
-        `${escapeMarkdownV2(inviteLink)}\n\n` +
-        `⚠️ *ملاحظة مهمة:*\n` +
-        `• هذا الرابط خاص بك فقط\n` +
-        `• يمكن استخدامه مرة واحدة فقط\n` +
-        `• لا تشاركه مع أي شخص آخر`
+        t(language, 'join.invite_link', { name: fullName, link: inviteLink })
       );
       
       console.log(`Sent private invite link to verified user ${telegramId}`);
@@ -169,8 +180,7 @@ async function sendPrivateInviteLink(
       // Failed to create invite link - fall back to manual approval
       await telegramService.sendMessage(
         telegramId,
-        `مرحباً ${escapeMarkdownV2(fullName)}\\!\n\n` +
-        `تم التحقق من عضويتك\\. سيتم الموافقة على طلبك قريباً\\.`
+        t(language, 'join.approved_soon', { name: fullName })
       );
       console.log(`Failed to create invite link, sent confirmation to user ${telegramId}`);
     }
@@ -185,14 +195,13 @@ async function sendPrivateInviteLink(
 async function sendVerificationPrompt(
   telegramId: number,
   fullName: string,
-  telegramService: TelegramService
+  telegramService: TelegramService,
+  language: PreferredLanguage
 ): Promise<void> {
   try {
     await telegramService.sendMessage(
       telegramId,
-      `مرحباً ${escapeMarkdownV2(fullName)}\\!\n\n` +
-      `لقد تلقينا طلب انضمامك إلى المجموعة\\.\n\n` +
-      `يرجى استخدام الأمر /verify للتحقق من عضويتك حتى تتمكن من الوصول إلى المجموعة\\.`
+      t(language, 'join.verify_prompt', { name: fullName })
     );
     console.log(`Sent verification message to unverified user ${telegramId}`);
   } catch (error) {
@@ -210,12 +219,11 @@ async function handleUserWithoutBot(
   fullName: string,
   username: string | undefined,
   telegramService: TelegramService,
+  language: PreferredLanguage,
   c: Context<{ Bindings: Environment }>
 ): Promise<void> {
   try {
-    const usernameText = username ? `@${escapeMarkdownV2(username)}` : '';
-    const messageText = `عزيزي/عزيزتي ${escapeMarkdownV2(fullName)} ${usernameText}\n\n` +
-      `يرجى التواصل مع هذا البوت على الخاص حتى تتمكن من الانضمام إلى المجموعة\\.`;
+    const messageText = t(language, 'join.start_bot', { name: fullName, username: username ? `@${username}` : '' });
     
     const sentMessageId = await telegramService.sendMessage(
       chatId,
@@ -0,0 +1,306 @@
+import { Environment, InlineKeyboardButton } from '../../types';
+import { Member } from '../../types/membership-manager';
+import { TelegramService } from '../telegram';
+import { MemberSheetServices } from './member-sheet-services';
+import { JoinRequestsCrud } from '../../crud/join-requests';
+import { GroupsCrud } from '../../crud/groups';
+import { D1DatabaseConnection } from '../../crud/database';
+import { JoinRequest, JoinRequestAdminMessage } from '../../models/join-requests';
+import { GroupWithAdmins } from '../../models/groups';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { MemberPreferencesService } from '../member-preferences';
+import { DEFAULT_LANGUAGE, formatted, MessageKey, t, tText } from '../../i18n';
+import { isSuperAdmin } from '../../utils/helpers';
+
+// How long a request waits for an admin before it is declined, unless JOIN_REQUEST_EXPIRY_HOURS is set
+export const DEFAULT_JOIN_REQUEST_EXPIRY_HOURS = 48;
+
+/**
+ * Admin approval queue for groups with needs_admin_approval
+ * Every request is stored in join_requests and sent to the group admins with Approve/Decline buttons
+ */
+export class JoinRequestApprovalService {
+  private env: Environment;
+  private telegramService: TelegramService;
+  private memberSheetServices: MemberSheetServices;
+  private joinRequestsCrud: JoinRequestsCrud;
+  private groupsCrud: GroupsCrud;
+  private preferencesService: MemberPreferencesService;
+
+  constructor(env: Environment) {
+    this.env = env;
+    this.telegramService = new TelegramService(env);
+    this.memberSheetServices = new MemberSheetServices(env);
+    this.preferencesService = new MemberPreferencesService(env);
+    const db = new D1DatabaseConnection(env.DB);
+    this.joinRequestsCrud = new JoinRequestsCrud(db);
+    this.groupsCrud = new GroupsCrud(db);
+  }
+
+  /**
+   * Hours a request may stay pending, from JOIN_REQUEST_EXPIRY_HOURS
+   */
+  getExpiryHours(): number {
+    const hours = parseInt(this.env.JOIN_REQUEST_EXPIRY_HOURS || '');
+    return !isNaN(hours) && hours > 0 ? hours : DEFAULT_JOIN_REQUEST_EXPIRY_HOURS;
+  }
+
+  /**
+   * Queue a chat join request for admin approval and notify the group admins
+   * @param joinRequest The chat_join_request update
+   * @param group The stored group the request is for
+   */
+  async queueJoinRequest(joinRequest: any, group: GroupWithAdmins): Promise<void> {
+    const chatId = joinRequest.chat.id.toString();
+    const userId = joinRequest.from.id.toString();
+
+    // Telegram keeps one request per user, a repeated request doesn't need new DMs
+    const existing = await this.joinRequestsCrud.getPendingRequest(chatId, userId);
+    if (existing) {
+      console.log(`Join request of ${userId} for ${chatId} is already waiting for approval`);
+      return;
+    }
+
+    const member = await this.memberSheetServices.getMemberByTelegramId(userId);
+    const expiresAt = new Date(Date.now() + this.getExpiryHours() * 60 * 60 * 1000).toISOString();
+
+    const result = await this.joinRequestsCrud.createRequest({
+      chat_id: chatId,
+      user_id: userId,
+      username: joinRequest.from.username || null,
+      first_name: joinRequest.from.first_name || null,
+      last_name: joinRequest.from.last_name || null,
+      membership_number: member?.membership_number || null,
+      expires_at: expiresAt
+    });
+
+    if (!result.success || !result.id) {
+      console.error('Failed to store join request:', result.error);
+      return;
+    }
+
+    const request = await this.joinRequestsCrud.getById(result.id);
+    if (!request) return;
+
+    // DM every admin in their language; admins who never started the bot can't be reached
+    const adminMessages: JoinRequestAdminMessage[] = [];
+    for (const admin of group.admins) {
+      try {
+        const language = await this.preferencesService.getLanguage(admin.user_id);
+        const text = this.formatRequestMessage(request, group.title, member, language);
+        const keyboard: InlineKeyboardButton[][] = [[
+          { text: tText(language, 'join_request.approve_button'), callback_data: `jr_approve_${request.id}` },
+          { text: tText(language, 'join_request.decline_button'), callback_data: `jr_decline_${request.id}` }
+        ]];
+        const messageId = await this.telegramService.sendMessage(admin.user_id, text, undefined, keyboard);
+        if (messageId) {
+          adminMessages.push({ chat_id: admin.user_id, message_id: messageId });
+        }
+      } catch (error) {
+        console.warn(`Could not send join request ${request.id} to admin ${admin.user_id}:`, error);
+      }
+    }
+
+    if (adminMessages.length === 0) {
+      console.warn(`No admin of ${group.title} (${chatId}) could be notified about join request ${request.id}`);
+    }
+    await this.joinRequestsCrud.setAdminMessages(request.id, adminMessages);
+
+    // Let the requester know, if they started the bot
+    if (await this.telegramService.canSendMessageToUser(joinRequest.from.id)) {
+      try {
+        const language = await this.preferencesService.getLanguage(userId, joinRequest.from.language_code);
+        await this.telegramService.sendMessage(
+          joinRequest.from.id,
+          t(language, 'join_request.requester_pending', { name: this.getFullName(request), group: group.title })
+        );
+      } catch (error) {
+        console.error('Error notifying requester about pending approval:', error);
+      }
+    }
+  }
+
+  /**
+   * Approve or decline a pending request from an admin's button click
+   * @param requestId Join request ID
+   * @param approve Whether to approve or decline
+   * @param adminId Telegram ID of the admin who clicked
+   * @param language Language of the admin who clicked
+   * @returns The text to answer the callback query with
+   */
+  async handleDecision(
+    requestId: string,
+    approve: boolean,
+    adminId: number,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const request = await this.joinRequestsCrud.getById(requestId);
+      if (!request) {
+        return { success: false, message: tText(language, 'join_request.not_found_alert') };
+      }
+
+      const isAdmin = isSuperAdmin(this.env.SUPER_ADMIN_TELEGRAM_IDS, adminId) ||
+        await this.groupsCrud.isUserAdmin(request.chat_id, adminId.toString());
+      if (!isAdmin) {
+        return { success: false, message: tText(language, 'join_request.admin_only_alert') };
+      }
+
+      if (request.status !== 'pending') {
+        return { success: false, message: tText(language, 'join_request.already_decided_alert', { status: this.formatStatus(request.status, language) }) };
+      }
+
+      // Telegram first: if the requester withdrew, the request stays pending until it expires
+      try {
+        if (approve) {
+          await this.telegramService.approveChatJoinRequest(request.chat_id, parseInt(request.user_id));
+        } else {
+          await this.telegramService.declineChatJoinRequest(request.chat_id, parseInt(request.user_id));
+        }
+      } catch (error) {
+        console.error(`Failed to ${approve ? 'approve' : 'decline'} join request ${requestId}:`, error);
+        return { success: false, message: tText(language, 'join_request.action_failed_alert') };
+      }
+
+      const decided = await this.joinRequestsCrud.decideRequest(request.id, approve ? 'approved' : 'declined', adminId.toString());
+      if (!decided) {
+        return { success: false, message: tText(language, 'join_request.already_handled_alert') };
+      }
+
+      const updated = await this.joinRequestsCrud.getById(request.id);
+      if (updated) {
+        await this.updateAdminMessages(updated);
+        await this.notifyRequester(updated);
+      }
+
+      return { success: true, message: tText(language, approve ? 'join_request.approved_alert' : 'join_request.declined_alert') };
+    } catch (error) {
+      console.error('Error handling join request decision:', error);
+      return { success: false, message: tText(language, 'common.error_alert') };
+    }
+  }
+
+  /**
+   * Decline the pending requests that waited longer than the expiry period
+   * @returns Number of expired requests
+   */
+  async expirePendingRequests(): Promise<number> {
+    const expiredRequests = await this.joinRequestsCrud.getExpiredRequests();
+    let expired = 0;
+
+    for (const request of expiredRequests) {
+      try {
+        // The request may already be gone on Telegram's side, the row is expired either way
+        await this.telegramService.declineChatJoinRequest(request.chat_id, parseInt(request.user_id));
+      } catch (error) {
+        console.warn(`Failed to decline expired join request ${request.id}:`, error);
+      }
+
+      if (await this.joinRequestsCrud.decideRequest(request.id, 'expired', null)) {
+        expired++;
+        const updated = await this.joinRequestsCrud.getById(request.id);
+        if (updated) {
+          await this.updateAdminMessages(updated);
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Replace the buttons in every admin's DM with the decision, in the admin's language
+   * @param request The decided join request
+   */
+  private async updateAdminMessages(request: JoinRequest): Promise<void> {
+    const group = await this.groupsCrud.getGroupByChatId(request.chat_id);
+    const member = request.membership_number
+      ? await this.memberSheetServices.getMemberByMembershipNumber(request.membership_number)
+      : null;
+
+    for (const message of this.joinRequestsCrud.getAdminMessages(request)) {
+      try {
+        const language = await this.preferencesService.getLanguage(message.chat_id);
+        const text = this.formatRequestMessage(request, group?.title || request.chat_id, member, language) +
+          `\n\n${this.formatDecision(request, group, language)}`;
+        await this.telegramService.editMessage(message.chat_id, message.message_id, text);
+      } catch (error) {
+        console.warn(`Could not update join request message for admin ${message.chat_id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Tell the requester whether they were accepted, in their language
+   * @param request The decided join request
+   */
+  private async notifyRequester(request: JoinRequest): Promise<void> {
+    try {
+      const group = await this.groupsCrud.getGroupByChatId(request.chat_id);
+      const language = await this.preferencesService.getLanguage(request.user_id);
+      await this.telegramService.sendMessage(
+        request.user_id,
+        t(language, request.status === 'approved' ? 'join_request.requester_approved' : 'join_request.requester_declined', {
+          group: group?.title || ''
+        })
+      );
+    } catch (error) {
+      // The requester may never have started the bot
+      console.warn(`Could not notify ${request.user_id} about their join request:`, error);
+    }
+  }
+
+  /**
+   * Build the admin DM for a request
+   */
+  private formatRequestMessage(request: JoinRequest, groupTitle: string, member: Member | null, language: PreferredLanguage): string {
+    let memberInfo: string;
+    if (member) {
+      memberInfo = t(language, 'join_request.verified_member', {
+        membership_number: member.membership_number,
+        ar_name: member.ar_name || '-',
+        latin_name: member.latin_name || '-'
+      });
+    } else if (request.membership_number) {
+      memberInfo = t(language, 'join_request.verified_number', { membership_number: request.membership_number });
+    } else {
+      memberInfo = t(language, 'join_request.unverified');
+    }
+
+    return t(language, 'join_request.admin_request', {
+      group: groupTitle,
+      name: this.getFullName(request),
+      username: request.username ? `@${request.username}` : tText(language, 'join_request.no_username'),
+      user_id: request.user_id,
+      member: formatted(memberInfo)
+    });
+  }
+
+  /**
+   * Describe the decision for the admin DMs
+   */
+  private formatDecision(request: JoinRequest, group: GroupWithAdmins | null, language: PreferredLanguage): string {
+    if (request.status === 'expired') {
+      return t(language, 'join_request.expired_decision');
+    }
+
+    const admin = group?.admins.find(a => a.user_id === request.decided_by);
+    const adminName = admin
+      ? `${admin.first_name || ''} ${admin.last_name || ''}`.trim() || admin.username || admin.user_id
+      : request.decided_by || '';
+
+    return t(language, request.status === 'approved' ? 'join_request.approved_decision' : 'join_request.declined_decision', {
+      admin: adminName
+    });
+  }
+
+  private formatStatus(status: string, language: PreferredLanguage): string {
+    return ['approved', 'declined', 'expired'].includes(status)
+      ? tText(language, `join_request.status_${status}` as MessageKey)
+      : status;
+  }
+
+  private getFullName(request: JoinRequest): string {
+    return `${request.first_name || ''} ${request.last_name || ''}`.trim() || request.user_id;
+  }
+}
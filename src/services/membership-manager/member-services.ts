@@ -1,7 +1,11 @@
-import { TelegramService } from '../telegram';
+import { TelegramService, describeTelegramError } from '../telegram';
 import { MemberSheetServices } from './member-sheet-services';
-import { Environment } from '../../types';
+import { Environment, InlineKeyboardButton } from '../../types';
 import { Member } from '../../types/membership-manager';
+import { OutboxService } from '../outbox';
+import { OutboxCategory } from '../../models/outbox';
+import { NotificationPreferenceKey } from '../../models/member-preferences';
+import { MemberPreferencesService } from '../member-preferences';
 
 export async function sendMessageToMember(
   env: Environment, 
@@ -9,7 +13,9 @@ export async function sendMessageToMember(
   message: string, 
   boxes: Array<{ text: string, link: string }>, 
   photo?: string | Blob,
-  cachedMember?: Member | null // Optional: pass cached member to avoid extra API calls
+  cachedMember?: Member | null, // Optional: pass cached member to avoid extra API calls
+  inlineKeyboard?: InlineKeyboardButton[][], // Optional: callback buttons for text messages without boxes
+  outbox?: { category: OutboxCategory; referenceId?: string; preference?: NotificationPreferenceKey } // Optional: how text messages are filed in the outbox, and the preference of the member they obey
 ) {
   try {
     const telegramService = new TelegramService(env);
@@ -40,6 +46,22 @@ export async function sendMessageToMember(
       };
     }
 
+    // Messages of a kind the member turned off in /settings are not sent; text messages wait for the end of their quiet hours
+    let notBefore: string | undefined;
+    if (outbox?.preference) {
+      const preferencesService = new MemberPreferencesService(env);
+      const delivery = await preferencesService.checkDelivery(String(member.telegram_id), outbox.preference);
+      if (!delivery.send) {
+        return {
+          success: false,
+          error: 'Member turned off these notifications',
+          errorCode: 'OPTED_OUT',
+          member: member
+        };
+      }
+      notBefore = delivery.notBefore;
+    }
+
     // Send message/photo with or without boxes
     if (photo) {
       // Send photo with caption
@@ -77,9 +99,37 @@ export async function sendMessageToMember(
           };
         }
 
-        await telegramService.sendMessageWithBoxes(member.telegram_id, message, validBoxes);
-      } else {
-        await telegramService.sendMessage(member.telegram_id, message);
+        inlineKeyboard = validBoxes.map(box => [{ text: box.text, url: box.link }]);
+      }
+
+      // Text messages go through the outbox, which retries them when Telegram can't take them now
+      const outboxService = new OutboxService(env);
+      const delivery = await outboxService.send({
+        chat_id: String(member.telegram_id),
+        text: message,
+        inline_keyboard: inlineKeyboard,
+        category: outbox?.category || 'member',
+        reference_id: outbox?.referenceId,
+        not_before: notBefore
+      });
+
+      if (delivery.status === 'failed') {
+        return {
+          success: false,
+          error: delivery.error || 'Internal server error',
+          errorCode: delivery.errorCode || 'UNKNOWN_ERROR',
+          member: member
+        };
+      }
+
+      if (delivery.status === 'pending') {
+        return {
+          success: true,
+          queued: true,
+          message: `Message queued for ${member.latin_name} (${member.membership_number})`,
+          telegram_id: member.telegram_id,
+          member: member
+        };
       }
     }
 
@@ -93,31 +143,7 @@ export async function sendMessageToMember(
     console.error('Notify member error:', error);
     
     // Parse Telegram API errors
-    let errorCode = 'UNKNOWN_ERROR';
-    let errorMessage = 'Internal server error';
-    
-    if (error instanceof Error) {
-      errorMessage = error.message;
-      
-      // Check for common Telegram API errors
-      if (errorMessage.includes('403') || errorMessage.includes('Forbidden')) {
-        errorCode = 'BOT_BLOCKED';
-        errorMessage = 'User has blocked the bot';
-      } else if (errorMessage.includes('400') || errorMessage.includes('Bad Request')) {
-        if (errorMessage.includes('chat not found') || errorMessage.includes('user not found')) {
-          errorCode = 'CHAT_NOT_FOUND';
-          errorMessage = 'Chat or user not found';
-        } else if (errorMessage.includes('need member')) {
-          errorCode = 'NOT_STARTED';
-          errorMessage = 'User has not started the bot';
-        } else {
-          errorCode = 'BAD_REQUEST';
-        }
-      } else if (errorMessage.includes('429')) {
-        errorCode = 'RATE_LIMIT';
-        errorMessage = 'Rate limit exceeded';
-      }
-    }
+    const { errorCode, errorMessage } = describeTelegramError(error);
     
     return { 
       success: false,
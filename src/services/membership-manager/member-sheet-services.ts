@@ -1,30 +1,43 @@
 import { Member, MemberUpdate } from '../../types/membership-manager';
 import { Environment, MemberGoogleSheetIndex } from '../../types';
 import { GoogleSheetsService } from '../google-sheets';
+import { MembersMirrorService } from '../../crud/membership-manager/members';
 
+// Reads go to the D1 members mirror (kept in sync by syncMembers), writes go to both the sheet and the mirror.
+// Until the first sync the mirror is empty and everything is read from the sheet.
 export class MemberSheetServices {
   private env: Environment;
   private sheetIndex: MemberGoogleSheetIndex;
   private googleSheetsService: GoogleSheetsService;
+  private membersMirror: MembersMirrorService;
 
   constructor(env: Environment) {
     this.env = env;
     this.sheetIndex = JSON.parse(env.MEMBER_GOOGLE_SHEET_INDEX);
     this.googleSheetsService = new GoogleSheetsService(env);
+    this.membersMirror = new MembersMirrorService(env);
   }
 
-
-
   async getMembers(): Promise<Member[]> {
+    if (await this.membersMirror.hasCompletedSync()) {
+      return this.membersMirror.getMembers();
+    }
+    return this.getMembersFromSheet();
+  }
+
+  /**
+   * Read all members directly from the Google Sheet
+   * Each member gets its 1-based sheet row (the header is row 1)
+   */
+  async getMembersFromSheet(): Promise<Array<Member & { sheet_row: number }>> {
     const range = 'A:Z'; // Get all data
     const data = await this.googleSheetsService.getSheetData(this.env.MEMBER_GOOGLE_SHEET_ID, range);
     
     if (data.length === 0) return [];
     
-    const headers = data[0];
     const rows = data.slice(1);
     
-    return rows.map((row: any[]) => ({
+    return rows.map((row: any[], index: number) => ({
       membership_number: this.googleSheetsService.getCellValue(row, this.sheetIndex.membership_number),
       ar_name: this.googleSheetsService.getCellValue(row, this.sheetIndex.ar_name),
       latin_name: this.googleSheetsService.getCellValue(row, this.sheetIndex.latin_name),
@@ -35,26 +48,38 @@ export class MemberSheetServices {
       phone: this.googleSheetsService.getCellValue(row, this.sheetIndex.phone),
       telegram_id: this.googleSheetsService.getCellValue(row, this.sheetIndex.telegram_id),
       telegram_username: this.googleSheetsService.getCellValue(row, this.sheetIndex.telegram_username),
+      sheet_row: index + 2,
     }));
   }
 
   async getMemberByEmail(email: string): Promise<Member | null> {
-    const members = await this.getMembers();
-    return members.find(member => member.email === email) || null;
+    const member = await this.membersMirror.getMemberByEmail(email);
+    if (member) return member;
+
+    // Members added to the sheet since the last sync aren't mirrored yet
+    return this.findInSheet(m => m.email === email);
   }
 
   async getMemberByMembershipNumber(membershipNumber: string): Promise<Member | null> {
-    const members = await this.getMembers();
-    return members.find(member => member.membership_number === membershipNumber) || null;
+    const member = await this.membersMirror.getMemberByMembershipNumber(membershipNumber);
+    if (member) return member;
+
+    // Members added to the sheet since the last sync aren't mirrored yet
+    return this.findInSheet(m => m.membership_number === membershipNumber);
   }
 
   async getMemberByTelegramId(telegramId: string): Promise<Member | null> {
-    const members = await this.getMembers();
-    return members.find(member => member.telegram_id === telegramId) || null;
+    const member = await this.membersMirror.getMemberByTelegramId(telegramId);
+    if (member) return member;
+
+    // Most unknown Telegram IDs are simply unverified users, so only go to the sheet before the first sync
+    if (await this.membersMirror.hasCompletedSync()) return null;
+    return this.findInSheet(m => m.telegram_id === telegramId);
   }
 
   async updateMember(memberUpdate: MemberUpdate): Promise<void> {
-    const members = await this.getMembers();
+    // Always locate the row in the sheet itself, the mirrored row number may be outdated
+    const members = await this.getMembersFromSheet();
     const memberIndex = members.findIndex(m => m.membership_number === memberUpdate.membership_number);
     
     if (memberIndex === -1) {
@@ -88,6 +113,56 @@ export class MemberSheetServices {
           data: updates
         })
       });
+
+      await this.membersMirror.upsertMembers([{
+        ...members[memberIndex],
+        telegram_id: memberUpdate.telegram_id || members[memberIndex].telegram_id,
+        telegram_username: memberUpdate.telegram_username || members[memberIndex].telegram_username
+      }], null);
+    }
+  }
+
+  /**
+   * Copy the member sheet into the D1 members table
+   * Members removed from the sheet are removed from the mirror too
+   */
+  async syncMembers(): Promise<{ synced: number; removed: number }> {
+    const members = (await this.getMembersFromSheet()).filter(member => member.membership_number);
+
+    // An empty read is more likely a sheet/config problem than an empty organization, keep the mirror as is
+    if (members.length === 0) {
+      console.warn('Member sheet returned no members, skipping sync');
+      return { synced: 0, removed: 0 };
+    }
+
+    const syncedAt = new Date().toISOString();
+    const success = await this.membersMirror.upsertMembers(members, syncedAt);
+    if (!success) {
+      throw new Error('Failed to write members to D1');
+    }
+
+    const removed = await this.membersMirror.deleteMembersNotSyncedAt(syncedAt);
+    console.log(`Synced ${members.length} members from sheet, removed ${removed}`);
+
+    return { synced: members.length, removed };
+  }
+
+  /**
+   * Look up a member in the sheet and mirror it right away
+   * Returns null if the sheet can't be read
+   */
+  private async findInSheet(predicate: (member: Member) => boolean): Promise<Member | null> {
+    try {
+      const members = await this.getMembersFromSheet();
+      const member = members.find(predicate);
+      if (!member) return null;
+
+      await this.membersMirror.upsertMembers([member], null);
+      const { sheet_row, ...rest } = member;
+      return rest;
+    } catch (error) {
+      console.error('Error reading member from sheet:', error);
+      return null;
     }
   }
 }
\ No newline at end of file
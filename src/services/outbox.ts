@@ -0,0 +1,241 @@
+import { Environment, InlineKeyboardButton } from '../types';
+import { TelegramService, TelegramApiError, describeTelegramError } from './telegram';
+import { OutboxCrud } from '../crud/outbox';
+import { D1DatabaseConnection } from '../crud/database';
+import { OutboxMessage, OutboxMessageModel, OutboxStatus } from '../models/outbox';
+
+// Attempts before a message that keeps failing with a server or network error is given up
+export const OUTBOX_MAX_ATTEMPTS = 5;
+// Delay before the first retry, doubled on every further attempt
+const RETRY_BASE_SECONDS = 30;
+// How long a dispatcher owns a message it is sending
+const CLAIM_SECONDS = 60;
+// Waits for a free slot up to this long, longer waits leave the message for the next dispatch
+const MAX_WAIT_MS = 1000;
+
+// Telegram allows about 30 messages per second in total, one per second in a private chat
+// and 20 per minute in a group; the buckets stay a little under that and allow short bursts
+const GLOBAL_LIMIT = { burst: 25, perSecond: 25 };
+const PRIVATE_CHAT_LIMIT = { burst: 3, perSecond: 1 };
+const GROUP_CHAT_LIMIT = { burst: 3, perSecond: 20 / 60 };
+
+export interface OutboxDeliveryResult {
+  status: OutboxStatus;
+  id?: string;
+  messageId?: number;
+  error?: string;
+  errorCode?: string;
+}
+
+/**
+ * Token buckets for the Telegram send limits, shared by the requests of an isolate
+ */
+class TelegramRateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private pausedUntil = 0;
+
+  /**
+   * Take a slot for a message to the chat
+   * @returns 0 when the slot was taken, otherwise the milliseconds to wait before asking again
+   */
+  reserve(chatId: string, now: number = Date.now()): number {
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+
+    const chatLimit = chatId.startsWith('-') ? GROUP_CHAT_LIMIT : PRIVATE_CHAT_LIMIT;
+    const global = this.refill('*', GLOBAL_LIMIT, now);
+    const chat = this.refill(chatId, chatLimit, now);
+
+    if (global.tokens >= 1 && chat.tokens >= 1) {
+      global.tokens -= 1;
+      chat.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil(Math.max(
+      (1 - global.tokens) / GLOBAL_LIMIT.perSecond,
+      (1 - chat.tokens) / chatLimit.perSecond
+    ) * 1000);
+  }
+
+  // Stop all sending after Telegram answered 429 Too Many Requests
+  pause(seconds: number, now: number = Date.now()): void {
+    this.pausedUntil = Math.max(this.pausedUntil, now + seconds * 1000);
+  }
+
+  private refill(key: string, limit: { burst: number; perSecond: number }, now: number) {
+    const bucket = this.buckets.get(key) || { tokens: limit.burst, updatedAt: now };
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) / 1000 * limit.perSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+}
+
+// A Worker isolate gets the same env object for all its requests
+const rateLimiters = new WeakMap<Environment, TelegramRateLimiter>();
+
+/**
+ * Outgoing message queue
+ * Messages are stored in outbox_messages, sent within the Telegram rate limits and retried with backoff,
+ * so the final delivery status of every broadcast, task notification and shame message is recorded
+ * Only the first attempt is made when a message is queued. Retries, 429 back-offs and messages held by
+ * quiet hours are sent by handleOutboxDispatch, which runs every 5 minutes around the clock from its own cron.
+ * With dispatch(100) on every run the queue drains at most about 1,200 messages an hour
+ */
+export class OutboxService {
+  private telegramService: TelegramService;
+  private outboxCrud: OutboxCrud;
+  private rateLimiter: TelegramRateLimiter;
+
+  constructor(env: Environment) {
+    this.telegramService = new TelegramService(env);
+    this.outboxCrud = new OutboxCrud(new D1DatabaseConnection(env.DB));
+
+    let rateLimiter = rateLimiters.get(env);
+    if (!rateLimiter) {
+      rateLimiter = new TelegramRateLimiter();
+      rateLimiters.set(env, rateLimiter);
+    }
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Queue a message and try to send it right away
+   * A message that can't be sent yet stays pending and is sent by a later dispatch
+   */
+  async send(message: OutboxMessageModel): Promise<OutboxDeliveryResult> {
+    // Messages held back by the quiet hours of the recipient are left to the dispatch after them
+    if (message.not_before && Date.parse(message.not_before) > Date.now()) {
+      const result = await this.outboxCrud.enqueue(message, message.not_before);
+      if (!result.success || !result.id) {
+        console.error('Error queueing outgoing message:', result.error);
+        return { status: 'failed', error: result.error || 'Could not queue the message', errorCode: 'UNKNOWN_ERROR' };
+      }
+      return { status: 'pending', id: result.id };
+    }
+
+    // Queued as already claimed, so a dispatcher running at the same time leaves it to us
+    const result = await this.outboxCrud.enqueue(message, this.secondsFromNow(CLAIM_SECONDS));
+    if (!result.success || !result.id) {
+      console.error('Error queueing outgoing message:', result.error);
+      return { status: 'failed', error: result.error || 'Could not queue the message', errorCode: 'UNKNOWN_ERROR' };
+    }
+
+    return await this.deliver({
+      id: result.id,
+      chat_id: message.chat_id,
+      text: message.text,
+      parse_mode: message.parse_mode || 'MarkdownV2',
+      reply_markup: message.inline_keyboard && message.inline_keyboard.length > 0 ? JSON.stringify(message.inline_keyboard) : null,
+      attempts: 0
+    });
+  }
+
+  /**
+   * Queue messages for the next dispatch
+   * @returns Number of messages queued
+   */
+  async enqueue(messages: OutboxMessageModel[]): Promise<number> {
+    let queued = 0;
+    for (const message of messages) {
+      const result = await this.outboxCrud.enqueue(message, message.not_before);
+      if (result.success) {
+        queued++;
+      } else {
+        console.error(`Error queueing message to ${message.chat_id}:`, result.error);
+      }
+    }
+    return queued;
+  }
+
+  /**
+   * Send the pending messages that are due, oldest first
+   * Stops when the rate limits leave no slot, the rest waits for the next dispatch
+   * @param limit Number of messages to handle
+   */
+  async dispatch(limit: number = 100): Promise<{ sent: number; failed: number; pending: number }> {
+    const counts = { sent: 0, failed: 0, pending: 0 };
+    const messages = await this.outboxCrud.getDueMessages(limit);
+
+    for (const message of messages) {
+      if (!(await this.outboxCrud.claim(message, this.secondsFromNow(CLAIM_SECONDS)))) {
+        continue; // Taken by another dispatcher
+      }
+
+      const result = await this.deliver(message);
+      counts[result.status]++;
+
+      if (result.status === 'pending' && result.errorCode === 'RATE_LIMIT') {
+        break;
+      }
+    }
+
+    if (messages.length > 0) {
+      console.log(`Outbox dispatch: ${counts.sent} sent, ${counts.failed} failed, ${counts.pending} pending`);
+    }
+    return counts;
+  }
+
+  /**
+   * Send one claimed message and record the result
+   */
+  private async deliver(
+    message: Pick<OutboxMessage, 'id' | 'chat_id' | 'text' | 'parse_mode' | 'reply_markup' | 'attempts'>
+  ): Promise<OutboxDeliveryResult> {
+    // Wait for a free slot when it comes soon, otherwise leave the message for a later dispatch
+    let wait = this.rateLimiter.reserve(message.chat_id);
+    while (wait > 0 && wait <= MAX_WAIT_MS) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+      wait = this.rateLimiter.reserve(message.chat_id);
+    }
+    if (wait > 0) {
+      await this.outboxCrud.update(message.id, { next_attempt_at: new Date(Date.now() + wait).toISOString() });
+      return { status: 'pending', id: message.id, errorCode: 'RATE_LIMIT' };
+    }
+
+    let inlineKeyboard: InlineKeyboardButton[][] | undefined;
+    if (message.reply_markup) {
+      try {
+        inlineKeyboard = JSON.parse(message.reply_markup);
+      } catch (error) {
+        console.error(`Invalid reply markup in outbox message ${message.id}:`, error);
+      }
+    }
+
+    try {
+      const messageId = await this.telegramService.sendMessage(message.chat_id, message.text, message.parse_mode, inlineKeyboard);
+      await this.outboxCrud.markSent(message.id, message.attempts + 1, messageId);
+      return { status: 'sent', id: message.id, messageId };
+    } catch (error) {
+      const { errorCode, errorMessage } = describeTelegramError(error);
+      const attempts = message.attempts + 1;
+
+      // Too many requests: wait as long as Telegram asks, without counting the attempt
+      if (error instanceof TelegramApiError && error.status === 429) {
+        const retryAfter = error.retryAfter || RETRY_BASE_SECONDS;
+        this.rateLimiter.pause(retryAfter);
+        await this.outboxCrud.markRetry(message.id, message.attempts, this.secondsFromNow(retryAfter), errorMessage, errorCode);
+        return { status: 'pending', id: message.id, error: errorMessage, errorCode };
+      }
+
+      // Server and network errors may pass, other Telegram errors (blocked, chat not found, bad request) won't
+      const retryable = !(error instanceof TelegramApiError) || error.status >= 500;
+      if (retryable && attempts < OUTBOX_MAX_ATTEMPTS) {
+        const delay = RETRY_BASE_SECONDS * 2 ** (attempts - 1);
+        await this.outboxCrud.markRetry(message.id, attempts, this.secondsFromNow(delay), errorMessage, errorCode);
+        console.warn(`Message ${message.id} to ${message.chat_id} failed, retrying in ${delay}s:`, errorMessage);
+        return { status: 'pending', id: message.id, error: errorMessage, errorCode };
+      }
+
+      await this.outboxCrud.markFailed(message.id, attempts, errorMessage, errorCode);
+      console.error(`Message ${message.id} to ${message.chat_id} failed:`, errorMessage);
+      return { status: 'failed', id: message.id, error: errorMessage, errorCode };
+    }
+  }
+
+  private secondsFromNow(seconds: number): string {
+    return new Date(Date.now() + seconds * 1000).toISOString();
+  }
+}
@@ -0,0 +1,303 @@
+import { DatabaseConnection } from '../../crud/base';
+import { TaskCrud } from '../../crud/task-follower/task';
+import { ActivityCrud } from '../../crud/task-follower/activity';
+import { TaskEventsCrud } from '../../crud/task-follower/task-event';
+import { Task } from '../../models/task-follower/task';
+import { TelegramService } from '../telegram';
+import { MemberPreferencesService } from '../member-preferences';
+import { Environment } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { escapeMarkdownV2, formatDate } from '../../utils/helpers';
+import { DEFAULT_LANGUAGE, formatted, MessageKey, t } from '../../i18n';
+
+// Days without task movement before a project or an owner counts as inactive, unless INACTIVE_PROJECT_DAYS is set
+export const DEFAULT_INACTIVE_PROJECT_DAYS = 3;
+
+// A manager gets at most one activity report a day for each project
+const ACTIVITY_REPORT_INTERVAL_HOURS = 24;
+
+// Projects listed in each section of the admin summary
+const SUMMARY_PROJECTS_SHOWN = 5;
+
+// Tasks due within this many days count as due soon in the admin summary
+const DUE_SOON_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OwnerActivity {
+  ownerID: string;
+  ownerName: string;
+  open: number;
+  overdue: number;
+  blocked: number;
+  completed: number; // Completed within the inactivity window
+  lastMovement: string; // ISO date of the last change of one of the owner's tasks
+  inactive: boolean;
+}
+
+export interface ProjectActivity {
+  sheetID: string;
+  projectName: string;
+  managerID: string;
+  managerName: string;
+  manager_telegram_id?: string | null;
+  lastMovement: string;
+  inactive: boolean; // No movement on any open task of the project
+  owners: OwnerActivity[];
+}
+
+/**
+ * Activity reports of the task sheets:
+ * - Managers get the activity of each owner when their project or some of its owners stop moving
+ * - The admin chat gets a daily summary of the overdue, due soon and blocked work of the organization
+ * A task moves when it is created or changed, from the sheet or from Telegram; notifications don't count
+ */
+export class ActivityReportService {
+  private taskCrud: TaskCrud;
+  private activityCrud: ActivityCrud;
+  private taskEventsCrud: TaskEventsCrud;
+  private telegramService: TelegramService;
+  private preferencesService: MemberPreferencesService;
+  private env: Environment;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.env = env;
+    this.taskCrud = new TaskCrud(db);
+    this.activityCrud = new ActivityCrud(db);
+    this.taskEventsCrud = new TaskEventsCrud(db);
+    this.telegramService = new TelegramService(env);
+    this.preferencesService = new MemberPreferencesService(env);
+  }
+
+  /**
+   * Days without movement before a project counts as inactive, from INACTIVE_PROJECT_DAYS
+   */
+  getInactiveDays(): number {
+    const days = parseInt(this.env.INACTIVE_PROJECT_DAYS || '');
+    return !isNaN(days) && days > 0 ? days : DEFAULT_INACTIVE_PROJECT_DAYS;
+  }
+
+  /**
+   * Send the owner activity of a project to its manager when the project or one of its owners is inactive
+   * Called after each check of the project, a manager is reported to once per ACTIVITY_REPORT_INTERVAL_HOURS
+   * @param sheetId Sheet ID
+   * @param projectName Project (tab) name
+   * @param manager Membership number and name of the manager (the owner of the first row)
+   * @returns Whether a report was sent
+   */
+  async reportProjectActivity(sheetId: string, projectName: string, manager: { number: string; name1: string }): Promise<boolean> {
+    try {
+      const tasks = (await this.taskCrud.getBySheetId(sheetId)).filter(task => task.projectName === projectName);
+      const managerTelegramId = tasks.find(task => task.manager_telegram_id)?.manager_telegram_id;
+
+      const activity = await this.activityCrud.getOrCreate(manager.number, manager.name1, projectName, managerTelegramId);
+      if (!activity || !this.isReportDue(activity.last_reported)) {
+        return false;
+      }
+
+      const projectActivity = this.getProjectActivity(tasks, await this.taskEventsCrud.getLastMovements(sheetId));
+      if (!projectActivity || !projectActivity.owners.some(owner => owner.inactive)) {
+        return false;
+      }
+
+      if (!managerTelegramId) {
+        console.log(`Manager ${manager.number} of ${projectName} has no Telegram ID, activity report not sent`);
+        return false;
+      }
+
+      // Turned off in /settings, or held back until the quiet hours of the manager end by a later check
+      const settings = await this.preferencesService.getSettings(managerTelegramId);
+      const delivery = this.preferencesService.getDelivery(settings, 'group_summaries');
+      if (!delivery.send || delivery.notBefore) {
+        console.log(`Manager ${manager.number} of ${projectName} ${delivery.send ? 'is in quiet hours' : 'turned off activity reports'}, activity report not sent`);
+        return false;
+      }
+
+      await this.telegramService.sendMessage(managerTelegramId, this.formatProjectReport(projectActivity, settings.language));
+      await this.activityCrud.updateLastReported(activity.id!);
+      console.log(`Sent activity report of ${projectName} to manager ${manager.number}`);
+      return true;
+    } catch (error) {
+      console.error(`Error reporting activity of ${projectName}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the projects of all sheets with no movement on their open tasks
+   */
+  async getInactiveProjects(): Promise<ProjectActivity[]> {
+    const [tasks, lastMovements] = await Promise.all([
+      this.taskCrud.getAll(),
+      this.taskEventsCrud.getLastMovements()
+    ]);
+
+    const projects = new Map<string, Task[]>();
+    for (const task of tasks) {
+      const key = `${task.sheetID}\n${task.projectName}`;
+      projects.set(key, [...(projects.get(key) || []), task]);
+    }
+
+    return [...projects.values()]
+      .map(projectTasks => this.getProjectActivity(projectTasks, lastMovements))
+      .filter((project): project is ProjectActivity => !!project?.inactive)
+      .sort((a, b) => a.lastMovement.localeCompare(b.lastMovement));
+  }
+
+  /**
+   * Send the daily summary of overdue, due soon and blocked tasks to ADMIN_CHAT_ID, in the default language
+   * @returns The counts of the summary and whether it was sent
+   */
+  async sendAdminSummary(): Promise<{ sent: boolean; overdue: number; dueSoon: number; blocked: number; inactiveProjects: number }> {
+    const [overdue, dueSoon, blocked, inactiveProjects] = await Promise.all([
+      this.taskCrud.getOverdueTasks(),
+      this.taskCrud.getTasksDueSoon(DUE_SOON_DAYS),
+      this.taskCrud.getBlockedTasks(),
+      this.getInactiveProjects()
+    ]);
+    const counts = { overdue: overdue.length, dueSoon: dueSoon.length, blocked: blocked.length, inactiveProjects: inactiveProjects.length };
+
+    if (!this.env.ADMIN_CHAT_ID) {
+      console.warn('ADMIN_CHAT_ID is not set, daily activity summary not sent');
+      return { sent: false, ...counts };
+    }
+
+    const language = DEFAULT_LANGUAGE;
+    let text = t(language, 'activity.summary', {
+      date: new Date().toLocaleDateString('en-CA'),
+      overdue: overdue.length,
+      days: DUE_SOON_DAYS,
+      due_soon: dueSoon.length,
+      blocked: blocked.length
+    }) + '\n';
+
+    text += this.formatProjectCounts(language, 'activity.summary_overdue_projects', overdue);
+    text += this.formatProjectCounts(language, 'activity.summary_blocked_projects', blocked);
+
+    if (inactiveProjects.length > 0) {
+      text += `\n${t(language, 'activity.summary_inactive_projects', { days: this.getInactiveDays() })}\n` +
+        inactiveProjects.slice(0, SUMMARY_PROJECTS_SHOWN).map(project => t(language, 'activity.summary_inactive_project', {
+          project: project.projectName,
+          manager: project.managerName,
+          date: formatDate(project.lastMovement, project.lastMovement)
+        })).join('\n') + '\n';
+      if (inactiveProjects.length > SUMMARY_PROJECTS_SHOWN) {
+        text += `${t(language, 'activity.summary_more_projects', { count: inactiveProjects.length - SUMMARY_PROJECTS_SHOWN })}\n`;
+      }
+    }
+
+    if (overdue.length === 0 && blocked.length === 0 && inactiveProjects.length === 0) {
+      text += `\n${t(language, 'activity.summary_all_clear')}`;
+    }
+
+    try {
+      await this.telegramService.sendMessage(this.env.ADMIN_CHAT_ID, text);
+      return { sent: true, ...counts };
+    } catch (error) {
+      console.error('Error sending daily activity summary:', error);
+      return { sent: false, ...counts };
+    }
+  }
+
+  // The activity of a project and its owners, null when the project has no open tasks
+  private getProjectActivity(tasks: Task[], lastMovements: Map<string, string>): ProjectActivity | null {
+    const now = Date.now();
+    const inactiveSince = now - this.getInactiveDays() * DAY_MS;
+    const isOpen = (task: Task) => !task.completed_at && task.status.toLowerCase() !== 'completed';
+    const movedAt = (task: Task) => lastMovements.get(task.id!) || new Date(task.created_at).toISOString();
+
+    if (!tasks.some(isOpen)) {
+      return null;
+    }
+
+    const owners = new Map<string, OwnerActivity>();
+    for (const task of tasks) {
+      if (!task.ownerID || task.ownerID === '0') continue;
+
+      const owner = owners.get(task.ownerID) || {
+        ownerID: task.ownerID,
+        ownerName: task.ownerName,
+        open: 0,
+        overdue: 0,
+        blocked: 0,
+        completed: 0,
+        lastMovement: '',
+        inactive: false
+      };
+
+      if (isOpen(task)) {
+        owner.open++;
+        if (task.blocked_at) owner.blocked++;
+        if (task.dueDate && new Date(task.dueDate).getTime() < now) owner.overdue++;
+      } else if (task.completed_at && new Date(task.completed_at).getTime() >= inactiveSince) {
+        owner.completed++;
+      }
+
+      const moved = movedAt(task);
+      if (moved > owner.lastMovement) owner.lastMovement = moved;
+      owners.set(task.ownerID, owner);
+    }
+
+    // Blocked tasks wait on someone else, so only owners with open work that isn't blocked can be inactive
+    for (const owner of owners.values()) {
+      owner.inactive = owner.open > owner.blocked && new Date(owner.lastMovement).getTime() < inactiveSince;
+    }
+
+    const lastMovement = tasks.map(movedAt).reduce((latest, moved) => moved > latest ? moved : latest, '');
+    const manager = tasks[0];
+    return {
+      sheetID: manager.sheetID,
+      projectName: manager.projectName,
+      managerID: manager.managerID || '',
+      managerName: manager.managerName,
+      manager_telegram_id: manager.manager_telegram_id,
+      lastMovement,
+      inactive: new Date(lastMovement).getTime() < inactiveSince,
+      owners: [...owners.values()]
+        .filter(owner => owner.open > 0 || owner.completed > 0)
+        .sort((a, b) => a.lastMovement.localeCompare(b.lastMovement))
+    };
+  }
+
+  private formatProjectReport(project: ProjectActivity, language: PreferredLanguage): string {
+    const days = this.getInactiveDays();
+    let text = `${t(language, 'activity.project_title', { project: project.projectName })}\n\n`;
+
+    text += `${t(language, project.inactive ? 'activity.project_inactive' : 'activity.owners_inactive', { days })}\n\n`;
+
+    text += project.owners.map(owner => {
+      const icon = owner.inactive ? '⏸️' : '✅';
+      const line = t(language, 'activity.owner', {
+        name: owner.ownerName,
+        open: owner.open,
+        overdue: formatted(owner.overdue > 0 ? t(language, 'activity.owner_overdue', { count: owner.overdue }) : ''),
+        blocked: formatted(owner.blocked > 0 ? t(language, 'activity.owner_blocked', { count: owner.blocked }) : ''),
+        completed: owner.completed
+      });
+      return `${icon} ${line}\n     ${t(language, 'activity.last_movement', { date: formatDate(owner.lastMovement, owner.lastMovement) })}`;
+    }).join('\n');
+
+    text += `\n\n${t(language, 'activity.project_footer')}`;
+    return text;
+  }
+
+  // Lines of the projects with the most tasks of a list
+  private formatProjectCounts(language: PreferredLanguage, title: MessageKey, tasks: Task[]): string {
+    const counts = new Map<string, number>();
+    for (const task of tasks) {
+      counts.set(task.projectName, (counts.get(task.projectName) || 0) + 1);
+    }
+    if (counts.size === 0) return '';
+
+    return `\n${t(language, title)}\n` + [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SUMMARY_PROJECTS_SHOWN)
+      .map(([projectName, count]) => `• ${escapeMarkdownV2(projectName)}: ${count}`)
+      .join('\n') + '\n';
+  }
+
+  private isReportDue(lastReported?: Date | string | null): boolean {
+    if (!lastReported) return true;
+    return Date.now() - new Date(lastReported).getTime() >= ACTIVITY_REPORT_INTERVAL_HOURS * 60 * 60 * 1000;
+  }
+}
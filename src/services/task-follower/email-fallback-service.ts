@@ -0,0 +1,87 @@
+import { DatabaseConnection } from '../../crud/base';
+import { EmailNotificationsCrud } from '../../crud/task-follower/email-notification';
+import { EmailNotificationKind } from '../../models/task-follower/email-notification';
+import { TaskModel } from '../../models/task-follower/task';
+import { EmailService } from '../email';
+import { DEFAULT_BOT_USERNAME } from '../telegram';
+import { Environment } from '../../types';
+import { formatDate, formatPriorityToArabic, validateEmail } from '../../utils/helpers';
+
+// Telegram errors the owner can fix by linking Telegram, so the notice is emailed meanwhile
+export const EMAIL_FALLBACK_ERROR_CODES = ['NO_TELEGRAM_ID', 'BOT_BLOCKED', 'NOT_STARTED'];
+// Emails a member gets in 24 hours, unless EMAIL_FALLBACK_DAILY_LIMIT is set
+export const DEFAULT_EMAIL_FALLBACK_DAILY_LIMIT = 3;
+
+/**
+ * Email fallback for task notices that could not be sent on Telegram
+ * New task, reminder and late notices go to the owner's email from the contacts tab, a few a day at most
+ */
+export class EmailFallbackService {
+  private env: Environment;
+  private emailService: EmailService;
+  private emailNotificationsCrud: EmailNotificationsCrud;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.env = env;
+    this.emailService = new EmailService(env);
+    this.emailNotificationsCrud = new EmailNotificationsCrud(db);
+  }
+
+  /**
+   * Emails a member may get in 24 hours, from EMAIL_FALLBACK_DAILY_LIMIT (0 turns the fallback off)
+   */
+  getDailyLimit(): number {
+    const limit = parseInt(this.env.EMAIL_FALLBACK_DAILY_LIMIT || '');
+    return !isNaN(limit) && limit >= 0 ? limit : DEFAULT_EMAIL_FALLBACK_DAILY_LIMIT;
+  }
+
+  shouldFallback(errorCode: string): boolean {
+    return EMAIL_FALLBACK_ERROR_CODES.includes(errorCode);
+  }
+
+  /**
+   * Email a task notice to its owner
+   * @param errorCode Why the notice could not be sent on Telegram
+   * @returns Whether the email was sent, and otherwise why not
+   */
+  async sendTaskEmail(
+    task: TaskModel,
+    kind: EmailNotificationKind,
+    taskId: string | undefined,
+    errorCode: string
+  ): Promise<{ sent: boolean; reason?: 'no_email' | 'daily_limit' | 'error' }> {
+    const email = task.ownerEmail?.trim();
+    if (!email || !validateEmail(email)) {
+      return { sent: false, reason: 'no_email' };
+    }
+
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    if (await this.emailNotificationsCrud.countSince(task.ownerID, since) >= this.getDailyLimit()) {
+      console.log(`Daily email limit reached for ${task.ownerID}, not emailing the ${kind} notice`);
+      return { sent: false, reason: 'daily_limit' };
+    }
+
+    try {
+      await this.emailService.sendTaskNotificationEmail(email, {
+        kind,
+        ownerName: task.ownerName || task.ownerID,
+        taskText: task.taskText,
+        projectName: task.projectName,
+        priorityAr: formatPriorityToArabic(task.priority || ''),
+        priorityEn: task.priority || '-',
+        dueDate: formatDate(task.dueDate),
+        notes: task.notes || '',
+        managerName: task.managerName || '-',
+        sheetUrl: `https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID}`,
+        botUrl: `https://t.me/${this.env.BOT_USERNAME || DEFAULT_BOT_USERNAME}`
+      });
+    } catch (error) {
+      console.error(`Error emailing the ${kind} notice to ${task.ownerID}:`, error);
+      return { sent: false, reason: 'error' };
+    }
+
+    await this.emailNotificationsCrud.record({ member_id: task.ownerID, email, task_id: taskId, kind, error_code: errorCode });
+    console.log(`Emailed the ${kind} notice to ${task.ownerName} instead of Telegram (${errorCode})`);
+    return { sent: true };
+  }
+}
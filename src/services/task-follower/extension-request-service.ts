@@ -0,0 +1,352 @@
+import { DatabaseConnection } from '../../crud/base';
+import { TaskCrud } from '../../crud/task-follower/task';
+import { ExtensionRequestsCrud } from '../../crud/task-follower/extension-request';
+import { TaskEventsCrud } from '../../crud/task-follower/task-event';
+import { ExtensionRequest } from '../../models/task-follower/extension-request';
+import { Task } from '../../models/task-follower/task';
+import { TelegramUserStateService } from '../../crud/membership-manager/telegram-user-state';
+import { TelegramService } from '../telegram';
+import { MemberPreferencesService } from '../member-preferences';
+import { TaskService } from './task-service';
+import { Environment, InlineKeyboardButton } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { DEFAULT_LANGUAGE, t, tText } from '../../i18n';
+import { formatDate } from '../../utils/helpers';
+
+// User states while the bot collects an extension request (see handleDateInput and handleReasonInput)
+export const WAITING_EXTENSION_DATE_STATE = 'waiting_extension_date';
+export const WAITING_EXTENSION_REASON_STATE = 'waiting_extension_reason';
+
+/**
+ * Due-date extension requests from the reminder and late task notifications
+ * The owner sends a new date and a reason, the project manager approves or rejects it from their DM
+ * On approval the Delivery date is written to the sheet first, then to the tasks table
+ */
+export class ExtensionRequestService {
+  private taskCrud: TaskCrud;
+  private extensionRequestsCrud: ExtensionRequestsCrud;
+  private taskEventsCrud: TaskEventsCrud;
+  private taskService: TaskService;
+  private telegramService: TelegramService;
+  private userStateService: TelegramUserStateService;
+  private preferencesService: MemberPreferencesService;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.taskCrud = new TaskCrud(db);
+    this.extensionRequestsCrud = new ExtensionRequestsCrud(db);
+    this.taskEventsCrud = new TaskEventsCrud(db);
+    this.taskService = new TaskService(db, env);
+    this.telegramService = new TelegramService(env);
+    this.userStateService = new TelegramUserStateService(env);
+    this.preferencesService = new MemberPreferencesService(env);
+  }
+
+  /**
+   * Start an extension request from the "Request extension" button
+   * @param taskId Task ID from the callback data
+   * @param telegramId Telegram ID of the user who clicked
+   * @param language Language of the user who clicked
+   * @returns The text to answer the callback query with
+   */
+  async startRequest(
+    taskId: string,
+    telegramId: string,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const task = await this.taskCrud.getById(taskId);
+      if (!task) {
+        return { success: false, message: tText(language, 'task.not_found_alert') };
+      }
+
+      if (task.owner_telegram_id !== telegramId) {
+        return { success: false, message: tText(language, 'task.owner_only_alert') };
+      }
+
+      if (task.completed_at || task.status?.toLowerCase() === 'completed') {
+        return { success: false, message: tText(language, 'extension.completed_alert') };
+      }
+
+      if (!task.manager_telegram_id) {
+        return { success: false, message: tText(language, 'extension.no_manager_alert') };
+      }
+
+      if (await this.extensionRequestsCrud.getPendingByTask(taskId)) {
+        return { success: false, message: tText(language, 'extension.pending_alert') };
+      }
+
+      await this.userStateService.setUserState(telegramId, WAITING_EXTENSION_DATE_STATE, taskId);
+      await this.telegramService.sendMessage(
+        telegramId,
+        t(language, 'extension.date_prompt', {
+          task: task.taskText,
+          due_date: formatDate(task.dueDate, tText(language, 'common.not_set')),
+          example: formatDate(this.suggestDate(), tText(language, 'common.not_set'))
+        })
+      );
+
+      return { success: true, message: tText(language, 'extension.date_prompt_alert') };
+    } catch (error) {
+      console.error('Error starting extension request:', error);
+      return { success: false, message: tText(language, 'common.error_alert') };
+    }
+  }
+
+  /**
+   * Handle the new date typed by the owner (waiting_extension_date state)
+   * @param telegramId Telegram ID of the owner
+   * @param text The typed date
+   * @param language Language of the owner
+   * @returns The reply to send to the owner (MarkdownV2)
+   */
+  async handleDateInput(telegramId: string, text: string, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<string> {
+    const taskId = await this.userStateService.getUserStateNotes(telegramId);
+    const task = taskId ? await this.taskCrud.getById(taskId) : null;
+    if (!task) {
+      await this.userStateService.clearUserState(telegramId);
+      return t(language, 'extension.task_missing');
+    }
+
+    const requestedDate = this.parseRequestedDate(text);
+    if (!requestedDate) {
+      // Keep waiting for a valid date
+      await this.userStateService.setUserState(telegramId, WAITING_EXTENSION_DATE_STATE, task.id);
+      return t(language, 'extension.invalid_date', { example: formatDate(this.suggestDate(), tText(language, 'common.not_set')) });
+    }
+
+    if (requestedDate <= new Date().toISOString().slice(0, 10)) {
+      await this.userStateService.setUserState(telegramId, WAITING_EXTENSION_DATE_STATE, task.id);
+      return t(language, 'extension.past_date');
+    }
+
+    await this.userStateService.setUserState(
+      telegramId,
+      WAITING_EXTENSION_REASON_STATE,
+      JSON.stringify({ task_id: task.id, due_date: requestedDate })
+    );
+    return t(language, 'extension.reason_prompt', { due_date: formatDate(requestedDate, tText(language, 'common.not_set')) });
+  }
+
+  /**
+   * Handle the reason typed by the owner and send the request to the manager (waiting_extension_reason state)
+   * @param telegramId Telegram ID of the owner
+   * @param reason The typed reason
+   * @param language Language of the owner
+   * @returns The reply to send to the owner (MarkdownV2)
+   */
+  async handleReasonInput(telegramId: string, reason: string, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<string> {
+    try {
+      const notes = await this.userStateService.getUserStateNotes(telegramId);
+      await this.userStateService.clearUserState(telegramId);
+
+      const pending: { task_id?: string; due_date?: string } = notes ? JSON.parse(notes) : {};
+      const task = pending.task_id ? await this.taskCrud.getById(pending.task_id) : null;
+      if (!task || !pending.due_date || task.owner_telegram_id !== telegramId || !task.manager_telegram_id) {
+        return t(language, 'extension.task_missing');
+      }
+
+      if (await this.extensionRequestsCrud.getPendingByTask(task.id!)) {
+        return t(language, 'extension.pending');
+      }
+
+      const result = await this.extensionRequestsCrud.createRequest({
+        task_id: task.id!,
+        owner_telegram_id: telegramId,
+        manager_telegram_id: task.manager_telegram_id,
+        previous_due_date: task.dueDate ? new Date(task.dueDate).toISOString() : null,
+        requested_due_date: pending.due_date,
+        reason
+      });
+
+      if (!result.success || !result.id) {
+        console.error('Failed to store extension request:', result.error);
+        return t(language, 'common.error');
+      }
+
+      const request = await this.extensionRequestsCrud.getById(result.id);
+      if (!request) {
+        return t(language, 'common.error');
+      }
+
+      // The request goes to the manager in their language
+      const managerLanguage = await this.preferencesService.getLanguage(task.manager_telegram_id);
+      const keyboard: InlineKeyboardButton[][] = [[
+        { text: tText(managerLanguage, 'extension.approve_button'), callback_data: `ext_approve_${request.id}` },
+        { text: tText(managerLanguage, 'extension.reject_button'), callback_data: `ext_reject_${request.id}` }
+      ]];
+
+      try {
+        const messageId = await this.telegramService.sendMessage(
+          task.manager_telegram_id,
+          this.formatRequestMessage(task, request, managerLanguage),
+          undefined,
+          keyboard
+        );
+        if (messageId) {
+          await this.extensionRequestsCrud.setManagerMessage(request.id, messageId);
+        }
+      } catch (error) {
+        console.error(`Could not send extension request ${request.id} to the manager:`, error);
+        return t(language, 'extension.manager_unreachable');
+      }
+
+      return t(language, 'extension.sent');
+    } catch (error) {
+      console.error('Error handling extension reason:', error);
+      return t(language, 'common.error');
+    }
+  }
+
+  /**
+   * Approve or reject a request from the manager's button click
+   * @param requestId Extension request ID
+   * @param approve Whether to approve or reject
+   * @param managerTelegramId Telegram ID of the user who clicked
+   * @param language Language of the user who clicked
+   * @returns The text to answer the callback query with
+   */
+  async handleDecision(
+    requestId: string,
+    approve: boolean,
+    managerTelegramId: string,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const request = await this.extensionRequestsCrud.getById(requestId);
+      if (!request) {
+        return { success: false, message: tText(language, 'extension.request_not_found_alert') };
+      }
+
+      if (request.manager_telegram_id !== managerTelegramId) {
+        return { success: false, message: tText(language, 'extension.manager_only_alert') };
+      }
+
+      if (request.status !== 'pending') {
+        return { success: false, message: tText(language, 'extension.already_decided_alert') };
+      }
+
+      const task = await this.taskCrud.getById(request.task_id);
+      if (!task) {
+        return { success: false, message: tText(language, 'task.not_found_alert') };
+      }
+
+      if (approve) {
+        // Sheet first, so the next sheet check doesn't bring the old date back
+        const sheetResult = await this.taskService.writeTaskToSheet(task, { dueDate: request.requested_due_date });
+        if (!sheetResult.success) {
+          console.error(`Could not write the new due date of task ${task.id} to the sheet:`, sheetResult.error);
+          return { success: false, message: tText(language, 'task.sheet_failed_alert') };
+        }
+      }
+
+      const decided = await this.extensionRequestsCrud.decideRequest(request.id, approve ? 'approved' : 'rejected', managerTelegramId);
+      if (!decided) {
+        return { success: false, message: tText(language, 'extension.already_decided_alert') };
+      }
+
+      if (approve) {
+        const dueDate = new Date(request.requested_due_date);
+        await this.taskCrud.update(task.id!, {
+          dueDate,
+          updated_at: new Date()
+        });
+        await this.taskEventsCrud.recordChanges(task, { dueDate }, 'telegram', managerTelegramId);
+      }
+
+      const updated = await this.extensionRequestsCrud.getById(request.id);
+      if (updated) {
+        await this.updateManagerMessage(task, updated, language);
+        await this.notifyOwner(task, updated);
+      }
+
+      return { success: true, message: tText(language, approve ? 'extension.approved_alert' : 'extension.rejected_alert') };
+    } catch (error) {
+      console.error('Error handling extension decision:', error);
+      return { success: false, message: tText(language, 'common.error_alert') };
+    }
+  }
+
+  /**
+   * Replace the buttons in the manager's DM with the decision
+   */
+  private async updateManagerMessage(task: Task, request: ExtensionRequest, language: PreferredLanguage): Promise<void> {
+    if (!request.manager_message_id) return;
+
+    const decision = t(language, request.status === 'approved' ? 'extension.approved_decision' : 'extension.rejected_decision');
+    try {
+      await this.telegramService.editMessage(
+        request.manager_telegram_id,
+        request.manager_message_id,
+        `${this.formatRequestMessage(task, request, language)}\n\n${decision}`
+      );
+    } catch (error) {
+      console.warn(`Could not update extension request message ${request.id}:`, error);
+    }
+  }
+
+  /**
+   * Tell the owner whether they got the extension, in their language
+   */
+  private async notifyOwner(task: Task, request: ExtensionRequest): Promise<void> {
+    try {
+      const language = await this.preferencesService.getLanguage(request.owner_telegram_id);
+      const text = request.status === 'approved'
+        ? t(language, 'extension.owner_approved', {
+          task: task.taskText,
+          due_date: formatDate(request.requested_due_date, tText(language, 'common.not_set'))
+        })
+        : t(language, 'extension.owner_rejected', {
+          task: task.taskText,
+          due_date: formatDate(task.dueDate, tText(language, 'common.not_set'))
+        });
+
+      await this.telegramService.sendMessage(request.owner_telegram_id, text);
+    } catch (error) {
+      console.warn(`Could not notify ${request.owner_telegram_id} about their extension request:`, error);
+    }
+  }
+
+  /**
+   * Build the manager DM for a request
+   */
+  private formatRequestMessage(task: Task, request: ExtensionRequest, language: PreferredLanguage): string {
+    return t(language, 'extension.request', {
+      owner: task.owner_telegram_username ? `@${task.owner_telegram_username}` : task.ownerName || tText(language, 'common.not_set'),
+      task: task.taskText,
+      project: task.projectName,
+      due_date: formatDate(request.previous_due_date, tText(language, 'common.not_set')),
+      requested_due_date: formatDate(request.requested_due_date, tText(language, 'common.not_set')),
+      reason: request.reason
+    });
+  }
+
+  /**
+   * Parse a date typed as day-month-year (the format the bot shows) or year-month-day
+   * @returns The date as YYYY-MM-DD, or null if it isn't a valid date
+   */
+  private parseRequestedDate(text: string): string | null {
+    const trimmed = text.trim();
+    let match = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    let year: number, month: number, day: number;
+
+    if (match) {
+      [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+    } else {
+      match = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+      if (!match) return null;
+      [day, month, year] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+
+    return date.toISOString().slice(0, 10);
+  }
+
+  // A week from today, shown as an example date
+  private suggestDate(): Date {
+    return new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  }
+}
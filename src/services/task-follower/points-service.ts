@@ -0,0 +1,190 @@
+import { DatabaseConnection } from '../../crud/base';
+import { TaskCrud } from '../../crud/task-follower/task';
+import { PointsLedgerCrud } from '../../crud/task-follower/points';
+import { PointsReportsCrud } from '../../crud/task-follower/points-report';
+import { GroupsCrud } from '../../crud/groups';
+import { LeaderboardEntry } from '../../models/task-follower/points';
+import { TelegramService } from '../telegram';
+import { Environment } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { DEFAULT_LANGUAGE, formatted, t } from '../../i18n';
+
+// Months are written YYYY-MM in the ledger and the API
+export const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Members shown by /leaderboard and the monthly group posts
+export const LEADERBOARD_SIZE = 10;
+
+// A late task loses this share of its points per day of delay, up to MAX_LATE_PENALTY
+const LATE_PENALTY_PER_DAY = 0.1;
+const MAX_LATE_PENALTY = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+/**
+ * Credits the points of completed tasks to their owners and builds the leaderboards
+ * A task is credited once, when a stored task moves to completed; tasks that are already completed
+ * when first imported from a sheet are not credited, so registering a sheet doesn't flood the current month
+ */
+export class PointsService {
+  private taskCrud: TaskCrud;
+  private pointsLedgerCrud: PointsLedgerCrud;
+  private pointsReportsCrud: PointsReportsCrud;
+  private groupsCrud: GroupsCrud;
+  private telegramService: TelegramService;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.taskCrud = new TaskCrud(db);
+    this.pointsLedgerCrud = new PointsLedgerCrud(db);
+    this.pointsReportsCrud = new PointsReportsCrud(db);
+    this.groupsCrud = new GroupsCrud(db);
+    this.telegramService = new TelegramService(env);
+  }
+
+  /**
+   * Credit the points of a completed task, with a penalty when it was delivered late
+   * Crediting a task again does nothing
+   * @param taskId Task ID
+   * @returns The points added to the ledger
+   */
+  async creditCompletedTask(taskId: string): Promise<number> {
+    try {
+      const task = await this.taskCrud.getById(taskId);
+      if (!task?.completed_at) return 0;
+
+      const points = Math.round(parseFloat(task.points));
+      if (!points || points <= 0) {
+        console.log(`Task ${taskId} has no points to credit`);
+        return 0;
+      }
+
+      const completedAt = new Date(task.completed_at);
+      const entry = {
+        task_id: taskId,
+        membership_number: task.ownerID,
+        member_name: task.ownerName,
+        telegram_id: task.owner_telegram_id,
+        sheet_id: task.sheetID,
+        project_name: task.projectName,
+        period: completedAt.toISOString().slice(0, 7)
+      };
+
+      let credited = 0;
+      const completion = await this.pointsLedgerCrud.addEntry({ ...entry, entry_type: 'completion', points });
+      if (!completion.success) {
+        console.error(`Error crediting task ${taskId}:`, completion.error);
+        return 0;
+      }
+      if (completion.created) credited += points;
+
+      const daysLate = task.dueDate ? Math.floor((completedAt.getTime() - new Date(task.dueDate).getTime()) / DAY_MS) : 0;
+      if (daysLate > 0) {
+        const penalty = Math.round(points * Math.min(daysLate * LATE_PENALTY_PER_DAY, MAX_LATE_PENALTY));
+        if (penalty > 0) {
+          const result = await this.pointsLedgerCrud.addEntry({
+            ...entry,
+            entry_type: 'late_penalty',
+            points: -penalty,
+            reason: `Delivered ${daysLate} day(s) late`
+          });
+          if (result.created) credited -= penalty;
+        }
+      }
+
+      return credited;
+    } catch (error) {
+      console.error(`Error crediting points of task ${taskId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Build the /leaderboard message: the top members of a month and the rank of the user
+   * @param telegramId Telegram ID of the user
+   * @param period Month (YYYY-MM), the current month by default
+   * @param language Language of the user
+   */
+  async buildLeaderboardMessage(
+    telegramId: string,
+    period: string = this.getCurrentPeriod(),
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<string> {
+    const title = t(language, 'leaderboard.title', { period });
+    const leaderboard = await this.pointsLedgerCrud.getLeaderboard({ period });
+    if (leaderboard.length === 0) {
+      return `${title}\n\n${t(language, 'leaderboard.empty')}`;
+    }
+
+    let text = `${title}\n\n${this.formatLeaderboard(leaderboard.slice(0, LEADERBOARD_SIZE), language)}`;
+
+    const rank = leaderboard.findIndex(entry => entry.telegram_id === telegramId);
+    text += rank >= 0
+      ? `\n\n${t(language, 'leaderboard.rank', { rank: rank + 1, points: formatted(this.formatPoints(leaderboard[rank].points, language)) })}`
+      : `\n\n${t(language, 'leaderboard.no_rank')}`;
+
+    return text;
+  }
+
+  /**
+   * Post the leaderboard of last month in the groups of each project, in the default language
+   * Every group gets a month once: groups it was already posted to are skipped, so the call can be repeated
+   * @param period Month (YYYY-MM), last month by default
+   * @returns The number of projects and groups posted to
+   */
+  async sendMonthlyReports(period: string = this.getPreviousPeriod()): Promise<{ projects: number; groups: number }> {
+    let projects = 0;
+    let groups = 0;
+
+    for (const projectName of await this.pointsLedgerCrud.getProjectsWithPoints(period)) {
+      const projectGroups = await this.groupsCrud.getGroupsByProject(projectName);
+      if (projectGroups.length === 0) continue;
+
+      const leaderboard = await this.pointsLedgerCrud.getLeaderboard({ period, projectName, limit: LEADERBOARD_SIZE });
+      const text = `${t(DEFAULT_LANGUAGE, 'leaderboard.monthly_title', { period, project: projectName })}\n\n` +
+        `${this.formatLeaderboard(leaderboard, DEFAULT_LANGUAGE)}\n\n` +
+        t(DEFAULT_LANGUAGE, 'leaderboard.monthly_thanks');
+
+      let posted = false;
+      for (const group of projectGroups) {
+        if (!await this.pointsReportsCrud.claim(period, projectName, group.chat_id)) continue;
+        try {
+          await this.telegramService.sendMessage(group.chat_id, text);
+          groups++;
+          posted = true;
+        } catch (error) {
+          console.error(`Error posting the monthly leaderboard to group ${group.chat_id}:`, error);
+          await this.pointsReportsCrud.release(period, projectName, group.chat_id);
+        }
+      }
+      if (posted) projects++;
+    }
+
+    return { projects, groups };
+  }
+
+  private formatLeaderboard(leaderboard: LeaderboardEntry[], language: PreferredLanguage): string {
+    return leaderboard.map((entry, index) => t(language, 'leaderboard.entry', {
+      rank: formatted(MEDALS[index] || `${index + 1}\\.`),
+      name: entry.member_name,
+      points: formatted(this.formatPoints(entry.points, language)),
+      tasks: entry.tasks_completed,
+      penalty: formatted(entry.penalties < 0 ? t(language, 'leaderboard.penalty', { points: entry.penalties }) : '')
+    })).join('\n');
+  }
+
+  private formatPoints(points: number, language: PreferredLanguage): string {
+    return t(language, 'leaderboard.points', { points });
+  }
+
+  getCurrentPeriod(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  getPreviousPeriod(): string {
+    const date = new Date();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() - 1);
+    return date.toISOString().slice(0, 7);
+  }
+}
@@ -3,7 +3,17 @@ import { D1DatabaseConnection } from '../../crud/database';
 import { TaskService } from './task-service';
 import { MemberSheetServices } from '../membership-manager/member-sheet-services';
 import { TelegramService } from '../telegram';
+import { ProcessedUpdatesCrud } from '../../crud/processed-updates';
+import { JoinRequestApprovalService } from '../membership-manager/join-request-approval';
+import { PointsService } from './points-service';
+import { ActivityReportService } from './activity-report-service';
+import { OutboxService } from '../outbox';
+import { OutboxCrud } from '../../crud/outbox';
+import { BroadcastCampaignService } from '../broadcast-campaigns';
+import { MemberPreferencesService } from '../member-preferences';
+import { PreferredLanguage } from '../../models/member-preferences';
 import { escapeMarkdownV2 } from '../../utils/helpers';
+import { t, tText } from '../../i18n';
 
 // Scheduled task handler for checking all sheets periodically
 export async function handleScheduledTaskCheck(env: Environment): Promise<Response> {
@@ -50,6 +60,8 @@ export async function handleDailyManagerReport(env: Environment): Promise<Respon
     const taskService = new TaskService(db, env);
     const memberService = new MemberSheetServices(env);
     const telegramService = new TelegramService(env);
+    const preferencesService = new MemberPreferencesService(env);
+    const outboxService = new OutboxService(env);
     
     // Get all members
     const members = await memberService.getMembers();
@@ -73,6 +85,13 @@ export async function handleDailyManagerReport(env: Environment): Promise<Respon
         if (!manager.telegram_id) {
           continue;
         }
+
+        // Skip managers who turned the daily report off in /settings
+        const settings = await preferencesService.getSettings(String(manager.telegram_id));
+        const delivery = preferencesService.getDelivery(settings, 'daily_digest');
+        if (!delivery.send) {
+          continue;
+        }
         
         // Get tasks data for this manager
         const { completed: completedTasks, pending: pendingTasks, overdue: overdueTasks } = 
@@ -117,15 +136,20 @@ export async function handleDailyManagerReport(env: Environment): Promise<Respon
             projectName,
             projectTasks.completed, 
             projectTasks.pending, 
-            projectTasks.overdue
+            projectTasks.overdue,
+            settings.language
           );
           
-          // Send report to manager
-          await telegramService.sendMessage(
-            manager.telegram_id,
-            report,
-            'MarkdownV2'
-          );
+          // Send report to manager, or leave it in the outbox until their quiet hours end
+          if (delivery.notBefore) {
+            await outboxService.send({ chat_id: String(manager.telegram_id), text: report, category: 'task', not_before: delivery.notBefore });
+          } else {
+            await telegramService.sendMessage(
+              manager.telegram_id,
+              report,
+              'MarkdownV2'
+            );
+          }
           
           reportsSent++;
           
@@ -164,23 +188,23 @@ export async function handleDailyManagerReport(env: Environment): Promise<Respon
   }
 }
 
-// Helper function to generate manager daily report
+// Helper function to generate manager daily report, in the language of the manager
 function generateManagerDailyReport(
   manager: any,
   projectName: string,
   completedTasks: any[],
   pendingTasks: any[],
-  overdueTasks: any[]
+  overdueTasks: any[],
+  language: PreferredLanguage
 ): string {
-  const managerName = escapeMarkdownV2(manager.name1 || 'المدير');
-  const project = escapeMarkdownV2(projectName);
-  
-  let report = `*📊 تقرير يومي \\- ${managerName}*\n`;
-  report += `*📁 المشروع: ${project}*\n\n`;
-  report += `📅 التاريخ: ${escapeMarkdownV2(new Date().toLocaleDateString('en-CA'))}\n\n`;
+  let report = t(language, 'manager_report.title', {
+    manager: manager.name1 || tText(language, 'manager_report.default_manager'),
+    project: projectName,
+    date: new Date().toLocaleDateString('en-CA')
+  }) + '\n\n';
   
   // Completed tasks in last 24 hours
-  report += `*✅ المهام المكتملة \\(آخر 24 ساعة\\):* ${completedTasks.length}\n`;
+  report += `${t(language, 'manager_report.completed', { count: completedTasks.length })}\n`;
   if (completedTasks.length > 0) {
     completedTasks.slice(0, 5).forEach((task, index) => {
       const taskText = escapeMarkdownV2(task.taskText.substring(0, 50) + (task.taskText.length > 50 ? '...' : ''));
@@ -188,73 +212,62 @@ function generateManagerDailyReport(
       report += `  ${index + 1}\\. ${taskText}\n     👤 ${ownerName}\n`;
     });
     if (completedTasks.length > 5) {
-      report += `  _\\.\\.\\. و ${completedTasks.length - 5} مهام أخرى_\n`;
+      report += `  ${t(language, 'manager_report.more_tasks', { count: completedTasks.length - 5 })}\n`;
     }
   }
   report += '\n';
   
   // Overdue tasks
-  report += `*⚠️ المهام المتأخرة:* ${overdueTasks.length}\n`;
+  report += `${t(language, 'manager_report.overdue', { count: overdueTasks.length })}\n`;
   if (overdueTasks.length > 0) {
     overdueTasks.slice(0, 5).forEach((task, index) => {
       const taskText = escapeMarkdownV2(task.taskText.substring(0, 50) + (task.taskText.length > 50 ? '...' : ''));
       const ownerName = escapeMarkdownV2(task.ownerName);
-      const dueDate = task.dueDate ? escapeMarkdownV2(new Date(task.dueDate).toLocaleDateString('en-CA')) : 'غير محدد';
+      const dueDate = escapeMarkdownV2(task.dueDate ? new Date(task.dueDate).toLocaleDateString('en-CA') : tText(language, 'common.not_set'));
       report += `  ${index + 1}\\. ${taskText}\n     👤 ${ownerName} \\| 📅 ${dueDate}\n`;
     });
     if (overdueTasks.length > 5) {
-      report += `  _\\.\\.\\. و ${overdueTasks.length - 5} مهام أخرى_\n`;
+      report += `  ${t(language, 'manager_report.more_tasks', { count: overdueTasks.length - 5 })}\n`;
     }
   }
   report += '\n';
   
   // Pending tasks
-  report += `*⏳ المهام قيد الانتظار:* ${pendingTasks.length}\n`;
+  report += `${t(language, 'manager_report.pending', { count: pendingTasks.length })}\n`;
   if (pendingTasks.length > 0) {
     const highPriorityPending = pendingTasks.filter(t => t.priority && (t.priority === 'عاجل' || t.priority === 'مهم'));
     if (highPriorityPending.length > 0) {
-      report += `  🔴 مهام ذات أولوية عالية: ${highPriorityPending.length}\n`;
+      report += `  ${t(language, 'manager_report.high_priority', { count: highPriorityPending.length })}\n`;
     }
   }
   report += '\n';
   
   // Summary
   const totalActiveTasks = pendingTasks.length + overdueTasks.length;
-  report += `*📈 الإجمالي:*\n`;
-  report += `  • المهام النشطة: ${totalActiveTasks}\n`;
-  report += `  • المكتمل اليوم: ${completedTasks.length}\n`;
+  report += `${t(language, 'manager_report.totals', { active: totalActiveTasks, completed: completedTasks.length })}\n`;
   
   if (overdueTasks.length > 0) {
-    report += `\n⚡️ _يرجى متابعة المهام المتأخرة مع أعضاء الفريق_`;
+    report += `\n${t(language, 'manager_report.follow_up')}`;
   } else if (completedTasks.length > 0) {
-    report += `\n🎉 _عمل رائع\\! استمروا بنفس الأداء_`;
+    report += `\n${t(language, 'manager_report.well_done')}`;
   }
   
   return report;
 }
 
-// Scheduled task handler for daily activity reports
+// Scheduled task handler for the daily activity summary sent to ADMIN_CHAT_ID
+// Note: This is triggered by the */5 cron, but only executes between 9:00-9:04 AM
 export async function handleDailyActivityReport(env: Environment): Promise<Response> {
   console.log('Running daily activity report at:', new Date().toISOString());
   
   try {
-    const db = new D1DatabaseConnection(env.DB);
-    const taskService = new TaskService(db, env);
-    
-    // Get tasks needing attention and send summary
-    const tasksNeedingAttention = await taskService.getTasksNeedingAttention();
-    
-    // TODO: Send daily summary to managers/admins
-    // This could be implemented as a summary message to admin Telegram channels
+    const activityReportService = new ActivityReportService(new D1DatabaseConnection(env.DB), env);
+    const { sent, ...counts } = await activityReportService.sendAdminSummary();
     
     return new Response(JSON.stringify({
       success: true,
-      message: 'Daily activity report completed',
-      data: {
-        overdue: tasksNeedingAttention.overdue.length,
-        dueSoon: tasksNeedingAttention.dueSoon.length,
-        blocked: tasksNeedingAttention.blocked.length
-      },
+      message: sent ? 'Daily activity report completed' : 'Daily activity report not sent',
+      data: counts,
       timestamp: new Date().toISOString()
     }), {
       headers: { 'Content-Type': 'application/json' }
@@ -273,6 +286,83 @@ export async function handleDailyActivityReport(env: Environment): Promise<Respo
   }
 }
 
+// Scheduled handler for copying the member sheet into the D1 members table
+export async function handleMemberSync(env: Environment): Promise<void> {
+  try {
+    const memberService = new MemberSheetServices(env);
+    await memberService.syncMembers();
+  } catch (error) {
+    console.error('Error syncing members:', error);
+  }
+}
+
+// Scheduled handler for pruning the processed Telegram updates log
+export async function handleProcessedUpdatesCleanup(env: Environment): Promise<void> {
+  try {
+    const processedUpdatesCrud = new ProcessedUpdatesCrud(new D1DatabaseConnection(env.DB));
+    const result = await processedUpdatesCrud.deleteOldUpdates(7);
+    console.log(`Deleted ${result.deletedCount ?? 0} processed update records`);
+  } catch (error) {
+    console.error('Error cleaning up processed updates:', error);
+  }
+}
+
+// Scheduled handler for declining join requests no admin answered in time
+export async function handleJoinRequestExpiry(env: Environment): Promise<void> {
+  try {
+    const approvalService = new JoinRequestApprovalService(env);
+    const expired = await approvalService.expirePendingRequests();
+    console.log(`Expired ${expired} pending join requests`);
+  } catch (error) {
+    console.error('Error expiring join requests:', error);
+  }
+}
+
+// Scheduled handler for posting last month's points leaderboard in the project groups
+export async function handleMonthlyPointsReport(env: Environment): Promise<void> {
+  try {
+    const pointsService = new PointsService(new D1DatabaseConnection(env.DB), env);
+    const result = await pointsService.sendMonthlyReports();
+    console.log(`Posted the monthly leaderboard of ${result.projects} projects to ${result.groups} groups`);
+  } catch (error) {
+    console.error('Error sending monthly points reports:', error);
+  }
+}
+
+// Scheduled handler for sending queued messages and retrying failed ones
+export async function handleOutboxDispatch(env: Environment): Promise<void> {
+  try {
+    const outboxService = new OutboxService(env);
+    await outboxService.dispatch();
+  } catch (error) {
+    console.error('Error dispatching outbox:', error);
+  }
+}
+
+// Scheduled handler for pruning delivered and failed outbox messages
+export async function handleOutboxCleanup(env: Environment): Promise<void> {
+  try {
+    const outboxCrud = new OutboxCrud(new D1DatabaseConnection(env.DB));
+    const result = await outboxCrud.deleteOldMessages(30);
+    console.log(`Deleted ${result.deletedCount ?? 0} outbox messages`);
+  } catch (error) {
+    console.error('Error cleaning up outbox messages:', error);
+  }
+}
+
+// Scheduled handler for starting due broadcast campaigns and sending the next batch of the running ones
+export async function handleBroadcastCampaigns(env: Environment): Promise<void> {
+  try {
+    const campaignService = new BroadcastCampaignService(env);
+    const result = await campaignService.processCampaigns();
+    if (result.started > 0 || result.sent > 0 || result.failed > 0) {
+      console.log(`Broadcast campaigns: ${result.started} started, ${result.sent} sent, ${result.failed} failed`);
+    }
+  } catch (error) {
+    console.error('Error processing broadcast campaigns:', error);
+  }
+}
+
 // Cloudflare Workers Cron Event Handler
 export interface ScheduledEvent {
   cron: string;
@@ -291,18 +381,41 @@ export default {
         const currentHour = istanbulTime.getHours();
         const currentMinute = istanbulTime.getMinutes();
         
+        // Every run, carry on with the broadcast campaigns
+        ctx.waitUntil(handleBroadcastCampaigns(env));
+
+        // At the start of every hour, refresh the members mirror and expire old join requests
+        if (currentMinute < 5) {
+          ctx.waitUntil(handleMemberSync(env));
+          ctx.waitUntil(handleJoinRequestExpiry(env));
+        }
+        
+        // Every hour from 10:00 AM, post last month's leaderboard in the project groups that did not get it yet,
+        // so a run missed on the 1st is caught up later in the month
+        if (currentHour >= 10 && currentMinute < 5) {
+          ctx.waitUntil(handleMonthlyPointsReport(env));
+        }
+        
+        // At 9:00-9:04 AM, send the daily activity summary to the admin chat
+        if (currentHour === 9 && currentMinute < 5) {
+          ctx.waitUntil(handleDailyActivityReport(env));
+        }
+        
         // At 8:00-8:04 AM, send daily manager reports
         if (currentHour === 8 && currentMinute < 5) {
           ctx.waitUntil(handleDailyManagerReport(env));
+          ctx.waitUntil(handleProcessedUpdatesCleanup(env));
+          ctx.waitUntil(handleOutboxCleanup(env));
         } 
         // From 9 AM to 9 PM, run task checks
         else if (currentHour >= 9 && currentHour <= 21) {
           ctx.waitUntil(handleScheduledTaskCheck(env));
         }
         break;
-      
-      case '0 9 * * *': // Daily at 9 AM - Activity Report
-        ctx.waitUntil(handleDailyActivityReport(env));
+
+      case '*/5 * * * *': // Every 5 minutes, all day
+        // Send the queued messages that are due, including retries and messages held by quiet hours
+        ctx.waitUntil(handleOutboxDispatch(env));
         break;
       
       default:
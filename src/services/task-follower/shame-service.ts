@@ -1,45 +1,77 @@
 import { DatabaseConnection } from '../../crud/base';
 import { TaskCrud } from '../../crud/task-follower/task';
+import { TaskEventsCrud } from '../../crud/task-follower/task-event';
+import { NotificationPolicyCrud } from '../../crud/task-follower/notification-policy';
+import { NotificationPolicySettings } from '../../models/task-follower/notification-policy';
+import { TaskEventSource } from '../../models/task-follower/task-event';
 import { Task } from '../../models/task-follower/task';
-import { TelegramService } from '../telegram';
+import { OutboxService } from '../outbox';
+import { MemberPreferencesService } from '../member-preferences';
 import { Environment } from '../../types';
-import { escapeMarkdownV2, formatPriorityToArabic } from '../../utils/helpers';
 import { InlineKeyboardButton } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { DEFAULT_LANGUAGE, formatPriority, t, tText } from '../../i18n';
+
+// A project member who gets the shame notification of a task, with the message in their language
+export interface ShameRecipient {
+  telegram_id: string;
+  membership_number: string | null;
+  name: string;
+  role: 'owner' | 'manager';
+  text: string;
+  keyboard: InlineKeyboardButton[][];
+}
 
 export class ShameService {
   private db: DatabaseConnection;
   private taskCrud: TaskCrud;
-  private telegramService: TelegramService;
+  private taskEventsCrud: TaskEventsCrud;
+  private notificationPolicyCrud: NotificationPolicyCrud;
+  private outboxService: OutboxService;
+  private preferencesService: MemberPreferencesService;
   private env: Environment;
 
   constructor(db: DatabaseConnection, env: Environment) {
     this.db = db;
     this.env = env;
     this.taskCrud = new TaskCrud(db);
-    this.telegramService = new TelegramService(env);
+    this.taskEventsCrud = new TaskEventsCrud(db);
+    this.notificationPolicyCrud = new NotificationPolicyCrud(db);
+    this.outboxService = new OutboxService(env);
+    this.preferencesService = new MemberPreferencesService(env);
   }
 
   /**
-   * Check if a task is delayed by more than 2 days
+   * Check if a task is delayed past the shame threshold of its project (2 days by default)
    */
-  private isTaskDelayed(task: Task): boolean {
-    if (!task.dueDate || task.status === 'completed' || task.completed_at) {
+  private isTaskDelayed(task: Task, policy: NotificationPolicySettings): boolean {
+    if (!policy.shame_enabled || !task.dueDate || task.status === 'completed' || task.completed_at) {
       return false;
     }
 
     const now = new Date();
     const dueDate = new Date(task.dueDate);
-    const twoDaysInMs = 2 * 24 * 60 * 60 * 1000;
+    const thresholdInMs = policy.shame_after_days * 24 * 60 * 60 * 1000;
     
-    return (now.getTime() - dueDate.getTime()) > twoDaysInMs;
+    return (now.getTime() - dueDate.getTime()) > thresholdInMs;
   }
 
   /**
-   * Get all delayed tasks (overdue by more than 2 days)
+   * Get all delayed tasks (overdue past the shame threshold of their project)
    */
   async getDelayedTasks(): Promise<Task[]> {
     const overdueTasks = await this.taskCrud.getOverdueTasks();
-    return overdueTasks.filter(task => this.isTaskDelayed(task));
+    const delayedTasks: Task[] = [];
+    for (const task of overdueTasks) {
+      if (this.isTaskDelayed(task, await this.getPolicy(task))) {
+        delayedTasks.push(task);
+      }
+    }
+    return delayedTasks;
+  }
+
+  private async getPolicy(task: Task): Promise<NotificationPolicySettings> {
+    return (await this.notificationPolicyCrud.getEffectivePolicy(task.sheetID, task.projectName)).settings;
   }
 
   /**
@@ -48,18 +80,20 @@ export class ShameService {
    */
   private async getProjectMembers(projectName: string): Promise<Array<{
     telegram_id: string;
+    membership_number: string | null;
     name: string;
     role: 'owner' | 'manager';
   }>> {
     try {
       const tasks = await this.taskCrud.getByProjectName(projectName);
-      const membersMap = new Map<string, { telegram_id: string; name: string; role: 'owner' | 'manager' }>();
+      const membersMap = new Map<string, { telegram_id: string; membership_number: string | null; name: string; role: 'owner' | 'manager' }>();
 
       for (const task of tasks) {
         // Add task owner if has telegram ID
         if (task.owner_telegram_id && !membersMap.has(task.owner_telegram_id)) {
           membersMap.set(task.owner_telegram_id, {
             telegram_id: task.owner_telegram_id,
+            membership_number: task.ownerID,
             name: task.ownerName,
             role: 'owner'
           });
@@ -69,6 +103,7 @@ export class ShameService {
         if (task.manager_telegram_id && !membersMap.has(task.manager_telegram_id)) {
           membersMap.set(task.manager_telegram_id, {
             telegram_id: task.manager_telegram_id,
+            membership_number: task.managerID || null,
             name: task.managerName,
             role: 'manager'
           });
@@ -83,83 +118,101 @@ export class ShameService {
   }
 
   /**
-   * Send shame notifications to all project members about a delayed task
+   * Work out who gets the shame notifications of a delayed task and their messages, without sending them
    */
-  async sendShameNotifications(taskId: string): Promise<{
+  async getShameNotification(taskId: string): Promise<{
     success: boolean;
-    notifiedCount: number;
+    recipients: ShameRecipient[];
     error?: string;
   }> {
-    try {
-      const task = await this.taskCrud.getById(taskId);
-      
-      if (!task) {
-        return { success: false, notifiedCount: 0, error: 'Task not found' };
-      }
-      
-      console.log('Task found for shame notification:', task.taskText, 'Project:', task.projectName);
-
-      // Verify task is still delayed
-      if (!this.isTaskDelayed(task)) {
-        return { success: false, notifiedCount: 0, error: 'Task is not delayed' };
-      }
+    const task = await this.taskCrud.getById(taskId);
+    
+    if (!task) {
+      return { success: false, recipients: [], error: 'Task not found' };
+    }
+    
+    console.log('Task found for shame notification:', task.taskText, 'Project:', task.projectName);
 
-      // Get all project members
-      const projectMembers = await this.getProjectMembers(task.projectName);
-      
-      // Filter out the task owner (don't send to themselves)
-      const membersToNotify = projectMembers.filter(
-        member => member.telegram_id !== task.owner_telegram_id
-      );
+    // Verify task is still delayed
+    if (!this.isTaskDelayed(task, await this.getPolicy(task))) {
+      return { success: false, recipients: [], error: 'Task is not delayed' };
+    }
 
-      if (membersToNotify.length === 0) {
-        return { success: true, notifiedCount: 0, error: 'No project members to notify' };
-      }
+    // Get all project members
+    const projectMembers = await this.getProjectMembers(task.projectName);
+    
+    // Filter out the task owner (don't send to themselves) and the members who turned shame messages off
+    const preferences = await this.preferencesService.getAllSettings();
+    const membersToNotify = projectMembers.filter(
+      member => member.telegram_id !== task.owner_telegram_id && preferences.get(member.telegram_id)?.shame !== false
+    );
+
+    if (membersToNotify.length === 0) {
+      return { success: true, recipients: [], error: 'No project members to notify' };
+    }
 
-      // Calculate how many days overdue
-      const dueDate = new Date(task.dueDate!);
-      const now = new Date();
-      const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (24 * 60 * 60 * 1000));
+    // Calculate how many days overdue
+    const dueDate = new Date(task.dueDate!);
+    const now = new Date();
+    const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (24 * 60 * 60 * 1000));
 
-      // Prepare the message
-      const messageText = `
-🫣 *فضيحة\\! \\- لدى زميلك مهمة متأخرة*
+    // Each member gets the message and the shame button in their language
+    const recipients = membersToNotify.map(member => {
+      const language = preferences.get(member.telegram_id)?.language || DEFAULT_LANGUAGE;
+      return {
+        ...member,
+        text: t(language, 'shame.notification', {
+          owner: task.ownerName,
+          project: task.projectName,
+          task: task.taskText,
+          days: daysOverdue,
+          priority: formatPriority(language, task.priority)
+        }),
+        keyboard: [[{ text: tText(language, 'shame.button'), callback_data: `shame_${taskId}` }]]
+      };
+    });
 
-أحد زملائك في المشروع لديه مهمة متأخرة\\!
+    return { success: true, recipients };
+  }
 
-🤡 *الكسول:* ${escapeMarkdownV2(task.ownerName)}
-📋 *المشروع:* ${escapeMarkdownV2(task.projectName)}
-📝 *المهمة:* ${escapeMarkdownV2(task.taskText)}
-⏰ *متأخرة بـ:* ${daysOverdue} يوم
-⚡ *الأولوية:* ${escapeMarkdownV2(formatPriorityToArabic(task.priority))}
+  /**
+   * Send shame notifications to all project members about a delayed task
+   * @param source What triggered them, for the task history
+   */
+  async sendShameNotifications(taskId: string, source: TaskEventSource = 'api'): Promise<{
+    success: boolean;
+    notifiedCount: number;
+    error?: string;
+  }> {
+    try {
+      const notification = await this.getShameNotification(taskId);
 
-يمكنك تذكيره بالضغط على الزر أدناه 👇
-      `.trim();
+      if (!notification.success) {
+        return { success: false, notifiedCount: 0, error: notification.error };
+      }
 
-      // Create inline keyboard with shame button
-      const keyboard: InlineKeyboardButton[][] = [
-        [
-          {
-            text: '😤 أرسل "عارٌ عليك\\!"',
-            callback_data: `shame_${taskId}`
-          }
-        ]
-      ];
+      if (notification.recipients.length === 0) {
+        return { success: true, notifiedCount: 0, error: notification.error };
+      }
 
       // Send to all project members
       let notifiedCount = 0;
-      for (const member of membersToNotify) {
-        try {
-          await this.telegramService.sendMessage(
-            member.telegram_id,
-            messageText,
-            'MarkdownV2',
-            keyboard
-          );
-          notifiedCount++;
-        } catch (error) {
-          console.error(`Failed to send shame notification to ${member.telegram_id}:`, error);
+      for (const member of notification.recipients) {
+        const { notBefore } = await this.preferencesService.checkDelivery(member.telegram_id, 'shame');
+        const delivery = await this.outboxService.send({
+          chat_id: member.telegram_id,
+          text: member.text,
+          inline_keyboard: member.keyboard,
+          category: 'shame',
+          reference_id: taskId,
+          not_before: notBefore
+        });
+        if (delivery.status === 'failed') {
+          console.error(`Failed to send shame notification to ${member.telegram_id}:`, delivery.error);
+          continue;
         }
+        notifiedCount++;
+        await this.taskEventsCrud.record({ task_id: taskId, event_type: 'notified', field: 'shame', new_value: member.membership_number, source });
       }
 
       return { success: true, notifiedCount };
@@ -175,11 +228,13 @@ export class ShameService {
 
   /**
    * Handle a shame button click
-   * Returns response message for the sender
+   * Returns response message for the sender, in plain text
+   * @param language Language of the sender
    */
   async handleShameButtonClick(
     taskId: string,
-    senderTelegramId: string
+    senderTelegramId: string,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
   ): Promise<{
     success: boolean;
     message: string;
@@ -191,7 +246,7 @@ export class ShameService {
       if (!task) {
         return {
           success: false,
-          message: '❌ لم يتم العثور على المهمة',
+          message: tText(language, 'shame.task_not_found_alert'),
           notifyOwner: false
         };
       }
@@ -202,7 +257,7 @@ export class ShameService {
       if (task.status === 'completed' || task.completed_at) {
         return {
           success: false,
-          message: '✅ لقد أنهى المهمة\\، لا يمكنك توبيخه الآن\\!',
+          message: tText(language, 'shame.task_completed_alert'),
           notifyOwner: false
         };
       }
@@ -211,7 +266,7 @@ export class ShameService {
       if (task.owner_telegram_id === senderTelegramId) {
         return {
           success: false,
-          message: '😅 لا يمكنك توبيخ نفسك\\!',
+          message: tText(language, 'shame.self_alert'),
           notifyOwner: false
         };
       }
@@ -220,48 +275,54 @@ export class ShameService {
       if (!task.owner_telegram_id) {
         return {
           success: false,
-          message: '❌ صاحب المهمة ليس لديه حساب تيليجرام مسجل',
+          message: tText(language, 'shame.owner_not_linked_alert'),
           notifyOwner: false
         };
       }
 
-      // Send shame message to task owner
-      const shameMessage = `
-😤 *عارٌ عليك\\!*
-
-لقد تلقيت رسالة "عارٌ عليك" من أحد زملائك في المشروع بسبب تأخرك في المهمة:
-
-📋 *المشروع:* ${escapeMarkdownV2(task.projectName)}
-📝 *المهمة:* ${escapeMarkdownV2(task.taskText)}
-
-⏰ حان الوقت لإنجاز هذه المهمة\\!
-      `.trim();
-
-      try {
-        await this.telegramService.sendMessage(
-          task.owner_telegram_id,
-          shameMessage,
-          'MarkdownV2'
-        );
-
+      const ownerSettings = await this.preferencesService.getSettings(task.owner_telegram_id);
+      const ownerDelivery = this.preferencesService.getDelivery(ownerSettings, 'shame');
+      if (!ownerDelivery.send) {
         return {
-          success: true,
-          message: '✅ تم إرسال رسالة "عارٌ عليك\\!" بنجاح',
-          notifyOwner: true
+          success: false,
+          message: tText(language, 'shame.owner_opted_out_alert'),
+          notifyOwner: false
         };
-      } catch (error) {
-        console.error('Error sending shame to owner:', error);
+      }
+
+      // Send shame message to task owner, in their language
+      const shameMessage = t(ownerSettings.language, 'shame.message', {
+        project: task.projectName,
+        task: task.taskText
+      });
+
+      const delivery = await this.outboxService.send({
+        chat_id: task.owner_telegram_id,
+        text: shameMessage,
+        category: 'shame',
+        reference_id: taskId,
+        not_before: ownerDelivery.notBefore
+      });
+
+      if (delivery.status === 'failed') {
+        console.error('Error sending shame to owner:', delivery.error);
         return {
           success: false,
-          message: '❌ فشل إرسال الرسالة',
+          message: tText(language, 'shame.send_failed_alert'),
           notifyOwner: false
         };
       }
+
+      return {
+        success: true,
+        message: tText(language, 'shame.sent_alert'),
+        notifyOwner: true
+      };
     } catch (error) {
       console.error('Error handling shame button click:', error);
       return {
         success: false,
-        message: '❌ حدث خطأ أثناء معالجة الطلب',
+        message: tText(language, 'shame.error_alert'),
         notifyOwner: false
       };
     }
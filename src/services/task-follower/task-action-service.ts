@@ -0,0 +1,209 @@
+import { DatabaseConnection } from '../../crud/base';
+import { TaskCrud } from '../../crud/task-follower/task';
+import { TaskEventsCrud } from '../../crud/task-follower/task-event';
+import { Task } from '../../models/task-follower/task';
+import { TelegramUserStateService } from '../../crud/membership-manager/telegram-user-state';
+import { TaskService } from './task-service';
+import { PointsService } from './points-service';
+import { sendMessageToMember } from '../membership-manager/member-services';
+import { MemberPreferencesService } from '../member-preferences';
+import { Environment } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { DEFAULT_LANGUAGE, formatted, MessageKey, t, tText } from '../../i18n';
+
+export type TaskAction = 'done' | 'progress' | 'block' | 'help';
+
+// User state while the bot waits for the reason of a blocked task (the task ID is kept in the state notes)
+export const WAITING_BLOCK_REASON_STATE = 'waiting_block_reason';
+
+// Status values written to the sheet, as the project tabs use them
+const SHEET_STATUS: Record<'done' | 'progress' | 'block', string> = {
+  done: 'Completed',
+  progress: 'In progress',
+  block: 'Blocked'
+};
+
+/**
+ * Handles the buttons under task notifications (Done, In progress, Blocked, Need help)
+ * Every change is written to the sheet first, so the next sheet check doesn't undo it, then to the tasks table
+ */
+export class TaskActionService {
+  private env: Environment;
+  private taskCrud: TaskCrud;
+  private taskEventsCrud: TaskEventsCrud;
+  private taskService: TaskService;
+  private pointsService: PointsService;
+  private userStateService: TelegramUserStateService;
+  private preferencesService: MemberPreferencesService;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.env = env;
+    this.taskCrud = new TaskCrud(db);
+    this.taskEventsCrud = new TaskEventsCrud(db);
+    this.taskService = new TaskService(db, env);
+    this.pointsService = new PointsService(db, env);
+    this.userStateService = new TelegramUserStateService(env);
+    this.preferencesService = new MemberPreferencesService(env);
+  }
+
+  /**
+   * Handle a button click on a task notification
+   * @param action The clicked button
+   * @param taskId Task ID from the callback data
+   * @param telegramId Telegram ID of the user who clicked
+   * @param language Language of the user who clicked
+   * @returns The text to answer the callback query with
+   */
+  async handleAction(
+    action: TaskAction,
+    taskId: string,
+    telegramId: string,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const task = await this.taskCrud.getById(taskId);
+      if (!task) {
+        return { success: false, message: tText(language, 'task.not_found_alert') };
+      }
+
+      if (task.owner_telegram_id !== telegramId) {
+        return { success: false, message: tText(language, 'task.owner_only_alert') };
+      }
+
+      switch (action) {
+        case 'done': {
+          const result = await this.changeStatus(task, SHEET_STATUS.done, language);
+          if (!result.success) return result;
+          await this.notifyManager(task, 'task_action.title.done');
+          return { success: true, message: tText(language, 'task_action.done_alert') };
+        }
+
+        case 'progress': {
+          const result = await this.changeStatus(task, SHEET_STATUS.progress, language);
+          if (!result.success) return result;
+          await this.notifyManager(task, 'task_action.title.progress');
+          return { success: true, message: tText(language, 'task_action.progress_alert') };
+        }
+
+        case 'block': {
+          // The reason comes in the next message
+          await this.userStateService.setUserState(telegramId, WAITING_BLOCK_REASON_STATE, task.id);
+          return { success: true, message: tText(language, 'task_action.block_reason_alert') };
+        }
+
+        case 'help': {
+          const notified = await this.notifyManager(task, 'task_action.title.help');
+          return notified
+            ? { success: true, message: tText(language, 'task_action.help_sent_alert') }
+            : { success: false, message: tText(language, 'task_action.help_failed_alert') };
+        }
+      }
+    } catch (error) {
+      console.error('Error handling task action:', error);
+      return { success: false, message: tText(language, 'common.error_alert') };
+    }
+  }
+
+  /**
+   * Block the task the user chose earlier with the reason they sent
+   * @param telegramId Telegram ID of the task owner
+   * @param reason The reason typed by the owner
+   * @param language Language of the owner
+   * @returns The reply to send to the owner (MarkdownV2)
+   */
+  async handleBlockReason(telegramId: string, reason: string, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<string> {
+    try {
+      const taskId = await this.userStateService.getUserStateNotes(telegramId);
+      await this.userStateService.clearUserState(telegramId);
+
+      const task = taskId ? await this.taskCrud.getById(taskId) : null;
+      if (!task || task.owner_telegram_id !== telegramId) {
+        return t(language, 'task_action.block_task_missing');
+      }
+
+      const sheetResult = await this.taskService.writeTaskToSheet(task, { status: SHEET_STATUS.block, notes: reason });
+      if (!sheetResult.success) {
+        console.error(`Could not write blocked task ${task.id} to the sheet:`, sheetResult.error);
+        return t(language, 'task.sheet_failed');
+      }
+
+      await this.taskCrud.blockTask(task.id!, reason);
+      await this.taskCrud.updateStatus(task.id!, SHEET_STATUS.block);
+      await this.recordChanges(task);
+
+      await this.notifyManager(task, 'task_action.title.block', reason);
+      return t(language, 'task_action.blocked');
+    } catch (error) {
+      console.error('Error handling block reason:', error);
+      return t(language, 'common.error');
+    }
+  }
+
+  /**
+   * Write a new status to the sheet and the tasks table
+   */
+  private async changeStatus(task: Task, status: string, language: PreferredLanguage): Promise<{ success: boolean; message: string }> {
+    const sheetResult = await this.taskService.writeTaskToSheet(task, { status });
+    if (!sheetResult.success) {
+      console.error(`Could not write status of task ${task.id} to the sheet:`, sheetResult.error);
+      return { success: false, message: tText(language, 'task.sheet_failed_alert') };
+    }
+
+    const result = await this.taskCrud.updateStatus(task.id!, status);
+    if (!result.success) {
+      console.error(`Could not update status of task ${task.id}:`, result.error);
+      return { success: false, message: tText(language, 'common.error_alert') };
+    }
+
+    if (task.blocked_at) {
+      await this.taskCrud.unblockTask(task.id!);
+    }
+
+    await this.recordChanges(task);
+    if (status === SHEET_STATUS.done) {
+      await this.pointsService.creditCompletedTask(task.id!);
+    }
+    return { success: true, message: '' };
+  }
+
+  /**
+   * Add what the owner changed to the task history
+   * @param before The task before the change
+   */
+  private async recordChanges(before: Task): Promise<void> {
+    const after = await this.taskCrud.getById(before.id!);
+    if (after) {
+      await this.taskEventsCrud.recordChanges(before, after, 'telegram', before.owner_telegram_id || undefined);
+    }
+  }
+
+  /**
+   * Tell the project manager what the owner did, in the language of the manager
+   * @returns Whether the manager was reached
+   */
+  private async notifyManager(task: Task, title: MessageKey, reason?: string): Promise<boolean> {
+    if (!task.managerID) {
+      console.warn(`Task ${task.id} has no manager to notify`);
+      return false;
+    }
+
+    const language = task.manager_telegram_id
+      ? await this.preferencesService.getLanguage(task.manager_telegram_id)
+      : DEFAULT_LANGUAGE;
+
+    const text = t(language, 'task_action.manager_notice', {
+      title: formatted(t(language, title)),
+      owner: task.owner_telegram_username ? `@${task.owner_telegram_username}` : task.ownerName || tText(language, 'common.not_set'),
+      task: task.taskText,
+      project: task.projectName,
+      reason_line: formatted(reason ? t(language, 'task_action.manager_notice.reason', { reason }) : ''),
+      sheet_url: formatted(`https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID}`)
+    });
+
+    const result = await sendMessageToMember(this.env, task.managerID, text, [], undefined, undefined, undefined, { category: 'task', referenceId: task.id });
+    if (!result.success) {
+      console.error(`Could not notify the manager of task ${task.id}:`, result.error);
+    }
+    return result.success;
+  }
+}
@@ -0,0 +1,188 @@
+import { DatabaseConnection } from '../../crud/base';
+import { TaskCrud } from '../../crud/task-follower/task';
+import { TaskEventsCrud } from '../../crud/task-follower/task-event';
+import { Task } from '../../models/task-follower/task';
+import { TaskEvent, TaskEventSource } from '../../models/task-follower/task-event';
+import { Environment } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { DEFAULT_LANGUAGE, MessageKey, t, tText } from '../../i18n';
+import { formatDate } from '../../utils/helpers';
+
+// Latest events shown by the history button (the API returns all of them)
+const HISTORY_EVENTS_SHOWN = 15;
+
+// Changed fields shown by the history button, with their labels
+const FIELD_LABELS: Record<string, MessageKey> = {
+  ownerName: 'history.field.ownerName',
+  managerName: 'history.field.managerName',
+  points: 'history.field.points',
+  status: 'history.field.status',
+  taskText: 'history.field.taskText',
+  priority: 'history.field.priority',
+  notes: 'history.field.notes',
+  milestone: 'history.field.milestone',
+  projectName: 'history.field.projectName',
+  dueDate: 'history.field.dueDate',
+  completed_at: 'history.field.completed_at',
+  blocked_at: 'history.field.blocked_at'
+};
+
+const NOTIFICATION_LABELS: Record<string, MessageKey> = {
+  new: 'history.notification.new',
+  reminder: 'history.notification.reminder',
+  late: 'history.notification.late',
+  late_undelivered: 'history.notification.late_undelivered',
+  date_changed: 'history.notification.date_changed',
+  missing_data: 'history.notification.missing_data',
+  shame: 'history.notification.shame',
+  escalation: 'history.notification.escalation'
+};
+
+const SOURCE_LABELS: Record<TaskEventSource, MessageKey> = {
+  sheet_sync: 'history.source.sheet_sync',
+  telegram: 'history.source.telegram',
+  api: 'history.source.api'
+};
+
+export interface TaskHistory {
+  task: Task | null; // null once the task is archived
+  events: TaskEvent[];
+  summary: {
+    dueDateChanges: number;
+    dueDateSlips: number; // Due date changes to a later date
+    statusChanges: number;
+    ownerChanges: number;
+    notifications: Record<string, number>; // Sent notifications by kind
+  };
+}
+
+/**
+ * The change history of a task, for `GET /api/tasks/:id/history` and the history button of task notifications
+ */
+export class TaskHistoryService {
+  private taskCrud: TaskCrud;
+  private taskEventsCrud: TaskEventsCrud;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.taskCrud = new TaskCrud(db);
+    this.taskEventsCrud = new TaskEventsCrud(db);
+  }
+
+  /**
+   * Get the events of a task with a summary of its changes
+   * @param taskId Task ID
+   * @returns null when there is neither a task nor a history with this ID
+   */
+  async getHistory(taskId: string): Promise<TaskHistory | null> {
+    const [task, events] = await Promise.all([
+      this.taskCrud.getById(taskId),
+      this.taskEventsCrud.getByTaskId(taskId)
+    ]);
+
+    if (!task && events.length === 0) {
+      return null;
+    }
+
+    const changes = (field: string) => events.filter(event => event.event_type === 'changed' && event.field === field);
+    const notifications: Record<string, number> = {};
+    for (const event of events) {
+      if (event.event_type === 'notified' && event.field) {
+        notifications[event.field] = (notifications[event.field] || 0) + 1;
+      }
+    }
+
+    return {
+      task,
+      events,
+      summary: {
+        dueDateChanges: changes('dueDate').length,
+        dueDateSlips: changes('dueDate').filter(event =>
+          event.old_value && event.new_value && new Date(event.new_value).getTime() > new Date(event.old_value).getTime()
+        ).length,
+        statusChanges: changes('status').length,
+        ownerChanges: changes('ownerID').length,
+        notifications
+      }
+    };
+  }
+
+  /**
+   * Build the history message of the history button
+   * Only the task owner and the project manager can see it
+   * @param taskId Task ID from the callback data
+   * @param telegramId Telegram ID of the user who clicked
+   * @param language Language of the user who clicked
+   * @returns The message (MarkdownV2), or the text to answer the callback query with on failure
+   */
+  async buildHistoryMessage(
+    taskId: string,
+    telegramId: string,
+    language: PreferredLanguage = DEFAULT_LANGUAGE
+  ): Promise<{ success: boolean; text: string }> {
+    try {
+      const history = await this.getHistory(taskId);
+      if (!history?.task) {
+        return { success: false, text: tText(language, 'task.not_found_alert') };
+      }
+
+      const { task, events, summary } = history;
+      if (task.owner_telegram_id !== telegramId && task.manager_telegram_id !== telegramId) {
+        return { success: false, text: tText(language, 'history.forbidden_alert') };
+      }
+
+      const sent = Object.values(summary.notifications).reduce((total, count) => total + count, 0);
+      let text = t(language, 'history.header', {
+        task: task.taskText,
+        project: task.projectName,
+        due_date_changes: summary.dueDateChanges,
+        due_date_slips: summary.dueDateSlips,
+        sent
+      }) + '\n\n';
+
+      // Membership numbers change with the names, only the names are shown
+      const visible = events.filter(event => event.event_type !== 'changed' || FIELD_LABELS[event.field || '']);
+      const shown = visible.slice(-HISTORY_EVENTS_SHOWN);
+      if (visible.length > shown.length) {
+        text += `${t(language, 'history.earlier_events', { count: visible.length - shown.length })}\n`;
+      }
+      text += shown.length > 0
+        ? shown.map(event => this.formatEvent(event, language)).join('\n')
+        : t(language, 'history.no_events');
+
+      return { success: true, text };
+    } catch (error) {
+      console.error('Error building task history message:', error);
+      return { success: false, text: tText(language, 'common.error_alert') };
+    }
+  }
+
+  private formatEvent(event: TaskEvent, language: PreferredLanguage): string {
+    const label = (labels: Record<string, MessageKey>, key: string) => labels[key] ? tText(language, labels[key]) : key;
+    const date = formatDate(event.created_at, event.created_at);
+    const source = label(SOURCE_LABELS, event.source);
+
+    switch (event.event_type) {
+      case 'created':
+        return t(language, 'history.event.created', { date, source });
+      case 'archived':
+        return t(language, 'history.event.archived', { date });
+      case 'notified':
+        return t(language, event.channel === 'email' ? 'history.event.notified_email' : 'history.event.notified', {
+          date,
+          notification: label(NOTIFICATION_LABELS, event.field || '')
+        });
+      case 'changed': {
+        const isDate = ['dueDate', 'completed_at', 'blocked_at'].includes(event.field || '');
+        const value = (value: string | null) =>
+          !value ? tText(language, 'history.empty_value') : isDate ? formatDate(value, value) : value;
+        return t(language, 'history.event.changed', {
+          date,
+          field: label(FIELD_LABELS, event.field || ''),
+          old_value: value(event.old_value),
+          new_value: value(event.new_value),
+          source
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { DatabaseConnection } from '../../crud/base';
+import { TaskCrud } from '../../crud/task-follower/task';
+import { Task } from '../../models/task-follower/task';
+import { TaskService } from './task-service';
+import { Environment, InlineKeyboardButton } from '../../types';
+import { PreferredLanguage } from '../../models/member-preferences';
+import { escapeMarkdownV2, formatDate } from '../../utils/helpers';
+import { DEFAULT_LANGUAGE, formatPriority, t, tText } from '../../i18n';
+
+// Tasks per page of /mytasks and /team
+export const TASKS_PAGE_SIZE = 8;
+
+// Completed tasks stay in /mytasks for this many days
+const RECENTLY_COMPLETED_DAYS = 7;
+
+type TaskListKind = 'mytasks' | 'team';
+
+type TaskState = 'overdue' | 'open' | 'completed';
+
+export interface TaskListPage {
+  text: string;
+  keyboard?: InlineKeyboardButton[][];
+}
+
+/**
+ * Builds the /mytasks and /team lists for private chats
+ * Both lists are paginated, the page buttons send `<kind>_page_<n>` callbacks
+ */
+export class TaskListService {
+  private taskCrud: TaskCrud;
+  private taskService: TaskService;
+
+  constructor(db: DatabaseConnection, env: Environment) {
+    this.taskCrud = new TaskCrud(db);
+    this.taskService = new TaskService(db, env);
+  }
+
+  /**
+   * Open, overdue and recently completed tasks of an owner, grouped by project
+   * @param telegramId The owner's Telegram ID
+   * @param page Zero-based page number
+   * @param language Language of the owner
+   */
+  async buildMyTasksPage(telegramId: string, page: number = 0, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<TaskListPage> {
+    const completedSince = Date.now() - RECENTLY_COMPLETED_DAYS * 24 * 60 * 60 * 1000;
+    const tasks = (await this.taskCrud.getByOwnerTelegramId(telegramId)).filter(task =>
+      this.getTaskState(task) !== 'completed' ||
+      (task.completed_at && new Date(task.completed_at).getTime() >= completedSince)
+    );
+
+    if (tasks.length === 0) {
+      return { text: t(language, 'task_list.my_empty') };
+    }
+
+    const header = t(language, 'task_list.my_header', this.countByState(tasks));
+
+    // Grouped by project, the most urgent tasks first inside each project
+    const sorted = [...tasks].sort((a, b) =>
+      a.projectName.localeCompare(b.projectName) ||
+      this.compareByState(a, b)
+    );
+
+    return this.buildPage('mytasks', header, sorted, page, task => task.projectName, '🏗️', language);
+  }
+
+  /**
+   * Every task a manager manages, grouped by owner
+   * @param telegramId The manager's Telegram ID
+   * @param page Zero-based page number
+   * @param language Language of the manager
+   */
+  async buildTeamPage(telegramId: string, page: number = 0, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<TaskListPage> {
+    const tasks = await this.taskCrud.getByManagerTelegramId(telegramId);
+
+    if (tasks.length === 0) {
+      return { text: t(language, 'task_list.team_empty') };
+    }
+
+    let header: string;
+    const managerId = tasks.find(task => task.managerID)?.managerID;
+    if (managerId) {
+      const summary = await this.taskService.getManagerTaskSummary(managerId);
+      header = t(language, 'task_list.team_header', {
+        completed: summary.completed.length,
+        pending: summary.pending.length,
+        overdue: summary.overdue.length
+      });
+    } else {
+      header = t(language, 'task_list.team_header_counts', this.countByState(tasks));
+    }
+
+    const sorted = [...tasks].sort((a, b) =>
+      (a.ownerName || '').localeCompare(b.ownerName || '') ||
+      this.compareByState(a, b)
+    );
+
+    return this.buildPage('team', header, sorted, page, task => task.ownerName || task.ownerID, '👤', language);
+  }
+
+  /**
+   * Render one page of a sorted task list, with a heading whenever the group changes
+   */
+  private buildPage(
+    kind: TaskListKind,
+    header: string,
+    tasks: Task[],
+    page: number,
+    groupOf: (task: Task) => string,
+    groupIcon: string,
+    language: PreferredLanguage
+  ): TaskListPage {
+    const pageCount = Math.ceil(tasks.length / TASKS_PAGE_SIZE);
+    const currentPage = Math.min(Math.max(page, 0), pageCount - 1);
+    const pageTasks = tasks.slice(currentPage * TASKS_PAGE_SIZE, (currentPage + 1) * TASKS_PAGE_SIZE);
+
+    let text = header + '\n';
+    let currentGroup: string | null = null;
+
+    for (const task of pageTasks) {
+      const group = groupOf(task);
+      if (group !== currentGroup) {
+        text += `\n${groupIcon} *${escapeMarkdownV2(group)}*\n`;
+        currentGroup = group;
+      }
+      text += this.formatTask(task, kind === 'team', language);
+    }
+
+    if (pageCount > 1) {
+      text += `\n${t(language, 'task_list.page', { page: currentPage + 1, pages: pageCount })}`;
+    }
+
+    const navigation: InlineKeyboardButton[] = [];
+    if (currentPage > 0) {
+      navigation.push({ text: tText(language, 'task_list.previous_button'), callback_data: `${kind}_page_${currentPage - 1}` });
+    }
+    if (currentPage < pageCount - 1) {
+      navigation.push({ text: tText(language, 'task_list.next_button'), callback_data: `${kind}_page_${currentPage + 1}` });
+    }
+
+    return { text, keyboard: navigation.length > 0 ? [navigation] : undefined };
+  }
+
+  private formatTask(task: Task, showProject: boolean, language: PreferredLanguage): string {
+    const state = this.getTaskState(task);
+    const icon = state === 'completed' ? '✅' : state === 'overdue' ? '🚨' : task.blocked_at ? '⛔' : '🔄';
+
+    let line = `${icon} ${escapeMarkdownV2(task.taskText)}\n`;
+    const details: string[] = [];
+    if (showProject) {
+      details.push(`🏗️ ${escapeMarkdownV2(task.projectName)}`);
+    }
+    if (task.priority) {
+      details.push(`⚡ ${escapeMarkdownV2(formatPriority(language, task.priority))}`);
+    }
+    details.push(state === 'completed'
+      ? `📅 ${t(language, 'task_list.completed_on', { date: formatDate(task.completed_at, tText(language, 'common.not_set')) })}`
+      : `📅 ${escapeMarkdownV2(formatDate(task.dueDate, tText(language, 'common.not_set')))}`);
+
+    line += `     ${details.join('  ')}\n`;
+    return line;
+  }
+
+  private getTaskState(task: Task): TaskState {
+    if (task.completed_at || task.status?.toLowerCase() === 'completed') {
+      return 'completed';
+    }
+    if (task.dueDate && new Date(task.dueDate).getTime() < Date.now()) {
+      return 'overdue';
+    }
+    return 'open';
+  }
+
+  // Overdue first, then open tasks by due date, completed tasks last
+  private compareByState(a: Task, b: Task): number {
+    const order: Record<TaskState, number> = { overdue: 0, open: 1, completed: 2 };
+    const byState = order[this.getTaskState(a)] - order[this.getTaskState(b)];
+    if (byState !== 0) return byState;
+
+    const dueA = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+    const dueB = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+    return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+  }
+
+  private countByState(tasks: Task[]): Record<TaskState, number> {
+    const counts: Record<TaskState, number> = { overdue: 0, open: 0, completed: 0 };
+    for (const task of tasks) {
+      counts[this.getTaskState(task)]++;
+    }
+    return counts;
+  }
+}
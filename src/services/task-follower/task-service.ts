@@ -1,15 +1,25 @@
 import { TaskCrud } from '../../crud/task-follower/task';
 import { SheetCrud } from '../../crud/task-follower/sheet';
 import { ActivityCrud } from '../../crud/task-follower/activity';
+import { TaskEventsCrud } from '../../crud/task-follower/task-event';
+import { TaskNotificationChannel } from '../../models/task-follower/task-event';
+import { NotificationPolicyCrud } from '../../crud/task-follower/notification-policy';
 import { Task, TaskModel } from '../../models/task-follower/task';
-import { Sheet } from '../../models/task-follower/sheet';
-import { GoogleSheetsService } from '../google-sheets';
+import { Sheet, TaskColumnKey, TaskColumnMapping } from '../../models/task-follower/sheet';
+import { DEFAULT_NOTIFICATION_POLICY, NotificationPolicySettings } from '../../models/task-follower/notification-policy';
+import { GoogleSheetsService, SpreadsheetMetadata } from '../google-sheets';
 import { TelegramService } from '../telegram';
+import { PointsService } from './points-service';
+import { ActivityReportService } from './activity-report-service';
+import { EmailFallbackService } from './email-fallback-service';
 import { sendMessageToMember } from '../membership-manager/member-services';
 import { MemberSheetServices } from '../membership-manager/member-sheet-services';
-import { Environment } from '../../types';
+import { MemberPreferencesService } from '../member-preferences';
+import { MemberPreferenceSettings, PreferredLanguage } from '../../models/member-preferences';
+import { Environment, InlineKeyboardButton } from '../../types';
 import { DatabaseConnection } from '../../crud/base';
-import { escapeMarkdownV2, formatPriorityToArabic } from '../../utils/helpers';
+import { DEFAULT_LANGUAGE, formatPriority, formatted, MessageKey, MessageParams, t, tText } from '../../i18n';
+import { formatDate } from '../../utils/helpers';
 
 interface Contact {
   number: string; // this is the membership_number
@@ -19,16 +29,79 @@ interface Contact {
   telegram_username?: string;
 }
 
+// A project tab of a task sheet
+interface TaskTab {
+  projectName: string;
+  records: any[];
+  headerCount: number;
+  taskIdIndex: number; // -1 until the Task ID column is added
+  taskIds: string[]; // Every task ID in the tab, including rows that are skipped
+}
+
+// Result of TaskService.validateTaskSheet (rows are 1-based sheet rows)
+export interface SheetValidationReport {
+  sheetID: string;
+  valid: boolean;
+  contactsCount: number;
+  tabs: Array<{
+    projectName: string;
+    rowCount: number;
+    columns: Record<TaskColumnKey, string | null>; // Header used for each column, null when missing
+    missingHeaders: TaskColumnKey[];
+    invalidDates: Array<{ row: number; column: 'startDate' | 'dueDate'; value: string }>;
+    unknownOwners: Array<{ row: number; owner: string }>;
+    duplicateRows: Array<{ rows: number[]; owner: string; task: string }>;
+  }>;
+}
+
+// Notifications the sheet check sends
+// late_undelivered: a late reminder the owner didn't get (reminders turned off or not reachable), still counted for escalation
+export type TaskNotificationKind = 'new' | 'reminder' | 'late' | 'late_undelivered' | 'date_changed' | 'missing_data' | 'shame' | 'escalation';
+
+// Result of TaskService.previewTasksFromSheet: what a sheet check would do, nothing is sent or stored
+export interface SheetCheckPreview {
+  sheetID: string;
+  tasks: Array<{
+    action: 'create' | 'update' | 'skip' | 'error';
+    projectName: string;
+    sheetRow: number;
+    taskId?: string; // Stored task of the row, not set for new tasks
+    ownerName: string;
+    taskText: string;
+    changes?: string[]; // Changed fields of updated tasks
+    error?: string;
+  }>;
+  notifications: Array<{
+    kind: TaskNotificationKind;
+    recipient: { membershipNumber?: string; telegramId?: string; name: string };
+    projectName: string;
+    taskText: string;
+    text: string; // MarkdownV2, as it would be sent
+  }>;
+  archived: Array<{ taskId: string; projectName: string; taskText: string }>;
+  summary: { created: number; updated: number; skipped: number; errors: number; archived: number; notifications: number };
+}
+
+// Header of the column holding the stable task IDs
+const TASK_ID_HEADER = 'Task ID';
+
 export class TaskService {
   private db: DatabaseConnection;
   private taskCrud: TaskCrud;
   private sheetCrud: SheetCrud;
   private activityCrud: ActivityCrud;
+  private taskEventsCrud: TaskEventsCrud;
+  private notificationPolicyCrud: NotificationPolicyCrud;
   private googleSheetsService: GoogleSheetsService;
   private telegramService: TelegramService;
+  private pointsService: PointsService;
+  private activityReportService: ActivityReportService;
+  private emailFallbackService: EmailFallbackService;
+  private preferencesService: MemberPreferencesService;
   private env: Environment;
   private membersCache: Map<string, any> | null = null; // Cache for members by membership_number
   private membersCacheTimestamp: number = 0;
+  private preferencesCache: Map<string, MemberPreferenceSettings> | null = null; // Preferences by telegram_id, for the languages
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache
 
   constructor(db: DatabaseConnection, env: Environment) {
@@ -37,8 +110,14 @@ export class TaskService {
     this.taskCrud = new TaskCrud(db);
     this.sheetCrud = new SheetCrud(db);
     this.activityCrud = new ActivityCrud(db);
+    this.taskEventsCrud = new TaskEventsCrud(db);
+    this.notificationPolicyCrud = new NotificationPolicyCrud(db);
     this.googleSheetsService = new GoogleSheetsService(env);
     this.telegramService = new TelegramService(env);
+    this.pointsService = new PointsService(db, env);
+    this.activityReportService = new ActivityReportService(db, env);
+    this.emailFallbackService = new EmailFallbackService(db, env);
+    this.preferencesService = new MemberPreferencesService(env);
   }
 
   /**
@@ -53,7 +132,8 @@ export class TaskService {
       return this.membersCache;
     }
     
-    // Fetch fresh data
+    // Fetch fresh data, the preferences are read again with it
+    this.preferencesCache = null;
     const memberService = new MemberSheetServices(this.env);
     const members = await memberService.getMembers();
     
@@ -112,7 +192,8 @@ export class TaskService {
     // Populate telegram IDs before creating
     await this.populateTelegramIds(task);
     const result = await this.taskCrud.create(task);
-    return result.success ? task : null;
+    // The stored row gets the id generated by create, not the one of the TaskModel
+    return result.success ? { ...task, id: result.id } : null;
   }
 
   async getTaskById(taskId: string): Promise<Task | null> {
@@ -130,18 +211,57 @@ export class TaskService {
     }
   }
 
+  /**
+   * Find the stored task of a sheet row
+   * Rows with an ID are matched by it; rows without one (tasks stored before the Task ID column was added)
+   * are matched by owner and task text among the project's tasks that no other row claims
+   */
+  private matchStoredTask(
+    record: any,
+    projectName: string,
+    storedTasksById: Map<string, Task>,
+    idsInSheet: Set<string>,
+    matchedIds: Set<string>
+  ): Task | null {
+    if (record.taskId) {
+      const task = storedTasksById.get(record.taskId);
+      // A copied row repeats the ID of another task, only the first row keeps it
+      return task && !matchedIds.has(task.id!) ? task : null;
+    }
+
+    for (const task of storedTasksById.values()) {
+      if (task.projectName === projectName &&
+          !idsInSheet.has(task.id!) &&
+          !matchedIds.has(task.id!) &&
+          (task.taskText || '').trim() === (record.Task || '').trim() &&
+          (task.ownerName || '').trim() === (record.owner || '').trim()) {
+        return task;
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Check if task has meaningful changes that require database update
    * Compares key fields and ignores timestamp-only changes
    */
   private hasTaskChanges(existingTask: Task, newTask: Partial<Task>): boolean {
+    return this.getTaskChanges(existingTask, newTask).length > 0;
+  }
+
+  // Get the fields of a task that changed (what hasTaskChanges looks at)
+  private getTaskChanges(existingTask: Task, newTask: Partial<Task>): (keyof Task)[] {
+    const changes: (keyof Task)[] = [];
+
     // Fields to compare for changes
     const fieldsToCompare: (keyof Task)[] = [
       'ownerID', 'ownerName', 'ownerEmail', 'ownerPhone',
       'owner_telegram_id', 'owner_telegram_username',
       'managerID', 'managerName',
       'manager_telegram_id', 'manager_telegram_username',
-      'points', 'status', 'taskText', 'priority', 'notes', 'milestone'
+      'points', 'status', 'taskText', 'priority', 'notes', 'milestone',
+      'projectName', 'row_number', 'sheet_row'
     ];
 
     // Check if any field has changed
@@ -157,7 +277,7 @@ export class TaskService {
       const normalizedNew = newValue === null ? '' : String(newValue || '');
       
       if (normalizedExisting !== normalizedNew) {
-        return true; // Found a difference
+        changes.push(field); // Found a difference
       }
     }
 
@@ -176,11 +296,11 @@ export class TaskService {
       const newDate = newValue ? new Date(newValue as Date).getTime() : null;
       
       if (existingDate !== newDate) {
-        return true; // Found a difference
+        changes.push(field); // Found a difference
       }
     }
 
-    return false; // No meaningful changes found
+    return changes;
   }
 
   async updateTaskById(taskId: string, task: Partial<Task>): Promise<Task | null> {
@@ -319,7 +439,7 @@ export class TaskService {
   }
 
   // Method to get spreadsheet metadata including all sheets
-  private async getSpreadsheetInfo(sheetId: string): Promise<any> {
+  private async getSpreadsheetInfo(sheetId: string): Promise<SpreadsheetMetadata | null> {
     try {
       return await this.googleSheetsService.getSpreadsheetMetadata(sheetId);
     } catch (error) {
@@ -329,10 +449,9 @@ export class TaskService {
   }
 
   // Method to get task sheets (all sheets except "contacts" and "imported")
-  private async getTaskSheetsData(sheetId: string): Promise<Array<{
-    projectName: string;
-    records: any[];
-  }>> {
+  // `complete` is false when a tab couldn't be read, so missing tasks can't be told apart from deleted ones
+  // (an empty tab is read fine and has no tasks)
+  private async getTaskSheetsData(sheetId: string, columnMapping?: TaskColumnMapping | null): Promise<{ tabs: TaskTab[]; complete: boolean }> {
     try {
       // First, get the list of all sheets/tabs in the spreadsheet
       const spreadsheetData = await this.getSpreadsheetInfo(sheetId);
@@ -341,103 +460,326 @@ export class TaskService {
         throw new Error('Failed to get spreadsheet metadata');
       }
       
-      const sheets = (spreadsheetData as any).sheets || [];
-      const tasks: Array<{ projectName: string; records: any[] }> = [];
+      const sheets = spreadsheetData.sheets || [];
+      const tabs: TaskTab[] = [];
+      let complete = true;
       
       // Process all sheets except "contacts"
       for (const sheet of sheets) {
         const sheetName = sheet.properties?.title;
         
         // Skip contacts sheet
-        if (sheetName.toLowerCase() === 'contacts' || sheetName.toLowerCase() === 'imported') {
+        if (!sheetName || sheetName.toLowerCase() === 'contacts' || sheetName.toLowerCase() === 'imported') {
           continue;
         }
         
         try {
           // Get data from this sheet
           const sheetData = await this.googleSheetsService.getSheetData(sheetId, `${sheetName}!A:Z`);
-          
-          if (sheetData && sheetData.length > 1) {
+
+          if (sheetData.length > 1) {
             // Assume first row contains headers
             const headers = sheetData[0];
             const rows = sheetData.slice(1);
             
-            // Find column indices for task data
-            const ownerIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('owner') || h?.toLowerCase().includes('assigned'));
-            const taskIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('task') || h?.toLowerCase().includes('description'));
-            const statusIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('status'));
-            const priorityIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('priority'));
-            const pointsIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('point'));
-            const startDateIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('start') && h?.toLowerCase().includes('date'));
-            const dueDateIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('delivery') || h?.toLowerCase().includes('due'));
-            const notesIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('note'));
-            const milestoneIndex = headers.findIndex((h: string) => h?.toLowerCase().includes('milestone'));
-            
-            const records = rows.map(row => {
-              if (!row || row.length === 0) return null;
-              
-              return {
-                owner: (ownerIndex >= 0 ? row[ownerIndex] : row[0]) || '',
-                Task: (taskIndex >= 0 ? row[taskIndex] : row[1]) || '',
-                Status: (statusIndex >= 0 ? row[statusIndex] : row[2]) || '',
-                Priority: (priorityIndex >= 0 ? row[priorityIndex] : row[3]) || '',
-                points: (pointsIndex >= 0 ? row[pointsIndex] : row[4]) || '',
-                'Start date': (startDateIndex >= 0 ? row[startDateIndex] : row[5]) || '',
-                'Delivery date': (dueDateIndex >= 0 ? row[dueDateIndex] : row[6]) || '',
-                Notes: (notesIndex >= 0 ? row[notesIndex] : row[7]) || '',
-                Milestone: (milestoneIndex >= 0 ? row[milestoneIndex] : row[8]) || ''
-              };
-            }).filter(record => record !== null && record.owner); // Filter out empty records
+            const { records, taskIdIndex, taskIds } = this.readTaskRecords(headers, rows, columnMapping);
             
-            if (records.length > 0) {
-              tasks.push({
-                projectName: sheetName,
-                records
-              });
-            }
+            tabs.push({
+              projectName: sheetName,
+              records,
+              headerCount: headers.length,
+              taskIdIndex,
+              taskIds
+            });
+          } else {
+            tabs.push({ projectName: sheetName, records: [], headerCount: sheetData[0]?.length || 0, taskIdIndex: -1, taskIds: [] });
           }
         } catch (error) {
           console.error(`Error processing sheet ${sheetName}:`, error);
+          complete = false;
           continue;
         }
       }
       
-      return tasks;
+      return { tabs, complete };
     } catch (error) {
       console.error('Error getting task sheets data:', error);
-      return [];
+      return { tabs: [], complete: false };
+    }
+  }
+
+  // Turn the rows of a project tab into task records (rows without an owner are left out)
+  private readTaskRecords(headers: string[], rows: any[][], columnMapping?: TaskColumnMapping | null): {
+    records: any[];
+    taskIdIndex: number;
+    taskIds: string[];
+  } {
+    // Find column indices for task data
+    const {
+      ownerIndex, taskIndex, statusIndex, priorityIndex, pointsIndex,
+      startDateIndex, dueDateIndex, notesIndex, milestoneIndex, taskIdIndex
+    } = this.getTaskColumnIndices(headers, columnMapping);
+    const taskIdOf = (row: any[]) => taskIdIndex >= 0 ? String(row?.[taskIdIndex] || '').trim() : '';
+    
+    const records = rows.map((row, index) => {
+      if (!row || row.length === 0) return null;
+      
+      return {
+        sheetRow: index + 2, // 1-based, after the header row
+        taskId: taskIdOf(row),
+        owner: (ownerIndex >= 0 ? row[ownerIndex] : row[0]) || '',
+        Task: (taskIndex >= 0 ? row[taskIndex] : row[1]) || '',
+        Status: (statusIndex >= 0 ? row[statusIndex] : row[2]) || '',
+        Priority: (priorityIndex >= 0 ? row[priorityIndex] : row[3]) || '',
+        points: (pointsIndex >= 0 ? row[pointsIndex] : row[4]) || '',
+        'Start date': (startDateIndex >= 0 ? row[startDateIndex] : row[5]) || '',
+        'Delivery date': (dueDateIndex >= 0 ? row[dueDateIndex] : row[6]) || '',
+        Notes: (notesIndex >= 0 ? row[notesIndex] : row[7]) || '',
+        Milestone: (milestoneIndex >= 0 ? row[milestoneIndex] : row[8]) || ''
+      };
+    }).filter(record => record !== null && record.owner); // Filter out empty records
+
+    return { records, taskIdIndex, taskIds: rows.map(taskIdOf).filter(taskId => taskId) };
+  }
+
+  // Find the task columns of a project tab by their headers (-1 when a column is missing)
+  // Headers named in the sheet's column mapping are matched exactly, the other columns are guessed
+  private getTaskColumnIndices(headers: string[], mapping?: TaskColumnMapping | null): {
+    ownerIndex: number;
+    taskIndex: number;
+    statusIndex: number;
+    priorityIndex: number;
+    pointsIndex: number;
+    startDateIndex: number;
+    dueDateIndex: number;
+    notesIndex: number;
+    milestoneIndex: number;
+    taskIdIndex: number;
+  } {
+    const findColumn = (key: TaskColumnKey, guess: (header: string, index: number) => boolean): number => {
+      const mappedHeader = mapping?.[key]?.trim().toLowerCase();
+      return mappedHeader
+        ? headers.findIndex((h: string) => h?.trim().toLowerCase() === mappedHeader)
+        : headers.findIndex((h: string, index: number) => guess(h?.toLowerCase() || '', index));
+    };
+
+    const taskIdHeader = (mapping?.taskId || TASK_ID_HEADER).toLowerCase();
+    const taskIdIndex = headers.findIndex((h: string) => h?.trim().toLowerCase() === taskIdHeader);
+
+    return {
+      ownerIndex: findColumn('owner', h => h.includes('owner') || h.includes('assigned')),
+      taskIndex: findColumn('task', (h, index) => index !== taskIdIndex && (h.includes('task') || h.includes('description'))),
+      statusIndex: findColumn('status', h => h.includes('status')),
+      priorityIndex: findColumn('priority', h => h.includes('priority')),
+      pointsIndex: findColumn('points', h => h.includes('point')),
+      startDateIndex: findColumn('startDate', h => h.includes('start') && h.includes('date')),
+      dueDateIndex: findColumn('dueDate', h => h.includes('delivery') || h.includes('due')),
+      notesIndex: findColumn('notes', h => h.includes('note')),
+      milestoneIndex: findColumn('milestone', h => h.includes('milestone')),
+      taskIdIndex
+    };
+  }
+
+  /**
+   * Write changes made from Telegram back to the task's row in the sheet
+   * The row is found by the task's ID in the Task ID column, rows may have moved since the last sheet check
+   * Columns are found by header like in the sheet check, falling back to the default layout
+   * @param task The stored task
+   * @param values The status, notes and/or delivery date to write
+   */
+  async writeTaskToSheet(task: Task, values: { status?: string; notes?: string; dueDate?: string }): Promise<{ success: boolean; error?: string }> {
+    if (!task.id) {
+      return { success: false, error: 'Task is not stored' };
+    }
+
+    try {
+      const [headers = []] = await this.googleSheetsService.getSheetData(task.sheetID, `${task.projectName}!1:1`);
+      if (headers.length === 0) {
+        return { success: false, error: `Could not read the headers of ${task.projectName}` };
+      }
+
+      const columnMapping = await this.sheetCrud.getColumnMapping(task.sheetID);
+      const { statusIndex, notesIndex, dueDateIndex, taskIdIndex } = this.getTaskColumnIndices(headers, columnMapping);
+      if (taskIdIndex < 0) {
+        return { success: false, error: `${task.projectName} has no Task ID column yet` };
+      }
+
+      const taskIdColumn = this.googleSheetsService.getColumnLetter(taskIdIndex);
+      const taskIds = await this.googleSheetsService.getSheetData(task.sheetID, `${task.projectName}!${taskIdColumn}:${taskIdColumn}`);
+      const rowIndex = taskIds.findIndex((row, index) => index > 0 && String(row?.[0] || '').trim() === task.id);
+      if (rowIndex < 0) {
+        return { success: false, error: `Task ${task.id} was not found in ${task.projectName}` };
+      }
+      const sheetRow = rowIndex + 1;
+
+      if (values.status !== undefined) {
+        const column = this.googleSheetsService.getColumnLetter(statusIndex >= 0 ? statusIndex : 2);
+        await this.googleSheetsService.updateSingleCell(task.sheetID, `${task.projectName}!${column}${sheetRow}`, values.status);
+      }
+      if (values.notes !== undefined) {
+        const column = this.googleSheetsService.getColumnLetter(notesIndex >= 0 ? notesIndex : 7);
+        await this.googleSheetsService.updateSingleCell(task.sheetID, `${task.projectName}!${column}${sheetRow}`, values.notes);
+      }
+      if (values.dueDate !== undefined) {
+        const column = this.googleSheetsService.getColumnLetter(dueDateIndex >= 0 ? dueDateIndex : 6);
+        await this.googleSheetsService.updateSingleCell(task.sheetID, `${task.projectName}!${column}${sheetRow}`, values.dueDate);
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error writing task back to sheet:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
+  /**
+   * Check a task sheet without sending anything or writing to the database
+   * Reports missing headers, dates that can't be parsed, owners missing from contacts and duplicate rows
+   * @param sheetId Google Sheet ID
+   * @param columnMapping Column mapping to check with, the registered one when not given
+   */
+  async validateTaskSheet(sheetId: string, columnMapping?: TaskColumnMapping | null): Promise<SheetValidationReport> {
+    const mapping = columnMapping !== undefined ? columnMapping : await this.sheetCrud.getColumnMapping(sheetId);
+    const contacts = await this.getContactsFromSheet(sheetId);
+    const spreadsheetData = await this.getSpreadsheetInfo(sheetId);
+    if (!spreadsheetData) {
+      throw new Error('Failed to get spreadsheet metadata');
+    }
+
+    const report: SheetValidationReport = { sheetID: sheetId, valid: true, contactsCount: contacts.length, tabs: [] };
+
+    for (const sheet of spreadsheetData.sheets || []) {
+      const projectName = sheet.properties?.title;
+      if (!projectName || projectName.toLowerCase() === 'contacts' || projectName.toLowerCase() === 'imported') {
+        continue;
+      }
+
+      const [headers = [], ...rows] = await this.googleSheetsService.getSheetData(sheetId, `${projectName}!A:Z`);
+      const indices = this.getTaskColumnIndices(headers, mapping);
+      const columnIndices: Record<TaskColumnKey, number> = {
+        owner: indices.ownerIndex, task: indices.taskIndex, status: indices.statusIndex,
+        priority: indices.priorityIndex, points: indices.pointsIndex, startDate: indices.startDateIndex,
+        dueDate: indices.dueDateIndex, notes: indices.notesIndex, milestone: indices.milestoneIndex,
+        taskId: indices.taskIdIndex
+      };
+
+      const tab: SheetValidationReport['tabs'][number] = {
+        projectName,
+        rowCount: 0,
+        columns: {} as Record<TaskColumnKey, string | null>,
+        missingHeaders: [],
+        invalidDates: [],
+        unknownOwners: [],
+        duplicateRows: []
+      };
+
+      for (const [key, index] of Object.entries(columnIndices) as Array<[TaskColumnKey, number]>) {
+        tab.columns[key] = index >= 0 ? headers[index] : null;
+        // The Task ID column is added by the sheet check
+        if (index < 0 && key !== 'taskId') {
+          tab.missingHeaders.push(key);
+        }
+      }
+
+      const { records } = this.readTaskRecords(headers, rows, mapping);
+      tab.rowCount = records.length;
+      const rowsByContent = new Map<string, number[]>();
+
+      for (const record of records) {
+        for (const [column, field] of [['startDate', 'Start date'], ['dueDate', 'Delivery date']] as const) {
+          const value = String(record[field] || '');
+          if (value.trim() && !this.parseDate(value)) {
+            tab.invalidDates.push({ row: record.sheetRow, column, value });
+          }
+        }
+
+        if (this.getSpecificContact(contacts, record.owner).number === '0') {
+          tab.unknownOwners.push({ row: record.sheetRow, owner: record.owner });
+        }
+
+        const contentKey = `${record.owner.trim().toLowerCase()}\u0000${String(record.Task).trim().toLowerCase()}`;
+        rowsByContent.set(contentKey, [...(rowsByContent.get(contentKey) || []), record.sheetRow]);
+      }
+
+      for (const [contentKey, sheetRows] of rowsByContent) {
+        if (sheetRows.length > 1) {
+          const [owner, task] = contentKey.split('\u0000');
+          tab.duplicateRows.push({ rows: sheetRows, owner, task });
+        }
+      }
+
+      if (tab.missingHeaders.length || tab.invalidDates.length || tab.unknownOwners.length || tab.duplicateRows.length) {
+        report.valid = false;
+      }
+      report.tabs.push(tab);
+    }
+
+    return report;
+  }
+
   // Method to process sheet data from Google Sheets API
-  private async processSheetData(sheetId: string): Promise<{
+  private async processSheetData(sheetId: string, columnMapping?: TaskColumnMapping | null): Promise<{
     contacts: Contact[];
-    tasks: Array<{
-      projectName: string;
-      records: any[];
-    }>;
+    tasks: TaskTab[];
+    complete: boolean;
   }> {
     // Get contacts from the "contacts" sheet
     const contacts = await this.getContactsFromSheet(sheetId);
     
     // Get tasks from all other sheets
-    const tasks = await this.getTaskSheetsData(sheetId);
+    const { tabs, complete } = await this.getTaskSheetsData(sheetId, columnMapping);
     
-    return { contacts, tasks };
+    return { contacts, tasks: tabs, complete };
+  }
+
+  /**
+   * Show what checking a sheet would do without sending anything or writing to the database or the sheet
+   * @param sheetId Google Sheet ID
+   */
+  async previewTasksFromSheet(sheetId: string): Promise<SheetCheckPreview> {
+    const preview: SheetCheckPreview = {
+      sheetID: sheetId,
+      tasks: [],
+      notifications: [],
+      archived: [],
+      summary: { created: 0, updated: 0, skipped: 0, errors: 0, archived: 0, notifications: 0 }
+    };
+
+    await this.checkTasksFromSheet(sheetId, preview);
+
+    preview.summary = {
+      created: preview.tasks.filter(task => task.action === 'create').length,
+      updated: preview.tasks.filter(task => task.action === 'update').length,
+      skipped: preview.tasks.filter(task => task.action === 'skip').length,
+      errors: preview.tasks.filter(task => task.action === 'error').length,
+      archived: preview.archived.length,
+      notifications: preview.notifications.length
+    };
+    return preview;
   }
 
   // Main method to check tasks from a specific sheet
-  async checkTasksFromSheet(sheetId: string): Promise<string> {
-    console.log('Starting task check for sheet:', sheetId);
+  // With a preview, the notifications and changes are recorded in it instead of being sent and stored
+  async checkTasksFromSheet(sheetId: string, preview?: SheetCheckPreview): Promise<string> {
+    console.log(`Starting task ${preview ? 'preview' : 'check'} for sheet:`, sheetId);
     
     try {
       // Process the sheet data - get contacts from "contacts" sheet and tasks from other sheets
-      const { contacts, tasks } = await this.processSheetData(sheetId);
+      const columnMapping = await this.sheetCrud.getColumnMapping(sheetId);
+      const { contacts, tasks, complete } = await this.processSheetData(sheetId, columnMapping);
       
       if (contacts.length === 0) {
         console.warn('No contacts found in sheet');
       }
 
+      // Rows are matched to the stored tasks by the ID in their Task ID cell, not by their position
+      const storedTasks = await this.taskCrud.getBySheetId(sheetId);
+      const policies = await this.notificationPolicyCrud.getBySheetId(sheetId);
+      const storedTasksById = new Map(storedTasks.map(task => [task.id!, task]));
+      const idsInSheet = new Set(tasks.flatMap(tab => tab.taskIds));
+      const matchedIds = new Set<string>();
+      let hadRowErrors = false;
+
       // Process each task group
       for (const taskGroup of tasks) {
         const projectName = taskGroup.projectName;
@@ -450,7 +792,18 @@ export class TaskService {
         let rowNumber = 1;
         let updatedCount = 0;
         let skippedCount = 0;
-        const pageUserIdsAndNames: Array<[string, string]> = [];
+        const taskIdWrites: Array<{ range: string; value: string }> = [];
+
+        // Add the Task ID column after the last header if the tab doesn't have one yet,
+        // the header is written only along with the IDs of stored tasks
+        let taskIdIndex = taskGroup.taskIdIndex;
+        const addTaskIdHeader = taskIdIndex < 0 && taskGroup.headerCount < 26; // Tabs are read up to column Z
+        if (addTaskIdHeader) {
+          taskIdIndex = taskGroup.headerCount;
+        }
+        
+        // Reminder cadence, shaming and quiet days of the project
+        const policy = this.notificationPolicyCrud.resolvePolicy(policies, sheetId, projectName).settings;
         
         // Get manager from first row or use default
         const manager = taskGroup.records.length > 0 
@@ -481,6 +834,7 @@ export class TaskService {
               projectName: projectName,
               pageID: '0', // Default page ID
               row_number: rowNumber,
+              sheet_row: record.sheetRow,
               ownerID: contact.number,
               ownerName: record.owner || '',
               ownerEmail: contact.mail,
@@ -499,23 +853,17 @@ export class TaskService {
             // Populate telegram IDs from member sheet
             await this.populateTelegramIds(taskObj);
 
-            // Add to user list if task is active
-            if (taskObj.ownerID && taskObj.ownerName && 
-                taskObj.status.toLowerCase() !== 'completed' && 
-                taskObj.status.toLowerCase() !== 'blocked') {
-              const userEntry: [string, string] = [taskObj.ownerID, taskObj.ownerName];
-              if (!pageUserIdsAndNames.some(([id, name]) => id === userEntry[0] && name === userEntry[1])) {
-                pageUserIdsAndNames.push(userEntry);
-              }
-            }
-
             // Check if task started
             if (createdAt > new Date(Date.now() + 10 * 60 * 1000)) { // 10 minutes in future
               send = false;
             }
 
             // Check if task exists (we need to check this BEFORE setting completed_at/blocked_at)
-            const existingTask = await this.searchTask(sheetId, projectName, rowNumber);
+            const existingTask = this.matchStoredTask(record, projectName, storedTasksById, idsInSheet, matchedIds);
+            if (existingTask) {
+              matchedIds.add(existingTask.id!);
+            }
+            let storedTaskId = existingTask?.id;
 
             // Handle completed/blocked tasks
             // Only set completed_at/blocked_at if task wasn't already completed/blocked
@@ -551,7 +899,7 @@ export class TaskService {
                                     new Date(existingTask.last_reported).getTime() < Date.now() - 24 * 60 * 60 * 1000);
               
               if (shouldReport && send) {
-                await this.sendToManagerMissingData(taskObj);
+                await this.sendToManagerMissingData(taskObj, existingTask?.id, preview);
                 taskObj.last_reported = new Date();
               }
               send = false;
@@ -559,25 +907,28 @@ export class TaskService {
 
             if (existingTask) {
               // Handle existing task logic
-              const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
-              
               if (existingTask.last_sent && taskObj.dueDate) {
                 const lastSentTime = new Date(existingTask.last_sent).getTime();
+                const isLate = taskObj.dueDate.getTime() < Date.now();
+                const resendHours = isLate ? policy.late_reminder_hours : 24;
                 
-                if (lastSentTime > oneDayAgo) {
+                if (lastSentTime > Date.now() - resendHours * 60 * 60 * 1000) {
                   send = false;
+                } else if (this.isQuietDay(policy)) {
+                  // No reminders on the quiet days of the project, changes are still announced
                 } else {
                   // Check if task is late or needs reminder
-                  if (taskObj.dueDate.getTime() < Date.now()) {
+                  if (isLate) {
                     if (send) {
                       // Pass the existing task ID for shame notifications
-                      await this.sendLateTask(taskObj, existingTask.id);
+                      await this.sendLateTask(taskObj, existingTask.id, preview, policy);
+                      await this.escalateLateTask(taskObj, existingTask.id!, policy, preview);
                       taskObj.last_sent = new Date();
                       send = false;
                     }
-                  } else {
+                  } else if (this.isReminderDay(policy, taskObj.dueDate)) {
                     if (send) {
-                      await this.sendReminderTask(taskObj);
+                      await this.sendReminderTask(taskObj, existingTask.id, preview);
                       taskObj.last_sent = new Date();
                       send = false;
                     }
@@ -585,7 +936,7 @@ export class TaskService {
                 }
               } else if (!existingTask.last_sent) {
                 if (send) {
-                  await this.sendNewTask(taskObj);
+                  await this.sendNewTask(taskObj, existingTask.id, preview);
                   taskObj.last_sent = new Date();
                   send = false;
                 }
@@ -594,13 +945,13 @@ export class TaskService {
               // Check for task updates
               if (existingTask.ownerID !== taskObj.ownerID) {
                 if (send) {
-                  await this.sendNewTask(taskObj);
+                  await this.sendNewTask(taskObj, existingTask.id, preview);
                   taskObj.last_sent = new Date();
                   send = false;
                 }
               } else if (this.hasDateChanged(existingTask.dueDate, taskObj.dueDate)) {
                 if (send) {
-                  await this.sendUpdatedDueDateTask(existingTask, taskObj);
+                  await this.sendUpdatedDueDateTask(existingTask, taskObj, preview);
                   taskObj.last_sent = new Date();
                   send = false;
                 }
@@ -620,39 +971,105 @@ export class TaskService {
               }
 
               // Only update if there are actual changes (saves database write operations)
-              if (this.hasTaskChanges(existingTask, taskObj)) {
-                await this.updateTaskById(existingTask.id!, taskObj);
+              const changes = this.getTaskChanges(existingTask, taskObj);
+              if (changes.length > 0) {
+                if (preview) {
+                  preview.tasks.push({ ...this.getPreviewTask('update', projectName, record.sheetRow, taskObj), taskId: existingTask.id, changes });
+                } else {
+                  await this.taskEventsCrud.recordChanges(existingTask, taskObj, 'sheet_sync');
+                  await this.updateTaskById(existingTask.id!, taskObj);
+                  if (!existingTask.completed_at && taskObj.completed_at) {
+                    await this.pointsService.creditCompletedTask(existingTask.id!);
+                  }
+                }
                 updatedCount++;
               } else {
+                preview?.tasks.push({ ...this.getPreviewTask('skip', projectName, record.sheetRow, taskObj), taskId: existingTask.id });
                 skippedCount++;
               }
             } else {
-              // Create new task
+              // Create new task first, so the notification buttons can refer to it
               if (send) {
-                await this.sendNewTask(taskObj);
                 taskObj.last_sent = new Date();
               }
-              await this.createNewTask(taskObj);
+              if (preview) {
+                preview.tasks.push(this.getPreviewTask('create', projectName, record.sheetRow, taskObj));
+              } else {
+                const createdTask = await this.createNewTask(taskObj);
+                storedTaskId = createdTask?.id;
+                if (storedTaskId) {
+                  await this.taskEventsCrud.record({ task_id: storedTaskId, event_type: 'created', source: 'sheet_sync' });
+                }
+              }
+              if (send) {
+                await this.sendNewTask(taskObj, storedTaskId, preview);
+              }
+            }
+
+            // Write the ID to rows that don't have it (new tasks, tasks stored before the column, copied rows)
+            if (storedTaskId && storedTaskId !== record.taskId && taskIdIndex >= 0) {
+              taskIdWrites.push({
+                range: `${projectName}!${this.googleSheetsService.getColumnLetter(taskIdIndex)}${record.sheetRow}`,
+                value: storedTaskId
+              });
             }
 
           } catch (error) {
             console.error(`Error processing row ${rowNumber}:`, error);
+            hadRowErrors = true;
+            preview?.tasks.push({
+              ...this.getPreviewTask('error', projectName, record.sheetRow, { taskText: record.Task || '', ownerName: record.owner || '' }),
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
           }
           
           rowNumber++;
         }
 
+        try {
+          if (!preview && taskIdWrites.length > 0) {
+            if (addTaskIdHeader) {
+              taskIdWrites.unshift({ range: `${projectName}!${this.googleSheetsService.getColumnLetter(taskIdIndex)}1`, value: columnMapping?.taskId || TASK_ID_HEADER });
+            }
+            await this.googleSheetsService.updateCells(sheetId, taskIdWrites);
+          }
+        } catch (error) {
+          // The rows are matched by content again on the next check
+          console.error(`Error writing task IDs to ${projectName}:`, error);
+        }
+
         // Log update statistics for this project
         console.log(`Project ${projectName}: ${updatedCount} tasks updated, ${skippedCount} tasks unchanged (${skippedCount > 0 ? Math.round(skippedCount / (updatedCount + skippedCount) * 100) : 0}% saved)`);
 
-        // TODO: Handle activity reporting
-        // const activity = await this.activityCrud.getOrCreateActivity(manager.number, manager.name1, projectName);
-        // if (activity && shouldSendActivityReport(activity)) {
-        //   await this.checkAndReportProjectActivity(pageUserIdsAndNames, manager);
-        // }
+        // Tell the manager when the project or some of its owners stopped moving
+        if (!preview && manager.number !== '0') {
+          await this.activityReportService.reportProjectActivity(sheetId, projectName, manager);
+        }
+      }
+
+      // Archive stored tasks whose row was deleted, unless part of the sheet couldn't be read
+      if (complete && !hadRowErrors) {
+        for (const task of storedTasks) {
+          if (matchedIds.has(task.id!) || idsInSheet.has(task.id!)) continue;
+
+          if (preview) {
+            preview.archived.push({ taskId: task.id!, projectName: task.projectName, taskText: task.taskText });
+            continue;
+          }
+
+          const result = await this.taskCrud.archiveTask(task.id!, 'deleted_from_sheet');
+          if (result.success) {
+            console.log(`Archived task ${task.id} (${task.projectName}): no longer in the sheet`);
+            await this.taskEventsCrud.record({ task_id: task.id!, event_type: 'archived', new_value: 'deleted_from_sheet', source: 'sheet_sync' });
+          } else {
+            console.error(`Error archiving task ${task.id}:`, result.error);
+          }
+        }
+      } else {
+        console.warn(`Not archiving deleted tasks of ${sheetId}: the sheet wasn't fully processed`);
       }
 
-      return 'Tasks imported and sent successfully';
+      return preview ? 'Tasks previewed successfully' : 'Tasks imported and sent successfully';
     } catch (error) {
       console.error('Error checking tasks from sheet:', error);
       throw error;
@@ -697,39 +1114,116 @@ export class TaskService {
   }
 
   // Notification methods using Telegram instead of email
-  private formatDate(date: Date | string | null | undefined): string {
-    if (!date) return 'غير محدد';
-    
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
-    if (isNaN(dateObj.getTime())) return 'غير محدد';
-    
-    // Format as YYYY-MM-DD
-    const year = dateObj.getFullYear();
-    const month = String(dateObj.getMonth() + 1).padStart(2, '0');
-    const day = String(dateObj.getDate()).padStart(2, '0');
-    // return `${year}-${month}-${day}`;
-    return `${day}-${month}-${year}`; // rtl format
+  // Buttons under task notifications, handled by TaskActionService, ExtensionRequestService and TaskHistoryService
+  private getTaskActionKeyboard(taskId?: string, allowExtension: boolean = false, language: PreferredLanguage = DEFAULT_LANGUAGE): InlineKeyboardButton[][] | undefined {
+    if (!taskId) return undefined;
+    const keyboard: InlineKeyboardButton[][] = [
+      [
+        { text: tText(language, 'task.done_button'), callback_data: `task_done_${taskId}` },
+        { text: tText(language, 'task.progress_button'), callback_data: `task_progress_${taskId}` }
+      ],
+      [
+        { text: tText(language, 'task.block_button'), callback_data: `task_block_${taskId}` },
+        { text: tText(language, 'task.help_button'), callback_data: `task_help_${taskId}` }
+      ]
+    ];
+    if (allowExtension) {
+      keyboard.push([{ text: tText(language, 'task.extend_button'), callback_data: `task_extend_${taskId}` }]);
+    }
+    keyboard.push([{ text: tText(language, 'task.history_button'), callback_data: `task_history_${taskId}` }]);
+    return keyboard;
   }
 
-  private async sendNewTask(task: TaskModel): Promise<void> {
-    const managerContact = task.manager_telegram_username 
-      ? `@${escapeMarkdownV2(task.manager_telegram_username)}`
-      : escapeMarkdownV2(task.managerName || 'غير محدّد');
+  /**
+   * Language a member chose in /settings, the default for members without a Telegram account or preferences
+   * @param membershipNumber Membership number of the task owner or manager
+   */
+  private async getMemberLanguage(membershipNumber?: string | null): Promise<PreferredLanguage> {
+    if (!membershipNumber) return DEFAULT_LANGUAGE;
+    try {
+      const member = (await this.getMembersCache()).get(membershipNumber);
+      if (!member?.telegram_id) return DEFAULT_LANGUAGE;
 
-    const text = `
-🆕 *مهمّة جديدة*
+      if (!this.preferencesCache) {
+        this.preferencesCache = await this.preferencesService.getAllSettings();
+      }
+      return this.preferencesCache.get(member.telegram_id.toString())?.language || DEFAULT_LANGUAGE;
+    } catch (error) {
+      console.error('Error getting the language of a member:', error);
+      return DEFAULT_LANGUAGE;
+    }
+  }
 
-📋 *المهمّة:* ${escapeMarkdownV2(task.taskText)}
-⚡ *الاستعجاليّة:* ${escapeMarkdownV2(formatPriorityToArabic(task.priority))}
-📅 *آخر موعد للتّسليم:* ${escapeMarkdownV2(this.formatDate(task.dueDate))}
+  // Link to the project tab of the task sheet
+  private getSheetUrl(task: Pick<TaskModel, 'sheetID' | 'pageID'>): string {
+    return `https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID}`;
+  }
 
-📝 *ملاحظات:* ${escapeMarkdownV2(task.notes || 'لا توجد ملاحظات')}
+  // Parameters shared by the task notices sent to the owner
+  private getTaskNoticeParams(task: TaskModel, language: PreferredLanguage): MessageParams {
+    return {
+      task: task.taskText,
+      priority: formatPriority(language, task.priority),
+      due_date: formatDate(task.dueDate, tText(language, 'common.not_set')),
+      notes: task.notes || tText(language, 'task.no_notes'),
+      project: task.projectName,
+      manager: task.manager_telegram_username
+        ? `@${task.manager_telegram_username}`
+        : task.managerName || tText(language, 'common.not_set'),
+      sheet_url: formatted(this.getSheetUrl(task))
+    };
+  }
 
-🏗️ *المشروع:* ${escapeMarkdownV2(task.projectName)}
-👨‍💼 *مسؤول المشروع:* ${managerContact}
+  // Entry of a sheet row in a preview
+  private getPreviewTask(
+    action: SheetCheckPreview['tasks'][number]['action'],
+    projectName: string,
+    sheetRow: number,
+    task: Pick<Task, 'taskText' | 'ownerName'>
+  ): SheetCheckPreview['tasks'][number] {
+    return {
+      action,
+      projectName,
+      sheetRow,
+      ownerName: task.ownerName,
+      taskText: task.taskText
+    };
+  }
 
-🔗 [رابط ملف المتابعة](https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID})
-`;
+  // Record a notification in a preview instead of sending it to the task owner or manager
+  private addPreviewNotification(
+    preview: SheetCheckPreview,
+    kind: TaskNotificationKind,
+    task: TaskModel,
+    recipient: 'owner' | 'manager',
+    text: string
+  ): void {
+    preview.notifications.push({
+      kind,
+      recipient: recipient === 'owner'
+        ? { membershipNumber: task.ownerID, telegramId: task.owner_telegram_id || undefined, name: task.ownerName }
+        : { membershipNumber: task.managerID || undefined, telegramId: task.manager_telegram_id || undefined, name: task.managerName },
+      projectName: task.projectName,
+      taskText: task.taskText,
+      text
+    });
+  }
+
+  // Add a sent notification to the history of a stored task
+  // The recipient is a membership number, the channel is set for notices not sent on Telegram
+  private async recordNotification(taskId: string | undefined, kind: TaskNotificationKind, recipient: string, channel?: TaskNotificationChannel): Promise<void> {
+    if (!taskId) return;
+    await this.taskEventsCrud.record({ task_id: taskId, event_type: 'notified', field: kind, new_value: recipient, source: 'sheet_sync', channel });
+  }
+
+  private async sendNewTask(task: TaskModel, taskId?: string, preview?: SheetCheckPreview): Promise<void> {
+    const language = await this.getMemberLanguage(task.ownerID);
+    const text = t(language, 'task.new', this.getTaskNoticeParams(task, language));
+
+    if (preview) {
+      this.addPreviewNotification(preview, 'new', task, 'owner', text);
+      return;
+    }
 
     try {
       // Get cached member to avoid extra API calls
@@ -737,14 +1231,16 @@ export class TaskService {
       const cachedMember = membersMap.get(task.ownerID);
       
       // Send to task owner using their membership_id (ownerID)
-      const result = await sendMessageToMember(this.env, task.ownerID, text, [], undefined, cachedMember);
+      const result = await sendMessageToMember(this.env, task.ownerID, text, [], undefined, cachedMember, this.getTaskActionKeyboard(taskId, false, language), { category: 'task', referenceId: taskId });
       if (result.success) {
         console.log('New task notification sent to:', task.ownerName);
+        await this.recordNotification(taskId, 'new', task.ownerID);
       } else {
         console.error('Error sending new task notification:', result.error);
-        // Notify manager about the delivery failure
-        await this.notifyManagerOfDeliveryFailure(
+        // Email the owner when Telegram can't reach them, and notify manager about the delivery failure
+        await this.handleOwnerDeliveryFailure(
           task, 
+          taskId,
           result.errorCode || 'UNKNOWN_ERROR', 
           result.error || 'Unknown error',
           'new'
@@ -762,39 +1258,32 @@ export class TaskService {
     }
   }
 
-  private async sendReminderTask(task: TaskModel): Promise<void> {
-    const managerContact = task.manager_telegram_username 
-      ? `@${escapeMarkdownV2(task.manager_telegram_username)}`
-      : escapeMarkdownV2(task.managerName || 'غير محدّد');
+  private async sendReminderTask(task: TaskModel, taskId?: string, preview?: SheetCheckPreview): Promise<void> {
+    const language = await this.getMemberLanguage(task.ownerID);
+    const text = t(language, 'task.reminder', this.getTaskNoticeParams(task, language));
 
-    const text = `
-⏰ *تذكير بالمهمّة*
-
-📋 *المهمّة:* ${escapeMarkdownV2(task.taskText)}
-⚡ *الاستعجاليّة:* ${escapeMarkdownV2(formatPriorityToArabic(task.priority))}
-📅 *آخر موعد للتّسليم:* ${escapeMarkdownV2(this.formatDate(task.dueDate))}
-
-📝 *ملاحظات:* ${escapeMarkdownV2(task.notes || 'لا توجد ملاحظات')}
-
-🏗️ *المشروع:* ${escapeMarkdownV2(task.projectName)}
-👨‍💼 *مسؤول المشروع:* ${managerContact}
-
-🔗 [رابط ملف المتابعة](https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID})
-`;
+    if (preview) {
+      this.addPreviewNotification(preview, 'reminder', task, 'owner', text);
+      return;
+    }
 
     try {
       // Get cached member to avoid extra API calls
       const membersMap = await this.getMembersCache();
       const cachedMember = membersMap.get(task.ownerID);
       
-      const result = await sendMessageToMember(this.env, task.ownerID, text, [], undefined, cachedMember);
+      const result = await sendMessageToMember(this.env, task.ownerID, text, [], undefined, cachedMember, this.getTaskActionKeyboard(taskId, true, language), { category: 'task', referenceId: taskId, preference: 'task_reminders' });
       if (result.success) {
         console.log('Reminder task notification sent to:', task.ownerName);
+        await this.recordNotification(taskId, 'reminder', task.ownerID);
+      } else if (result.errorCode === 'OPTED_OUT') {
+        console.log(`${task.ownerName} turned off task reminders, reminder not sent`);
       } else {
         console.error('Error sending reminder task notification:', result.error);
-        // Notify manager about the delivery failure
-        await this.notifyManagerOfDeliveryFailure(
+        // Email the owner when Telegram can't reach them, and notify manager about the delivery failure
+        await this.handleOwnerDeliveryFailure(
           task, 
+          taskId,
           result.errorCode || 'UNKNOWN_ERROR', 
           result.error || 'Unknown error',
           'reminder'
@@ -812,50 +1301,64 @@ export class TaskService {
     }
   }
 
-  private async sendLateTask(task: TaskModel, taskId?: string): Promise<void> {
-    const managerContact = task.manager_telegram_username
-      ? `@${escapeMarkdownV2(task.manager_telegram_username)}`
-      : escapeMarkdownV2(task.managerName || 'غير محدّد');
-
-    // Check if task is delayed by 2+ days for shame notifications
-    const isDelayedBy2Days = task.dueDate && 
-      (Date.now() - new Date(task.dueDate).getTime()) > (2 * 24 * 60 * 60 * 1000);
-
-    const text = `
-🚨 *مهمّة متأخرة*
-
-📋 *المهمّة:* ${escapeMarkdownV2(task.taskText)}
-⚡ *الاستعجاليّة:* ${escapeMarkdownV2(formatPriorityToArabic(task.priority))}
-📅 *كان آخر موعد للتّسليم:* ${escapeMarkdownV2(this.formatDate(task.dueDate))}
-
-📝 *ملاحظات:* ${escapeMarkdownV2(task.notes || 'لا توجد ملاحظات')}
-
-🏗️ *المشروع:* ${escapeMarkdownV2(task.projectName)}
-👨‍💼 *مسؤول المشروع:* ${managerContact}
-
-⚠️ *الرجاء التواصل مع مسؤول المشروع في أقرب وقت ممكن*
-
-🔗 [رابط ملف المتابعة](https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID})
-`;
+  private async sendLateTask(
+    task: TaskModel,
+    taskId?: string,
+    preview?: SheetCheckPreview,
+    policy: NotificationPolicySettings = DEFAULT_NOTIFICATION_POLICY
+  ): Promise<void> {
+    const language = await this.getMemberLanguage(task.ownerID);
+
+    // Check if task is delayed past the shame threshold of the project
+    const isPastShameThreshold = policy.shame_enabled && task.dueDate && 
+      (Date.now() - new Date(task.dueDate).getTime()) > (policy.shame_after_days * 24 * 60 * 60 * 1000);
+
+    const text = t(language, 'task.late', this.getTaskNoticeParams(task, language));
+
+    if (preview) {
+      this.addPreviewNotification(preview, 'late', task, 'owner', text);
+      const idToUse = taskId || task.id;
+      if (isPastShameThreshold && idToUse) {
+        const { ShameService } = await import('./shame-service');
+        const shame = await new ShameService(this.db, this.env).getShameNotification(idToUse);
+        for (const member of shame.recipients) {
+          preview.notifications.push({
+            kind: 'shame',
+            recipient: { telegramId: member.telegram_id, name: member.name },
+            projectName: task.projectName,
+            taskText: task.taskText,
+            text: member.text
+          });
+        }
+      }
+      return;
+    }
 
     try {
       // Get cached member to avoid extra API calls
       const membersMap = await this.getMembersCache();
       const cachedMember = membersMap.get(task.ownerID);
       
-      const result = await sendMessageToMember(this.env, task.ownerID, text, [], undefined, cachedMember);
-      if (result.success) {
-        console.log('Late task notification sent to:', task.ownerName);
+      const result = await sendMessageToMember(this.env, task.ownerID, text, [], undefined, cachedMember, this.getTaskActionKeyboard(taskId, true, language), { category: 'task', referenceId: taskId, preference: 'task_reminders' });
+      if (result.success || result.errorCode === 'OPTED_OUT') {
+        if (result.success) {
+          console.log('Late task notification sent to:', task.ownerName);
+          await this.recordNotification(taskId, 'late', task.ownerID);
+        } else {
+          // The project members are still told when the owner turned off their own reminders
+          console.log(`${task.ownerName} turned off task reminders, late notice not sent`);
+          await this.recordNotification(taskId, 'late_undelivered', task.ownerID);
+        }
         
         // If task is delayed by 2+ days, automatically send shame notifications to project members
         const idToUse = taskId || task.id;
-        if (isDelayedBy2Days && idToUse) {
-          console.log('Task is 2+ days overdue, sending shame notifications to project members...');
+        if (isPastShameThreshold && idToUse) {
+          console.log(`Task is ${policy.shame_after_days}+ days overdue, sending shame notifications to project members...`);
           const { ShameService } = await import('./shame-service');
           const shameService = new ShameService(this.db, this.env);
           
           try {
-            const shameResult = await shameService.sendShameNotifications(idToUse);
+            const shameResult = await shameService.sendShameNotifications(idToUse, 'sheet_sync');
             if (shameResult.success) {
               console.log(`Shame notifications sent to ${shameResult.notifiedCount} project members`);
             } else {
@@ -865,21 +1368,26 @@ export class TaskService {
             console.error('Error sending shame notifications:', shameError);
             // Don't fail the late task notification if shame fails
           }
-        } else if (isDelayedBy2Days && !idToUse) {
-          console.warn('Task is 2+ days overdue but no task ID available for shame notifications');
+        } else if (isPastShameThreshold && !idToUse) {
+          console.warn('Task is past the shame threshold but no task ID available for shame notifications');
         }
       } else {
         console.error('Error sending late task notification:', result.error);
-        // Notify manager about the delivery failure
-        await this.notifyManagerOfDeliveryFailure(
+        // Email the owner when Telegram can't reach them, and notify manager about the delivery failure
+        const emailed = await this.handleOwnerDeliveryFailure(
           task, 
+          taskId,
           result.errorCode || 'UNKNOWN_ERROR', 
           result.error || 'Unknown error',
           'late'
         );
+        if (!emailed) {
+          await this.recordNotification(taskId, 'late_undelivered', task.ownerID);
+        }
       }
     } catch (error) {
       console.error('Error sending late task notification:', error);
+      await this.recordNotification(taskId, 'late_undelivered', task.ownerID);
       // Notify manager about the delivery failure
       await this.notifyManagerOfDeliveryFailure(
         task, 
@@ -890,35 +1398,96 @@ export class TaskService {
     }
   }
 
-  private async sendUpdatedDueDateTask(oldTask: Task, newTask: TaskModel): Promise<void> {
-    const managerContact = newTask.manager_telegram_username
-      ? `@${escapeMarkdownV2(newTask.manager_telegram_username)}`
-      : escapeMarkdownV2(newTask.managerName || 'غير محدّد');
+  /**
+   * Tell the manager about a task still late after the escalate_after late reminders of the project
+   * Sent once, until the due date of the task changes
+   */
+  private async escalateLateTask(task: TaskModel, taskId: string, policy: NotificationPolicySettings, preview?: SheetCheckPreview): Promise<void> {
+    if (!policy.escalate_after || !task.managerID) return;
+
+    // Late reminders since the last due date change
+    const events = await this.taskEventsCrud.getByTaskId(taskId);
+    const lastDueDateChange = events.reduce((last, event, index) => event.event_type === 'changed' && event.field === 'dueDate' ? index : last, -1);
+    const notified = events.slice(lastDueDateChange + 1).filter(event => event.event_type === 'notified');
+    if (notified.some(event => event.field === 'escalation')) return;
+
+    // Every late reminder counts, also the ones the owner didn't get; the late reminder of a preview isn't recorded
+    const lateReminders = notified.filter(event => event.field === 'late' || event.field === 'late_undelivered').length + (preview ? 1 : 0);
+    if (lateReminders < policy.escalate_after) return;
+
+    const daysLate = task.dueDate ? Math.floor((Date.now() - task.dueDate.getTime()) / (24 * 60 * 60 * 1000)) : 0;
+    const language = await this.getMemberLanguage(task.managerID);
+    const text = t(language, 'task.escalation', {
+      owner: task.ownerName,
+      task: task.taskText,
+      due_date: formatDate(task.dueDate, tText(language, 'common.not_set')),
+      days: daysLate,
+      reminders: lateReminders,
+      project: task.projectName,
+      sheet_url: formatted(this.getSheetUrl(task))
+    });
+
+    if (preview) {
+      this.addPreviewNotification(preview, 'escalation', task, 'manager', text);
+      return;
+    }
+
+    try {
+      const membersMap = await this.getMembersCache();
+      const cachedManager = membersMap.get(task.managerID);
 
-    const text = `
-📅 *تحديث موعد التسليم*
+      const result = await sendMessageToMember(this.env, task.managerID, text, [], undefined, cachedManager, undefined, { category: 'task', referenceId: taskId });
+      if (result.success) {
+        console.log(`Escalated late task of ${task.ownerName} to manager: ${task.managerName}`);
+        await this.recordNotification(taskId, 'escalation', task.managerID);
+      } else {
+        console.error('Error sending escalation to manager:', result.error);
+      }
+    } catch (error) {
+      console.error('Error sending escalation to manager:', error);
+    }
+  }
 
-📋 *المهمّة:* ${escapeMarkdownV2(newTask.taskText)}
-⚡ *الاستعجاليّة:* ${escapeMarkdownV2(formatPriorityToArabic(newTask.priority))}
-📅 *الموعد الجديد:* ${escapeMarkdownV2(this.formatDate(newTask.dueDate))}
-📅 *الموعد السابق:* ${escapeMarkdownV2(this.formatDate(oldTask.dueDate))}
+  // Whether today is a quiet weekday or a holiday of the project (Istanbul time)
+  private isQuietDay(policy: NotificationPolicySettings, date: Date = new Date()): boolean {
+    const weekday = new Date(date.toLocaleString('en-US', { timeZone: 'Europe/Istanbul' })).getDay();
+    return policy.quiet_weekdays.includes(weekday) || policy.holidays.includes(this.getIstanbulDay(date));
+  }
 
-📝 *ملاحظات:* ${escapeMarkdownV2(newTask.notes || 'لا توجد ملاحظات')}
+  // Whether a task due at dueDate gets a reminder today, by the days before the due date of the project
+  private isReminderDay(policy: NotificationPolicySettings, dueDate: Date): boolean {
+    if (policy.reminder_days.length === 0) return true;
 
-🏗️ *المشروع:* ${escapeMarkdownV2(newTask.projectName)}
-👨‍💼 *مسؤول المشروع:* ${managerContact}
+    const daysLeft = Math.round((Date.parse(this.getIstanbulDay(dueDate)) - Date.parse(this.getIstanbulDay(new Date()))) / (24 * 60 * 60 * 1000));
+    return policy.reminder_days.includes(daysLeft);
+  }
 
-🔗 [رابط ملف المتابعة](https://docs.google.com/spreadsheets/d/${newTask.sheetID}/?gid=${newTask.pageID})
-`;
+  // YYYY-MM-DD of a date in Istanbul
+  private getIstanbulDay(date: Date): string {
+    return date.toLocaleDateString('en-CA', { timeZone: 'Europe/Istanbul' });
+  }
+
+  private async sendUpdatedDueDateTask(oldTask: Task, newTask: TaskModel, preview?: SheetCheckPreview): Promise<void> {
+    const language = await this.getMemberLanguage(newTask.ownerID);
+    const text = t(language, 'task.due_date_changed', {
+      ...this.getTaskNoticeParams(newTask, language),
+      old_due_date: formatDate(oldTask.dueDate, tText(language, 'common.not_set'))
+    });
+
+    if (preview) {
+      this.addPreviewNotification(preview, 'date_changed', newTask, 'owner', text);
+      return;
+    }
 
     try {
       // Get cached member to avoid extra API calls
       const membersMap = await this.getMembersCache();
       const cachedMember = membersMap.get(newTask.ownerID);
       
-      const result = await sendMessageToMember(this.env, newTask.ownerID, text, [], undefined, cachedMember);
+      const result = await sendMessageToMember(this.env, newTask.ownerID, text, [], undefined, cachedMember, undefined, { category: 'task', referenceId: oldTask.id });
       if (result.success) {
         console.log('Updated due date notification sent to:', newTask.ownerName);
+        await this.recordNotification(oldTask.id, 'date_changed', newTask.ownerID);
       } else {
         console.error('Error sending updated due date notification:', result.error);
         // Notify manager about the delivery failure
@@ -941,30 +1510,23 @@ export class TaskService {
     }
   }
 
-  private async sendToManagerMissingData(task: TaskModel): Promise<void> {
-    const missingFields = [];
-    if (!task.ownerName?.trim()) missingFields.push('اسم المسؤول');
-    if (!task.points?.trim()) missingFields.push('النقاط');
-    if (!task.taskText?.trim()) missingFields.push('وصف المهمة');
-    if (!task.priority?.trim()) missingFields.push('الأولوية');
-    if (!task.dueDate) missingFields.push('تاريخ التسليم');
-
-    const text = `
-⚠️ *بيانات ناقصة في المهمة*
-
-🏗️ *المشروع:* ${escapeMarkdownV2(task.projectName)}
-📍 *السّطر:* ${escapeMarkdownV2((task.row_number + 1)?.toString() || '')}
-
-❌ *البيانات الناقصة:*
-${missingFields.map(field => `• ${escapeMarkdownV2(field)}`).join('\n')}
-
-📝 *المهمة الحالية:* ${escapeMarkdownV2(task.taskText || 'غير محددة')}
-👤 *المسؤول الحالي:* ${escapeMarkdownV2(task.ownerName || 'غير محدد')}
-
-🔗 [رابط ملف المتابعة](https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID})
-
-الرجاء استكمال البيانات الناقصة في الملف\\.
-`;
+  private async sendToManagerMissingData(task: TaskModel, taskId?: string, preview?: SheetCheckPreview): Promise<void> {
+    const language = await this.getMemberLanguage(task.managerID);
+    const missingFields: MessageKey[] = [];
+    if (!task.ownerName?.trim()) missingFields.push('task.missing.owner');
+    if (!task.points?.trim()) missingFields.push('task.missing.points');
+    if (!task.taskText?.trim()) missingFields.push('task.missing.task');
+    if (!task.priority?.trim()) missingFields.push('task.missing.priority');
+    if (!task.dueDate) missingFields.push('task.missing.due_date');
+
+    const text = t(language, 'task.missing_data', {
+      project: task.projectName,
+      row: (task.row_number + 1)?.toString() || '',
+      fields: formatted(missingFields.map(field => `• ${t(language, field)}`).join('\n')),
+      task: task.taskText || tText(language, 'common.not_set'),
+      owner: task.ownerName || tText(language, 'common.not_set'),
+      sheet_url: formatted(this.getSheetUrl(task))
+    });
 
     try {
       // Check if manager ID exists before sending
@@ -973,14 +1535,20 @@ ${missingFields.map(field => `• ${escapeMarkdownV2(field)}`).join('\n')}
         return;
       }
 
+      if (preview) {
+        this.addPreviewNotification(preview, 'missing_data', task, 'manager', text);
+        return;
+      }
+
       // Get cached member to avoid extra API calls
       const membersMap = await this.getMembersCache();
       const cachedMember = membersMap.get(task.managerID);
       
       // Send to manager using their membership_id
-      const result = await sendMessageToMember(this.env, task.managerID, text, [], undefined, cachedMember);
+      const result = await sendMessageToMember(this.env, task.managerID, text, [], undefined, cachedMember, undefined, { category: 'task', referenceId: taskId });
       if (result.success) {
         console.log('Missing data notification sent to manager:', task.managerName);
+        await this.recordNotification(taskId, 'missing_data', task.managerID);
       } else {
         console.error('Error sending missing data notification to manager:', result.error);
       }
@@ -989,66 +1557,71 @@ ${missingFields.map(field => `• ${escapeMarkdownV2(field)}`).join('\n')}
     }
   }
 
+  /**
+   * Email a notice the owner could not get on Telegram, then notify the manager of the failure
+   * Only when linking Telegram would fix it (no Telegram ID, bot blocked or not started)
+   * @returns Whether the notice was emailed
+   */
+  private async handleOwnerDeliveryFailure(
+    task: TaskModel,
+    taskId: string | undefined,
+    errorCode: string,
+    errorMessage: string,
+    taskType: 'new' | 'reminder' | 'late'
+  ): Promise<boolean> {
+    let emailed = false;
+    if (this.emailFallbackService.shouldFallback(errorCode)) {
+      const result = await this.emailFallbackService.sendTaskEmail(task, taskType, taskId, errorCode);
+      if (result.sent) {
+        emailed = true;
+        await this.recordNotification(taskId, taskType, task.ownerID, 'email');
+      }
+    }
+
+    await this.notifyManagerOfDeliveryFailure(task, errorCode, errorMessage, taskType, emailed);
+    return emailed;
+  }
+
   /**
    * Notify manager when a user fails to receive a task message
+   * @param emailed Whether the message was emailed to the user instead
    */
   private async notifyManagerOfDeliveryFailure(
     task: TaskModel, 
     errorCode: string, 
     errorMessage: string,
-    taskType: 'new' | 'reminder' | 'late' | 'updated'
+    taskType: 'new' | 'reminder' | 'late' | 'updated',
+    emailed: boolean = false
   ): Promise<void> {
     if (!task.managerID) {
       console.error('Cannot notify manager of delivery failure: Manager ID not found in task');
       return;
     }
 
-    // Map error codes to user-friendly Arabic messages
-    const errorReasons: Record<string, string> = {
-      'BOT_BLOCKED': 'المستخدم قام بحظر البوت',
-      'NOT_STARTED': 'المستخدم لم يبدأ المحادثة مع البوت بعد',
-      'CHAT_NOT_FOUND': 'حساب المستخدم غير موجود أو غير صالح',
-      'NO_TELEGRAM_ID': 'المستخدم لم يسجل حساب تيليجرام في النظام',
-      'MEMBER_NOT_FOUND': 'المستخدم غير موجود في قاعدة البيانات',
-      'RATE_LIMIT': 'تم تجاوز حد الإرسال المسموح',
-      'BAD_REQUEST': 'خطأ في البيانات المرسلة',
-      'UNKNOWN_ERROR': 'خطأ غير معروف'
-    };
-
-    const taskTypeArabic: Record<string, string> = {
-      'new': 'مهمة جديدة',
-      'reminder': 'تذكير بمهمة',
-      'late': 'مهمة متأخرة',
-      'updated': 'تحديث موعد مهمة'
-    };
-
-    const reason = errorReasons[errorCode] || errorReasons['UNKNOWN_ERROR'];
-    const taskTypeText = taskTypeArabic[taskType] || 'رسالة';
-
-    const text = `
-🚫 *فشل إرسال رسالة إلى عضو*
-
-📋 *نوع الرسالة:* ${escapeMarkdownV2(taskTypeText)}
-👤 *العضو:* ${escapeMarkdownV2(task.ownerName || 'غير محدد')}
-🆔 *رقم العضوية:* ${escapeMarkdownV2(task.ownerID)}
-${task.owner_telegram_username ? `📱 *معرف التيليجرام:* @${escapeMarkdownV2(task.owner_telegram_username)}\n` : ''}
-
-❌ *سبب الفشل:* ${escapeMarkdownV2(reason)}
-
-📝 *المهمة:* ${escapeMarkdownV2(task.taskText)}
-🏗️ *المشروع:* ${escapeMarkdownV2(task.projectName)}
-📅 *آخر موعد للتسليم:* ${escapeMarkdownV2(this.formatDate(task.dueDate))}
-
-⚠️ *يرجى أخذ الإجراء المناسب، أو التّواصل مع مكتب التحوّل الرّقمي لطلب المساعدة*
-
-🔗 [رابط ملف المتابعة](https://docs.google.com/spreadsheets/d/${task.sheetID}/?gid=${task.pageID})
-`;
+    const language = await this.getMemberLanguage(task.managerID);
+    const knownErrors = ['BOT_BLOCKED', 'NOT_STARTED', 'CHAT_NOT_FOUND', 'NO_TELEGRAM_ID', 'MEMBER_NOT_FOUND', 'RATE_LIMIT', 'BAD_REQUEST'];
+    const reason = tText(language, `task.delivery_failed.reason.${knownErrors.includes(errorCode) ? errorCode : 'UNKNOWN_ERROR'}` as MessageKey);
+
+    const text = t(language, 'task.delivery_failed', {
+      type: tText(language, `task.delivery_failed.type.${taskType}`),
+      owner: task.ownerName || tText(language, 'common.not_set'),
+      membership_number: task.ownerID,
+      username_line: formatted(task.owner_telegram_username
+        ? t(language, 'task.delivery_failed.username', { username: task.owner_telegram_username })
+        : ''),
+      reason,
+      email_line: formatted(emailed ? t(language, 'task.delivery_failed.email', { email: task.ownerEmail }) : ''),
+      task: task.taskText,
+      project: task.projectName,
+      due_date: formatDate(task.dueDate, tText(language, 'common.not_set')),
+      sheet_url: formatted(this.getSheetUrl(task))
+    });
 
     try {
       const membersMap = await this.getMembersCache();
       const cachedManager = membersMap.get(task.managerID);
       
-      const result = await sendMessageToMember(this.env, task.managerID, text, [], undefined, cachedManager);
+      const result = await sendMessageToMember(this.env, task.managerID, text, [], undefined, cachedManager, undefined, { category: 'task' });
       if (result.success) {
         console.log(`Delivery failure notification sent to manager: ${task.managerName} about ${task.ownerName}`);
       } else {
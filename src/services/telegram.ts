@@ -1,6 +1,70 @@
 import { Environment, TelegramUpdate, SendMessageRequest, SendPhotoRequest, InlineKeyboardButton, InlineKeyboardMarkup } from '../types';
+import { PreferredLanguage } from '../models/member-preferences';
+import { DEFAULT_LANGUAGE, t } from '../i18n';
 // import { escapeMarkdownV2 } from '../utils/helpers';
 
+// Username of the bot (without @) when BOT_USERNAME isn't set
+export const DEFAULT_BOT_USERNAME = 'ibtikar_bot';
+
+/**
+ * Error returned by the Telegram Bot API
+ * The message keeps the "Telegram API error: <status> <body>" format callers match on
+ */
+export class TelegramApiError extends Error {
+  status: number;
+  description: string;
+  retryAfter?: number; // Seconds to wait before sending again, set on 429 responses
+
+  constructor(status: number, body: string) {
+    super(`Telegram API error: ${status} ${body}`);
+    this.name = 'TelegramApiError';
+    this.status = status;
+    this.description = body;
+
+    try {
+      const parsed = JSON.parse(body) as { description?: string; parameters?: { retry_after?: number } };
+      this.description = parsed.description || body;
+      this.retryAfter = parsed.parameters?.retry_after;
+    } catch {
+      // Not a JSON body, keep the raw text
+    }
+  }
+}
+
+/**
+ * Map an error thrown while sending a Telegram message to an error code and a readable message
+ * Codes: BOT_BLOCKED, CHAT_NOT_FOUND, NOT_STARTED, BAD_REQUEST, RATE_LIMIT, UNKNOWN_ERROR
+ */
+export function describeTelegramError(error: unknown): { errorCode: string; errorMessage: string } {
+  let errorCode = 'UNKNOWN_ERROR';
+  let errorMessage = 'Internal server error';
+
+  if (error instanceof Error) {
+    errorMessage = error.message;
+
+    // Check for common Telegram API errors
+    if (errorMessage.includes('403') || errorMessage.includes('Forbidden')) {
+      errorCode = 'BOT_BLOCKED';
+      errorMessage = 'User has blocked the bot';
+    } else if (errorMessage.includes('400') || errorMessage.includes('Bad Request')) {
+      if (errorMessage.includes('chat not found') || errorMessage.includes('user not found')) {
+        errorCode = 'CHAT_NOT_FOUND';
+        errorMessage = 'Chat or user not found';
+      } else if (errorMessage.includes('need member')) {
+        errorCode = 'NOT_STARTED';
+        errorMessage = 'User has not started the bot';
+      } else {
+        errorCode = 'BAD_REQUEST';
+      }
+    } else if (errorMessage.includes('429')) {
+      errorCode = 'RATE_LIMIT';
+      errorMessage = 'Rate limit exceeded';
+    }
+  }
+
+  return { errorCode, errorMessage };
+}
+
 export class TelegramService {
   private env: Environment;
   private botToken: string;
@@ -65,7 +129,7 @@ export class TelegramService {
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Telegram API error: ${response.status} ${error}`);
+      throw new TelegramApiError(response.status, error);
     }
 
     const result = await response.json() as { result?: { message_id?: number } };
@@ -161,17 +225,6 @@ export class TelegramService {
     }
   }
 
-  async sendBulkMessage(chatIds: (number | string)[], text: string, parseMode?: string): Promise<void> {
-    const promises = chatIds.map(chatId => 
-      this.sendMessage(chatId, text, parseMode).catch(error => {
-        console.error(`Failed to send message to ${chatId}:`, error);
-        return error;
-      })
-    );
-
-    await Promise.allSettled(promises);
-  }
-
   async sendMessageWithBoxes(chatId: number | string, text: string, boxes: Array<{text: string, link: string}>, parseMode?: string): Promise<void> {
     // Create inline keyboard from boxes
     const inlineKeyboard: InlineKeyboardButton[][] = boxes.map(box => [
@@ -196,6 +249,25 @@ export class TelegramService {
     await this.sendPhoto(chatId, photo, caption, parseMode, inlineKeyboard);
   }
 
+  /**
+   * Secret token Telegram sends back in the X-Telegram-Bot-Api-Secret-Token header
+   * Derived from SECRET_KEY, so rotating SECRET_KEY requires calling setWebhook again
+   */
+  async getWebhookSecret(): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.env.SECRET_KEY),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode('telegram-webhook'));
+    return Array.from(new Uint8Array(signature))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
   async setWebhook(webhookUrl: string): Promise<void> {
     const url = `https://api.telegram.org/bot${this.botToken}/setWebhook`;
     
@@ -206,10 +278,13 @@ export class TelegramService {
       },
       body: JSON.stringify({
         url: webhookUrl,
+        secret_token: await this.getWebhookSecret(),
         allowed_updates: [
           'message',
           'callback_query',
-          'chat_join_request'
+          'chat_join_request',
+          'chat_member',
+          'my_chat_member'
         ]
       }),
     });
@@ -341,56 +416,12 @@ export class TelegramService {
     }
   }
 
-  async sendHelpMessage(chatId: number | string): Promise<void> {
-    const helpText = `
-*قائمة المساعدة*
-
-مرحباً بك في بوت العضوية لدينا\\! إليك الأوامر المتاحة:
-
-🔹 */start* \\- عرض رسالة الترحيب ومعلومات السياسة
-🔹 */verify* \\- بدء عملية التحقق من العضوية
-🔹 */myinfo* \\- عرض معلومات عضويتك
-🔹 */groups* \\- عرض المجموعات المتاحة وطلب الانضمام
-🔹 */help* \\- عرض قائمة المساعدة هذه
-
-يمكنك طرح أسئلتك على هذا البوت كونه مرتبط بالذكاء الاصطناعي\\.
-إذا كنت بحاجة إلى مساعدة أخرى\\، يرجى الاتصال بفريق الدعم لدينا\\.
-
-_يُستخدم هذا البوت للتحقق من العضوية والإشعارات\\._
-    `;
-
-    await this.sendMessage(chatId, helpText.trim());
+  async sendHelpMessage(chatId: number | string, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<void> {
+    await this.sendMessage(chatId, t(language, 'help.text'));
   }
 
-  async sendWelcomeMessage(chatId: number | string): Promise<void> {
-    const welcomeText = `
-*مرحباً بك في تجمّع إبتكار\\!* 🎉
-
-شكراً لاهتمامك بالتواصل معنا عبر تيليجرام\\.
-
-*حول هذا البوت*
-تم تصميم هذا البوت للتحقق من عضويتك وإبقائك على اطلاع بالإشعارات والإعلانات المهمة من تجمّع إبتكار\\.
-
-*إشعار الخصوصية*
-• نقوم بجمع بيانات الاستخدام لتحسين أداء البوت وتجربة المستخدم\\.
-• باستخدامك لهذا البوت، فإنك توافق على جمع بياناتك واستخدامها كما هو موضح في هذا الإشعار\\.
-• لمعرفة المزيد حول سياسة الخصوصية الخاصة بنا، يرجى زيارة [موقعنا](https://ibtikar.org.tr) أو زيارة الكود مفتوح المصدر على [GitHub](https://github.com/ibtikar-org-tr/telegram-membership-bot) أو الاتصال بالدعم\\.
-
-*كيفية البدء*
-1\\. استخدم الأمر */verify* لبدء عملية التحقق
-2\\. قدم رقم عضويتك
-3\\. تحقق من بريدك الإلكتروني المسجل للحصول على رابط التحقق
-4\\. انقر على الرابط لإكمال التحقق
-
-*هل تحتاج إلى مساعدة؟*
-استخدم الأمر */help* لعرض جميع الأوامر المتاحة\\.
-يمكنك أيضاً طرح أسئلتك على هذا البوت كونه مرتبط بالذكاء الاصطناعي\\.
-في حال نسيت بيانات العضوية يمكنك زيارة الرابط التالي: [استعادة بيانات العضوية](https://iforgot.ibtikar.tr)\\.
-
-مرحباً بك على متن الطائرة\\! 🚀
-    `;
-
-    await this.sendMessage(chatId, welcomeText.trim());
+  async sendWelcomeMessage(chatId: number | string, language: PreferredLanguage = DEFAULT_LANGUAGE): Promise<void> {
+    await this.sendMessage(chatId, t(language, 'welcome.text'));
   }
 
   async approveChatJoinRequest(chatId: number | string, userId: number): Promise<void> {
@@ -447,6 +478,31 @@ _يُستخدم هذا البوت للتحقق من العضوية والإشع
     }
   }
 
+  async setChatDescription(chatId: number | string, description: string): Promise<void> {
+    const url = `https://api.telegram.org/bot${this.botToken}/setChatDescription`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          chat_id: chatId,
+          description,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Failed to set chat description: ${response.status} ${error}`);
+      }
+    } catch (error) {
+      console.error('Error setting chat description:', error);
+      throw error;
+    }
+  }
+
   async deleteMessage(chatId: number | string, messageId: number): Promise<boolean> {
     const url = `https://api.telegram.org/bot${this.botToken}/deleteMessage`;
     
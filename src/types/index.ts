@@ -1,5 +1,5 @@
 export { MemberGoogleSheetIndex } from './membership-manager';
-export { TelegramUpdate, InlineKeyboardButton, InlineKeyboardMarkup, SendMessageRequest, SendPhotoRequest, TelegramUserState } from './telegram';
+export { TelegramUpdate, InlineKeyboardButton, InlineKeyboardMarkup, SendMessageRequest, SendPhotoRequest, TelegramUserState, VerificationSession, ChatMember, ChatMemberUpdated } from './telegram';
 
 export interface Environment {
   DB: D1Database;
@@ -17,4 +17,10 @@ export interface Environment {
   DEEPSEEK_API_KEY: string;
   AI: any; // Cloudflare AI binding
   MAIN_CHANNEL: string; // Main Telegram channel username (without @)
+  SUPER_ADMIN_TELEGRAM_IDS?: string; // Comma-separated Telegram user IDs allowed to run admin commands in every group
+  JOIN_REQUEST_EXPIRY_HOURS?: string; // Hours a join request waits for admin approval before it is declined (default 48)
+  ADMIN_CHAT_ID?: string; // Telegram chat that gets the daily summary of overdue, due soon and blocked tasks
+  INACTIVE_PROJECT_DAYS?: string; // Days without task movement before a project is reported to its manager (default 3)
+  EMAIL_FALLBACK_DAILY_LIMIT?: string; // Task notices emailed to a member in 24 hours when Telegram can't reach them (default 3, 0 turns it off)
+  BOT_USERNAME?: string; // Bot username (without @), linked from emails (default ibtikar_bot)
 }
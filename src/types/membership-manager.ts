@@ -28,4 +28,19 @@ export interface MemberGoogleSheetIndex { // The main Google Sheet (members shee
   phone: number | string;
   telegram_id: number | string;
   telegram_username: number | string;
-}
\ No newline at end of file
+}
+
+export interface StoredMember { // row of the D1 members table (mirror of the member sheet)
+  membership_number: string;
+  ar_name: string | null;
+  latin_name: string | null;
+  whatsapp: string | null;
+  email: string | null;
+  sex: string | null;
+  phone: string | null;
+  telegram_id: string | null;
+  telegram_username: string | null;
+  sheet_row: number;
+  synced_at: string | null; // null until the member is seen by a full sync
+  updated_at: string;
+}
@@ -115,6 +115,49 @@ export interface TelegramUpdate {
       is_revoked?: boolean;
     };
   };
+  // Member status changes in groups where the bot is admin (joins by link, kicks, bans, promotions)
+  chat_member?: ChatMemberUpdated;
+  // Status changes of the bot itself (added to or removed from a group)
+  my_chat_member?: ChatMemberUpdated;
+}
+
+export interface ChatMember {
+  user: {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    last_name?: string;
+    username?: string;
+    language_code?: string;
+  };
+  status: 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+  until_date?: number;
+}
+
+export interface ChatMemberUpdated {
+  chat: {
+    id: number;
+    title?: string;
+    username?: string;
+    type: string;
+  };
+  from: {
+    id: number;
+    is_bot: boolean;
+    first_name: string;
+    last_name?: string;
+    username?: string;
+  };
+  date: number;
+  old_chat_member: ChatMember;
+  new_chat_member: ChatMember;
+  invite_link?: {
+    invite_link: string;
+    creates_join_request: boolean;
+    is_primary?: boolean;
+    is_revoked?: boolean;
+  };
+  via_join_request?: boolean;
 }
 
 export interface InlineKeyboardButton {
@@ -151,4 +194,16 @@ export interface TelegramUserState {
   notes?: string;
   created_at: string;
   modified_at: string;
-}
\ No newline at end of file
+}
+
+export interface VerificationSession {
+  telegram_id: string;
+  membership_number: string;
+  telegram_username?: string;
+  code_hash: string;
+  attempts: number;
+  created_at: string;
+  expires_at: string;
+  last_sent_at: string;
+  locked_until?: string | null;
+}
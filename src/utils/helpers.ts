@@ -17,6 +17,57 @@ export function escapeMarkdownV2(text: string): string {
   return text.replace(/[\_\*\[\]\(\)\~\`\>\#\+\-\=\|\{\}\.\!]/g, '\\$&');
 }
 
+// Escape text put into HTML emails
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Compare two secrets in constant time, so the time taken doesn't tell how much of a guess was right
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  let difference = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+/**
+ * Check whether a Telegram user is in the comma-separated SUPER_ADMIN_TELEGRAM_IDS list
+ */
+export function isSuperAdmin(superAdminIds: string | undefined, userId: number | string): boolean {
+  return (superAdminIds || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0)
+    .includes(userId.toString());
+}
+
+/**
+ * Format a date as day-month-year (05-03-2025), the order the messages show dates in
+ * @param fallback Text to show when there is no date or it can't be read
+ */
+export function formatDate(date: Date | string | null | undefined, fallback: string = '-'): string {
+  if (!date) return fallback;
+
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  if (isNaN(dateObj.getTime())) return fallback;
+
+  const day = String(dateObj.getDate()).padStart(2, '0');
+  const month = String(dateObj.getMonth() + 1).padStart(2, '0');
+  return `${day}-${month}-${dateObj.getFullYear()}`;
+}
+
 /**
  * Convert priority codes (P0, P1, P2, P3) to Arabic words
  * If the priority is not a code, return it as is
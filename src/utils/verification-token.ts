@@ -0,0 +1,130 @@
+// Signed verification links and verification code hashing
+// Tokens look like `<base64url payload>.<base64url HMAC-SHA256 signature>` and are signed with SECRET_KEY
+
+export interface VerificationTokenPayload {
+  jti: string; // Unique token ID, used to reject reused links
+  membership_number: string;
+  telegram_id: string;
+  telegram_username: string;
+  exp: number; // Expiry as unix timestamp (seconds)
+}
+
+// How long an emailed verification link stays valid
+export const VERIFICATION_TOKEN_TTL_SECONDS = 10 * 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Create a signed verification token for a membership number / Telegram ID pair
+ */
+export async function createVerificationToken(
+  secret: string,
+  data: Omit<VerificationTokenPayload, 'jti' | 'exp'>,
+  ttlSeconds: number = VERIFICATION_TOKEN_TTL_SECONDS
+): Promise<{ token: string; payload: VerificationTokenPayload }> {
+  const payload: VerificationTokenPayload = {
+    jti: crypto.randomUUID(),
+    membership_number: data.membership_number,
+    telegram_id: data.telegram_id,
+    telegram_username: data.telegram_username,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds
+  };
+
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+
+  return {
+    token: `${encodedPayload}.${base64UrlEncode(new Uint8Array(signature))}`,
+    payload
+  };
+}
+
+/**
+ * Verify a token's signature and expiry
+ * Returns the payload if valid, otherwise the reason it was rejected
+ */
+export async function verifyVerificationToken(
+  secret: string,
+  token: string
+): Promise<{ valid: true; payload: VerificationTokenPayload } | { valid: false; reason: 'malformed' | 'invalid_signature' | 'expired' }> {
+  const parts = token.split('.');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [encodedPayload, encodedSignature] = parts;
+
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = base64UrlDecode(encodedSignature);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const key = await importHmacKey(secret);
+  const isValid = await crypto.subtle.verify('HMAC', key, signature, encoder.encode(encodedPayload));
+  if (!isValid) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  let payload: VerificationTokenPayload;
+  try {
+    payload = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload)));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (!payload.jti || !payload.membership_number || !payload.telegram_id || typeof payload.exp !== 'number') {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (payload.exp <= Math.floor(Date.now() / 1000)) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload };
+}
+
+/**
+ * Hash a 6-digit verification code so it is never stored in plain text
+ * The Telegram ID is mixed in so equal codes for different users hash differently
+ */
+export async function hashVerificationCode(secret: string, telegramId: string, code: string): Promise<string> {
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${telegramId}:${code}`));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
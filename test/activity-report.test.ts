@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT } from './helpers/task-sheet';
+import { TestUser } from './helpers/updates';
+import { handleDailyActivityReport } from '../src/services/task-follower/scheduler';
+
+const ADMIN_CHAT = -100900;
+const manager: TestUser = { id: 1001, first_name: 'Mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali' };
+const colleague: TestUser = { id: 3003, first_name: 'Sara' };
+
+describe('activity reports', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ ADMIN_CHAT_ID: String(ADMIN_CHAT) });
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id) },
+      { membership_number: 'M300', latin_name: 'Sara', telegram_id: String(colleague.id) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', ''],
+        ['M300', 'Sara', 'sara@example.org', '333', '']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-10), daysFromNow(-1), '', ''],
+        ['Sara', 'Write the copy', 'In progress', 'Low', '2', daysFromNow(-10), daysFromNow(2), '', '']
+      ]
+    });
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  // Move the history of an owner's tasks back in time
+  function idleSince(ownerID: string, days: number): void {
+    const movedAt = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    harness.db.rows('UPDATE task_events SET created_at = ? WHERE task_id IN (SELECT id FROM tasks WHERE ownerID = ?)', movedAt, ownerID);
+  }
+
+  function activityReports(): string[] {
+    return harness.telegram.sentMessages(manager.id).filter(text => text.includes('متابعة نشاط المشروع'));
+  }
+
+  it('does not report projects that are moving', async () => {
+    await harness.checkTaskSheet();
+
+    expect(activityReports()).toHaveLength(0);
+    expect(harness.db.rows('SELECT managerID, projectName, last_reported FROM activities')).toEqual([
+      { managerID: 'M100', projectName: PROJECT, last_reported: null }
+    ]);
+  });
+
+  it('reports idle owners to the manager once a day', async () => {
+    idleSince('M200', 5);
+
+    await harness.checkTaskSheet();
+
+    const [report] = activityReports();
+    expect(report).toContain('بعض أعضاء الفريق بلا حركة');
+    expect(report).toContain('⏸️ *Ali:* 1 مفتوحة، 1 متأخّرة');
+    expect(report).toContain('✅ *Sara:* 1 مفتوحة');
+    expect(harness.db.rows<{ last_reported: string | null }>('SELECT last_reported FROM activities')[0].last_reported).not.toBeNull();
+
+    await harness.checkTaskSheet();
+    expect(activityReports()).toHaveLength(0);
+
+    harness.db.rows('UPDATE activities SET last_reported = ?', new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString());
+    idleSince('M100', 5);
+    idleSince('M300', 5);
+    await harness.checkTaskSheet();
+    expect(activityReports()[0]).toContain('لا توجد أيّ حركة على مهامّ المشروع');
+  });
+
+  it('sends the organization summary to the admin chat', async () => {
+    for (const ownerID of ['M100', 'M200', 'M300']) {
+      idleSince(ownerID, 5);
+    }
+    harness.telegram.reset();
+
+    const response = await handleDailyActivityReport(harness.env);
+
+    expect((await response.json() as any).data).toEqual({ overdue: 1, dueSoon: 1, blocked: 0, inactiveProjects: 1 });
+    const summary = harness.telegram.lastMessageTo(ADMIN_CHAT)!.body.text;
+    expect(summary).toContain('*المهامّ المتأخّرة:* 1');
+    expect(summary).toContain(`• ${PROJECT}: 1`);
+    expect(summary).toContain(`${PROJECT} \\(Mona\\)`);
+  });
+});
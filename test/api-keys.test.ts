@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+
+describe('scoped API keys', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+  });
+
+  afterEach(() => harness.dispose());
+
+  async function createKey(scopes: string[]): Promise<string> {
+    const response = await harness.request('/api/keys', {
+      method: 'POST',
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'dashboard', scopes })
+    });
+    expect(response.status).toBe(201);
+    return (await response.json() as any).key;
+  }
+
+  it('accepts a scoped key on the routes of its scope only', async () => {
+    const key = await createKey(['read']);
+
+    expect((await harness.request('/api/tasks', { headers: { 'X-API-Key': key } })).status).toBe(200);
+    expect((await harness.request('/api/task-sheets', { headers: { 'X-API-Key': key } })).status).toBe(200);
+    expect((await harness.request('/api/tasks/check-all', { method: 'POST', headers: { 'X-API-Key': key } })).status).toBe(403);
+    expect((await harness.request('/api/tasks', { headers: { 'X-API-Key': 'wrong' } })).status).toBe(401);
+  });
+
+  it('keeps the master key check on the other /api routes', async () => {
+    const key = await createKey(['read', 'task-admin', 'broadcast']);
+
+    const scoped = await harness.request('/api/send-message', {
+      method: 'POST',
+      headers: { 'X-API-Key': key, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Hello', target: 'all' })
+    });
+    expect(scoped.status).toBe(401);
+    expect((await harness.request('/api/keys', { headers: { 'X-API-Key': key } })).status).toBe(401);
+    expect((await harness.request('/api/keys', { headers: { 'X-API-Key': SECRET_KEY } })).status).toBe(200);
+  });
+});
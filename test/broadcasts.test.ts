@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { telegramError } from './fakes/telegram-api';
+import { handleBroadcastCampaigns } from '../src/services/task-follower/scheduler';
+
+const GROUP_CHAT = -100700;
+const MONA = 1001;
+const ALI = 2002;
+const SARA = 3003;
+const LAYLA = 4004;
+
+describe('broadcast campaigns', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', sex: 'Female', telegram_id: String(MONA) },
+      { membership_number: 'M200', latin_name: 'Ali', sex: 'Male', telegram_id: String(ALI) },
+      { membership_number: 'M300', latin_name: 'Sara', sex: 'female', telegram_id: String(SARA) },
+      { membership_number: 'M400', latin_name: 'Layla', sex: 'female', telegram_id: String(LAYLA) },
+      { membership_number: 'M500', latin_name: 'Huda', sex: 'female' }
+    ]);
+  });
+
+  afterEach(() => harness.dispose());
+
+  function api(path: string, method = 'GET', body?: unknown): Promise<Response> {
+    return harness.request(path, {
+      method,
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  async function createCampaign(campaign: Record<string, unknown>): Promise<string> {
+    const response = await api('/api/broadcasts', 'POST', {
+      title: 'General assembly',
+      message: 'The general assembly is on Friday',
+      author_member_id: 'M200',
+      ...campaign
+    });
+    expect(response.status).toBe(201);
+    return (await response.json() as any).data.id;
+  }
+
+  it('previews the segment and sends the test message to the author only', async () => {
+    const rejected = await api('/api/broadcasts', 'POST', {
+      title: 'Invalid', message: 'Hi', author_member_id: 'M200', segment: { type: 'field', field: 'password', value: 'x' }
+    });
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json() as any).error).toContain('segment.field must be one of');
+
+    const id = await createCampaign({
+      segment: { type: 'field', field: 'sex', value: 'female' },
+      boxes: [{ text: 'Agenda', link: 'https://example.org/agenda' }]
+    });
+
+    const preview = await api(`/api/broadcasts/${id}/preview`);
+    expect((await preview.json() as any).data).toEqual({
+      recipients: 4,
+      with_telegram: 3,
+      without_telegram: 1,
+      sample: ['Mona', 'Sara', 'Layla', 'Huda']
+    });
+
+    expect((await api(`/api/broadcasts/${id}/test`, 'POST')).status).toBe(200);
+    expect(harness.telegram.callsTo('sendMessage')).toHaveLength(1);
+    const test = harness.telegram.lastMessageTo(ALI)!.body;
+    expect(test.text).toBe('The general assembly is on Friday');
+    expect(test.reply_markup.inline_keyboard).toEqual([[{ text: 'Agenda', url: 'https://example.org/agenda' }]]);
+
+    const campaign = await api(`/api/broadcasts/${id}`);
+    expect((await campaign.json() as any).data).toMatchObject({ status: 'draft', report: { total: 0 } });
+  });
+
+  it('sends the campaign and reports delivered, blocked and not started members', async () => {
+    harness.telegram.on('sendMessage', body => String(body.chat_id) === String(LAYLA)
+      ? telegramError(403, 'Forbidden: bot was blocked by the user')
+      : { message_id: 1, chat: { id: body.chat_id }, text: body.text });
+
+    const id = await createCampaign({ segment: { type: 'field', field: 'sex', value: 'female' } });
+    const response = await api(`/api/broadcasts/${id}/send`, 'POST');
+    expect((await response.json() as any).recipients).toBe(4);
+    await harness.flushBackgroundTasks();
+
+    expect(harness.telegram.sentMessages(MONA)).toEqual(['The general assembly is on Friday']);
+    expect(harness.telegram.sentMessages(ALI)).toEqual([]);
+
+    const report = await api(`/api/broadcasts/${id}/report`);
+    expect((await report.json() as any).data).toEqual({
+      status: 'sent',
+      total: 4,
+      pending: 0,
+      delivered: 2,
+      blocked: 1,
+      not_started: 1,
+      opted_out: 0,
+      failed: 0,
+      errors: { BOT_BLOCKED: 1, NO_TELEGRAM_ID: 1 }
+    });
+
+    const again = await api(`/api/broadcasts/${id}/send`, 'POST');
+    expect(again.status).toBe(409);
+  });
+
+  it('messages every member once when the cron runs while a batch is sending', async () => {
+    const id = await createCampaign({ segment: { type: 'field', field: 'sex', value: 'female' } });
+    await api(`/api/broadcasts/${id}/send`, 'POST');
+    await Promise.all([harness.flushBackgroundTasks(), handleBroadcastCampaigns(harness.env)]);
+
+    for (const userId of [MONA, SARA, LAYLA]) {
+      expect(harness.telegram.sentMessages(userId)).toEqual(['The general assembly is on Friday']);
+    }
+    const report = await api(`/api/broadcasts/${id}/report`);
+    expect((await report.json() as any).data).toMatchObject({ status: 'sent', total: 4, pending: 0, delivered: 3 });
+  });
+
+  it('sends scheduled campaigns to the members of a group from the cron', async () => {
+    for (const [userId, status] of [[MONA, 'member'], [ALI, 'administrator'], [SARA, 'left'], [9999, 'member']]) {
+      harness.db.rows('INSERT INTO group_members (chat_id, user_id, status) VALUES (?, ?, ?)', String(GROUP_CHAT), String(userId), status);
+    }
+
+    const later = await createCampaign({
+      segment: { type: 'group', value: String(GROUP_CHAT) },
+      scheduled_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+    const due = await createCampaign({
+      segment: { type: 'group', value: String(GROUP_CHAT) },
+      scheduled_at: new Date(Date.now() - 60 * 1000).toISOString()
+    });
+
+    await handleBroadcastCampaigns(harness.env);
+    await handleBroadcastCampaigns(harness.env);
+
+    expect(harness.telegram.sentMessages(MONA)).toHaveLength(1);
+    expect(harness.telegram.sentMessages(ALI)).toHaveLength(1);
+    expect(harness.telegram.sentMessages(SARA)).toHaveLength(0);
+
+    const campaigns = await api('/api/broadcasts');
+    const statuses = Object.fromEntries((await campaigns.json() as any).data.map((campaign: any) => [campaign.id, campaign.status]));
+    expect(statuses).toEqual({ [later]: 'scheduled', [due]: 'sent' });
+  });
+});
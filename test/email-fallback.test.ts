@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow } from './helpers/task-sheet';
+import { telegramError } from './fakes/telegram-api';
+import { TestUser } from './helpers/updates';
+
+const manager: TestUser = { id: 1001, first_name: 'Mona' };
+const blocker: TestUser = { id: 3003, first_name: 'Sara' };
+
+describe('email fallback', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ EMAIL_FALLBACK_DAILY_LIMIT: '2' });
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id) },
+      { membership_number: 'M200', latin_name: 'Ali' },
+      { membership_number: 'M300', latin_name: 'Sara', telegram_id: String(blocker.id) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', ''],
+        ['M300', 'Sara', 'sara@example.org', '333', '']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Ali', 'Build the <landing> page', 'In progress', 'High', '5', daysFromNow(-10), daysFromNow(-1), 'Use the new logo', '']
+      ]
+    });
+  });
+
+  afterEach(() => harness.dispose());
+
+  const failureNotices = () => harness.telegram.sentMessages(manager.id).filter(text => text.includes('فشل إرسال رسالة إلى عضو'));
+
+  it('emails the task to an owner without Telegram in Arabic and English', async () => {
+    await harness.checkTaskSheet();
+
+    const mail = harness.smtp.lastMailTo('ali@example.org')!;
+    expect(mail.subject).toContain('مهمّة جديدة | New task');
+    expect(mail.text).toContain('Task: Build the <landing> page');
+    expect(mail.text).toContain('المهمّة: Build the <landing> page');
+    expect(mail.html).toContain('Build the &lt;landing&gt; page');
+    expect(mail.html).toContain('<strong>/verify</strong>');
+    expect(mail.html).toContain('https://t.me/ibtikar_bot');
+
+    const [notice] = failureNotices();
+    expect(notice).toContain('أُرسلت الرسالة إلى بريده الإلكتروني:* ali@example\\.org');
+    expect(harness.db.rows('SELECT member_id, kind, error_code FROM email_notifications')).toEqual([
+      { member_id: 'M200', kind: 'new', error_code: 'NO_TELEGRAM_ID' }
+    ]);
+    expect(harness.db.rows("SELECT field, new_value, channel FROM task_events WHERE event_type = 'notified'")).toEqual([
+      { field: 'new', new_value: 'M200', channel: 'email' }
+    ]);
+  });
+
+  it('emails owners who blocked the bot and stops at the daily limit', async () => {
+    harness.telegram.on('sendMessage', body => String(body.chat_id) === String(blocker.id)
+      ? telegramError(403, 'Forbidden: bot was blocked by the user')
+      : { message_id: 1, chat: { id: body.chat_id }, text: body.text });
+    harness.seedTaskSheet({
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Sara', 'Write the copy', 'In progress', 'Low', '2', daysFromNow(-10), daysFromNow(-1), '', '']
+      ]
+    });
+
+    await harness.checkTaskSheet();
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(harness.smtp.sent.map(mail => mail.subject.split(':')[0])).toEqual(['مهمّة جديدة | New task', 'مهمّة متأخرة | Overdue task']);
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(harness.smtp.sent).toHaveLength(2);
+    const [notice] = failureNotices();
+    expect(notice).toContain('المستخدم قام بحظر البوت');
+    expect(notice).not.toContain('بريده الإلكتروني');
+  });
+});
@@ -0,0 +1,30 @@
+// Local stand-in for the DeepSeek chat completions API used by /summarize and the private chat assistant
+
+export class FakeDeepSeek {
+  requests: Array<{ model: string; messages: Array<{ role: string; content: string }> }> = [];
+  reply = 'Test summary';
+  // Set to answer with an HTTP error instead of a completion
+  failWithStatus: number | null = null;
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method !== 'POST' || url.pathname !== '/v1/chat/completions') {
+      return new Response('Not found', { status: 404 });
+    }
+
+    this.requests.push(await request.json() as FakeDeepSeek['requests'][number]);
+
+    if (this.failWithStatus) {
+      return new Response('Upstream error', { status: this.failWithStatus });
+    }
+
+    return Response.json({
+      id: `chatcmpl-${this.requests.length}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: 'deepseek-chat',
+      choices: [{ index: 0, message: { role: 'assistant', content: this.reply }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+    });
+  }
+}
@@ -0,0 +1,159 @@
+// Local stand-in for the Google OAuth token endpoint and the Sheets v4 API
+// Spreadsheets are held in memory as tabs of string rows; writes are applied and recorded
+
+export interface SheetWrite {
+  spreadsheetId: string;
+  range: string;
+  values: string[][];
+}
+
+interface CellRange {
+  tab: string;
+  startColumn: number;
+  startRow: number;
+  endColumn: number | null;
+  endRow: number | null;
+}
+
+function columnToIndex(column: string): number {
+  let index = 0;
+  for (const char of column.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function googleError(code: number, message: string): Response {
+  return Response.json({ error: { code, message, status: code === 404 ? 'NOT_FOUND' : 'INVALID_ARGUMENT' } }, { status: code });
+}
+
+export class FakeGoogleSheets {
+  writes: SheetWrite[] = [];
+  tokenRequests = 0;
+  private spreadsheets = new Map<string, Map<string, string[][]>>();
+
+  /**
+   * Create or replace a tab; the first tab of a spreadsheet answers ranges without a tab name
+   */
+  setTab(spreadsheetId: string, tab: string, rows: string[][]): void {
+    if (!this.spreadsheets.has(spreadsheetId)) {
+      this.spreadsheets.set(spreadsheetId, new Map());
+    }
+    this.spreadsheets.get(spreadsheetId)!.set(tab, rows.map(row => [...row]));
+  }
+
+  getTab(spreadsheetId: string, tab: string): string[][] {
+    return this.spreadsheets.get(spreadsheetId)?.get(tab) || [];
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.hostname === 'oauth2.googleapis.com' && url.pathname === '/token') {
+      const form = new URLSearchParams(await request.text());
+      if (!form.get('assertion')) {
+        return googleError(400, 'Missing assertion');
+      }
+      this.tokenRequests++;
+      return Response.json({ access_token: 'test-access-token', expires_in: 3600, token_type: 'Bearer' });
+    }
+
+    if (request.headers.get('Authorization') !== 'Bearer test-access-token') {
+      return googleError(401, 'Request is missing valid authentication credentials');
+    }
+
+    const match = url.pathname.match(/^\/v4\/spreadsheets\/([^/:]+)(?:\/values(?::batchUpdate|\/(.+)))?$/);
+    if (!match) {
+      return googleError(404, `Unknown endpoint ${url.pathname}`);
+    }
+
+    const spreadsheetId = match[1];
+    const tabs = this.spreadsheets.get(spreadsheetId);
+    if (!tabs) {
+      return googleError(404, 'Requested entity was not found.');
+    }
+
+    // Spreadsheet metadata
+    if (!url.pathname.includes('/values')) {
+      return Response.json({
+        spreadsheetId,
+        sheets: [...tabs.keys()].map((title, index) => ({ properties: { sheetId: index, title, index } }))
+      });
+    }
+
+    if (url.pathname.endsWith('/values:batchUpdate')) {
+      const body = await request.json() as { data: Array<{ range: string; values: string[][] }> };
+      for (const update of body.data) {
+        const error = this.write(spreadsheetId, update.range, update.values);
+        if (error) return error;
+      }
+      return Response.json({ spreadsheetId, totalUpdatedCells: body.data.length });
+    }
+
+    const range = decodeURIComponent(match[2]);
+
+    if (request.method === 'PUT') {
+      const body = await request.json() as { values: string[][] };
+      const error = this.write(spreadsheetId, range, body.values);
+      return error || Response.json({ spreadsheetId, updatedRange: range });
+    }
+
+    const parsed = this.parseRange(spreadsheetId, range);
+    if (!parsed || !tabs.has(parsed.tab)) {
+      return googleError(400, `Unable to parse range: ${range}`);
+    }
+
+    return Response.json({ range, majorDimension: 'ROWS', values: this.read(tabs.get(parsed.tab)!, parsed) });
+  }
+
+  private read(rows: string[][], range: CellRange): string[][] {
+    const lastRow = range.endRow === null ? rows.length : Math.min(range.endRow + 1, rows.length);
+    return rows.slice(range.startRow, lastRow)
+      .map(row => row.slice(range.startColumn, range.endColumn === null ? undefined : range.endColumn + 1));
+  }
+
+  private write(spreadsheetId: string, range: string, values: string[][]): Response | null {
+    const parsed = this.parseRange(spreadsheetId, range);
+    const rows = parsed ? this.spreadsheets.get(spreadsheetId)?.get(parsed.tab) : undefined;
+    if (!parsed || !rows) {
+      return googleError(400, `Unable to parse range: ${range}`);
+    }
+
+    values.forEach((valueRow, rowOffset) => {
+      const rowIndex = parsed.startRow + rowOffset;
+      while (rows.length <= rowIndex) rows.push([]);
+      valueRow.forEach((value, columnOffset) => {
+        const row = rows[rowIndex];
+        const columnIndex = parsed.startColumn + columnOffset;
+        while (row.length <= columnIndex) row.push('');
+        row[columnIndex] = String(value);
+      });
+    });
+
+    this.writes.push({ spreadsheetId, range, values });
+    return null;
+  }
+
+  // Supports "Tab!A1:C3", "Tab!A:Z", "Tab!B5" and ranges without a tab name
+  private parseRange(spreadsheetId: string, range: string): CellRange | null {
+    const separator = range.lastIndexOf('!');
+    const tab = separator >= 0
+      ? range.slice(0, separator).replace(/^'(.*)'$/, '$1')
+      : [...(this.spreadsheets.get(spreadsheetId)?.keys() || [])][0];
+    const cells = separator >= 0 ? range.slice(separator + 1) : range;
+
+    const match = cells.match(/^([A-Za-z]+)?(\d+)?(?::([A-Za-z]+)?(\d+)?)?$/);
+    if (!tab || !match) return null;
+
+    const [, startColumn, startRow, endColumn, endRow] = match;
+    const isSingleCell = !cells.includes(':');
+
+    return {
+      tab,
+      startColumn: startColumn ? columnToIndex(startColumn) : 0,
+      startRow: startRow ? parseInt(startRow) - 1 : 0,
+      endColumn: isSingleCell ? (startColumn ? columnToIndex(startColumn) : null) : (endColumn ? columnToIndex(endColumn) : null),
+      endRow: isSingleCell ? (startRow ? parseInt(startRow) - 1 : null) : (endRow ? parseInt(endRow) - 1 : null)
+    };
+  }
+}
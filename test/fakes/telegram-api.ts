@@ -0,0 +1,124 @@
+// Local stand-in for https://api.telegram.org
+// Every Bot API call is recorded; responses can be overridden per method
+
+export interface TelegramCall {
+  method: string;
+  body: Record<string, any>;
+}
+
+type MethodHandler = (body: Record<string, any>) => unknown;
+
+/**
+ * Build a Bot API error response (e.g. 403 "Forbidden: bot was blocked by the user")
+ */
+export function telegramError(errorCode: number, description: string, parameters?: { retry_after?: number }): Response {
+  return Response.json({ ok: false, error_code: errorCode, description, parameters }, { status: errorCode });
+}
+
+export class FakeTelegramApi {
+  calls: TelegramCall[] = [];
+  private handlers = new Map<string, MethodHandler>();
+  private nextMessageId = 1000;
+  private nextInviteLinkId = 1;
+
+  constructor(private botToken: string) {}
+
+  /**
+   * Override the response of a Bot API method
+   * The handler returns either a full Response or the `result` to wrap in { ok: true, result }
+   */
+  on(method: string, handler: MethodHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  callsTo(method: string): TelegramCall[] {
+    return this.calls.filter(call => call.method === method);
+  }
+
+  /**
+   * Texts of sendMessage calls, optionally only those sent to one chat
+   */
+  sentMessages(chatId?: number | string): string[] {
+    return this.callsTo('sendMessage')
+      .filter(call => chatId === undefined || String(call.body.chat_id) === String(chatId))
+      .map(call => call.body.text);
+  }
+
+  lastMessageTo(chatId: number | string): TelegramCall | undefined {
+    return [...this.callsTo('sendMessage')].reverse().find(call => String(call.body.chat_id) === String(chatId));
+  }
+
+  reset(): void {
+    this.calls = [];
+  }
+
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const [, botPath, method] = url.pathname.split('/');
+
+    if (botPath !== `bot${this.botToken}`) {
+      return telegramError(401, 'Unauthorized');
+    }
+
+    const body = await this.readBody(request);
+    this.calls.push({ method, body });
+
+    const handler = this.handlers.get(method);
+    const result = handler ? handler(body) : this.defaultResult(method, body);
+    return result instanceof Response ? result : Response.json({ ok: true, result });
+  }
+
+  private async readBody(request: Request): Promise<Record<string, any>> {
+    const contentType = request.headers.get('Content-Type') || '';
+
+    if (contentType.includes('application/json')) {
+      return await request.json() as Record<string, any>;
+    }
+
+    if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+      const form = await request.formData();
+      const body: Record<string, any> = {};
+      form.forEach((value, key) => {
+        body[key] = value;
+      });
+      return body;
+    }
+
+    return {};
+  }
+
+  private defaultResult(method: string, body: Record<string, any>): any {
+    switch (method) {
+      case 'sendMessage':
+      case 'sendPhoto':
+        return {
+          message_id: this.nextMessageId++,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: body.chat_id },
+          text: body.text
+        };
+      case 'editMessageText':
+        return { message_id: body.message_id, chat: { id: body.chat_id }, text: body.text };
+      case 'getChatMember':
+        return { status: 'member', user: { id: body.user_id, is_bot: false, first_name: 'Test' } };
+      case 'getChat':
+        return { id: body.chat_id, type: 'supergroup', title: `Group ${body.chat_id}` };
+      case 'getChatAdministrators':
+        return [];
+      case 'getChatMemberCount':
+        return 0;
+      case 'createChatInviteLink':
+        return {
+          invite_link: `https://t.me/+testinvite${this.nextInviteLinkId++}`,
+          name: body.name,
+          creator: { id: 1, is_bot: true, first_name: 'Bot' },
+          creates_join_request: body.creates_join_request ?? false,
+          is_primary: false,
+          is_revoked: false,
+          member_limit: body.member_limit
+        };
+      default:
+        return true;
+    }
+  }
+}
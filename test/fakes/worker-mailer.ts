@@ -0,0 +1,91 @@
+// Stand-in for the worker-mailer SMTP client (aliased in vitest.config.ts)
+// The real client talks SMTP over cloudflare:sockets, which only exists inside the Workers runtime.
+// Mails are recorded in `smtp.sent` instead of being delivered.
+
+export interface WorkerMailerOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  startTls?: boolean;
+  credentials?: { username: string; password: string };
+  authType?: string | string[];
+}
+
+export interface SentMail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  host: string;
+  port: number;
+}
+
+type EmailAddress = string | { name?: string; email: string };
+
+interface EmailOptions {
+  from: EmailAddress;
+  to: EmailAddress | EmailAddress[];
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+function formatAddress(address: EmailAddress): string {
+  return typeof address === 'string' ? address : address.email;
+}
+
+export const smtp = {
+  sent: [] as SentMail[],
+  // Set to make the next connection fail, like an unreachable SMTP server
+  failNextConnect: false,
+
+  reset(): void {
+    this.sent = [];
+    this.failNextConnect = false;
+  },
+
+  lastMailTo(address: string): SentMail | undefined {
+    return [...this.sent].reverse().find(mail => mail.to === address);
+  }
+};
+
+export class WorkerMailer {
+  private options: WorkerMailerOptions;
+  private closed = false;
+
+  private constructor(options: WorkerMailerOptions) {
+    this.options = options;
+  }
+
+  static async connect(options: WorkerMailerOptions): Promise<WorkerMailer> {
+    if (smtp.failNextConnect) {
+      smtp.failNextConnect = false;
+      throw new Error(`Failed to connect to SMTP server ${options.host}:${options.port}`);
+    }
+    return new WorkerMailer(options);
+  }
+
+  async send(options: EmailOptions): Promise<void> {
+    if (this.closed) {
+      throw new Error('SMTP connection is closed');
+    }
+
+    const recipients = Array.isArray(options.to) ? options.to : [options.to];
+    for (const recipient of recipients) {
+      smtp.sent.push({
+        from: formatAddress(options.from),
+        to: formatAddress(recipient),
+        subject: options.subject,
+        text: options.text || '',
+        html: options.html,
+        host: this.options.host,
+        port: this.options.port
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
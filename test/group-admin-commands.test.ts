@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { chatJoinRequest, groupMessage, TestUser } from './helpers/updates';
+
+const GROUP_ID = -1009876;
+const owner: TestUser = { id: 8001, first_name: 'Sara', username: 'sara', language_code: 'en' };
+const member: TestUser = { id: 8002, first_name: 'Yusuf', language_code: 'en' };
+const superAdmin: TestUser = { id: 8003, first_name: 'Hadi', language_code: 'en' };
+const applicant: TestUser = { id: 8004, first_name: 'Nour', username: 'nour' };
+
+describe('group admin commands', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create({ SUPER_ADMIN_TELEGRAM_IDS: `123, ${superAdmin.id}` });
+    harness.telegram.on('getChat', body => ({ id: body.chat_id, type: 'supergroup', title: 'Ibtikar Team', description: 'Old description' }));
+    harness.telegram.on('getChatAdministrators', () => [
+      { status: 'creator', user: { id: owner.id, is_bot: false, first_name: owner.first_name, username: owner.username } }
+    ]);
+    harness.telegram.on('getChatMemberCount', () => 42);
+  });
+
+  afterEach(() => harness.dispose());
+
+  function storedGroup() {
+    return harness.db.rows<{ title: string; admins: string; member_count: number; needs_admin_approval: number; description: string }>(
+      'SELECT * FROM groups WHERE chat_id = ?', String(GROUP_ID)
+    )[0];
+  }
+
+  async function command(user: TestUser, text: string): Promise<string> {
+    harness.telegram.reset();
+    await harness.sendUpdate(groupMessage(GROUP_ID, user, text));
+    return harness.telegram.lastMessageTo(GROUP_ID)!.body.text;
+  }
+
+  it('lets a Telegram admin register the group', async () => {
+    const reply = await command(owner, '/register_group@ibtikar_bot');
+
+    expect(reply).toContain('Group registered');
+    expect(reply).toContain('Members: 42');
+    expect(storedGroup().title).toBe('Ibtikar Team');
+    expect(JSON.parse(storedGroup().admins)).toEqual([expect.objectContaining({ user_id: String(owner.id), status: 'creator' })]);
+  });
+
+  it('leaves commands addressed to another bot alone', async () => {
+    harness.telegram.reset();
+    await harness.sendUpdate(groupMessage(GROUP_ID, owner, '/register_group@otherbot'));
+
+    expect(harness.telegram.lastMessageTo(GROUP_ID)).toBeUndefined();
+    expect(storedGroup()).toBeUndefined();
+  });
+
+  it('refuses members who are not admins', async () => {
+    await command(owner, '/register_group');
+
+    expect(await command(member, '/approval on')).toContain('only available to the group admins');
+    expect(storedGroup().needs_admin_approval).toBe(0);
+
+    expect(await command(member, '/register_group')).toContain('only available to the group admins');
+  });
+
+  it('toggles join approval and keeps it on re-registration', async () => {
+    await command(owner, '/register_group');
+
+    expect(await command(owner, '/approval on')).toContain('now *on*');
+    expect(storedGroup().needs_admin_approval).toBe(1);
+
+    await command(owner, '/register_group');
+    expect(storedGroup().needs_admin_approval).toBe(1);
+
+    expect(await command(owner, '/approval')).toContain('currently *on*');
+    expect(await command(owner, '/approval off')).toContain('now *off*');
+    expect(storedGroup().needs_admin_approval).toBe(0);
+  });
+
+  it('lets super admins sync a group they do not administer', async () => {
+    await command(owner, '/register_group');
+    harness.telegram.on('getChatMemberCount', () => 50);
+
+    expect(await command(superAdmin, '/sync')).toContain('Members: 50');
+    expect(storedGroup().member_count).toBe(50);
+  });
+
+  it('asks to register the group first', async () => {
+    expect(await command(owner, '/sync')).toContain('not registered yet');
+    expect(storedGroup()).toBeUndefined();
+  });
+
+  it('sets the description on Telegram and in the database', async () => {
+    await command(owner, '/register_group');
+
+    expect(await command(owner, '/set_description Weekly meetings on Friday')).toContain('description updated');
+    expect(harness.telegram.callsTo('setChatDescription')[0].body).toEqual({ chat_id: GROUP_ID, description: 'Weekly meetings on Friday' });
+    expect(storedGroup().description).toBe('Weekly meetings on Friday');
+  });
+
+  it('lists join requests of users who have not joined yet', async () => {
+    await command(owner, '/register_group');
+    expect(await command(owner, '/list_pending')).toContain('No pending join requests');
+
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, applicant));
+    const reply = await command(owner, '/list_pending');
+    expect(reply).toContain('Pending join requests \\(1\\)');
+    expect(reply).toContain('Nour @nour');
+
+    // Once they joined the request is no longer pending
+    harness.db.rows('INSERT INTO group_members (chat_id, user_id, status) VALUES (?, ?, ?)', String(GROUP_ID), String(applicant.id), 'member');
+    expect(await command(owner, '/list_pending')).toContain('No pending join requests');
+  });
+});
@@ -0,0 +1,142 @@
+// In-memory stand-in for the Cloudflare D1 binding, backed by SQLite compiled to WebAssembly (sql.js)
+// Only the parts of the D1 API the bot uses are implemented: prepare / bind / run / first / all
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../../migrations', import.meta.url));
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs) {
+    sqlJs = initSqlJs();
+  }
+  return sqlJs;
+}
+
+// D1 accepts the same value types as SQLite, booleans are stored as 0/1
+function toSqlValue(value: unknown): SqlValue {
+  if (value === null || typeof value === 'string' || typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (value instanceof ArrayBuffer) {
+    return new Uint8Array(value);
+  }
+  // Same failure as D1 for undefined, Date objects, etc.
+  throw new Error(`D1_TYPE_ERROR: Type '${typeof value}' not supported for value '${String(value)}'`);
+}
+
+export class TestD1PreparedStatement {
+  private db: TestD1Database;
+  private query: string;
+  private params: SqlValue[];
+
+  constructor(db: TestD1Database, query: string, params: SqlValue[] = []) {
+    this.db = db;
+    this.query = query;
+    this.params = params;
+  }
+
+  bind(...params: unknown[]): TestD1PreparedStatement {
+    return new TestD1PreparedStatement(this.db, this.query, params.map(toSqlValue));
+  }
+
+  async run<T = Record<string, unknown>>() {
+    const { rows, changes, lastRowId } = this.db.execute(this.query, this.params);
+    return {
+      success: true,
+      results: rows as T[],
+      meta: { changes, last_row_id: lastRowId, duration: 0, rows_read: rows.length, rows_written: changes }
+    };
+  }
+
+  async all<T = Record<string, unknown>>() {
+    const { rows, changes, lastRowId } = this.db.execute(this.query, this.params);
+    return {
+      success: true,
+      results: rows as T[],
+      meta: { changes, last_row_id: lastRowId, duration: 0, rows_read: rows.length, rows_written: changes }
+    };
+  }
+
+  async first<T = Record<string, unknown>>(column?: string): Promise<T | null> {
+    const { rows } = this.db.execute(this.query, this.params);
+    if (rows.length === 0) return null;
+    return (column ? rows[0][column] : rows[0]) as T;
+  }
+}
+
+export class TestD1Database {
+  private sqlite: Database;
+
+  private constructor(sqlite: Database) {
+    this.sqlite = sqlite;
+  }
+
+  /**
+   * Create an empty database with all migrations applied in order
+   */
+  static async create(): Promise<TestD1Database> {
+    const SQL = await loadSqlJs();
+    const sqlite = new SQL.Database();
+    const migrations = readdirSync(MIGRATIONS_DIR).filter(name => /^\d{4}_.+\.sql$/.test(name)).sort();
+    for (const migration of migrations) {
+      sqlite.exec(readFileSync(join(MIGRATIONS_DIR, migration), 'utf8'));
+    }
+    return new TestD1Database(sqlite);
+  }
+
+  prepare(query: string): TestD1PreparedStatement {
+    return new TestD1PreparedStatement(this, query);
+  }
+
+  /**
+   * Run a statement and collect its rows, for use by prepared statements and test assertions
+   */
+  execute(query: string, params: SqlValue[] = []): { rows: Record<string, SqlValue>[]; changes: number; lastRowId: number } {
+    const totalChangesBefore = this.totalChanges();
+    const rows: Record<string, SqlValue>[] = [];
+
+    let statement;
+    try {
+      statement = this.sqlite.prepare(query);
+      statement.bind(params);
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } catch (error) {
+      throw new Error(`D1_ERROR: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      statement?.free();
+    }
+
+    // getRowsModified() keeps the count of the last write, so only trust it when this statement wrote something
+    const changes = this.totalChanges() !== totalChangesBefore ? this.sqlite.getRowsModified() : 0;
+    const lastRowId = Number(this.sqlite.exec('SELECT last_insert_rowid()')[0].values[0][0]);
+
+    return { rows, changes, lastRowId };
+  }
+
+  /**
+   * Convenience for assertions: all rows of a query
+   */
+  rows<T = Record<string, SqlValue>>(query: string, ...params: unknown[]): T[] {
+    return this.execute(query, params.map(toSqlValue)).rows as T[];
+  }
+
+  close(): void {
+    this.sqlite.close();
+  }
+
+  private totalChanges(): number {
+    return Number(this.sqlite.exec('SELECT total_changes()')[0].values[0][0]);
+  }
+}
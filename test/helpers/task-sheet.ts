@@ -0,0 +1,12 @@
+// Task sheet fixtures: one project tab with the usual column headers next to the contacts tab
+export const TASK_SHEET_ID = 'task-sheet';
+export const PROJECT = 'Website';
+export const TASK_HEADERS = ['Owner', 'Task', 'Status', 'Priority', 'Points', 'Start date', 'Delivery date', 'Notes', 'Milestone'];
+export const CONTACT_HEADERS = ['Number', 'Name', 'Email', 'Phone', 'Telegram Username'];
+
+/**
+ * A date as written in the task sheets, days away from today (negative for the past)
+ */
+export function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
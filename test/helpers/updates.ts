@@ -0,0 +1,62 @@
+// Builders for the Telegram updates posted to the webhook in tests
+
+export interface TestUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+let nextMessageId = 1;
+
+function toFrom(user: TestUser) {
+  return { is_bot: false, ...user };
+}
+
+export function privateMessage(user: TestUser, text: string) {
+  return {
+    message: {
+      message_id: nextMessageId++,
+      from: toFrom(user),
+      chat: { id: user.id, first_name: user.first_name, username: user.username, type: 'private' },
+      date: Math.floor(Date.now() / 1000),
+      text
+    }
+  };
+}
+
+export function groupMessage(chatId: number, user: TestUser, text: string, options: { messageThreadId?: number; title?: string } = {}) {
+  return {
+    message: {
+      message_id: nextMessageId++,
+      from: toFrom(user),
+      chat: { id: chatId, title: options.title || 'Test group', type: 'supergroup', is_forum: options.messageThreadId !== undefined },
+      date: Math.floor(Date.now() / 1000),
+      text,
+      ...(options.messageThreadId !== undefined ? { message_thread_id: options.messageThreadId, is_topic_message: true } : {})
+    }
+  };
+}
+
+export function callbackQuery(user: TestUser, data: string, messageId?: number) {
+  return {
+    callback_query: {
+      id: `cbq-${nextMessageId++}`,
+      from: toFrom(user),
+      data,
+      ...(messageId !== undefined ? { message: { message_id: messageId, chat: { id: user.id, type: 'private' } } } : {})
+    }
+  };
+}
+
+export function chatJoinRequest(chatId: number, user: TestUser, title = 'Test group') {
+  return {
+    chat_join_request: {
+      chat: { id: chatId, title, type: 'supergroup' },
+      from: toFrom(user),
+      user_chat_id: user.id,
+      date: Math.floor(Date.now() / 1000)
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow } from './helpers/task-sheet';
+import { callbackQuery, privateMessage, TestUser } from './helpers/updates';
+
+const english: TestUser = { id: 4001, first_name: 'Emma', language_code: 'en-GB' };
+const turkish: TestUser = { id: 4002, first_name: 'Emre', language_code: 'tr' };
+const unknown: TestUser = { id: 4003, first_name: 'Hana', language_code: 'ja' };
+
+describe('message languages', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Emma_B. (Dev)', email: 'emma@example.org', telegram_id: String(english.id) },
+      { membership_number: 'M200', latin_name: 'Emre', telegram_id: String(turkish.id) }
+    ]);
+  });
+
+  afterEach(() => harness.dispose());
+
+  it('answers in the language of the Telegram app and falls back to Arabic', async () => {
+    await harness.sendUpdate(privateMessage(english, '/help'));
+    await harness.sendUpdate(privateMessage(turkish, '/help'));
+    await harness.sendUpdate(privateMessage(unknown, '/help'));
+
+    expect(harness.telegram.lastMessageTo(english.id)!.body.text).toContain('*Help*');
+    expect(harness.telegram.lastMessageTo(turkish.id)!.body.text).toContain('*Yardım*');
+    expect(harness.telegram.lastMessageTo(unknown.id)!.body.text).toContain('*قائمة المساعدة*');
+  });
+
+  it('prefers the language chosen in /settings over the Telegram app', async () => {
+    harness.db.rows('INSERT INTO member_preferences (telegram_id, language) VALUES (?, ?)', String(english.id), 'tr');
+
+    await harness.sendUpdate(privateMessage(english, '/help'));
+    expect(harness.telegram.lastMessageTo(english.id)!.body.text).toContain('*Yardım*');
+
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(english, 'join_group_-100999'));
+    expect(harness.telegram.callsTo('answerCallbackQuery')[0].body.text).toBe('❌ Grup bulunamadı');
+  });
+
+  it('escapes the values put in the messages', async () => {
+    await harness.sendUpdate(privateMessage(english, '/myinfo'));
+
+    const text = harness.telegram.lastMessageTo(english.id)!.body.text;
+    expect(text).toContain('Emma\\_B\\. \\(Dev\\)');
+    expect(text).toContain('emma@example\\.org');
+    expect(text).toContain('Not available');
+  });
+
+  it('sends task notices in the language of the owner', async () => {
+    harness.db.rows('INSERT INTO member_preferences (telegram_id, language) VALUES (?, ?)', String(turkish.id), 'tr');
+    harness.seedTaskSheet({
+      contacts: [
+        ['M200', 'Emre', 'emre@example.org', '222', '']
+      ],
+      tasks: [
+        ['Emre', 'Build the page', 'In progress', 'High', '5', daysFromNow(-1), daysFromNow(5), '', '']
+      ]
+    });
+
+    await harness.checkTaskSheet();
+
+    const [notice] = harness.telegram.sentMessages(turkish.id);
+    expect(notice).toContain('*Yeni görev*');
+    expect(notice).toContain('Build the page');
+  });
+
+  it('answers task buttons in the language of the owner and tells the manager in theirs', async () => {
+    harness.db.rows('INSERT INTO member_preferences (telegram_id, language) VALUES (?, ?)', String(english.id), 'en');
+    harness.db.rows('INSERT INTO member_preferences (telegram_id, language) VALUES (?, ?)', String(turkish.id), 'tr');
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Emma', 'emma@example.org', '111', ''],
+        ['M200', 'Emre', 'emre@example.org', '222', '']
+      ],
+      tasks: [
+        ['Emma', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-3), daysFromNow(5), '', ''],
+        ['Emre', 'Build the page', 'In progress', 'P1', '5', daysFromNow(-1), daysFromNow(5), '', '']
+      ]
+    });
+    await harness.checkTaskSheet();
+    const [task] = harness.db.rows<{ id: string }>('SELECT id FROM tasks WHERE ownerID = ?', 'M200');
+
+    harness.telegram.reset();
+    await harness.sendUpdate(privateMessage(turkish, '/mytasks'));
+    const list = harness.telegram.lastMessageTo(turkish.id)!.body.text;
+    expect(list).toContain('*Görevlerim*');
+    expect(list).toContain('Acil');
+
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(turkish, `task_done_${task.id}`));
+    expect(harness.telegram.callsTo('answerCallbackQuery')[0].body.text).toBe('✅ Görev tamamlandı olarak kaydedildi');
+    expect(harness.telegram.lastMessageTo(english.id)!.body.text).toContain('*Task done*');
+  });
+});
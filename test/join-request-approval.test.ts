@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { callbackQuery, chatJoinRequest, TestUser } from './helpers/updates';
+import { handleJoinRequestExpiry } from '../src/services/task-follower/scheduler';
+
+const GROUP_ID = -1004321;
+const firstAdmin: TestUser = { id: 9001, first_name: 'Rami' };
+const secondAdmin: TestUser = { id: 9002, first_name: 'Ece' };
+const requester: TestUser = { id: 9100, first_name: 'Omar', username: 'omar_v' };
+const outsider: TestUser = { id: 9200, first_name: 'Zed' };
+
+describe('join request approval queue', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M010', ar_name: 'عمر', latin_name: 'Omar V', telegram_id: String(requester.id) }
+    ]);
+    harness.db.rows(
+      'INSERT INTO groups (chat_id, title, type, admins, needs_admin_approval) VALUES (?, ?, ?, ?, 1)',
+      String(GROUP_ID), 'Core Team', 'supergroup', JSON.stringify([
+        { user_id: String(firstAdmin.id), first_name: 'Rami', status: 'creator' },
+        { user_id: String(secondAdmin.id), first_name: 'Ece', status: 'administrator' }
+      ])
+    );
+  });
+
+  afterEach(() => harness.dispose());
+
+  function storedRequest() {
+    return harness.db.rows<{ id: string; status: string; decided_by: string | null; membership_number: string | null; expires_at: string }>(
+      'SELECT * FROM join_requests WHERE chat_id = ? AND user_id = ?', String(GROUP_ID), String(requester.id)
+    )[0];
+  }
+
+  it('queues the request and sends every admin the member info with buttons', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, requester, 'Core Team'));
+
+    expect(storedRequest()).toMatchObject({ status: 'pending', membership_number: 'M010' });
+    const hoursLeft = (Date.parse(storedRequest().expires_at) - Date.now()) / (60 * 60 * 1000);
+    expect(Math.round(hoursLeft)).toBe(48);
+
+    for (const admin of [firstAdmin, secondAdmin]) {
+      const dm = harness.telegram.lastMessageTo(admin.id)!;
+      expect(dm.body.text).toContain('M010');
+      expect(dm.body.text).toContain('Omar V');
+      expect(dm.body.reply_markup.inline_keyboard[0].map((button: any) => button.callback_data)).toEqual([
+        `jr_approve_${storedRequest().id}`,
+        `jr_decline_${storedRequest().id}`
+      ]);
+    }
+
+    expect(harness.telegram.lastMessageTo(requester.id)!.body.text).toContain('Core Team');
+    expect(harness.telegram.callsTo('createChatInviteLink')).toHaveLength(0);
+
+    // A repeated request doesn't notify the admins again
+    harness.telegram.reset();
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, requester, 'Core Team'));
+    expect(harness.telegram.sentMessages(firstAdmin.id)).toHaveLength(0);
+  });
+
+  it('approves on an admin click and updates every admin message', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, requester, 'Core Team'));
+    const { id } = storedRequest();
+    harness.telegram.reset();
+
+    await harness.sendUpdate(callbackQuery(secondAdmin, `jr_approve_${id}`));
+
+    expect(harness.telegram.callsTo('approveChatJoinRequest')[0].body).toEqual({ chat_id: String(GROUP_ID), user_id: requester.id });
+    expect(storedRequest()).toMatchObject({ status: 'approved', decided_by: String(secondAdmin.id) });
+
+    const edits = harness.telegram.callsTo('editMessageText');
+    expect(edits.map(edit => String(edit.body.chat_id)).sort()).toEqual([String(firstAdmin.id), String(secondAdmin.id)]);
+    expect(edits[0].body.text).toContain('تم القبول* بواسطة Ece');
+    expect(edits[0].body.reply_markup).toBeUndefined();
+    expect(harness.telegram.lastMessageTo(requester.id)!.body.text).toContain('تمت الموافقة');
+
+    // The other admin's buttons no longer do anything
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(firstAdmin, `jr_decline_${id}`));
+    expect(harness.telegram.callsTo('declineChatJoinRequest')).toHaveLength(0);
+    expect(harness.telegram.callsTo('answerCallbackQuery')[0].body.text).toContain('مسبقاً');
+  });
+
+  it('talks to the requester and every admin in their own language', async () => {
+    harness.db.rows('INSERT INTO member_preferences (telegram_id, language) VALUES (?, ?)', String(secondAdmin.id), 'en');
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, { ...requester, language_code: 'tr' }, 'Core Team'));
+
+    expect(harness.telegram.lastMessageTo(requester.id)!.body.text).toContain('katılma isteğiniz alındı');
+    expect(harness.telegram.lastMessageTo(firstAdmin.id)!.body.text).toContain('طلب انضمام جديد');
+    const englishDm = harness.telegram.lastMessageTo(secondAdmin.id)!.body;
+    expect(englishDm.text).toContain('New join request');
+    expect(englishDm.reply_markup.inline_keyboard[0].map((button: any) => button.text)).toEqual(['✅ Approve', '❌ Decline']);
+
+    await harness.sendUpdate(callbackQuery(secondAdmin, `jr_decline_${storedRequest().id}`));
+
+    expect(harness.telegram.callsTo('answerCallbackQuery')[0].body.text).toBe('❌ The request is declined');
+    const edits = harness.telegram.callsTo('editMessageText');
+    expect(edits.find(edit => String(edit.body.chat_id) === String(secondAdmin.id))!.body.text).toContain('*Declined* by Ece');
+    expect(edits.find(edit => String(edit.body.chat_id) === String(firstAdmin.id))!.body.text).toContain('تم الرفض* بواسطة Ece');
+  });
+
+  it('ignores clicks from users who are not admins', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, requester, 'Core Team'));
+
+    await harness.sendUpdate(callbackQuery(outsider, `jr_approve_${storedRequest().id}`));
+
+    expect(harness.telegram.callsTo('approveChatJoinRequest')).toHaveLength(0);
+    expect(storedRequest().status).toBe('pending');
+  });
+
+  it('declines requests nobody answered once they expire', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, requester, 'Core Team'));
+    harness.db.rows('UPDATE join_requests SET expires_at = ?', new Date(Date.now() - 60 * 1000).toISOString());
+    harness.telegram.reset();
+
+    await handleJoinRequestExpiry(harness.env);
+
+    expect(harness.telegram.callsTo('declineChatJoinRequest')).toHaveLength(1);
+    expect(storedRequest().status).toBe('expired');
+    expect(harness.telegram.callsTo('editMessageText')[0].body.text).toContain('انتهت صلاحية الطلب');
+  });
+
+  it('leaves groups without approval to the invite link flow', async () => {
+    harness.db.rows('UPDATE groups SET needs_admin_approval = 0');
+
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, requester, 'Core Team'));
+
+    expect(storedRequest()).toBeUndefined();
+    expect(harness.telegram.callsTo('createChatInviteLink')).toHaveLength(1);
+  });
+});
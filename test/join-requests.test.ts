@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { chatJoinRequest, TestUser } from './helpers/updates';
+import { telegramError } from './fakes/telegram-api';
+
+const GROUP_ID = -1001234;
+const verifiedUser: TestUser = { id: 6001, first_name: 'Omar', username: 'omar_v' };
+const unverifiedUser: TestUser = { id: 6002, first_name: 'Lina' };
+const userWithoutBot: TestUser = { id: 6003, first_name: 'Kerem', username: 'kerem' };
+
+describe('chat join requests', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M010', latin_name: 'Omar V', email: 'omar@example.org', telegram_id: String(verifiedUser.id) }
+    ]);
+    // Only users who started the bot can receive chat actions
+    harness.telegram.on('sendChatAction', body =>
+      body.chat_id === userWithoutBot.id ? telegramError(403, "Forbidden: bot can't initiate conversation with a user") : true
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    harness.dispose();
+  });
+
+  it('sends verified members a single-use invite link', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, verifiedUser));
+
+    const [inviteCall] = harness.telegram.callsTo('createChatInviteLink');
+    expect(inviteCall.body).toMatchObject({ chat_id: GROUP_ID, member_limit: 1, creates_join_request: false });
+
+    const reply = harness.telegram.lastMessageTo(verifiedUser.id)!;
+    expect(reply.body.text).toContain('https://t\\.me/\\+testinvite1');
+    expect(harness.telegram.callsTo('approveChatJoinRequest')).toHaveLength(0);
+  });
+
+  it('asks members who are not verified to use /verify', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, unverifiedUser));
+
+    expect(harness.telegram.callsTo('createChatInviteLink')).toHaveLength(0);
+    expect(harness.telegram.lastMessageTo(unverifiedUser.id)!.body.text).toContain('/verify');
+  });
+
+  it('posts a silent, self-deleting hint in the group for users without the bot', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, userWithoutBot));
+
+    const hint = harness.telegram.lastMessageTo(GROUP_ID)!;
+    expect(hint.body.disable_notification).toBe(true);
+    expect(hint.body.text).toContain('@kerem');
+    expect(harness.telegram.callsTo('deleteMessage')).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await harness.flushBackgroundTasks();
+
+    const [deleteCall] = harness.telegram.callsTo('deleteMessage');
+    expect(deleteCall.body).toMatchObject({ chat_id: GROUP_ID, message_id: expect.any(Number) });
+  });
+
+  it('records the join request', async () => {
+    await harness.sendUpdate(chatJoinRequest(GROUP_ID, unverifiedUser));
+
+    const rows = harness.db.rows<{ chat_id: string; user_id: string; notes: string }>(
+      'SELECT chat_id, user_id, notes FROM all_messages_groups'
+    );
+    expect(rows).toEqual([{ chat_id: String(GROUP_ID), user_id: String(unverifiedUser.id), notes: 'Join request from Lina (@no_username)' }]);
+  });
+
+  it('handles a redelivered update only once', async () => {
+    const update = { update_id: 900, ...chatJoinRequest(GROUP_ID, verifiedUser) };
+
+    await harness.sendUpdate(update);
+    await harness.sendUpdate(update);
+
+    expect(harness.telegram.callsTo('createChatInviteLink')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { daysFromNow } from './helpers/task-sheet';
+import { callbackQuery, privateMessage, TestUser } from './helpers/updates';
+
+const manager: TestUser = { id: 1001, first_name: 'Mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali' };
+const colleague: TestUser = { id: 3003, first_name: 'Sara' };
+
+describe('member preferences', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id) },
+      { membership_number: 'M300', latin_name: 'Sara', telegram_id: String(colleague.id) }
+    ]);
+  });
+
+  afterEach(() => harness.dispose());
+
+  async function pressSetting(user: TestUser, data: string) {
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(user, data, 55));
+    return harness.telegram.callsTo('editMessageText')[0].body;
+  }
+
+  // Quiet hours that cover the current hour in Istanbul
+  function setQuietNow(user: TestUser): void {
+    const hour = (new Date().getUTCHours() + 3) % 24;
+    harness.db.rows(
+      'INSERT INTO member_preferences (telegram_id, quiet_start, quiet_end) VALUES (?, ?, ?)',
+      String(user.id), hour, (hour + 2) % 24
+    );
+  }
+
+  it('changes notifications, language and quiet hours from /settings', async () => {
+    await harness.sendUpdate(privateMessage(owner, '/settings'));
+    const settings = harness.telegram.lastMessageTo(owner.id)!.body;
+    expect(settings.text).toContain('إعدادات الإشعارات');
+    expect(settings.reply_markup.inline_keyboard.map((row: any[]) => row[0].callback_data)).toEqual([
+      'settings_toggle_task_reminders',
+      'settings_toggle_shame',
+      'settings_toggle_broadcasts',
+      'settings_toggle_group_summaries',
+      'settings_toggle_daily_digest',
+      'settings_language',
+      'settings_quiet'
+    ]);
+
+    const toggled = await pressSetting(owner, 'settings_toggle_shame');
+    expect(toggled.message_id).toBe(55);
+    expect(toggled.reply_markup.inline_keyboard[1][0].text).toBe('🔕 رسائل التوبيخ من الزملاء');
+    expect(harness.telegram.callsTo('answerCallbackQuery')[0].body.text).toBe('✅ تم حفظ الإعدادات');
+
+    await pressSetting(owner, 'settings_language');
+    const quiet = await pressSetting(owner, 'settings_quiet');
+    expect(quiet.text).toContain('22:00 \\- 08:00');
+
+    expect(harness.db.rows('SELECT shame, broadcasts, language, quiet_start, quiet_end FROM member_preferences WHERE telegram_id = ?', String(owner.id))).toEqual([
+      { shame: 0, broadcasts: 1, language: 'en', quiet_start: 22, quiet_end: 8 }
+    ]);
+  });
+
+  it('skips members who turned broadcasts off and holds messages back in quiet hours', async () => {
+    await harness.sendUpdate(callbackQuery(colleague, 'settings_toggle_broadcasts'));
+    setQuietNow(manager);
+    harness.telegram.reset();
+
+    const response = await harness.request('/api/send-message', {
+      method: 'POST',
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message: 'Assembly on Friday', target: 'all' })
+    });
+    expect((await response.json() as any).opted_out).toBe(1);
+    await harness.flushBackgroundTasks();
+
+    expect(harness.telegram.sentMessages(owner.id)).toEqual(['Assembly on Friday']);
+    expect(harness.telegram.sentMessages(colleague.id)).toEqual([]);
+    expect(harness.telegram.sentMessages(manager.id)).toEqual([]);
+
+    const [held] = harness.db.rows('SELECT status, next_attempt_at FROM outbox_messages WHERE chat_id = ?', String(manager.id));
+    expect(held.status).toBe('pending');
+    expect(Date.parse(String(held.next_attempt_at))).toBeGreaterThan(Date.now() + 60 * 60 * 1000);
+  });
+
+  it('keeps new tasks mandatory and stops the reminders and shame messages members turned off', async () => {
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', ''],
+        ['M300', 'Sara', 'sara@example.org', '333', '']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Sara', 'Design the logo', 'Completed', 'Low', '2', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Ali', 'Build the page', 'In progress', 'High', '5', daysFromNow(-10), daysFromNow(-3), '', '']
+      ]
+    });
+    await harness.sendUpdate(callbackQuery(owner, 'settings_toggle_task_reminders'));
+    await harness.sendUpdate(callbackQuery(manager, 'settings_toggle_shame'));
+
+    await harness.checkTaskSheet();
+    expect(harness.telegram.sentMessages(owner.id).some(text => text.includes('مهمّة جديدة'))).toBe(true);
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+
+    expect(harness.telegram.sentMessages(owner.id)).toEqual([]);
+    expect(harness.telegram.sentMessages(colleague.id).some(text => text.includes('لدى زميلك مهمة متأخرة'))).toBe(true);
+    expect(harness.telegram.sentMessages(manager.id).filter(text => text.includes('لدى زميلك مهمة متأخرة') || text.includes('فشل إرسال'))).toEqual([]);
+    expect(harness.db.rows("SELECT new_value FROM task_events WHERE event_type = 'notified' AND field = 'shame'")).toEqual([{ new_value: 'M300' }]);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+import { TestUser } from './helpers/updates';
+
+const manager: TestUser = { id: 1001, first_name: 'Mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali' };
+const colleague: TestUser = { id: 3003, first_name: 'Sara' };
+
+describe('notification policies', () => {
+  let harness: TestHarness;
+  let registeredId: string;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id) },
+      { membership_number: 'M300', latin_name: 'Sara', telegram_id: String(colleague.id) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', ''],
+        ['M300', 'Sara', 'sara@example.org', '333', '']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-10), daysFromNow(-3), '', ''],
+        ['Sara', 'Write the copy', 'In progress', 'Low', '2', daysFromNow(-10), daysFromNow(2), '', '']
+      ]
+    });
+
+    const response = await api('/api/task-sheets', 'POST', { sheetID: TASK_SHEET_ID, sheetName: 'Website tasks' });
+    registeredId = (await response.json() as any).data.id;
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  function api(path: string, method = 'GET', body?: unknown): Promise<Response> {
+    return harness.request(path, {
+      method,
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  async function setPolicy(policy: Record<string, unknown>): Promise<void> {
+    const response = await api(`/api/task-sheets/${registeredId}/policy`, 'PUT', policy);
+    expect(response.status).toBe(200);
+  }
+
+  const messagesTo = (user: TestUser, text: string) => harness.telegram.sentMessages(user.id).filter(message => message.includes(text));
+
+  it('stores sheet and project policies and resolves each setting', async () => {
+    await setPolicy({ late_reminder_hours: 48, quiet_weekdays: [6, 5, 5] });
+    await setPolicy({ project_name: PROJECT, shame_enabled: false });
+
+    const response = await api(`/api/task-sheets/${registeredId}/policy?project=${PROJECT}`);
+    expect((await response.json() as any).data).toEqual({
+      sheet_id: TASK_SHEET_ID,
+      project_name: PROJECT,
+      source: 'project',
+      settings: {
+        reminder_days: [],
+        late_reminder_hours: 48,
+        shame_enabled: false,
+        shame_after_days: 2,
+        quiet_weekdays: [5, 6],
+        holidays: [],
+        escalate_after: 0
+      }
+    });
+
+    const rejected = await api(`/api/task-sheets/${registeredId}/policy`, 'PUT', { holidays: ['next friday'] });
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json() as any).error).toContain('YYYY-MM-DD');
+
+    expect((await api(`/api/task-sheets/${registeredId}/policy?project=${PROJECT}`, 'DELETE')).status).toBe(200);
+    const fallback = await api(`/api/task-sheets/${registeredId}/policy?project=${PROJECT}`);
+    expect((await fallback.json() as any).data).toMatchObject({ source: 'sheet', settings: { shame_enabled: true, late_reminder_hours: 48 } });
+  });
+
+  it('spaces late reminders and skips shaming by the project policy', async () => {
+    await setPolicy({ project_name: PROJECT, late_reminder_hours: 48, shame_enabled: false });
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 30 });
+    expect(messagesTo(owner, 'مهمّة متأخرة')).toHaveLength(0);
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 50 });
+    expect(messagesTo(owner, 'مهمّة متأخرة')).toHaveLength(1);
+    expect(messagesTo(colleague, 'فضيحة')).toHaveLength(0);
+  });
+
+  it('reminds on the days before the due date and never on quiet days', async () => {
+    await setPolicy({ reminder_days: [1] });
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(messagesTo(colleague, 'تذكير بالمهمّة')).toHaveLength(0);
+
+    await setPolicy({ reminder_days: [2, 1] });
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(messagesTo(colleague, 'تذكير بالمهمّة')).toHaveLength(1);
+
+    await setPolicy({ quiet_weekdays: [0, 1, 2, 3, 4, 5, 6] });
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(harness.telegram.sentMessages(colleague.id)).toHaveLength(0);
+    expect(harness.telegram.sentMessages(owner.id)).toHaveLength(0);
+  });
+
+  it('escalates to the manager once after the set number of late reminders', async () => {
+    await setPolicy({ escalate_after: 2, shame_enabled: false });
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(messagesTo(manager, 'تصعيد مهمّة متأخّرة')).toHaveLength(0);
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    const [escalation] = messagesTo(manager, 'تصعيد مهمّة متأخّرة');
+    expect(escalation).toContain('Build the landing page');
+    expect(escalation).toContain('*تذكيرات التأخير المرسلة:* 2');
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    expect(messagesTo(owner, 'مهمّة متأخرة')).toHaveLength(1);
+    expect(messagesTo(manager, 'تصعيد مهمّة متأخّرة')).toHaveLength(0);
+  });
+
+  it('escalates for owners who turned off their task reminders', async () => {
+    await setPolicy({ escalate_after: 2, shame_enabled: false });
+    harness.db.rows('INSERT INTO member_preferences (telegram_id, task_reminders) VALUES (?, 0)', String(owner.id));
+
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+    await harness.checkTaskSheet({ lastSentHoursAgo: 25 });
+
+    expect(messagesTo(owner, 'مهمّة متأخرة')).toHaveLength(0);
+    expect(messagesTo(manager, 'تصعيد مهمّة متأخّرة')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { telegramError } from './fakes/telegram-api';
+
+const ALI = 2002;
+const SARA = 3003;
+const OMAR = 4004;
+
+describe('outgoing message queue', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(ALI) },
+      { membership_number: 'M300', latin_name: 'Sara', telegram_id: String(SARA) },
+      { membership_number: 'M400', latin_name: 'Omar', telegram_id: String(OMAR) }
+    ]);
+  });
+
+  afterEach(() => harness.dispose());
+
+  function api(path: string, method = 'GET', body?: unknown): Promise<Response> {
+    return harness.request(path, {
+      method,
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  function outboxRows() {
+    return harness.db.rows<{ id: string; status: string; attempts: number; error_code: string | null; next_attempt_at: string }>(
+      'SELECT id, status, attempts, error_code, next_attempt_at FROM outbox_messages'
+    );
+  }
+
+  // Make the pending messages due now
+  function makeDue(): void {
+    harness.db.rows('UPDATE outbox_messages SET next_attempt_at = ? WHERE status = ?', new Date(Date.now() - 1000).toISOString(), 'pending');
+  }
+
+  it('queues broadcasts and records the delivery of each message', async () => {
+    harness.telegram.on('sendMessage', body => String(body.chat_id) === String(OMAR)
+      ? telegramError(403, 'Forbidden: bot was blocked by the user')
+      : { message_id: 1, chat: { id: body.chat_id }, text: body.text });
+
+    const response = await api('/api/send-message', 'POST', { message: 'Meeting at 8', target: 'all' });
+    const { broadcast_id: broadcastId, message } = await response.json() as any;
+    expect(message).toBe('Message queued for 3 members');
+
+    await harness.flushBackgroundTasks();
+
+    expect(harness.telegram.sentMessages(ALI)).toEqual(['Meeting at 8']);
+    expect(harness.telegram.sentMessages(SARA)).toEqual(['Meeting at 8']);
+    const stats = await api(`/api/outbox/stats?reference_id=${broadcastId}`);
+    expect((await stats.json() as any).data).toEqual({ broadcast: { pending: 0, sent: 2, failed: 1 } });
+
+    const failed = await api('/api/outbox?status=failed&category=broadcast');
+    expect((await failed.json() as any).data).toMatchObject([{ chat_id: String(OMAR), attempts: 1, error_code: 'BOT_BLOCKED' }]);
+  });
+
+  it('waits as long as Telegram asks after too many requests', async () => {
+    let calls = 0;
+    harness.telegram.on('sendMessage', body => ++calls === 1
+      ? telegramError(429, 'Too Many Requests: retry after 1', { retry_after: 1 })
+      : { message_id: 1, chat: { id: body.chat_id }, text: body.text });
+
+    const response = await api('/api/notify-member', 'POST', { member_id: 'M200', message: 'Your card is ready' });
+    expect(await response.json()).toMatchObject({ success: true, queued: true });
+
+    const [queued] = outboxRows();
+    expect(queued).toMatchObject({ status: 'pending', attempts: 0, error_code: 'RATE_LIMIT' });
+    expect(Date.parse(queued.next_attempt_at)).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect((await (await api('/api/outbox/dispatch', 'POST')).json() as any).data).toEqual({ sent: 0, failed: 0, pending: 0 });
+
+    makeDue();
+    expect((await (await api('/api/outbox/dispatch', 'POST')).json() as any).data).toEqual({ sent: 1, failed: 0, pending: 0 });
+    expect(outboxRows()).toMatchObject([{ status: 'sent', attempts: 1, error_code: null }]);
+  });
+
+  it('retries server errors with backoff and gives up after the last attempt', async () => {
+    harness.telegram.on('sendMessage', () => telegramError(502, 'Bad Gateway'));
+
+    await api('/api/notify-member', 'POST', { member_id: 'M300', message: 'Your card is ready' });
+    const [first] = outboxRows();
+    expect(first).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(Date.parse(first.next_attempt_at) - Date.now()).toBeGreaterThan(25 * 1000);
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      makeDue();
+      await api('/api/outbox/dispatch', 'POST');
+    }
+
+    expect(outboxRows()).toMatchObject([{ status: 'failed', attempts: 5, error_code: 'UNKNOWN_ERROR' }]);
+    expect(harness.telegram.sentMessages(SARA)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+import { callbackQuery, privateMessage, TestUser } from './helpers/updates';
+
+const PROJECT_GROUP_CHAT = -100500;
+const manager: TestUser = { id: 1001, first_name: 'Mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali' };
+
+const STATUS_COLUMN = 2;
+
+describe('points', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', '']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-10), daysFromNow(5), '', ''],
+        ['Ali', 'Fix the footer', 'In progress', 'Low', '5', daysFromNow(-10), daysFromNow(-3), '', '']
+      ]
+    });
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  function completeInSheet(row: number): void {
+    const rows = harness.sheets.getTab(TASK_SHEET_ID, PROJECT);
+    rows[row][STATUS_COLUMN] = 'Completed';
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, rows);
+  }
+
+  async function leaderboard(query = '') {
+    const response = await harness.request(`/api/points/leaderboard${query}`, { headers: { 'X-API-Key': SECRET_KEY } });
+    expect(response.status).toBe(200);
+    return (await response.json() as any).data;
+  }
+
+  it('credits completed tasks once, with a penalty for late delivery', async () => {
+    completeInSheet(2);
+    completeInSheet(3);
+    await harness.checkTaskSheet();
+    await harness.checkTaskSheet();
+
+    expect(harness.db.rows('SELECT entry_type, points FROM points_ledger ORDER BY points DESC')).toEqual([
+      { entry_type: 'completion', points: 5 },
+      { entry_type: 'completion', points: 5 },
+      { entry_type: 'late_penalty', points: -2 } // 3 days late: 30% of 5
+    ]);
+    // Already completed when imported, so not credited
+    expect(await leaderboard(`?month=${daysFromNow(0).slice(0, 7)}`)).toEqual([
+      { membership_number: 'M200', member_name: 'Ali', telegram_id: String(owner.id), points: 8, tasks_completed: 2, penalties: -2 }
+    ]);
+    expect(await leaderboard('?month=2020-01')).toEqual([]);
+
+    const projects = await harness.request('/api/points/projects', { headers: { 'X-API-Key': SECRET_KEY } });
+    expect((await projects.json() as any).data).toEqual([{ key: PROJECT, points: 8, tasks_completed: 2, members: 1 }]);
+  });
+
+  it('credits tasks done from the notification button and shows them in /leaderboard', async () => {
+    const taskId = harness.db.rows<{ id: string }>('SELECT id FROM tasks WHERE taskText = ?', 'Build the landing page')[0].id;
+    await harness.sendUpdate(callbackQuery(owner, `task_done_${taskId}`));
+
+    harness.telegram.reset();
+    await harness.sendUpdate(privateMessage(owner, '/leaderboard'));
+    const text = harness.telegram.lastMessageTo(owner.id)!.body.text;
+    expect(text).toContain('🥇 Ali');
+    expect(text).toContain('*5* نقطة');
+    expect(text).toContain('ترتيبك:* 1');
+
+    await harness.sendUpdate(privateMessage(manager, '/leaderboard'));
+    expect(harness.telegram.lastMessageTo(manager.id)!.body.text).toContain('لم تجمع نقاطاً');
+  });
+
+  it('posts the monthly leaderboard in the groups of the project', async () => {
+    completeInSheet(2);
+    await harness.checkTaskSheet();
+    harness.db.rows(`INSERT INTO groups (chat_id, title, type) VALUES (?, 'Website team', 'supergroup')`, String(PROJECT_GROUP_CHAT));
+    const groupId = harness.db.rows<{ id: string }>('SELECT id FROM groups')[0].id;
+
+    const update = await harness.request(`/api/groups/${groupId}/project`, {
+      method: 'PUT',
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ project_name: PROJECT })
+    });
+    expect(update.status).toBe(200);
+
+    harness.telegram.reset();
+    const monthlyReport = () => harness.request(`/api/points/monthly-report?month=${daysFromNow(0).slice(0, 7)}`, {
+      method: 'POST',
+      headers: { 'X-API-Key': SECRET_KEY }
+    });
+
+    expect((await (await monthlyReport()).json() as any).data).toEqual({ projects: 1, groups: 1 });
+    const post = harness.telegram.lastMessageTo(PROJECT_GROUP_CHAT)!.body.text;
+    expect(post).toContain(PROJECT);
+    expect(post).toContain('🥇 Ali');
+
+    // The hourly retries leave the groups that already got the month alone
+    expect((await (await monthlyReport()).json() as any).data).toEqual({ projects: 0, groups: 0 });
+    expect(harness.telegram.sentMessages(PROJECT_GROUP_CHAT)).toHaveLength(1);
+  });
+});
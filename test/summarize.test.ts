@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { groupMessage, TestUser } from './helpers/updates';
+
+const GROUP_ID = -1005678;
+const alice: TestUser = { id: 7001, first_name: 'Alice', language_code: 'en' };
+const bilal: TestUser = { id: 7002, first_name: 'Bilal', last_name: 'K', language_code: 'en' };
+
+describe('/summarize', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.deepseek.reply = 'They agreed to meet on Friday.';
+  });
+
+  afterEach(() => harness.dispose());
+
+  it('summarizes the stored group conversation and edits the status message', async () => {
+    await harness.sendUpdate(groupMessage(GROUP_ID, alice, 'Shall we meet on Friday?'));
+    await harness.sendUpdate(groupMessage(GROUP_ID, bilal, 'Friday works for me.'));
+
+    const command = groupMessage(GROUP_ID, alice, '/summarize 3');
+    await harness.sendUpdate(command);
+
+    const [status] = harness.telegram.callsTo('sendMessage');
+    expect(status.body.text).toContain('last 3 hours');
+    expect(status.body.reply_to_message_id).toBe(command.message.message_id);
+
+    const [request] = harness.deepseek.requests;
+    const prompt = request.messages.find(message => message.role === 'user')!.content;
+    expect(prompt).toContain('Alice: Shall we meet on Friday?');
+    expect(prompt).toContain('Bilal K: Friday works for me.');
+
+    const [edit] = harness.telegram.callsTo('editMessageText');
+    expect(edit.body.chat_id).toBe(GROUP_ID);
+    expect(edit.body.text).toContain('They agreed to meet on Friday\\.');
+  });
+
+  it('only summarizes the topic the command was sent in', async () => {
+    await harness.sendUpdate(groupMessage(GROUP_ID, alice, 'Budget is approved.', { messageThreadId: 11 }));
+    await harness.sendUpdate(groupMessage(GROUP_ID, bilal, 'Design review tomorrow.', { messageThreadId: 22 }));
+
+    await harness.sendUpdate(groupMessage(GROUP_ID, alice, '/summarize', { messageThreadId: 11 }));
+
+    const prompt = harness.deepseek.requests[0].messages.find(message => message.role === 'user')!.content;
+    expect(prompt).toContain('Budget is approved.');
+    expect(prompt).not.toContain('Design review tomorrow.');
+    expect(harness.telegram.callsTo('sendMessage')[0].body.message_thread_id).toBe(11);
+  });
+
+  it('reports an error when the summary cannot be generated', async () => {
+    harness.deepseek.failWithStatus = 503;
+    await harness.sendUpdate(groupMessage(GROUP_ID, alice, 'Hello'));
+
+    await harness.sendUpdate(groupMessage(GROUP_ID, alice, '/summarize'));
+
+    expect(harness.telegram.sentMessages(GROUP_ID).at(-1)).toContain('encountered an error');
+    expect(harness.telegram.callsTo('editMessageText')).toHaveLength(0);
+  });
+});
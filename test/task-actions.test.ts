@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+import { callbackQuery, privateMessage, TestUser } from './helpers/updates';
+
+const manager: TestUser = { id: 1001, first_name: 'Mona', username: 'mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali', username: 'ali' };
+
+describe('task notification buttons', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id), telegram_username: 'mona' },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id), telegram_username: 'ali' }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', 'mona'],
+        ['M200', 'Ali', 'ali@example.org', '222', 'ali']
+      ],
+      // An empty row before the task: the sheet row differs from row_number
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-3), daysFromNow(5), '', ''],
+        [],
+        ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-3), daysFromNow(5), '', '']
+      ]
+    });
+
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  function storedTask() {
+    return harness.db.rows<{ id: string; status: string; sheet_row: number; completed_at: string | null; blocked_at: string | null; notes: string | null }>(
+      'SELECT * FROM tasks WHERE sheetID = ? AND ownerID = ?', TASK_SHEET_ID, 'M200'
+    )[0];
+  }
+
+  function sheetRow(): string[] {
+    return harness.sheets.getTab(TASK_SHEET_ID, PROJECT)[3];
+  }
+
+  async function click(user: TestUser, data: string): Promise<string> {
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(user, data));
+    return harness.telegram.callsTo('answerCallbackQuery')[0].body.text;
+  }
+
+  it('sends the new task with buttons for the stored task', async () => {
+    const { id, sheet_row } = storedTask();
+    expect(sheet_row).toBe(4);
+
+    const message = harness.telegram.lastMessageTo(owner.id)!;
+    expect(message.body.reply_markup.inline_keyboard.flat().map((button: any) => button.callback_data)).toEqual([
+      `task_done_${id}`, `task_progress_${id}`, `task_block_${id}`, `task_help_${id}`, `task_history_${id}`
+    ]);
+  });
+
+  it('marks the task done in the sheet and the database and tells the manager', async () => {
+    expect(await click(owner, `task_done_${storedTask().id}`)).toContain('إنجاز');
+
+    expect(sheetRow()[2]).toBe('Completed');
+    expect(storedTask().status).toBe('Completed');
+    expect(storedTask().completed_at).not.toBeNull();
+    expect(harness.telegram.lastMessageTo(manager.id)!.body.text).toContain('تمّ إنجاز مهمّة');
+  });
+
+  it('asks for the reason before blocking the task', async () => {
+    await click(owner, `task_block_${storedTask().id}`);
+    expect(storedTask().blocked_at).toBeNull();
+
+    harness.telegram.reset();
+    await harness.sendUpdate(privateMessage(owner, 'Waiting for the logo files'));
+
+    expect(sheetRow()[2]).toBe('Blocked');
+    expect(sheetRow()[7]).toBe('Waiting for the logo files');
+    expect(storedTask()).toMatchObject({ status: 'Blocked', notes: 'Waiting for the logo files' });
+    expect(storedTask().blocked_at).not.toBeNull();
+    expect(harness.telegram.lastMessageTo(manager.id)!.body.text).toContain('Waiting for the logo files');
+    expect(harness.telegram.lastMessageTo(owner.id)!.body.text).toContain('تمّ تسجيل توقّف المهمّة');
+
+    // Back in progress clears the block
+    await click(owner, `task_progress_${storedTask().id}`);
+    expect(sheetRow()[2]).toBe('In progress');
+    expect(storedTask().blocked_at).toBeNull();
+  });
+
+  it('only notifies the manager when help is requested', async () => {
+    await click(owner, `task_help_${storedTask().id}`);
+
+    expect(harness.telegram.lastMessageTo(manager.id)!.body.text).toContain('طلب مساعدة');
+    expect(storedTask().status).toBe('In progress');
+  });
+
+  it('ignores clicks from anyone but the owner', async () => {
+    expect(await click(manager, `task_done_${storedTask().id}`)).toContain('لصاحب المهمّة فقط');
+
+    expect(sheetRow()[2]).toBe('In progress');
+    expect(storedTask().status).toBe('In progress');
+  });
+});
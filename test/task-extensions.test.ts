@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+import { callbackQuery, privateMessage, TestUser } from './helpers/updates';
+
+const manager: TestUser = { id: 1001, first_name: 'Mona', username: 'mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali', username: 'ali' };
+
+describe('due date extension requests', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id), telegram_username: 'mona' },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id), telegram_username: 'ali' }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', 'mona'],
+        ['M200', 'Ali', 'ali@example.org', '222', 'ali']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-3), daysFromNow(5), '', ''],
+        ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-3), daysFromNow(-1), '', '']
+      ]
+    });
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  function storedTask() {
+    return harness.db.rows<{ id: string; dueDate: string }>('SELECT * FROM tasks WHERE ownerID = ?', 'M200')[0];
+  }
+
+  function storedRequests() {
+    return harness.db.rows<{ id: string; status: string; requested_due_date: string; reason: string; decided_by: string | null }>(
+      'SELECT * FROM task_extension_requests WHERE task_id = ?', storedTask().id
+    );
+  }
+
+  async function requestExtension(date: string, reason: string): Promise<void> {
+    await harness.sendUpdate(callbackQuery(owner, `task_extend_${storedTask().id}`));
+    await harness.sendUpdate(privateMessage(owner, date));
+    await harness.sendUpdate(privateMessage(owner, reason));
+  }
+
+  it('offers the extension button on late task warnings', async () => {
+    harness.db.rows('UPDATE tasks SET last_sent = ?', new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString());
+    await harness.checkTaskSheet();
+
+    const message = harness.telegram.lastMessageTo(owner.id)!;
+    expect(message.body.text).toContain('مهمّة متأخرة');
+    expect(message.body.reply_markup.inline_keyboard.flat().map((button: any) => button.callback_data))
+      .toContain(`task_extend_${storedTask().id}`);
+  });
+
+  it('sends the request to the manager and applies it on approval', async () => {
+    const newDate = daysFromNow(10);
+    const [year, month, day] = newDate.split('-');
+    await requestExtension(`${day}-${month}-${year}`, 'Waiting for the designs');
+
+    expect(storedRequests()).toEqual([expect.objectContaining({ status: 'pending', requested_due_date: newDate, reason: 'Waiting for the designs' })]);
+    const managerMessage = harness.telegram.lastMessageTo(manager.id)!;
+    expect(managerMessage.body.text).toContain('Waiting for the designs');
+    expect(managerMessage.body.reply_markup.inline_keyboard[0].map((button: any) => button.callback_data))
+      .toEqual([`ext_approve_${storedRequests()[0].id}`, `ext_reject_${storedRequests()[0].id}`]);
+
+    // Only the manager decides
+    await harness.sendUpdate(callbackQuery(owner, `ext_approve_${storedRequests()[0].id}`));
+    expect(storedRequests()[0].status).toBe('pending');
+
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(manager, `ext_approve_${storedRequests()[0].id}`));
+
+    expect(storedRequests()[0]).toMatchObject({ status: 'approved', decided_by: String(manager.id) });
+    expect(harness.sheets.getTab(TASK_SHEET_ID, PROJECT)[2][6]).toBe(newDate);
+    expect(storedTask().dueDate.slice(0, 10)).toBe(newDate);
+    expect(harness.telegram.callsTo('editMessageText')[0].body.text).toContain('تمت الموافقة على التمديد');
+    expect(harness.telegram.lastMessageTo(owner.id)!.body.text).toContain('تمت الموافقة على طلب التمديد');
+
+    // The next sheet check doesn't report a due date change
+    await harness.checkTaskSheet();
+    expect(harness.telegram.sentMessages(owner.id)).toHaveLength(0);
+  });
+
+  it('keeps the due date when the manager rejects', async () => {
+    const dueDate = storedTask().dueDate;
+    await requestExtension(daysFromNow(10), 'Holiday');
+
+    await harness.sendUpdate(callbackQuery(manager, `ext_reject_${storedRequests()[0].id}`));
+
+    expect(storedRequests()[0].status).toBe('rejected');
+    expect(storedTask().dueDate).toBe(dueDate);
+    expect(harness.sheets.getTab(TASK_SHEET_ID, PROJECT)[2][6]).toBe(daysFromNow(-1));
+    expect(harness.telegram.lastMessageTo(owner.id)!.body.text).toContain('تم رفض طلب التمديد');
+  });
+
+  it('asks again for dates that are invalid or in the past', async () => {
+    await harness.sendUpdate(callbackQuery(owner, `task_extend_${storedTask().id}`));
+
+    await harness.sendUpdate(privateMessage(owner, 'next week'));
+    expect(harness.telegram.lastMessageTo(owner.id)!.body.text).toContain('صيغة التاريخ غير صحيحة');
+
+    await harness.sendUpdate(privateMessage(owner, daysFromNow(-2)));
+    expect(harness.telegram.lastMessageTo(owner.id)!.body.text).toContain('بعد اليوم');
+
+    await harness.sendUpdate(privateMessage(owner, daysFromNow(3)));
+    expect(harness.telegram.lastMessageTo(owner.id)!.body.text).toContain('سبب طلب التمديد');
+    expect(storedRequests()).toHaveLength(0);
+  });
+});
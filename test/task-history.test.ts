@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+import { callbackQuery, TestUser } from './helpers/updates';
+
+const manager: TestUser = { id: 1001, first_name: 'Mona' };
+const owner: TestUser = { id: 2002, first_name: 'Ali' };
+const stranger: TestUser = { id: 4004, first_name: 'Omar' };
+
+const DUE_DATE_COLUMN = 6;
+
+describe('task history', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(manager.id) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(owner.id) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', '']
+      ],
+      tasks: [
+        ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-3), daysFromNow(5), '', ''],
+        ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-3), daysFromNow(5), '', '']
+      ]
+    });
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  function taskId(): string {
+    return harness.db.rows<{ id: string }>('SELECT id FROM tasks WHERE ownerID = ?', 'M200')[0].id;
+  }
+
+  async function getHistory(id: string) {
+    const response = await harness.request(`/api/tasks/${id}/history`, { headers: { 'X-API-Key': SECRET_KEY } });
+    return { status: response.status, body: await response.json() as any };
+  }
+
+  it('records sheet changes and sent notifications', async () => {
+    const id = taskId();
+    const rows = harness.sheets.getTab(TASK_SHEET_ID, PROJECT);
+    rows[2][DUE_DATE_COLUMN] = daysFromNow(9);
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, rows);
+    harness.db.rows('UPDATE tasks SET last_sent = ?', new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString());
+
+    await harness.checkTaskSheet();
+
+    const { status, body } = await getHistory(id);
+    expect(status).toBe(200);
+    expect(body.data.events.map((event: any) => [event.event_type, event.field, event.source])).toEqual([
+      ['created', null, 'sheet_sync'],
+      ['notified', 'new', 'sheet_sync'],
+      ['notified', 'reminder', 'sheet_sync'],
+      ['changed', 'dueDate', 'sheet_sync']
+    ]);
+    expect(body.data.events[3].new_value.slice(0, 10)).toBe(daysFromNow(9));
+    expect(body.data.summary).toMatchObject({ dueDateChanges: 1, dueDateSlips: 1, notifications: { new: 1, reminder: 1 } });
+  });
+
+  it('records Telegram actions with the user who made them', async () => {
+    await harness.sendUpdate(callbackQuery(owner, `task_done_${taskId()}`));
+
+    const { body } = await getHistory(taskId());
+    expect(body.data.events).toEqual(expect.arrayContaining([
+      expect.objectContaining({ field: 'status', old_value: 'In progress', new_value: 'Completed', source: 'telegram', actor: String(owner.id) }),
+      expect.objectContaining({ field: 'completed_at', old_value: null, source: 'telegram' })
+    ]));
+  });
+
+  it('shows the history to the owner and the manager only', async () => {
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(manager, `task_history_${taskId()}`));
+
+    const message = harness.telegram.lastMessageTo(manager.id)!;
+    expect(message.body.text).toContain('سجلّ المهمّة');
+    expect(message.body.text).toContain('أُضيفت المهمّة');
+    expect(message.body.text).toContain('إشعار مهمّة جديدة');
+
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(stranger, `task_history_${taskId()}`));
+    expect(harness.telegram.sentMessages(stranger.id)).toHaveLength(0);
+    expect(harness.telegram.callsTo('answerCallbackQuery')[0].body).toMatchObject({ show_alert: true });
+  });
+
+  it('keeps the history of archived tasks', async () => {
+    const id = taskId();
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, harness.sheets.getTab(TASK_SHEET_ID, PROJECT).slice(0, 2));
+
+    await harness.checkTaskSheet();
+
+    const { status, body } = await getHistory(id);
+    expect(status).toBe(200);
+    expect(body.data.task).toBeNull();
+    expect(body.data.events.at(-1)).toMatchObject({ event_type: 'archived', new_value: 'deleted_from_sheet' });
+    expect((await getHistory('missing')).status).toBe(404);
+  });
+});
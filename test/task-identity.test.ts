@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_HEADERS, TASK_SHEET_ID } from './helpers/task-sheet';
+import { callbackQuery } from './helpers/updates';
+
+const MANAGER_CHAT = 1001;
+const OWNER_CHAT = 2002;
+const SECOND_OWNER_CHAT = 3003;
+const STATUS_COLUMN = 2;
+
+const TASK_ID_COLUMN = TASK_HEADERS.length;
+
+function taskRow(owner: string, task: string, status = 'In progress'): string[] {
+  return [owner, task, status, 'High', '5', daysFromNow(-3), daysFromNow(5), '', ''];
+}
+
+describe('stable task identity', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(MANAGER_CHAT) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(OWNER_CHAT) },
+      { membership_number: 'M300', latin_name: 'Sara', telegram_id: String(SECOND_OWNER_CHAT) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', ''],
+        ['M300', 'Sara', 'sara@example.org', '333', '']
+      ],
+      tasks: [
+        taskRow('Mona', 'Plan the sprint', 'Completed'),
+        taskRow('Ali', 'Build the landing page')
+      ]
+    });
+    await harness.checkTaskSheet();
+  });
+
+  afterEach(() => harness.dispose());
+
+  function tab(): string[][] {
+    return harness.sheets.getTab(TASK_SHEET_ID, PROJECT);
+  }
+
+  function storedTask(taskText: string) {
+    return harness.db.rows<{ id: string; row_number: number; sheet_row: number; completed_at: string | null }>(
+      'SELECT * FROM tasks WHERE taskText = ?', taskText
+    )[0];
+  }
+
+  it('adds a Task ID column and writes the stored IDs into it', () => {
+    expect(tab()[0][TASK_ID_COLUMN]).toBe('Task ID');
+    expect(tab()[1][TASK_ID_COLUMN]).toBe(storedTask('Plan the sprint').id);
+    expect(tab()[2][TASK_ID_COLUMN]).toBe(storedTask('Build the landing page').id);
+  });
+
+  it('keeps tasks when rows are inserted and sorted', async () => {
+    const landingPage = storedTask('Build the landing page');
+    const sprint = storedTask('Plan the sprint');
+    const [headers, sprintRow, landingPageRow] = tab();
+
+    // A new row inserted at the top, the rest sorted the other way around
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [headers, taskRow('Sara', 'Write the copy'), landingPageRow, sprintRow]);
+    await harness.checkTaskSheet();
+
+    expect(storedTask('Build the landing page')).toMatchObject({ id: landingPage.id, row_number: 2, sheet_row: 3 });
+    expect(storedTask('Plan the sprint')).toMatchObject({ id: sprint.id, completed_at: sprint.completed_at });
+
+    // Only the owner of the inserted task hears about it
+    expect(harness.telegram.sentMessages(SECOND_OWNER_CHAT)).toEqual([expect.stringContaining('مهمّة جديدة')]);
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toHaveLength(0);
+    expect(tab()[1][TASK_ID_COLUMN]).toBe(storedTask('Write the copy').id);
+  });
+
+  it('archives tasks whose row was deleted', async () => {
+    const landingPage = storedTask('Build the landing page');
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, tab().slice(0, 2));
+
+    await harness.checkTaskSheet();
+
+    expect(storedTask('Build the landing page')).toBeUndefined();
+    expect(harness.db.rows('SELECT id, archive_reason FROM archived_tasks')).toEqual([
+      { id: landingPage.id, archive_reason: 'deleted_from_sheet' }
+    ]);
+  });
+
+  it('matches tasks stored before the Task ID column by their content', async () => {
+    const landingPage = storedTask('Build the landing page');
+    // The column is removed, then a row is inserted above the task
+    harness.seedTaskSheet({
+      tasks: [
+        taskRow('Mona', 'Plan the sprint', 'Completed'),
+        taskRow('Sara', 'Write the copy'),
+        taskRow('Ali', 'Build the landing page')
+      ]
+    });
+
+    await harness.checkTaskSheet();
+
+    expect(storedTask('Build the landing page').id).toBe(landingPage.id);
+    expect(tab()[3][TASK_ID_COLUMN]).toBe(landingPage.id);
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toHaveLength(0);
+  });
+
+  it('writes Telegram changes to the row of the task after rows moved', async () => {
+    const landingPage = storedTask('Build the landing page');
+    const [headers, sprintRow, landingPageRow] = tab();
+    // Sorted after the last check, the stored sheet_row now points at the sprint
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [headers, landingPageRow, sprintRow]);
+
+    await harness.sendUpdate(callbackQuery({ id: OWNER_CHAT, first_name: 'Ali' }, `task_done_${landingPage.id}`));
+
+    expect(tab()[1][STATUS_COLUMN]).toBe('Completed');
+    expect(tab()[2][STATUS_COLUMN]).toBe('Completed');
+    expect(tab()[1][TASK_ID_COLUMN]).toBe(landingPage.id);
+
+    // A task whose row was deleted is not written anywhere
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [headers, taskRow('Sara', 'Write the copy')]);
+    harness.sheets.writes.length = 0;
+    await harness.sendUpdate(callbackQuery({ id: OWNER_CHAT, first_name: 'Ali' }, `task_progress_${landingPage.id}`));
+    expect(harness.sheets.writes).toHaveLength(0);
+  });
+
+  it('archives with empty tabs and adds the Task ID column only to tabs with tasks', async () => {
+    harness.sheets.setTab(TASK_SHEET_ID, 'Notes', []);
+    harness.sheets.setTab(TASK_SHEET_ID, 'Ideas', [TASK_HEADERS]);
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, tab().slice(0, 2));
+
+    await harness.checkTaskSheet();
+
+    expect(storedTask('Build the landing page')).toBeUndefined();
+    expect(harness.sheets.getTab(TASK_SHEET_ID, 'Ideas')[0]).toEqual(TASK_HEADERS);
+  });
+
+  it('gives a copied row its own task', async () => {
+    const rows = tab();
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [...rows, [...rows[2]]]);
+
+    await harness.checkTaskSheet();
+
+    expect(harness.db.rows('SELECT id FROM tasks WHERE taskText = ?', 'Build the landing page')).toHaveLength(2);
+    expect(tab()[3][TASK_ID_COLUMN]).not.toBe(tab()[2][TASK_ID_COLUMN]);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { callbackQuery, privateMessage, TestUser } from './helpers/updates';
+import { TASKS_PAGE_SIZE } from '../src/services/task-follower/task-list-service';
+
+const manager: TestUser = { id: 3001, first_name: 'Mona' };
+const owner: TestUser = { id: 3002, first_name: 'Ali' };
+const colleague: TestUser = { id: 3003, first_name: 'Deniz' };
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+describe('/mytasks and /team', () => {
+  let harness: TestHarness;
+  let rowNumber: number;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    rowNumber = 0;
+  });
+
+  afterEach(() => harness.dispose());
+
+  function addTask(fields: { owner: TestUser; project?: string; text: string; priority?: string; due?: string; completedAt?: string }): void {
+    rowNumber++;
+    harness.db.rows(
+      `INSERT INTO tasks (created_at, sheetID, projectName, pageID, row_number, ownerID, ownerName, ownerEmail, ownerPhone,
+        owner_telegram_id, managerID, managerName, manager_telegram_id, points, status, taskText, priority, dueDate, completed_at)
+       VALUES (?, 'sheet', ?, '0', ?, ?, ?, '', '', ?, 'M100', 'Mona', ?, '3', ?, ?, ?, ?, ?)`,
+      daysFromNow(-10), fields.project ?? 'Website', rowNumber, `M${fields.owner.id}`, fields.owner.first_name,
+      String(fields.owner.id), String(manager.id), fields.completedAt ? 'Completed' : 'In progress',
+      fields.text, fields.priority ?? 'P2', fields.due ?? daysFromNow(5), fields.completedAt ?? null
+    );
+  }
+
+  async function command(user: TestUser, text: string) {
+    harness.telegram.reset();
+    await harness.sendUpdate(privateMessage(user, text));
+    return harness.telegram.lastMessageTo(user.id)!.body;
+  }
+
+  it('lists open, overdue and recently completed tasks by project', async () => {
+    addTask({ owner, text: 'Write the copy', priority: 'P1' });
+    addTask({ owner, text: 'Fix the footer', due: daysFromNow(-2) });
+    addTask({ owner, project: 'Mobile', text: 'Release 1.2', completedAt: daysFromNow(-1) });
+    addTask({ owner, project: 'Mobile', text: 'Old release', completedAt: daysFromNow(-30) });
+    addTask({ owner: colleague, text: 'Not mine' });
+
+    const message = await command(owner, '/mytasks');
+
+    expect(message.text).toContain('متأخّرة: 1');
+    expect(message.text).toContain('*Mobile*');
+    expect(message.text).toContain('Release 1\\.2');
+    expect(message.text).toContain('مستعجل');
+    expect(message.text).not.toContain('Old release');
+    expect(message.text).not.toContain('Not mine');
+    // Overdue first inside a project
+    expect(message.text.indexOf('Fix the footer')).toBeLessThan(message.text.indexOf('Write the copy'));
+    expect(message.reply_markup).toBeUndefined();
+  });
+
+  it('pages through long lists with buttons', async () => {
+    for (let i = 1; i <= TASKS_PAGE_SIZE + 2; i++) {
+      addTask({ owner, text: `Task ${String(i).padStart(2, '0')}`, due: daysFromNow(i) });
+    }
+
+    const first = await command(owner, '/mytasks');
+    expect(first.text).toContain('الصفحة 1 من 2');
+    expect(first.reply_markup.inline_keyboard).toEqual([[expect.objectContaining({ callback_data: 'mytasks_page_1' })]]);
+
+    harness.telegram.reset();
+    await harness.sendUpdate(callbackQuery(owner, 'mytasks_page_1', 77));
+
+    const edit = harness.telegram.callsTo('editMessageText')[0].body;
+    expect(edit.message_id).toBe(77);
+    expect(edit.text).toContain(`Task ${TASKS_PAGE_SIZE + 2}`);
+    expect(edit.text).not.toContain('Task 01');
+    expect(edit.reply_markup.inline_keyboard).toEqual([[expect.objectContaining({ callback_data: 'mytasks_page_0' })]]);
+  });
+
+  it('shows a manager the tasks of their team by owner', async () => {
+    addTask({ owner, text: 'Write the copy' });
+    addTask({ owner: colleague, text: 'Fix the footer', due: daysFromNow(-2) });
+    addTask({ owner: colleague, text: 'Release 1.2', completedAt: daysFromNow(0) });
+
+    const message = await command(manager, '/team');
+
+    expect(message.text).toContain('منجزة خلال 24 ساعة: 1');
+    expect(message.text).toContain('متأخّرة: 1');
+    expect(message.text).toContain('👤 *Ali*');
+    expect(message.text).toContain('👤 *Deniz*');
+    expect(message.text.indexOf('Fix the footer')).toBeGreaterThan(message.text.indexOf('Deniz'));
+
+    expect((await command(owner, '/team')).text).toContain('لا توجد مهامّ تديرها');
+  });
+});
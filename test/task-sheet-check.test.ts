@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+
+const MANAGER_CHAT = 1001;
+const OWNER_CHAT = 2002;
+
+
+function taskRow(overrides: Partial<Record<'owner' | 'task' | 'status' | 'priority' | 'points' | 'start' | 'due', string>> = {}): string[] {
+  return [
+    overrides.owner ?? 'Ali',
+    overrides.task ?? 'Build the landing page',
+    overrides.status ?? 'In progress',
+    overrides.priority ?? 'High',
+    overrides.points ?? '5',
+    overrides.start ?? daysFromNow(-3),
+    overrides.due ?? daysFromNow(5),
+    '',
+    ''
+  ];
+}
+
+describe('task sheet check', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(MANAGER_CHAT), telegram_username: 'mona' },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(OWNER_CHAT), telegram_username: 'ali' },
+      { membership_number: 'M300', latin_name: 'Deniz' }
+    ]);
+
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', 'mona'],
+        ['M200', 'Ali', 'ali@example.org', '222', 'ali'],
+        ['M300', 'Deniz', 'deniz@example.org', '333', '']
+      ]
+    });
+  });
+
+  afterEach(() => harness.dispose());
+
+  // The owner of the first row is the project manager
+  function setTasks(...rows: string[][]): void {
+    harness.seedTaskSheet({
+      tasks: [
+        taskRow({ owner: 'Mona', task: 'Plan the sprint', status: 'Completed' }),
+        ...rows
+      ]
+    });
+  }
+
+  function storedTask(rowNumber: number) {
+    return harness.db.rows<{ id: string; last_sent: string | null; last_reported: string | null; completed_at: string | null; ownerID: string }>(
+      'SELECT * FROM tasks WHERE sheetID = ? AND projectName = ? AND row_number = ?', TASK_SHEET_ID, PROJECT, rowNumber
+    )[0];
+  }
+
+  function setLastSent(rowNumber: number, daysAgo: number): void {
+    harness.db.rows(
+      'UPDATE tasks SET last_sent = ? WHERE sheetID = ? AND row_number = ?',
+      new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString(), TASK_SHEET_ID, rowNumber
+    );
+  }
+
+  it('requires an API key', async () => {
+    const response = await harness.request(`/api/tasks/check-sheet/${TASK_SHEET_ID}`, { method: 'POST' });
+    expect(response.status).toBe(401);
+  });
+
+  it('announces new tasks once and stores them', async () => {
+    setTasks(taskRow());
+
+    await harness.checkTaskSheet();
+
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toHaveLength(1);
+    expect(harness.telegram.sentMessages(OWNER_CHAT)[0]).toContain('مهمّة جديدة');
+    expect(storedTask(2).ownerID).toBe('M200');
+    expect(storedTask(2).last_sent).not.toBeNull();
+
+    // Completed tasks are stored but not announced
+    expect(harness.telegram.sentMessages(MANAGER_CHAT)).toHaveLength(0);
+    expect(storedTask(1).completed_at).not.toBeNull();
+
+    // Nothing new within 24 hours
+    await harness.checkTaskSheet();
+    expect(harness.telegram.calls.filter(call => call.method === 'sendMessage')).toHaveLength(0);
+  });
+
+  it('reminds the owner once the last message is a day old', async () => {
+    setTasks(taskRow());
+    await harness.checkTaskSheet();
+    setLastSent(2, 2);
+
+    await harness.checkTaskSheet();
+
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toEqual([expect.stringContaining('تذكير بالمهمّة')]);
+  });
+
+  it('warns the owner about late tasks', async () => {
+    setTasks(taskRow({ due: daysFromNow(-1) }));
+    await harness.checkTaskSheet();
+    setLastSent(2, 2);
+
+    await harness.checkTaskSheet();
+
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toEqual([expect.stringContaining('مهمّة متأخرة')]);
+  });
+
+  it('reports missing data to the manager at most once a day', async () => {
+    setTasks(taskRow({ points: '' }));
+
+    await harness.checkTaskSheet();
+
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toHaveLength(0);
+    expect(harness.telegram.sentMessages(MANAGER_CHAT)).toEqual([expect.stringContaining('بيانات ناقصة')]);
+    expect(storedTask(2).last_reported).not.toBeNull();
+
+    await harness.checkTaskSheet();
+    expect(harness.telegram.sentMessages(MANAGER_CHAT)).toHaveLength(0);
+  });
+
+  it('tells the manager when the owner cannot be reached', async () => {
+    setTasks(taskRow({ owner: 'Deniz' }));
+
+    await harness.checkTaskSheet();
+
+    expect(harness.telegram.sentMessages(MANAGER_CHAT)).toEqual([expect.stringContaining('فشل إرسال رسالة إلى عضو')]);
+  });
+
+  it('does not announce tasks that have not started yet', async () => {
+    setTasks(taskRow({ start: daysFromNow(3) }));
+
+    await harness.checkTaskSheet();
+
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toHaveLength(0);
+    expect(storedTask(2).last_sent).toBeNull();
+  });
+});
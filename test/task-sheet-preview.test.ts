@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+
+const MANAGER_CHAT = 1001;
+const OWNER_CHAT = 2002;
+
+
+function taskRow(owner: string, task: string, due: string, status = 'In progress', points = '5'): string[] {
+  return [owner, task, status, 'High', points, daysFromNow(-10), due, '', ''];
+}
+
+describe('sheet check preview', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(MANAGER_CHAT) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(OWNER_CHAT) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', '']
+      ],
+      tasks: [
+        taskRow('Mona', 'Plan the sprint', daysFromNow(5), 'Completed'),
+        taskRow('Ali', 'Build the landing page', daysFromNow(5)),
+        taskRow('Ali', 'Fix the footer', daysFromNow(5), 'In progress', '')
+      ]
+    });
+  });
+
+  afterEach(() => harness.dispose());
+
+  async function checkSheet(dryRun: boolean) {
+    const response = await harness.checkTaskSheet({ dryRun });
+    return (await response.json() as any).data;
+  }
+
+  function expectNothingChanged(sheetBefore: string[][], tasksBefore: unknown[]): void {
+    expect(harness.telegram.callsTo('sendMessage')).toHaveLength(0);
+    expect(harness.sheets.getTab(TASK_SHEET_ID, PROJECT)).toEqual(sheetBefore);
+    expect(harness.db.rows('SELECT * FROM tasks ORDER BY row_number')).toEqual(tasksBefore);
+  }
+
+  it('previews a new sheet without messaging or storing anything', async () => {
+    const sheetBefore = harness.sheets.getTab(TASK_SHEET_ID, PROJECT);
+
+    const preview = await checkSheet(true);
+
+    expect(preview.summary).toMatchObject({ created: 3, updated: 0, skipped: 0, errors: 0, notifications: 2 });
+    expect(preview.tasks.map((task: any) => [task.action, task.sheetRow, task.taskText])).toEqual([
+      ['create', 2, 'Plan the sprint'],
+      ['create', 3, 'Build the landing page'],
+      ['create', 4, 'Fix the footer']
+    ]);
+    expect(preview.notifications).toEqual([
+      expect.objectContaining({
+        kind: 'new',
+        recipient: { membershipNumber: 'M200', telegramId: String(OWNER_CHAT), name: 'Ali' },
+        taskText: 'Build the landing page',
+        text: expect.stringContaining('مهمّة جديدة')
+      }),
+      expect.objectContaining({
+        kind: 'missing_data',
+        recipient: expect.objectContaining({ membershipNumber: 'M100', name: 'Mona' }),
+        text: expect.stringContaining('النقاط')
+      })
+    ]);
+    expectNothingChanged(sheetBefore, []);
+
+    // The real check then sends what the preview showed
+    await checkSheet(false);
+    expect(harness.telegram.sentMessages(OWNER_CHAT)).toEqual([preview.notifications[0].text]);
+  });
+
+  it('previews reminders, late tasks, shame and date changes of stored tasks', async () => {
+    await checkSheet(false);
+    harness.db.rows('UPDATE tasks SET last_sent = ?', new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString());
+    harness.db.rows('UPDATE tasks SET dueDate = ? WHERE taskText = ?', new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), 'Build the landing page');
+    const [headers, sprint, landingPage] = harness.sheets.getTab(TASK_SHEET_ID, PROJECT);
+    // The footer row is deleted and the landing page is three days late
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [headers, sprint, [...landingPage.slice(0, 6), daysFromNow(-3), ...landingPage.slice(7)]]);
+    const sheetBefore = harness.sheets.getTab(TASK_SHEET_ID, PROJECT);
+    const tasksBefore = harness.db.rows('SELECT * FROM tasks ORDER BY row_number');
+
+    const preview = await checkSheet(true);
+
+    expect(preview.notifications.map((notification: any) => [notification.kind, notification.recipient.name])).toEqual([
+      ['late', 'Ali'],
+      ['shame', 'Mona']
+    ]);
+    expect(preview.notifications[1].text).toContain('فضيحة');
+    expect(preview.tasks.map((task: any) => [task.action, task.taskText])).toEqual([
+      ['skip', 'Plan the sprint'],
+      ['update', 'Build the landing page']
+    ]);
+    expect(preview.tasks[1].changes).toContain('last_sent');
+    expect(preview.archived).toEqual([expect.objectContaining({ taskText: 'Fix the footer' })]);
+    expectNothingChanged(sheetBefore, tasksBefore);
+  });
+});
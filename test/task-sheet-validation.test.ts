@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SECRET_KEY, TestHarness } from './helpers/harness';
+import { daysFromNow, PROJECT, TASK_SHEET_ID } from './helpers/task-sheet';
+
+const MANAGER_CHAT = 1001;
+const OWNER_CHAT = 2002;
+
+// Headers as a team might name them, none of which the column guessing knows
+const CUSTOM_HEADERS = ['Assignee', 'Work item', 'State', 'Importance', 'Effort', 'Kickoff', 'Deadline', 'Comments', 'Phase'];
+const CUSTOM_MAPPING = {
+  owner: 'Assignee',
+  task: 'Work item',
+  status: 'State',
+  priority: 'Importance',
+  points: 'Effort',
+  startDate: 'Kickoff',
+  dueDate: 'Deadline',
+  notes: 'Comments',
+  milestone: 'Phase'
+};
+
+describe('task sheet column mapping and validation', () => {
+  let harness: TestHarness;
+  let registeredId: string;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M100', latin_name: 'Mona', telegram_id: String(MANAGER_CHAT) },
+      { membership_number: 'M200', latin_name: 'Ali', telegram_id: String(OWNER_CHAT) }
+    ]);
+    harness.seedTaskSheet({
+      contacts: [
+        ['M100', 'Mona', 'mona@example.org', '111', ''],
+        ['M200', 'Ali', 'ali@example.org', '222', '']
+      ]
+    });
+
+    const response = await api('/api/task-sheets', 'POST', { sheetID: TASK_SHEET_ID, sheetName: 'Website tasks' });
+    expect(response.status).toBe(200);
+    registeredId = (await response.json() as any).data.id;
+  });
+
+  afterEach(() => harness.dispose());
+
+  function api(path: string, method = 'GET', body?: unknown): Promise<Response> {
+    return harness.request(path, {
+      method,
+      headers: { 'X-API-Key': SECRET_KEY, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  async function validate() {
+    const response = await api(`/api/task-sheets/${registeredId}/validate`);
+    expect(response.status).toBe(200);
+    return (await response.json() as any).data;
+  }
+
+  it('stores the column mapping and rejects unknown columns', async () => {
+    const rejected = await api(`/api/task-sheets/${registeredId}`, 'PUT', { column_mapping: { assignee: 'Assignee' } });
+    expect(rejected.status).toBe(400);
+
+    const response = await api(`/api/task-sheets/${registeredId}`, 'PUT', { column_mapping: CUSTOM_MAPPING });
+    expect(response.status).toBe(200);
+    expect(JSON.parse(harness.db.rows<{ column_mapping: string }>('SELECT column_mapping FROM sheets')[0].column_mapping))
+      .toEqual(CUSTOM_MAPPING);
+
+    await api(`/api/task-sheets/${registeredId}`, 'PUT', { column_mapping: null });
+    expect(harness.db.rows('SELECT column_mapping FROM sheets')).toEqual([{ column_mapping: null }]);
+  });
+
+  it('reads tasks through the mapped headers', async () => {
+    await api(`/api/task-sheets/${registeredId}`, 'PUT', { column_mapping: CUSTOM_MAPPING });
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [
+      CUSTOM_HEADERS,
+      ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-3), daysFromNow(5), '', ''],
+      ['Ali', 'Build the landing page', 'In progress', 'High', '5', daysFromNow(-3), daysFromNow(5), 'Draft ready', '']
+    ]);
+
+    await harness.checkTaskSheet();
+
+    expect(harness.db.rows('SELECT ownerID, taskText, status, notes FROM tasks ORDER BY row_number')).toEqual([
+      { ownerID: 'M100', taskText: 'Plan the sprint', status: 'Completed', notes: '' },
+      { ownerID: 'M200', taskText: 'Build the landing page', status: 'In progress', notes: 'Draft ready' }
+    ]);
+    // The Task ID column is added after the mapped ones
+    expect(harness.sheets.getTab(TASK_SHEET_ID, PROJECT)[0][CUSTOM_HEADERS.length]).toBe('Task ID');
+  });
+
+  it('reports sheet problems without notifying anyone or storing tasks', async () => {
+    harness.sheets.setTab(TASK_SHEET_ID, PROJECT, [
+      ['Owner', 'Task', 'Status', 'Priority', 'Points', 'Start date', 'Delivery date', 'Notes'],
+      ['Mona', 'Plan the sprint', 'Completed', 'High', '3', daysFromNow(-3), daysFromNow(5), ''],
+      ['Ali', 'Build the landing page', 'In progress', 'High', '5', 'soon', daysFromNow(5), ''],
+      ['Omar', 'Write the copy', 'In progress', 'Low', '2', daysFromNow(-3), daysFromNow(5), ''],
+      ['ali', ' Build the landing page ', 'In progress', 'High', '5', daysFromNow(-3), '31/31/2026', '']
+    ]);
+
+    const report = await validate();
+
+    expect(report.valid).toBe(false);
+    expect(report.contactsCount).toBe(2);
+    expect(report.tabs).toEqual([expect.objectContaining({
+      projectName: PROJECT,
+      rowCount: 4,
+      missingHeaders: ['milestone'],
+      invalidDates: [
+        { row: 3, column: 'startDate', value: 'soon' },
+        { row: 5, column: 'dueDate', value: '31/31/2026' }
+      ],
+      unknownOwners: [{ row: 4, owner: 'Omar' }],
+      duplicateRows: [{ rows: [3, 5], owner: 'ali', task: 'build the landing page' }]
+    })]);
+    expect(report.tabs[0].columns).toMatchObject({ owner: 'Owner', dueDate: 'Delivery date', milestone: null });
+
+    expect(harness.telegram.callsTo('sendMessage')).toHaveLength(0);
+    expect(harness.db.rows('SELECT id FROM tasks')).toHaveLength(0);
+  });
+
+  it('returns 404 for an unknown sheet', async () => {
+    const response = await api('/api/task-sheets/missing/validate');
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TestHarness } from './helpers/harness';
+import { privateMessage, TestUser } from './helpers/updates';
+import { MemberPreferencesService } from '../src/services/member-preferences';
+
+const user: TestUser = { id: 5001, first_name: 'Sara', username: 'sara_t' };
+
+function extractCode(text: string): string {
+  const match = text.match(/: (\d{6})/);
+  if (!match) throw new Error('No verification code in email');
+  return match[1];
+}
+
+function extractLink(text: string): string {
+  const match = text.match(/https:\/\/\S+\/telegram\/verify\?token=[^\s"<]+/);
+  if (!match) throw new Error('No verification link in email');
+  return match[0];
+}
+
+describe('member verification', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await TestHarness.create();
+    harness.setMembers([
+      { membership_number: 'M001', latin_name: 'Sara Test', email: 'sara@example.org' },
+      { membership_number: 'M002', latin_name: 'Linked Member', email: 'linked@example.org', telegram_id: '7777' }
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    harness.dispose();
+  });
+
+  // /verify, then the membership number, which emails a code and a link
+  async function requestCode(): Promise<{ code: string; link: string }> {
+    await harness.sendUpdate(privateMessage(user, '/verify'));
+    await harness.sendUpdate(privateMessage(user, 'M001'));
+
+    const mail = harness.smtp.lastMailTo('sara@example.org');
+    expect(mail).toBeDefined();
+    return { code: extractCode(mail!.text), link: extractLink(mail!.text) };
+  }
+
+  it('rejects webhook calls without the secret token', async () => {
+    const response = await harness.request('/telegram/webhook', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ update_id: 1, ...privateMessage(user, '/verify') })
+    });
+
+    expect(response.status).toBe(401);
+    expect(harness.telegram.calls).toHaveLength(0);
+  });
+
+  it('processes the retry of an update that failed', async () => {
+    const update = { update_id: 901, ...privateMessage(user, '/help') };
+    vi.spyOn(MemberPreferencesService.prototype, 'getLanguage').mockRejectedValueOnce(new Error('D1 unavailable'));
+
+    expect((await harness.sendUpdate(update)).status).toBe(500);
+    expect((await harness.sendUpdate(update)).status).toBe(200);
+
+    expect(harness.telegram.sentMessages(user.id)).toHaveLength(1);
+  });
+
+  it('asks users to join the main channel first', async () => {
+    harness.telegram.on('getChatMember', body => ({ status: 'left', user: { id: body.user_id } }));
+
+    await harness.sendUpdate(privateMessage(user, '/verify'));
+
+    const reply = harness.telegram.lastMessageTo(user.id)!;
+    expect(reply.body.reply_markup.inline_keyboard[1][0].callback_data).toBe('check_subscription');
+    expect(harness.smtp.sent).toHaveLength(0);
+  });
+
+  it('links the Telegram account with the emailed code', async () => {
+    const { code } = await requestCode();
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('sar\\*\\*\\*\\*ra@example\\.org');
+
+    await harness.sendUpdate(privateMessage(user, code));
+
+    const member = harness.getSheetMembers().find(m => m.membership_number === 'M001')!;
+    expect(member.telegram_id).toBe(String(user.id));
+    expect(member.telegram_username).toBe('sara_t');
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('تم التحقق بنجاح');
+
+    // The mirror is updated with the sheet, and the session is gone
+    expect(harness.db.rows('SELECT telegram_id FROM members WHERE membership_number = ?', 'M001')).toEqual([{ telegram_id: String(user.id) }]);
+    expect(harness.db.rows('SELECT * FROM verification_sessions')).toHaveLength(0);
+  });
+
+  it('never stores the code in plain text', async () => {
+    const { code } = await requestCode();
+
+    const [session] = harness.db.rows<{ code_hash: string }>('SELECT code_hash FROM verification_sessions');
+    expect(session.code_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(session.code_hash).not.toContain(code);
+  });
+
+  it('counts wrong codes and locks the session at the limit', async () => {
+    const { code } = await requestCode();
+    const wrongCode = code === '000000' ? '111111' : '000000';
+
+    await harness.sendUpdate(privateMessage(user, wrongCode));
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('المحاولات المتبقية: 4');
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await harness.sendUpdate(privateMessage(user, wrongCode));
+    }
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('تم إيقاف التحقق مؤقتاً');
+
+    // Even the right code is refused while locked
+    await harness.sendUpdate(privateMessage(user, code));
+    expect(harness.getSheetMembers().find(m => m.membership_number === 'M001')!.telegram_id).toBe('');
+  });
+
+  it('does not send another email during the resend cooldown', async () => {
+    await requestCode();
+
+    await harness.sendUpdate(privateMessage(user, '/verify'));
+
+    expect(harness.smtp.sent).toHaveLength(1);
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('ثانية');
+  });
+
+  it('lets the user retry when the email could not be sent', async () => {
+    harness.smtp.failNextConnect = true;
+
+    await harness.sendUpdate(privateMessage(user, '/verify'));
+    await harness.sendUpdate(privateMessage(user, 'M001'));
+
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('تعذر إرسال بريد التحقق');
+    expect(harness.db.rows('SELECT * FROM verification_sessions')).toHaveLength(0);
+
+    await requestCode();
+    expect(harness.smtp.sent).toHaveLength(1);
+  });
+
+  it('refuses membership numbers linked to another account', async () => {
+    await harness.sendUpdate(privateMessage(user, '/verify'));
+    await harness.sendUpdate(privateMessage(user, 'M002'));
+
+    expect(harness.smtp.sent).toHaveLength(0);
+    expect(harness.telegram.lastMessageTo(user.id)!.body.text).toContain('مسجل بالفعل مع حساب تيليجرام آخر');
+  });
+
+  describe('email link', () => {
+    it('links the account once and rejects reuse', async () => {
+      const { link } = await requestCode();
+
+      const first = await harness.request(link);
+      expect(first.status).toBe(200);
+      expect(harness.getSheetMembers().find(m => m.membership_number === 'M001')!.telegram_id).toBe(String(user.id));
+
+      const second = await harness.request(link);
+      expect(second.status).toBe(410);
+    });
+
+    it('keeps the link usable when the account could not be linked', async () => {
+      const { link } = await requestCode();
+      harness.setMembers([{ membership_number: 'M002', latin_name: 'Linked Member', telegram_id: '7777' }]);
+
+      const failed = await harness.request(link);
+      expect(await failed.text()).toContain('حدث خطأ أثناء التحقق');
+
+      harness.setMembers([{ membership_number: 'M001', latin_name: 'Sara Test', email: 'sara@example.org' }]);
+      const retried = await harness.request(link);
+      expect(retried.status).toBe(200);
+      expect(harness.getSheetMembers().find(m => m.membership_number === 'M001')!.telegram_id).toBe(String(user.id));
+    });
+
+    it('rejects tampered tokens', async () => {
+      const { link } = await requestCode();
+      const url = new URL(link);
+      const [payload, signature] = url.searchParams.get('token')!.split('.');
+      const forged = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      forged.membership_number = 'M002';
+      url.searchParams.set('token', `${Buffer.from(JSON.stringify(forged)).toString('base64url')}.${signature}`);
+
+      const response = await harness.request(url.toString());
+
+      expect(response.status).toBe(400);
+      expect(harness.sheets.writes).toHaveLength(0);
+    });
+
+    it('stops working once the code was used', async () => {
+      const { code, link } = await requestCode();
+      await harness.sendUpdate(privateMessage(user, code));
+
+      const response = await harness.request(link);
+
+      expect(response.status).toBe(410);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // The SMTP client needs cloudflare:sockets, which only exists in the Workers runtime
+      'worker-mailer': fileURLToPath(new URL('./test/fakes/worker-mailer.ts', import.meta.url))
+    }
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+    // The bot logs every step; only show logs of failing tests
+    silent: 'passed-only'
+  }
+});